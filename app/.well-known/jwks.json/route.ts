@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getSignedUrlJwks } from "@/lib/keyring";
+
+// Public keys for signed URLs signed with EdDSA or ES256, so other servers
+// can verify them (see lib/signed-url-verifier.ts). Keys are listed until
+// their grace period after rotation ends.
+export async function GET() {
+  try {
+    const jwks = await getSignedUrlJwks();
+    return NextResponse.json(jwks, {
+      headers: {
+        "Cache-Control": "public, max-age=300",
+        "Access-Control-Allow-Origin": "*",
+      },
+    });
+  } catch (error) {
+    console.error("JWKS error:", error);
+    return NextResponse.json(
+      { error: "Failed to load signing keys" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+    },
+  });
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifySession, getTokenFromCookie } from "@/lib/auth";
-import { database } from "@/lib/database";
+import { getUploadPolicy, getUploadUsage } from "@/lib/upload-policies";
 
 export async function GET(request: NextRequest) {
   try {
@@ -45,9 +45,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get additional user stats
-    const fileCount = await database.getUserFileCount(user.id);
-    const storageUsed = await database.getUserStorageUsed(user.id);
+    // Usage, against the limits of the user's upload policy
+    const { fileCount, storageUsed } = await getUploadUsage(user.id);
+    const policy = await getUploadPolicy(user.id);
 
     return NextResponse.json(
       {
@@ -60,6 +60,14 @@ export async function GET(request: NextRequest) {
             fileCount,
             storageUsed,
           },
+          plan: policy.plan,
+          limits: {
+            maxFileSize: policy.maxFileSize,
+            storageQuota: policy.storageQuota,
+            maxFileCount: policy.maxFileCount,
+            allowedMimeTypes: policy.allowedMimeTypes,
+            maxExpiryHours: policy.maxExpiryHours,
+          },
         },
       },
       { status: 200 },
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { downloadFile, getFileInfo } from "@/lib/file-utils";
+import {
+  getDownloadableFile,
+  getFileInfo,
+  isDownloadLimitReached,
+} from "@/lib/file-utils";
+import { createFileResponse } from "@/lib/file-response";
+import { parseFileMetadata } from "@/lib/file-metadata";
 
 export async function GET(
   request: NextRequest,
@@ -15,6 +21,21 @@ export async function GET(
       );
     }
 
+    // Password-protected links are opened through the unlock page, which
+    // hands out a short-lived signed URL instead
+    const linkFile = await getFileInfo(token);
+    if (linkFile?.link_password_hash) {
+      const unlockUrl = `/unlock/${encodeURIComponent(token)}`;
+      if (request.headers.get("accept")?.includes("text/html")) {
+        return NextResponse.redirect(new URL(unlockUrl, request.url), 303);
+      }
+
+      return NextResponse.json(
+        { error: "Password required", passwordProtected: true, unlockUrl },
+        { status: 401 }
+      );
+    }
+
     // Check if this is a request for file info only
     const url = new URL(request.url);
     const infoOnly = url.searchParams.get("info") === "true";
@@ -47,36 +68,43 @@ export async function GET(
           id: fileInfo.id,
           originalName: fileInfo.original_name,
           mimeType: fileInfo.mime_type,
+          detectedMimeType: fileInfo.detected_mime_type ?? null,
           size: fileInfo.size,
+          contentHash: fileInfo.content_hash,
+          clientEncrypted: !!fileInfo.client_encrypted,
+          scanStatus: fileInfo.scan_status ?? null,
+          metadata: parseFileMetadata(fileInfo),
+          version: fileInfo.version,
           createdAt: fileInfo.created_at,
           expiresAt: fileInfo.expires_at,
           downloadCount: fileInfo.download_count,
+          maxDownloads: fileInfo.max_downloads ?? null,
           isPublic: fileInfo.is_public,
           description: fileInfo.description,
         },
       });
     }
 
+    // Files whose download limit is used up have had their bytes deleted
+    if (linkFile && isDownloadLimitReached(linkFile)) {
+      return NextResponse.json(
+        { error: "Download limit reached" },
+        { status: 410 }
+      );
+    }
+
     // Download the file
-    const fileData = await downloadFile(token);
+    const file = await getDownloadableFile(token);
 
-    if (!fileData) {
+    if (!file) {
       return NextResponse.json(
         { error: "File not found, expired, or access denied" },
         { status: 404 }
       );
     }
 
-    // Create response with file content
-    const response = new NextResponse(fileData.buffer);
-
-    // Set appropriate headers
-    response.headers.set("Content-Type", fileData.mimeType);
-    response.headers.set("Content-Length", fileData.size.toString());
-    response.headers.set(
-      "Content-Disposition",
-      `attachment; filename="${encodeURIComponent(fileData.filename)}"`
-    );
+    // Stream the file, honouring Range and conditional request headers
+    const response = await createFileResponse(request, file, "attachment");
     response.headers.set("Cache-Control", "private, no-cache");
 
     // Add security headers
@@ -101,7 +129,10 @@ export async function OPTIONS() {
     headers: {
       "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Methods": "GET, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Access-Control-Allow-Headers":
+        "Content-Type, Authorization, Range, If-Range, If-None-Match, If-Modified-Since",
+      "Access-Control-Expose-Headers":
+        "Content-Range, Content-Length, Accept-Ranges, ETag, Last-Modified",
     },
   });
 }
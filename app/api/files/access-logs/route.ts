@@ -2,25 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth";
 import { getFileAccessLogs, detectSuspiciousActivity } from "@/lib/secure-access";
 import { database } from "@/lib/database";
-
-// Helper to get client IP address
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get("x-forwarded-for");
-  const realIP = request.headers.get("x-real-ip");
-  const cfIP = request.headers.get("cf-connecting-ip");
-
-  if (forwarded) {
-    return forwarded.split(",")[0].trim();
-  }
-  if (realIP) {
-    return realIP;
-  }
-  if (cfIP) {
-    return cfIP;
-  }
-
-  return "unknown";
-}
+import { getClientIP } from "@/lib/client-ip";
 
 export async function GET(request: NextRequest) {
   try {
@@ -0,0 +1,316 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { toWebStream } from "@/lib/file-utils";
+import {
+  ArchiveRefusal,
+  ArchiveSelection,
+  FileArchive,
+  createArchive,
+  isArchiveRefusal,
+  parseArchiveSelection
+} from "@/lib/archives";
+import {
+  checkRateLimit,
+  claimSignedUrl,
+  generateSignedArchiveUrl,
+  logFileAccess,
+  verifySignedArchiveUrl
+} from "@/lib/secure-access";
+import { getClientIP } from "@/lib/client-ip";
+
+interface ArchiveRequester {
+  userId: string;
+  ipAddress: string;
+  userAgent: string;
+  tokenId?: string;
+}
+
+// Refuse the whole archive, logging the entry that was refused
+async function refuseArchive(
+  refusal: ArchiveRefusal,
+  requester: ArchiveRequester
+): Promise<NextResponse> {
+  if (refusal.fileId) {
+    await logFileAccess({
+      file_id: refusal.fileId,
+      user_id: requester.userId,
+      ip_address: requester.ipAddress,
+      user_agent: requester.userAgent,
+      action: "download_access",
+      success: false,
+      error_message: `Archive refused: ${refusal.error}`,
+      token_id: requester.tokenId
+    });
+  }
+
+  return NextResponse.json(
+    { error: refusal.error, ...(refusal.fileId && { fileId: refusal.fileId }) },
+    { status: refusal.status }
+  );
+}
+
+// Stream the archive, logging a download of each file in it
+async function streamArchive(
+  archive: FileArchive,
+  requester: ArchiveRequester
+): Promise<NextResponse> {
+  for (const file of archive.files) {
+    await logFileAccess({
+      file_id: file.id,
+      user_id: requester.userId,
+      ip_address: requester.ipAddress,
+      user_agent: requester.userAgent,
+      action: "download_access",
+      success: true,
+      token_id: requester.tokenId,
+      details: JSON.stringify({ archive: `${archive.name}.zip` })
+    });
+  }
+
+  return new NextResponse(toWebStream(archive.stream), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${encodeURIComponent(archive.name)}.zip"`,
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+      "X-Archive-Files": archive.files.length.toString(),
+    },
+  });
+}
+
+function archiveErrorResponse(error: any): NextResponse {
+  if (
+    error.message === "Authentication required" ||
+    error.message === "Invalid or expired session"
+  ) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  if (
+    error.message.includes("too many files") ||
+    error.message.includes("too large")
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 413 });
+  }
+
+  return NextResponse.json(
+    { error: "Failed to create archive" },
+    { status: 500 }
+  );
+}
+
+// Download files or a folder as a ZIP archive, or with `signed: true`, get
+// a signed URL to download it from
+export async function POST(request: NextRequest) {
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+
+  try {
+    // Archives read every file they hold, so they're limited on their own
+    const rateLimitKey = `file_archive:${ipAddress}`;
+    const rateLimit = checkRateLimit(rateLimitKey, 10, 15); // 10 archives per 15 minutes
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: "Rate limit exceeded for archives",
+          resetTime: new Date(rateLimit.resetTime).toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": "10",
+            "X-RateLimit-Remaining": "0",
+            "X-RateLimit-Reset": Math.floor(rateLimit.resetTime / 1000).toString()
+          }
+        }
+      );
+    }
+
+    const user = await requireAuth(request);
+
+    const body = await request.json().catch(() => null);
+    let selection: ArchiveSelection;
+    try {
+      selection = parseArchiveSelection(body);
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    const {
+      signed = false,
+      expiresIn = 900, // 15 minutes default
+      restrictToIP = false,
+      restrictToUserAgent = false
+    } = body;
+
+    if (
+      signed &&
+      (typeof expiresIn !== "number" || !Number.isInteger(expiresIn) || expiresIn < 60)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid expiresIn. Must be a whole number of seconds, at least 60" },
+        { status: 400 }
+      );
+    }
+
+    const requester = { userId: user.id, ipAddress, userAgent };
+    const archive = await createArchive(selection, user.id);
+    if (isArchiveRefusal(archive)) {
+      return await refuseArchive(archive, requester);
+    }
+
+    if (!signed) {
+      return await streamArchive(archive, requester);
+    }
+
+    // Checked now so the link works, and again when it's used
+    archive.stream.destroy();
+    const { url, id, expiresIn: actualExpiry } = await generateSignedArchiveUrl({
+      selection,
+      userId: user.id,
+      expiresIn,
+      ipAddress: restrictToIP ? ipAddress : undefined,
+      userAgent: restrictToUserAgent ? userAgent : undefined
+    });
+
+    for (const file of archive.files) {
+      await logFileAccess({
+        file_id: file.id,
+        user_id: user.id,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "generate_archive_url",
+        success: true,
+        token_id: id
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      url,
+      id,
+      fullUrl: `${request.nextUrl.origin}${url}`,
+      expiresAt: new Date(Date.now() + actualExpiry * 1000).toISOString(),
+      expiresIn: actualExpiry,
+      files: archive.files.length,
+      restrictions: {
+        ipRestricted: restrictToIP,
+        userAgentRestricted: restrictToUserAgent
+      }
+    }, {
+      headers: {
+        "X-RateLimit-Limit": "10",
+        "X-RateLimit-Remaining": rateLimit.remaining.toString(),
+        "X-RateLimit-Reset": Math.floor(rateLimit.resetTime / 1000).toString()
+      }
+    });
+  } catch (error: any) {
+    console.error("Archive error:", error);
+    return archiveErrorResponse(error);
+  }
+}
+
+// Download an archive through a signed URL, with the access of the user
+// who signed it
+export async function GET(request: NextRequest) {
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+  const token = new URL(request.url).searchParams.get("token");
+
+  try {
+    if (!token) {
+      return NextResponse.json(
+        { error: "Access token is required" },
+        { status: 400 }
+      );
+    }
+
+    // Shares the limit of the other signed URL requests
+    const rateLimitKey = `file_access:${ipAddress}`;
+    const rateLimit = checkRateLimit(rateLimitKey, 30, 15); // 30 requests per 15 minutes
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: "Rate limit exceeded",
+          resetTime: new Date(rateLimit.resetTime).toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": "30",
+            "X-RateLimit-Remaining": "0",
+            "X-RateLimit-Reset": Math.floor(rateLimit.resetTime / 1000).toString()
+          }
+        }
+      );
+    }
+
+    const verification = await verifySignedArchiveUrl(
+      token,
+      ipAddress,
+      userAgent
+    );
+    if (!verification.valid) {
+      return NextResponse.json(
+        { error: verification.error || "Invalid access token" },
+        { status: 403 }
+      );
+    }
+
+    const { payload } = verification;
+    const requester = {
+      userId: payload.userId,
+      ipAddress,
+      userAgent,
+      tokenId: payload.jti
+    };
+    const archive = await createArchive(
+      parseArchiveSelection(payload),
+      payload.userId
+    );
+    if (isArchiveRefusal(archive)) {
+      return await refuseArchive(archive, requester);
+    }
+
+    // Counted once the archive is going to be sent
+    const refusal = await claimSignedUrl(payload);
+    if (refusal) {
+      archive.stream.destroy();
+      return NextResponse.json({ error: refusal }, { status: 403 });
+    }
+
+    return await streamArchive(archive, requester);
+  } catch (error: any) {
+    console.error("Archive error:", error);
+    return archiveErrorResponse(error);
+  }
+}
+
+// Handle OPTIONS request for CORS (restrictive)
+export async function OPTIONS(request: NextRequest) {
+  const origin = request.headers.get("origin");
+  const allowedOrigins = [
+    process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
+    "https://snapvault.app", // Production domain
+  ];
+
+  const isAllowedOrigin = allowedOrigins.includes(origin || "");
+
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": isAllowedOrigin ? origin! : "null",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Access-Control-Expose-Headers": "Content-Disposition, X-Archive-Files",
+      "Access-Control-Allow-Credentials": "true",
+      "Access-Control-Max-Age": "86400", // 24 hours
+    },
+  });
+}
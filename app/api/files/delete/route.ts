@@ -3,25 +3,7 @@ import { requireAuth } from "@/lib/auth";
 import { deleteFile } from "@/lib/file-utils";
 import { logFileAccess, checkRateLimit } from "@/lib/secure-access";
 import { database } from "@/lib/database";
-
-// Helper to get client IP address
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get("x-forwarded-for");
-  const realIP = request.headers.get("x-real-ip");
-  const cfIP = request.headers.get("cf-connecting-ip");
-
-  if (forwarded) {
-    return forwarded.split(",")[0].trim();
-  }
-  if (realIP) {
-    return realIP;
-  }
-  if (cfIP) {
-    return cfIP;
-  }
-
-  return "unknown";
-}
+import { getClientIP } from "@/lib/client-ip";
 
 // Delete single file
 export async function DELETE(request: NextRequest) {
@@ -1,26 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth";
 import { generateSecureDownloadUrl, checkRateLimit } from "@/lib/secure-access";
-import { database } from "@/lib/database";
-
-// Helper to get client IP address
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get("x-forwarded-for");
-  const realIP = request.headers.get("x-real-ip");
-  const cfIP = request.headers.get("cf-connecting-ip");
-
-  if (forwarded) {
-    return forwarded.split(",")[0].trim();
-  }
-  if (realIP) {
-    return realIP;
-  }
-  if (cfIP) {
-    return cfIP;
-  }
-
-  return "unknown";
-}
+import { database, SigningKeyAlgorithm } from "@/lib/database";
+import { SIGNING_ALGORITHMS } from "@/lib/keyring";
+import {
+  ImageTransform,
+  isTransformableImage,
+  parseImageTransform
+} from "@/lib/image-derivatives";
+import {
+  getFileAccessLevel,
+  getRequiredAccess,
+  hasAccess
+} from "@/lib/sharing";
+import { getClientIP } from "@/lib/client-ip";
 
 export async function POST(request: NextRequest) {
   try {
@@ -57,9 +50,11 @@ export async function POST(request: NextRequest) {
     const {
       fileId,
       expiresIn = 900, // 15 minutes default
-      action = "download", // download, view, or info
+      action = body.transform ? "view" : "download", // download, view, or info
       restrictToIP = false,
-      restrictToUserAgent = false
+      restrictToUserAgent = false,
+      singleUse = false,
+      algorithm
     } = body;
 
     // Validate input
@@ -77,6 +72,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const maxUses = singleUse ? 1 : body.maxUses;
+    if (!isValidMaxUses(maxUses)) {
+      return NextResponse.json(
+        { error: "Invalid maxUses. Must be a whole number from 1 to 1000" },
+        { status: 400 }
+      );
+    }
+
+    if (algorithm !== undefined && !SIGNING_ALGORITHMS.includes(algorithm)) {
+      return NextResponse.json(
+        { error: "Invalid algorithm. Must be 'HS256', 'EdDSA', or 'ES256'" },
+        { status: 400 }
+      );
+    }
+
+    const transform = parseTransform(body.transform, action);
+    if (typeof transform === "string") {
+      return NextResponse.json({ error: transform }, { status: 400 });
+    }
+
     // Validate expiry time (max 24 hours)
     const maxExpiry = 24 * 60 * 60; // 24 hours
     const actualExpiry = Math.min(Math.max(expiresIn, 60), maxExpiry); // Min 1 minute, max 24 hours
@@ -90,12 +105,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if user owns the file (for private files)
-    if (!file.is_public && file.user_id !== user.id) {
-      return NextResponse.json(
-        { error: "Access denied - you are not the owner of this file" },
-        { status: 403 }
-      );
+    // Check if user owns the file or it has been shared with them (for
+    // private files)
+    if (!file.is_public) {
+      const access = await getFileAccessLevel(file, user.id);
+      if (!access) {
+        return NextResponse.json(
+          { error: "Access denied - you are not the owner of this file" },
+          { status: 403 }
+        );
+      }
+      if (!hasAccess(access, getRequiredAccess(action))) {
+        return NextResponse.json(
+          {
+            error: `Access denied - ${getRequiredAccess(action)} permission required`
+          },
+          { status: 403 }
+        );
+      }
     }
 
     // Check if file has expired
@@ -109,6 +136,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (transform && !isTransformableImage(file)) {
+      return NextResponse.json(
+        { error: TRANSFORM_UNSUPPORTED_ERROR },
+        { status: 415 }
+      );
+    }
+
     // Generate secure URL
     const urlResult = await generateSecureDownloadUrl(
       fileId,
@@ -118,7 +152,10 @@ export async function POST(request: NextRequest) {
         expiresIn: actualExpiry,
         action: action as "download" | "view" | "info",
         ipAddress: restrictToIP ? ipAddress : undefined,
-        userAgent: restrictToUserAgent ? userAgent : undefined
+        userAgent: restrictToUserAgent ? userAgent : undefined,
+        maxUses: maxUses ?? undefined,
+        algorithm: algorithm as SigningKeyAlgorithm | undefined,
+        transform
       }
     );
 
@@ -134,10 +171,13 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
+      id: urlResult.id,
       url: urlResult.url,
       fullUrl: `${request.nextUrl.origin}${urlResult.url}`,
       expiresAt: expiryTime.toISOString(),
       expiresIn: actualExpiry,
+      maxUses: maxUses ?? null,
+      algorithm: urlResult.algorithm,
       action,
       restrictions: {
         ipRestricted: restrictToIP,
@@ -210,9 +250,11 @@ export async function PUT(request: NextRequest) {
     const {
       fileIds,
       expiresIn = 900,
-      action = "download",
+      action = body.transform ? "view" : "download",
       restrictToIP = false,
-      restrictToUserAgent = false
+      restrictToUserAgent = false,
+      singleUse = false,
+      algorithm
     } = body;
 
     // Validate input
@@ -230,6 +272,26 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    const maxUses = singleUse ? 1 : body.maxUses;
+    if (!isValidMaxUses(maxUses)) {
+      return NextResponse.json(
+        { error: "Invalid maxUses. Must be a whole number from 1 to 1000" },
+        { status: 400 }
+      );
+    }
+
+    if (algorithm !== undefined && !SIGNING_ALGORITHMS.includes(algorithm)) {
+      return NextResponse.json(
+        { error: "Invalid algorithm. Must be 'HS256', 'EdDSA', or 'ES256'" },
+        { status: 400 }
+      );
+    }
+
+    const transform = parseTransform(body.transform, action);
+    if (typeof transform === "string") {
+      return NextResponse.json({ error: transform }, { status: 400 });
+    }
+
     const sessionToken = request.headers.get("authorization")?.substring(7) ||
                         getCookieValue(request.headers.get("cookie"), "snapvault_session") || "";
 
@@ -248,8 +310,15 @@ export async function PUT(request: NextRequest) {
           continue;
         }
 
-        // Check if user owns the file (for private files)
-        if (!file.is_public && file.user_id !== user.id) {
+        // Check if user owns the file or it has been shared with them
+        // (for private files)
+        if (
+          !file.is_public &&
+          !hasAccess(
+            await getFileAccessLevel(file, user.id),
+            getRequiredAccess(action)
+          )
+        ) {
           results.push({
             fileId,
             success: false,
@@ -258,6 +327,15 @@ export async function PUT(request: NextRequest) {
           continue;
         }
 
+        if (transform && !isTransformableImage(file)) {
+          results.push({
+            fileId,
+            success: false,
+            error: TRANSFORM_UNSUPPORTED_ERROR
+          });
+          continue;
+        }
+
         // Generate secure URL
         const urlResult = await generateSecureDownloadUrl(
           fileId,
@@ -266,7 +344,10 @@ export async function PUT(request: NextRequest) {
             expiresIn,
             action: action as "download" | "view" | "info",
             ipAddress: restrictToIP ? ipAddress : undefined,
-            userAgent: restrictToUserAgent ? userAgent : undefined
+            userAgent: restrictToUserAgent ? userAgent : undefined,
+            maxUses: maxUses ?? undefined,
+            algorithm: algorithm as SigningKeyAlgorithm | undefined,
+            transform
           }
         );
 
@@ -275,6 +356,7 @@ export async function PUT(request: NextRequest) {
           results.push({
             fileId,
             success: true,
+            id: urlResult.id,
             url: urlResult.url,
             fullUrl: `${request.nextUrl.origin}${urlResult.url}`,
             expiresAt: expiryTime.toISOString(),
@@ -334,6 +416,42 @@ export async function PUT(request: NextRequest) {
   }
 }
 
+// Use limits are optional, and capped so tokens stay meaningful
+function isValidMaxUses(maxUses: unknown): maxUses is number | null | undefined {
+  return (
+    maxUses === undefined ||
+    maxUses === null ||
+    (Number.isInteger(maxUses) &&
+      (maxUses as number) >= 1 &&
+      (maxUses as number) <= 1000)
+  );
+}
+
+const TRANSFORM_UNSUPPORTED_ERROR =
+  "Image transforms are only available for JPEG, PNG and GIF images";
+
+// An image transform to sign into the URLs, or why it's invalid. Transforms
+// render an image to view, so they only go with the view action.
+function parseTransform(
+  value: unknown,
+  action: string
+): ImageTransform | undefined | string {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return "Invalid transform. Must be an object with w, h, fit, format or q";
+  }
+  if (action !== "view") {
+    return "Image transforms are only available for the 'view' action";
+  }
+  try {
+    return parseImageTransform(value as Record<string, unknown>);
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
 // Helper function to extract cookie value
 function getCookieValue(cookieHeader: string | null, cookieName: string): string | null {
   if (!cookieHeader) return null;
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { setLinkPassword } from "@/lib/secure-access";
+
+async function updateLinkPassword(
+  request: NextRequest,
+  fileId: string,
+  password: unknown
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (password !== null && typeof password !== "string") {
+      return NextResponse.json(
+        { error: "Password is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await setLinkPassword(fileId, user.id, password);
+    if (!result.success) {
+      const status =
+        result.error === "File not found"
+          ? 404
+          : result.error?.startsWith("Invalid")
+            ? 400
+            : 500;
+      return NextResponse.json({ error: result.error }, { status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      fileId,
+      passwordProtected: password !== null,
+    });
+  } catch (error: any) {
+    console.error("Link password error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update link password" },
+      { status: 500 }
+    );
+  }
+}
+
+// Require a password to open the file's access token link
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  const body = await request.json().catch(() => ({}));
+  return updateLinkPassword(request, params.fileId, body.password);
+}
+
+// Remove the password from the file's access token link
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  return updateLinkPassword(request, params.fileId, null);
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
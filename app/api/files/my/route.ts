@@ -1,6 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth";
-import { getUserFiles, formatFileSize, getFileTypeIcon } from "@/lib/file-utils";
+import { database } from "@/lib/database";
+import {
+  getUserFiles,
+  formatFileSize,
+  getFileTypeIcon,
+  isDownloadLimitReached,
+} from "@/lib/file-utils";
+import { parseFileMetadata } from "@/lib/file-metadata";
+import {
+  getUserFolder,
+  getFolderBreadcrumbs,
+  toFolderInfo,
+  FolderInfo,
+} from "@/lib/folders";
 
 export async function GET(request: NextRequest) {
   try {
@@ -12,8 +25,46 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 100);
     const offset = Math.max(parseInt(url.searchParams.get("offset") || "0"), 0);
 
+    // folderId limits the listing to one folder ("root" for the top level);
+    // without it every file is listed
+    const folderParam = url.searchParams.get("folderId");
+    let folderListing: {
+      folder: FolderInfo | null;
+      breadcrumbs: FolderInfo[];
+      folders: FolderInfo[];
+    } | undefined;
+    let folderId: string | null = null;
+
+    if (folderParam && folderParam !== "root") {
+      const folder = await getUserFolder(user.id, folderParam);
+      if (!folder) {
+        return NextResponse.json(
+          { error: "Folder not found" },
+          { status: 404 }
+        );
+      }
+      folderId = folder.id;
+      folderListing = {
+        folder: toFolderInfo(folder),
+        breadcrumbs: await getFolderBreadcrumbs(folder),
+        folders: [],
+      };
+    } else if (folderParam === "root") {
+      folderListing = { folder: null, breadcrumbs: [], folders: [] };
+    }
+
     // Get user files
-    const files = await getUserFiles(user.id, limit, offset);
+    let files;
+    if (folderListing) {
+      files = await database.getFilesInFolder(user.id, folderId, limit, offset);
+      folderListing.folders = (
+        await database.getChildFolders(user.id, folderId)
+      ).map(toFolderInfo);
+    } else {
+      files = await getUserFiles(user.id, limit, offset);
+    }
+
+    const tags = await database.getTagsForFiles(files.map((file) => file.id));
 
     // Format files for response
     const formattedFiles = files.map(file => ({
@@ -23,20 +74,31 @@ export async function GET(request: NextRequest) {
       mimeType: file.mime_type,
       size: file.size,
       formattedSize: formatFileSize(file.size),
+      contentHash: file.content_hash,
+      clientEncrypted: !!file.client_encrypted,
+      scanStatus: file.scan_status ?? null,
+      metadata: parseFileMetadata(file),
+      version: file.version,
       icon: getFileTypeIcon(file.mime_type),
       accessToken: file.access_token,
       url: `/api/files/${file.access_token}`,
       createdAt: file.created_at,
       expiresAt: file.expires_at,
       downloadCount: file.download_count,
+      maxDownloads: file.max_downloads ?? null,
+      downloadLimitReached: isDownloadLimitReached(file),
       isPublic: file.is_public,
       description: file.description,
+      folderId: file.folder_id || null,
+      tags: tags.get(file.id) || [],
+      passwordProtected: !!file.link_password_hash,
       isExpired: file.expires_at ? new Date(file.expires_at) < new Date() : false,
     }));
 
     return NextResponse.json(
       {
         success: true,
+        ...folderListing,
         files: formattedFiles,
         pagination: {
           limit,
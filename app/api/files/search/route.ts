@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import {
+  database,
+  FileMetadataField,
+  FileMetadataRange,
+  FileSearchFilters
+} from "@/lib/database";
+import {
+  formatFileSize,
+  getFileTypeIcon,
+  isDownloadLimitReached,
+} from "@/lib/file-utils";
+import { parseFileMetadata } from "@/lib/file-metadata";
+import { normalizeTags, searchFiles } from "@/lib/search";
+
+const EXPIRY_FILTERS = ["none", "active", "expired"];
+const ORIENTATION_FILTERS = ["landscape", "portrait", "square"];
+
+// Query parameter suffixes of the metadata range filters, e.g. minWidth
+const METADATA_FILTERS: Record<string, FileMetadataField> = {
+  Width: "width",
+  Height: "height",
+  Rows: "rows",
+  Columns: "columns",
+  Words: "wordCount",
+};
+
+function parseSize(value: string | null, name: string): number | undefined {
+  if (value === null || value === "") return undefined;
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < 0) {
+    throw new Error(`Invalid ${name}: must be a non-negative number of bytes`);
+  }
+  return size;
+}
+
+function parseCount(value: string | null, name: string): number | undefined {
+  if (value === null || value === "") return undefined;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`Invalid ${name}: must be a non-negative whole number`);
+  }
+  return count;
+}
+
+function parseDate(value: string | null, name: string): string | undefined {
+  if (value === null || value === "") return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name}: must be an ISO 8601 date`);
+  }
+  return date.toISOString();
+}
+
+function parseFilters(
+  searchParams: URLSearchParams
+): Omit<FileSearchFilters, "match"> {
+  const filters: Omit<FileSearchFilters, "match"> = {
+    mimeTypes: searchParams
+      .getAll("mimeType")
+      .flatMap((value) => value.split(","))
+      .map((value) => value.trim().toLowerCase())
+      .filter(Boolean),
+    minSize: parseSize(searchParams.get("minSize"), "minSize"),
+    maxSize: parseSize(searchParams.get("maxSize"), "maxSize"),
+    createdAfter: parseDate(searchParams.get("createdAfter"), "createdAfter"),
+    createdBefore: parseDate(searchParams.get("createdBefore"), "createdBefore"),
+    tags: normalizeTags(searchParams.getAll("tag")),
+  };
+
+  const isPublic = searchParams.get("isPublic");
+  if (isPublic === "true" || isPublic === "false") {
+    filters.isPublic = isPublic === "true";
+  } else if (isPublic) {
+    throw new Error("Invalid isPublic: must be true or false");
+  }
+
+  const expiry = searchParams.get("expiry");
+  if (expiry && !EXPIRY_FILTERS.includes(expiry)) {
+    throw new Error(`Invalid expiry: must be one of ${EXPIRY_FILTERS.join(", ")}`);
+  }
+  filters.expiry = (expiry || undefined) as FileSearchFilters["expiry"];
+
+  // Narrow by what was extracted from the contents, such as image sizes
+  const metadata: FileMetadataRange[] = [];
+  for (const [suffix, field] of Object.entries(METADATA_FILTERS)) {
+    const min = parseCount(searchParams.get(`min${suffix}`), `min${suffix}`);
+    const max = parseCount(searchParams.get(`max${suffix}`), `max${suffix}`);
+    if (min !== undefined || max !== undefined) {
+      metadata.push({ field, min, max });
+    }
+  }
+  filters.metadata = metadata;
+
+  const orientation = searchParams.get("orientation");
+  if (orientation && !ORIENTATION_FILTERS.includes(orientation)) {
+    throw new Error(
+      `Invalid orientation: must be one of ${ORIENTATION_FILTERS.join(", ")}`
+    );
+  }
+  filters.orientation = (orientation ||
+    undefined) as FileSearchFilters["orientation"];
+
+  return filters;
+}
+
+// Search the user's files by name, description, tags and text contents,
+// optionally narrowed by filters
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const url = new URL(request.url);
+    const query = url.searchParams.get("q") || "";
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 100);
+    const offset = Math.max(parseInt(url.searchParams.get("offset") || "0"), 0);
+    const filters = parseFilters(url.searchParams);
+
+    const results = await searchFiles(user.id, query, filters, limit, offset);
+    const tags = await database.getTagsForFiles(
+      results.map((result) => result.file.id)
+    );
+
+    const formattedFiles = results.map(({ file, highlights, score }) => ({
+      id: file.id,
+      originalName: file.original_name,
+      filename: file.filename,
+      mimeType: file.mime_type,
+      size: file.size,
+      formattedSize: formatFileSize(file.size),
+      contentHash: file.content_hash,
+      clientEncrypted: !!file.client_encrypted,
+      scanStatus: file.scan_status ?? null,
+      metadata: parseFileMetadata(file),
+      version: file.version,
+      icon: getFileTypeIcon(file.mime_type),
+      accessToken: file.access_token,
+      url: `/api/files/${file.access_token}`,
+      createdAt: file.created_at,
+      expiresAt: file.expires_at,
+      downloadCount: file.download_count,
+      maxDownloads: file.max_downloads ?? null,
+      downloadLimitReached: isDownloadLimitReached(file),
+      isPublic: file.is_public,
+      description: file.description,
+      folderId: file.folder_id || null,
+      tags: tags.get(file.id) || [],
+      passwordProtected: !!file.link_password_hash,
+      isExpired: file.expires_at ? new Date(file.expires_at) < new Date() : false,
+      highlights,
+      score,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      query,
+      files: formattedFiles,
+      pagination: {
+        limit,
+        offset,
+        hasMore: results.length === limit,
+      },
+    });
+  } catch (error: any) {
+    console.error("File search error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (
+      error.message.startsWith("Invalid") ||
+      error.message.includes("Tag") ||
+      error.message.includes("tags")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Search failed" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,240 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  verifySignedUrl,
+  claimSignedUrl,
+  checkRateLimit,
+  logFileAccess
+} from "@/lib/secure-access";
+import { isDownloadLimitReached } from "@/lib/file-utils";
+import { createImageDerivativeResponse } from "@/lib/file-response";
+import {
+  ImageTransform,
+  isTransformableImage,
+  parseImageTransform,
+  serializeImageTransform
+} from "@/lib/image-derivatives";
+import { database } from "@/lib/database";
+import { getFileAccessLevel, hasAccess } from "@/lib/sharing";
+import { getClientIP } from "@/lib/client-ip";
+
+// Serve a resized, cropped or converted rendition of an image through a
+// signed URL issued for exactly that transform
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  const startTime = Date.now();
+  const { fileId } = params;
+  const url = new URL(request.url);
+  const token = url.searchParams.get("token");
+
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+
+  try {
+    if (!fileId || !token) {
+      await logFileAccess({
+        file_id: fileId || "unknown",
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "transform_access",
+        success: false,
+        error_message: "Missing file ID or token"
+      });
+
+      return NextResponse.json(
+        { error: "File ID and access token are required" },
+        { status: 400 }
+      );
+    }
+
+    // Shares the limit of the other signed URL requests
+    const rateLimitKey = `file_access:${ipAddress}`;
+    const rateLimit = checkRateLimit(rateLimitKey, 30, 15); // 30 requests per 15 minutes
+
+    if (!rateLimit.allowed) {
+      await logFileAccess({
+        file_id: fileId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "transform_access",
+        success: false,
+        error_message: "Rate limit exceeded"
+      });
+
+      return NextResponse.json(
+        {
+          error: "Rate limit exceeded",
+          resetTime: new Date(rateLimit.resetTime).toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": "30",
+            "X-RateLimit-Remaining": "0",
+            "X-RateLimit-Reset": Math.floor(rateLimit.resetTime / 1000).toString()
+          }
+        }
+      );
+    }
+
+    let transform: ImageTransform;
+    try {
+      transform = parseImageTransform(url.searchParams);
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    // The URL has to have been signed for this very transform
+    const verification = await verifySignedUrl(
+      fileId,
+      token,
+      "view",
+      ipAddress,
+      userAgent,
+      serializeImageTransform(transform)
+    );
+
+    if (!verification.valid) {
+      await logFileAccess({
+        file_id: fileId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "transform_access",
+        success: false,
+        error_message: `Invalid signed URL: ${verification.error}`
+      });
+
+      return NextResponse.json(
+        { error: verification.error || "Invalid access token" },
+        { status: 403 }
+      );
+    }
+
+    const fileInfo = await database.getFileById(fileId);
+    if (!fileInfo) {
+      return NextResponse.json(
+        { error: "File not found" },
+        { status: 404 }
+      );
+    }
+
+    if (fileInfo.expires_at && new Date(fileInfo.expires_at) < new Date()) {
+      return NextResponse.json(
+        { error: "File has expired" },
+        { status: 410 }
+      );
+    }
+
+    // As for other signed URLs, the signer has to still be allowed to view
+    // private files
+    if (
+      !fileInfo.is_public &&
+      !hasAccess(
+        await getFileAccessLevel(fileInfo, verification.payload.userId),
+        "view"
+      )
+    ) {
+      await logFileAccess({
+        file_id: fileId,
+        user_id: verification.payload.userId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "transform_access",
+        success: false,
+        error_message: "Access denied - view permission required"
+      });
+
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!isTransformableImage(fileInfo)) {
+      return NextResponse.json(
+        { error: "Image transforms are only available for JPEG, PNG and GIF images" },
+        { status: 415 }
+      );
+    }
+
+    if (isDownloadLimitReached(fileInfo)) {
+      return NextResponse.json(
+        { error: "Download limit reached" },
+        { status: 410 }
+      );
+    }
+
+    const response = await createImageDerivativeResponse(
+      request,
+      fileInfo,
+      transform,
+      () => claimSignedUrl(verification.payload)
+    );
+
+    await logFileAccess({
+      file_id: fileId,
+      user_id: verification.payload.userId,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      action: "transform_access",
+      token_id: verification.payload.jti,
+      success: response.status < 400,
+      ...(response.status >= 400 && {
+        error_message: `Refused with ${response.status}`
+      })
+    });
+
+    // Security headers; the ETag lets browsers revalidate their copy
+    response.headers.set("Cache-Control", "private, no-cache");
+    response.headers.set("X-Content-Type-Options", "nosniff");
+    response.headers.set("Referrer-Policy", "no-referrer");
+
+    response.headers.set("X-RateLimit-Limit", "30");
+    response.headers.set("X-RateLimit-Remaining", rateLimit.remaining.toString());
+    response.headers.set("X-RateLimit-Reset", Math.floor(rateLimit.resetTime / 1000).toString());
+    response.headers.set("X-Processing-Time", `${Date.now() - startTime}ms`);
+
+    return response;
+
+  } catch (error: any) {
+    console.error("Image transform error:", error);
+
+    await logFileAccess({
+      file_id: fileId,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      action: "transform_access",
+      success: false,
+      error_message: error.message
+    });
+
+    return NextResponse.json(
+      { error: "Failed to transform image" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS (restrictive)
+export async function OPTIONS(request: NextRequest) {
+  const origin = request.headers.get("origin");
+  const allowedOrigins = [
+    process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
+    "https://snapvault.app", // Production domain
+  ];
+
+  const isAllowedOrigin = allowedOrigins.includes(origin || "");
+
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": isAllowedOrigin ? origin! : "null",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, If-None-Match",
+      "Access-Control-Expose-Headers": "Content-Length, ETag, X-Image-Cache",
+      "Access-Control-Allow-Credentials": "true",
+      "Access-Control-Max-Age": "86400", // 24 hours
+    },
+  });
+}
@@ -0,0 +1,239 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  verifySignedUrl,
+  claimSignedUrl,
+  checkRateLimit,
+  logFileAccess
+} from "@/lib/secure-access";
+import { isDownloadLimitReached } from "@/lib/file-utils";
+import { createPreviewResponse } from "@/lib/file-response";
+import {
+  CsvPreviewOptions,
+  getPreviewType,
+  parseCsvPreviewOptions
+} from "@/lib/preview";
+import { database } from "@/lib/database";
+import { getFileAccessLevel, hasAccess } from "@/lib/sharing";
+import { getClientIP } from "@/lib/client-ip";
+
+// Serve a preview of a file through a signed view URL: rendered markdown,
+// a page of a CSV table or plain text. Images get the URL to view them at.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  const startTime = Date.now();
+  const { fileId } = params;
+  const url = new URL(request.url);
+  const token = url.searchParams.get("token");
+
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+
+  try {
+    if (!fileId || !token) {
+      await logFileAccess({
+        file_id: fileId || "unknown",
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "preview_access",
+        success: false,
+        error_message: "Missing file ID or token"
+      });
+
+      return NextResponse.json(
+        { error: "File ID and access token are required" },
+        { status: 400 }
+      );
+    }
+
+    // Shares the limit of the other signed URL requests
+    const rateLimitKey = `file_access:${ipAddress}`;
+    const rateLimit = checkRateLimit(rateLimitKey, 30, 15); // 30 requests per 15 minutes
+
+    if (!rateLimit.allowed) {
+      await logFileAccess({
+        file_id: fileId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "preview_access",
+        success: false,
+        error_message: "Rate limit exceeded"
+      });
+
+      return NextResponse.json(
+        {
+          error: "Rate limit exceeded",
+          resetTime: new Date(rateLimit.resetTime).toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": "30",
+            "X-RateLimit-Remaining": "0",
+            "X-RateLimit-Reset": Math.floor(rateLimit.resetTime / 1000).toString()
+          }
+        }
+      );
+    }
+
+    let options: CsvPreviewOptions;
+    try {
+      options = parseCsvPreviewOptions(url.searchParams);
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    // URLs signed for an image transform don't give access to the original
+    const verification = await verifySignedUrl(
+      fileId,
+      token,
+      "view",
+      ipAddress,
+      userAgent
+    );
+
+    if (!verification.valid) {
+      await logFileAccess({
+        file_id: fileId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "preview_access",
+        success: false,
+        error_message: `Invalid signed URL: ${verification.error}`
+      });
+
+      return NextResponse.json(
+        { error: verification.error || "Invalid access token" },
+        { status: 403 }
+      );
+    }
+
+    const fileInfo = await database.getFileById(fileId);
+    if (!fileInfo) {
+      return NextResponse.json(
+        { error: "File not found" },
+        { status: 404 }
+      );
+    }
+
+    if (fileInfo.expires_at && new Date(fileInfo.expires_at) < new Date()) {
+      return NextResponse.json(
+        { error: "File has expired" },
+        { status: 410 }
+      );
+    }
+
+    // As for other signed URLs, the signer has to still be allowed to view
+    // private files
+    if (
+      !fileInfo.is_public &&
+      !hasAccess(
+        await getFileAccessLevel(fileInfo, verification.payload.userId),
+        "view"
+      )
+    ) {
+      await logFileAccess({
+        file_id: fileId,
+        user_id: verification.payload.userId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "preview_access",
+        success: false,
+        error_message: "Access denied - view permission required"
+      });
+
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    if (!getPreviewType(fileInfo)) {
+      return NextResponse.json(
+        { error: "Previews are available for markdown, CSV, text and image files" },
+        { status: 415 }
+      );
+    }
+
+    if (isDownloadLimitReached(fileInfo)) {
+      return NextResponse.json(
+        { error: "Download limit reached" },
+        { status: 410 }
+      );
+    }
+
+    // Images are shown from the view URL, which counts the download
+    const imageUrl = `/api/files/secure/${fileId}?token=${encodeURIComponent(token)}&action=view`;
+    const response = await createPreviewResponse(
+      fileInfo,
+      options,
+      imageUrl,
+      () => claimSignedUrl(verification.payload)
+    );
+
+    await logFileAccess({
+      file_id: fileId,
+      user_id: verification.payload.userId,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      action: "preview_access",
+      token_id: verification.payload.jti,
+      success: response.status < 400,
+      ...(response.status >= 400 && {
+        error_message: `Refused with ${response.status}`
+      })
+    });
+
+    // Security headers
+    response.headers.set("Cache-Control", "private, no-cache");
+    response.headers.set("X-Content-Type-Options", "nosniff");
+    response.headers.set("Referrer-Policy", "no-referrer");
+
+    response.headers.set("X-RateLimit-Limit", "30");
+    response.headers.set("X-RateLimit-Remaining", rateLimit.remaining.toString());
+    response.headers.set("X-RateLimit-Reset", Math.floor(rateLimit.resetTime / 1000).toString());
+    response.headers.set("X-Processing-Time", `${Date.now() - startTime}ms`);
+
+    return response;
+
+  } catch (error: any) {
+    console.error("File preview error:", error);
+
+    await logFileAccess({
+      file_id: fileId,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      action: "preview_access",
+      success: false,
+      error_message: error.message
+    });
+
+    return NextResponse.json(
+      { error: "Failed to preview file" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS (restrictive)
+export async function OPTIONS(request: NextRequest) {
+  const origin = request.headers.get("origin");
+  const allowedOrigins = [
+    process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
+    "https://snapvault.app", // Production domain
+  ];
+
+  const isAllowedOrigin = allowedOrigins.includes(origin || "");
+
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": isAllowedOrigin ? origin! : "null",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Allow-Credentials": "true",
+      "Access-Control-Max-Age": "86400", // 24 hours
+    },
+  });
+}
@@ -1,26 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifySignedUrl, checkRateLimit, logFileAccess } from "@/lib/secure-access";
-import { downloadFile, getFileInfo } from "@/lib/file-utils";
+import {
+  verifySignedUrl,
+  claimSignedUrl,
+  checkRateLimit,
+  logFileAccess
+} from "@/lib/secure-access";
+import {
+  getDownloadableFile,
+  isDownloadLimitReached
+} from "@/lib/file-utils";
+import { createFileResponse } from "@/lib/file-response";
+import { parseFileMetadata } from "@/lib/file-metadata";
 import { database } from "@/lib/database";
-
-// Helper to get client IP address
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get("x-forwarded-for");
-  const realIP = request.headers.get("x-real-ip");
-  const cfIP = request.headers.get("cf-connecting-ip");
-
-  if (forwarded) {
-    return forwarded.split(",")[0].trim();
-  }
-  if (realIP) {
-    return realIP;
-  }
-  if (cfIP) {
-    return cfIP;
-  }
-
-  return "unknown";
-}
+import {
+  getFileAccessLevel,
+  getRequiredAccess,
+  hasAccess
+} from "@/lib/sharing";
+import { getClientIP } from "@/lib/client-ip";
 
 export async function GET(
   request: NextRequest,
@@ -103,7 +100,7 @@ export async function GET(
     }
 
     // Get file information
-    const fileInfo = await getFileInfo(fileId);
+    const fileInfo = await database.getFileById(fileId);
     if (!fileInfo) {
       await logFileAccess({
         file_id: fileId,
@@ -142,8 +139,13 @@ export async function GET(
       }
     }
 
-    // Verify user owns the file (for private files)
-    if (!fileInfo.is_public && fileInfo.user_id !== verification.payload.userId) {
+    // Private files need the signer to still own the file or hold a share
+    // allowing the action, so revoking a share also disables its URLs
+    const requiredAccess = getRequiredAccess(action);
+    const access = fileInfo.is_public
+      ? null
+      : await getFileAccessLevel(fileInfo, verification.payload.userId);
+    if (!fileInfo.is_public && !hasAccess(access, requiredAccess)) {
       await logFileAccess({
         file_id: fileId,
         user_id: verification.payload.userId,
@@ -151,7 +153,9 @@ export async function GET(
         user_agent: userAgent,
         action: "secure_access",
         success: false,
-        error_message: "Access denied - not file owner"
+        error_message: access
+          ? `Access denied - ${requiredAccess} permission required`
+          : "Access denied - not file owner"
       });
 
       return NextResponse.json(
@@ -162,6 +166,21 @@ export async function GET(
 
     // Handle different actions
     if (action === "info") {
+      const refusal = await claimSignedUrl(verification.payload);
+      if (refusal) {
+        await logFileAccess({
+          file_id: fileId,
+          user_id: verification.payload.userId,
+          ip_address: ipAddress,
+          user_agent: userAgent,
+          action: "secure_access",
+          success: false,
+          error_message: `Invalid signed URL: ${refusal}`
+        });
+
+        return NextResponse.json({ error: refusal }, { status: 403 });
+      }
+
       // Return file information only
       await logFileAccess({
         file_id: fileId,
@@ -169,7 +188,8 @@ export async function GET(
         ip_address: ipAddress,
         user_agent: userAgent,
         action: "info_access",
-        success: true
+        success: true,
+        token_id: verification.payload.jti
       });
 
       return NextResponse.json({
@@ -179,18 +199,41 @@ export async function GET(
           originalName: fileInfo.original_name,
           mimeType: fileInfo.mime_type,
           size: fileInfo.size,
+          contentHash: fileInfo.content_hash,
+          clientEncrypted: !!fileInfo.client_encrypted,
+          scanStatus: fileInfo.scan_status ?? null,
+          metadata: parseFileMetadata(fileInfo),
           createdAt: fileInfo.created_at,
           expiresAt: fileInfo.expires_at,
           downloadCount: fileInfo.download_count,
+          maxDownloads: fileInfo.max_downloads ?? null,
           isPublic: fileInfo.is_public,
           description: fileInfo.description,
         },
       });
     }
 
+    // Files whose download limit is used up have had their bytes deleted
+    if (isDownloadLimitReached(fileInfo)) {
+      await logFileAccess({
+        file_id: fileId,
+        user_id: verification.payload.userId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "secure_access",
+        success: false,
+        error_message: "Download limit reached"
+      });
+
+      return NextResponse.json(
+        { error: "Download limit reached" },
+        { status: 410 }
+      );
+    }
+
     // Download the file
-    const fileData = await downloadFile(fileInfo.access_token);
-    if (!fileData) {
+    const file = await getDownloadableFile(fileInfo.access_token);
+    if (!file) {
       await logFileAccess({
         file_id: fileId,
         user_id: verification.payload.userId,
@@ -207,38 +250,37 @@ export async function GET(
       );
     }
 
-    // Log successful access
+    // Stream the file, honouring Range and conditional request headers. The
+    // URL's use is only counted when the file is sent.
+    let refusal: string | null = null;
+    const response = await createFileResponse(
+      request,
+      file,
+      action === "view" ? "inline" : "attachment",
+      {
+        claimAccess: async () =>
+          (refusal = await claimSignedUrl(verification.payload))
+      }
+    );
+
+    // Log the access; a 410 means another request used up the limit first
     const processingTime = Date.now() - startTime;
+    const error = refusal
+      ? `Invalid signed URL: ${refusal}`
+      : response.status === 410 && "Download limit reached";
     await logFileAccess({
       file_id: fileId,
       user_id: verification.payload.userId,
       ip_address: ipAddress,
       user_agent: userAgent,
       action: action === "view" ? "view_access" : "download_access",
-      success: true
+      token_id: verification.payload.jti,
+      success: !error,
+      ...(error && { error_message: error })
     });
 
-    // Create response with file content
-    const response = new NextResponse(fileData.buffer);
-
-    // Set appropriate headers based on action
-    response.headers.set("Content-Type", fileData.mimeType);
-    response.headers.set("Content-Length", fileData.size.toString());
-
-    if (action === "download") {
-      response.headers.set(
-        "Content-Disposition",
-        `attachment; filename="${encodeURIComponent(fileData.filename)}"`
-      );
-    } else if (action === "view") {
-      response.headers.set(
-        "Content-Disposition",
-        `inline; filename="${encodeURIComponent(fileData.filename)}"`
-      );
-    }
-
     // Security headers
-    response.headers.set("Cache-Control", "private, no-cache, no-store, must-revalidate");
+    response.headers.set("Cache-Control", "private, no-cache, must-revalidate");
     response.headers.set("Pragma", "no-cache");
     response.headers.set("Expires", "0");
     response.headers.set("X-Content-Type-Options", "nosniff");
@@ -290,7 +332,10 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       "Access-Control-Allow-Origin": isAllowedOrigin ? origin! : "null",
       "Access-Control-Allow-Methods": "GET, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Allow-Headers":
+        "Content-Type, Range, If-Range, If-None-Match, If-Modified-Since",
+      "Access-Control-Expose-Headers":
+        "Content-Range, Content-Length, Accept-Ranges, ETag, Last-Modified",
       "Access-Control-Allow-Credentials": "true",
       "Access-Control-Max-Age": "86400", // 24 hours
     },
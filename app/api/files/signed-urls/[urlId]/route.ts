@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { revokeSignedUrl } from "@/lib/secure-access";
+import { getClientIP } from "@/lib/client-ip";
+
+// Revoke an outstanding signed URL before it expires
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { urlId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const result = await revokeSignedUrl(user.id, params.urlId, {
+      ipAddress: getClientIP(request),
+      userAgent: request.headers.get("user-agent") || "",
+    });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Signed URL not found" ? 404 : 403 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id: params.urlId });
+  } catch (error: any) {
+    console.error("Revoke signed URL error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to revoke signed URL" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
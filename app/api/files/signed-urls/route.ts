@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { listSignedUrls } from "@/lib/secure-access";
+
+// Signed URLs issued for a file the user manages (?fileId=), or for every
+// file they own, with their use counts and status
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const url = new URL(request.url);
+    const status = url.searchParams.get("status");
+    const result = await listSignedUrls(
+      user.id,
+      url.searchParams.get("fileId") || undefined
+    );
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "File not found" ? 404 : 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      urls: status
+        ? result.urls!.filter((signedUrl) => signedUrl.status === status)
+        : result.urls,
+    });
+  } catch (error: any) {
+    console.error("List signed URLs error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list signed URLs" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { database } from "@/lib/database";
+import { setFileTags } from "@/lib/search";
+
+// The tags on a file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const file = await database.getFileById(params.fileId);
+    if (!file || file.user_id !== user.id) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      fileId: file.id,
+      tags: await database.getFileTags(file.id),
+    });
+  } catch (error: any) {
+    console.error("Get file tags error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to get file tags" },
+      { status: 500 }
+    );
+  }
+}
+
+// Replace the tags on a file
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const file = await database.getFileById(params.fileId);
+    if (!file || file.user_id !== user.id) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.tags === undefined) {
+      return NextResponse.json(
+        { error: "tags is required" },
+        { status: 400 }
+      );
+    }
+
+    const tags = await setFileTags(file, body.tags);
+
+    return NextResponse.json({ success: true, fileId: file.id, tags });
+  } catch (error: any) {
+    console.error("Set file tags error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (error.message.includes("Tag") || error.message.includes("tags")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to set file tags" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, PUT, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { database } from "@/lib/database";
+
+// The user's tags with the number of files carrying each
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    return NextResponse.json({
+      success: true,
+      tags: await database.getUserTags(user.id),
+    });
+  } catch (error: any) {
+    console.error("List tags error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list tags" },
+      { status: 500 }
+    );
+  }
+}
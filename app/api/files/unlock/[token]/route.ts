@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, unlockFileLink } from "@/lib/secure-access";
+import { getClientIP } from "@/lib/client-ip";
+
+// Password guesses allowed per 15 minutes from one visitor, and from all
+// visitors together, so guesses spread over many addresses are slowed too
+const VISITOR_ATTEMPTS = 5;
+const LINK_ATTEMPTS = 20;
+
+// Exchange the password of a protected link for a short-lived signed URL
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const ipAddress = getClientIP(request);
+    const userAgent = request.headers.get("user-agent") || "";
+
+    // Rate limiting per visitor and link, then per link, to slow down
+    // password guessing
+    let rateLimitMax = VISITOR_ATTEMPTS;
+    let rateLimit = checkRateLimit(
+      `link_unlock:${ipAddress}:${params.token}`,
+      VISITOR_ATTEMPTS,
+      15
+    );
+    if (rateLimit.allowed) {
+      const linkRateLimit = checkRateLimit(
+        `link_unlock:${params.token}`,
+        LINK_ATTEMPTS,
+        15
+      );
+      if (linkRateLimit.remaining < rateLimit.remaining) {
+        rateLimitMax = LINK_ATTEMPTS;
+        rateLimit = linkRateLimit;
+      }
+    }
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: "Too many attempts. Please try again later.",
+          resetTime: new Date(rateLimit.resetTime).toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": rateLimitMax.toString(),
+            "X-RateLimit-Remaining": "0",
+            "X-RateLimit-Reset": Math.floor(rateLimit.resetTime / 1000).toString()
+          }
+        }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { password, action = "download" } = body;
+
+    if (typeof password !== "string" || password === "") {
+      return NextResponse.json(
+        { error: "Password is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!["download", "view"].includes(action)) {
+      return NextResponse.json(
+        { error: "Invalid action. Must be 'download' or 'view'" },
+        { status: 400 }
+      );
+    }
+
+    const result = await unlockFileLink(params.token, password, {
+      action,
+      ipAddress,
+      userAgent
+    });
+
+    const rateLimitHeaders = {
+      "X-RateLimit-Limit": rateLimitMax.toString(),
+      "X-RateLimit-Remaining": rateLimit.remaining.toString(),
+      "X-RateLimit-Reset": Math.floor(rateLimit.resetTime / 1000).toString()
+    };
+
+    if (!result.success) {
+      const status =
+        result.error === "Incorrect password"
+          ? 401
+          : result.error === "File has expired"
+            ? 410
+            : 404;
+      return NextResponse.json(
+        { error: result.error },
+        { status, headers: rateLimitHeaders }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        url: result.url,
+        fullUrl: `${request.nextUrl.origin}${result.url}`,
+        expiresAt: new Date(Date.now() + result.expiresIn! * 1000).toISOString(),
+        expiresIn: result.expiresIn
+      },
+      { headers: rateLimitHeaders }
+    );
+  } catch (error: any) {
+    console.error("Link unlock error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to unlock link" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+    },
+  });
+}
@@ -1,51 +1,97 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth";
-import { uploadFile } from "@/lib/file-utils";
+import {
+  uploadFile,
+  parseMultipartFormData,
+  discardParsedFiles,
+  parseMaxDownloads,
+  ParsedFile,
+} from "@/lib/file-utils";
+import { getUserFolder } from "@/lib/folders";
+import { normalizeTags } from "@/lib/search";
+import { getUploadPolicy } from "@/lib/upload-policies";
+
+// Status for a file that couldn't be uploaded: too large, of a type the
+// user's plan doesn't allow, or over their quota
+function getUploadErrorStatus(message: string): number {
+  if (message.includes("File size exceeds")) {
+    return 413;
+  }
+  if (message.includes("File type") && message.includes("not allowed")) {
+    return 415;
+  }
+  if (message.includes("quota exceeded")) {
+    return 507;
+  }
+  return 400;
+}
 
 export async function POST(request: NextRequest) {
+  let parsedFiles: ParsedFile[] = [];
+
   try {
     // Authenticate user
     const user = await requireAuth(request);
 
-    // Parse form data using native FormData
-    const formData = await request.formData();
+    // Stream the multipart body to temporary files
+    const formData = await parseMultipartFormData(request, {
+      maxFileSize: (await getUploadPolicy(user.id)).maxFileSize,
+    });
+    parsedFiles = formData.files;
 
-    // Get uploaded files
-    const files = formData.getAll("file") as File[];
+    // Get uploaded files (browsers send an empty part when nothing is chosen)
+    const files = parsedFiles.filter(
+      (file) => file.fieldName === "file" && file.originalName,
+    );
     if (files.length === 0) {
       return NextResponse.json({ error: "No files provided" }, { status: 400 });
     }
 
     // Get optional fields
-    const description = (formData.get("description") as string) || undefined;
-    const isPublic = formData.get("isPublic") === "true";
-    const expiresIn = formData.get("expiresIn")
-      ? parseInt(formData.get("expiresIn") as string)
+    const description = formData.fields.description || undefined;
+    const isPublic = formData.fields.isPublic === "true";
+    const expiresIn = formData.fields.expiresIn
+      ? parseInt(formData.fields.expiresIn)
       : undefined;
+    const maxDownloads = parseMaxDownloads(
+      formData.fields.maxDownloads,
+      formData.fields.burnAfterReading,
+    );
+    const folderId = formData.fields.folderId || undefined;
+    const tags = normalizeTags(formData.fields.tags || "");
+    const clientEncrypted = formData.fields.encrypted === "true";
+    const keepMetadata = formData.fields.keepMetadata === "true";
+
+    if (folderId && !(await getUserFolder(user.id, folderId))) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
 
     // Process each uploaded file
     const uploadResults: Array<any> = [];
 
     for (const file of files) {
       try {
-        const buffer = Buffer.from(await file.arrayBuffer());
-
         const uploadOptions = {
           userId: user.id,
-          originalName: file.name,
-          buffer: buffer,
-          mimeType: file.type,
+          originalName: file.originalName,
+          filePath: file.tempPath,
+          mimeType: file.mimeType,
           description,
           isPublic,
           expiresIn,
+          maxDownloads,
+          folderId,
+          tags,
+          clientEncrypted,
+          keepMetadata,
         };
 
         const result = await uploadFile(uploadOptions);
         uploadResults.push(result);
       } catch (fileError: any) {
-        console.error(`Error uploading file ${file.name}:`, fileError);
+        console.error(`Error uploading file ${file.originalName}:`, fileError);
         uploadResults.push({
-          originalName: file.name,
+          originalName: file.originalName,
           error: fileError.message,
         });
       }
@@ -55,13 +101,20 @@ export async function POST(request: NextRequest) {
     const successfulUploads = uploadResults.filter((result) => !result.error);
     const failedUploads = uploadResults.filter((result) => result.error);
 
+    // When every file failed for the same kind of reason, say which
     if (successfulUploads.length === 0) {
+      const statuses = new Set(
+        failedUploads.map((result) => getUploadErrorStatus(result.error)),
+      );
       return NextResponse.json(
         {
-          error: "All file uploads failed",
+          error:
+            failedUploads.length === 1
+              ? failedUploads[0].error
+              : "All file uploads failed",
           details: failedUploads,
         },
-        { status: 400 },
+        { status: statuses.size === 1 ? Array.from(statuses)[0] : 400 },
       );
     }
 
@@ -95,6 +148,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 413 });
     }
 
+    if (error.message.includes("quota exceeded")) {
+      return NextResponse.json({ error: error.message }, { status: 507 });
+    }
+
     if (
       error.message.includes("File type") &&
       error.message.includes("not allowed")
@@ -102,10 +159,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 415 });
     }
 
+    if (
+      error.message.toLowerCase().includes("multipart") ||
+      error.message.includes("Tag") ||
+      error.message.includes("tags") ||
+      error.message.includes("Content-Type") ||
+      error.message.includes("Form field") ||
+      error.message.startsWith("Invalid maxDownloads")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     return NextResponse.json(
       { error: "File upload failed. Please try again." },
       { status: 500 },
     );
+  } finally {
+    await discardParsedFiles(parsedFiles);
   }
 }
 
@@ -0,0 +1,239 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { database } from "@/lib/database";
+import {
+  TUS_VERSION,
+  tusHeaders,
+  isSupportedTusVersion,
+  writeUploadChunk,
+  terminateResumableUpload,
+  getCompletedUploadUrl,
+} from "@/lib/resumable-upload";
+
+// Uploads are only visible to the user who created them
+async function getOwnUpload(uploadId: string, userId: string) {
+  const upload = await database.getUploadSession(uploadId);
+  return upload && upload.user_id === userId ? upload : null;
+}
+
+// Report the current offset so a client can resume
+export async function HEAD(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!isSupportedTusVersion(request)) {
+      return new NextResponse(null, {
+        status: 412,
+        headers: tusHeaders({ "Tus-Version": TUS_VERSION }),
+      });
+    }
+
+    const upload = await getOwnUpload(params.uploadId, user.id);
+    if (!upload) {
+      return new NextResponse(null, { status: 404, headers: tusHeaders() });
+    }
+
+    const headers = tusHeaders({
+      "Upload-Offset": upload.upload_offset.toString(),
+      "Upload-Length": upload.upload_length.toString(),
+      "Upload-Expires": new Date(upload.expires_at).toUTCString(),
+    });
+    const fileUrl = await getCompletedUploadUrl(upload);
+    if (fileUrl) {
+      headers["Upload-File-Url"] = fileUrl;
+    }
+
+    return new NextResponse(null, { status: 200, headers });
+  } catch (error: any) {
+    console.error("Resumable upload status error:", error);
+    return new NextResponse(null, {
+      status: isAuthError(error) ? 401 : 500,
+      headers: tusHeaders(),
+    });
+  }
+}
+
+// Append a chunk at Upload-Offset
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!isSupportedTusVersion(request)) {
+      return new NextResponse(null, {
+        status: 412,
+        headers: tusHeaders({ "Tus-Version": TUS_VERSION }),
+      });
+    }
+
+    if (
+      request.headers.get("content-type") !== "application/offset+octet-stream"
+    ) {
+      return NextResponse.json(
+        { error: "Content-Type must be application/offset+octet-stream" },
+        { status: 415, headers: tusHeaders() }
+      );
+    }
+
+    const uploadOffset = request.headers.get("upload-offset");
+    if (!uploadOffset || !/^\d+$/.test(uploadOffset)) {
+      return NextResponse.json(
+        { error: "A valid Upload-Offset header is required" },
+        { status: 400, headers: tusHeaders() }
+      );
+    }
+
+    const upload = await getOwnUpload(params.uploadId, user.id);
+    if (!upload) {
+      return NextResponse.json(
+        { error: "Upload not found" },
+        { status: 404, headers: tusHeaders() }
+      );
+    }
+
+    const { offset, expiresAt, result } = await writeUploadChunk(
+      upload,
+      parseInt(uploadOffset),
+      request.body
+    );
+
+    const headers = tusHeaders({ "Upload-Offset": offset.toString() });
+    if (result) {
+      headers["Upload-File-Url"] = result.url;
+    } else {
+      headers["Upload-Expires"] = new Date(expiresAt).toUTCString();
+    }
+
+    return new NextResponse(null, { status: 204, headers });
+  } catch (error: any) {
+    console.error("Resumable upload chunk error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401, headers: tusHeaders() }
+      );
+    }
+
+    if (
+      error.message.includes("Upload-Offset does not match") ||
+      error.message.includes("already complete")
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409, headers: tusHeaders() }
+      );
+    }
+
+    if (error.message.includes("locked")) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 423, headers: tusHeaders() }
+      );
+    }
+
+    if (error.message.includes("quota exceeded")) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 507, headers: tusHeaders() }
+      );
+    }
+
+    if (
+      error.message.includes("File size exceeds") ||
+      error.message.includes("exceeds the declared Upload-Length")
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 413, headers: tusHeaders() }
+      );
+    }
+
+    if (
+      error.message.includes("File type") &&
+      error.message.includes("not allowed")
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 415, headers: tusHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to write upload chunk" },
+      { status: 500, headers: tusHeaders() }
+    );
+  }
+}
+
+// Abort an upload and discard its data (tus "termination" extension)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!isSupportedTusVersion(request)) {
+      return new NextResponse(null, {
+        status: 412,
+        headers: tusHeaders({ "Tus-Version": TUS_VERSION }),
+      });
+    }
+
+    const upload = await getOwnUpload(params.uploadId, user.id);
+    if (!upload) {
+      return NextResponse.json(
+        { error: "Upload not found" },
+        { status: 404, headers: tusHeaders() }
+      );
+    }
+
+    await terminateResumableUpload(upload);
+
+    return new NextResponse(null, { status: 204, headers: tusHeaders() });
+  } catch (error: any) {
+    console.error("Resumable upload termination error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401, headers: tusHeaders() }
+      );
+    }
+
+    if (error.message.includes("locked")) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 423, headers: tusHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to terminate upload" },
+      { status: 500, headers: tusHeaders() }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      ...tusHeaders(),
+      "Tus-Version": TUS_VERSION,
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "HEAD, PATCH, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers":
+        "Content-Type, Authorization, Tus-Resumable, Upload-Offset",
+      "Access-Control-Expose-Headers":
+        "Tus-Resumable, Tus-Version, Upload-Offset, Upload-Length, Upload-Expires, Upload-File-Url",
+    },
+  });
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { MAX_FILE_SIZE } from "@/lib/upload-policies";
+import {
+  TUS_VERSION,
+  TUS_EXTENSIONS,
+  tusHeaders,
+  isSupportedTusVersion,
+  parseUploadMetadata,
+  createResumableUpload,
+} from "@/lib/resumable-upload";
+
+// Create a resumable upload (tus "creation" extension)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!isSupportedTusVersion(request)) {
+      return new NextResponse(null, {
+        status: 412,
+        headers: tusHeaders({ "Tus-Version": TUS_VERSION }),
+      });
+    }
+
+    const uploadLength = request.headers.get("upload-length");
+    if (!uploadLength || !/^\d+$/.test(uploadLength)) {
+      return NextResponse.json(
+        { error: "A valid Upload-Length header is required" },
+        { status: 400, headers: tusHeaders() },
+      );
+    }
+
+    // Checked against the user's upload policy when the upload is created
+    const length = parseInt(uploadLength);
+
+    const metadata = parseUploadMetadata(
+      request.headers.get("upload-metadata")
+    );
+    const { upload, result } = await createResumableUpload(
+      user.id,
+      length,
+      metadata,
+    );
+
+    const headers = tusHeaders({
+      Location: `/api/files/uploads/${upload.id}`,
+      "Upload-Offset": "0",
+      "Upload-Expires": new Date(upload.expires_at).toUTCString(),
+    });
+    if (result) {
+      headers["Upload-File-Url"] = result.url;
+    }
+
+    return new NextResponse(null, { status: 201, headers });
+  } catch (error: any) {
+    console.error("Resumable upload creation error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401, headers: tusHeaders() }
+      );
+    }
+
+    if (error.message.includes("File size exceeds")) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 413, headers: tusHeaders() }
+      );
+    }
+
+    if (
+      error.message.includes("File type") &&
+      error.message.includes("not allowed")
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 415, headers: tusHeaders() }
+      );
+    }
+
+    if (error.message.includes("quota exceeded")) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 507, headers: tusHeaders() }
+      );
+    }
+
+    if (
+      error.message.includes("Upload-Metadata") ||
+      error.message.includes("for your plan")
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400, headers: tusHeaders() }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create upload" },
+      { status: 500, headers: tusHeaders() }
+    );
+  }
+}
+
+// Server capabilities (tus discovery) and CORS preflight
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      ...tusHeaders(),
+      "Tus-Version": TUS_VERSION,
+      "Tus-Extension": TUS_EXTENSIONS.join(","),
+      // The built-in limit; plans may allow more or less
+      "Tus-Max-Size": MAX_FILE_SIZE.toString(),
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers":
+        "Content-Type, Authorization, Tus-Resumable, Upload-Length, Upload-Metadata",
+      "Access-Control-Expose-Headers":
+        "Location, Tus-Resumable, Tus-Version, Tus-Extension, Tus-Max-Size, Upload-Offset, Upload-Expires, Upload-File-Url",
+    },
+  });
+}
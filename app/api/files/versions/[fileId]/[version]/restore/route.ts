@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { database } from "@/lib/database";
+import { restoreFileVersion } from "@/lib/file-versions";
+import { logFileAccess } from "@/lib/secure-access";
+import { getClientIP } from "@/lib/client-ip";
+
+// Restore a previous version as the new current version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { fileId: string; version: string } }
+) {
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+
+  try {
+    const user = await requireAuth(request);
+
+    const file = await database.getFileById(params.fileId);
+    if (!file || file.user_id !== user.id) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    if (!/^\d+$/.test(params.version)) {
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 }
+      );
+    }
+
+    const versionNumber = parseInt(params.version);
+    if (versionNumber === file.version) {
+      return NextResponse.json(
+        { error: "This version is already current" },
+        { status: 409 }
+      );
+    }
+
+    const restored = await restoreFileVersion(file, versionNumber);
+    if (!restored) {
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 }
+      );
+    }
+
+    await logFileAccess({
+      file_id: file.id,
+      user_id: user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      action: "version_restored",
+      success: true
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Version ${versionNumber} restored as version ${restored.version}`,
+      file: {
+        id: restored.id,
+        version: restored.version,
+        restoredFrom: versionNumber,
+        originalName: restored.original_name,
+        mimeType: restored.mime_type,
+        size: restored.size,
+        contentHash: restored.content_hash,
+        clientEncrypted: !!restored.client_encrypted,
+        url: `/api/files/${restored.access_token}`,
+      },
+    });
+  } catch (error: any) {
+    console.error("Restore file version error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to restore file version" },
+      { status: 500 }
+    );
+  }
+}
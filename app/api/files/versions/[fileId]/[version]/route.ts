@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { database } from "@/lib/database";
+import { getFileAtVersion, deleteFileVersion } from "@/lib/file-versions";
+import { createFileResponse } from "@/lib/file-response";
+import { getStorageAdapter } from "@/lib/storage";
+import { logFileAccess } from "@/lib/secure-access";
+import { getClientIP } from "@/lib/client-ip";
+
+// Download a specific version
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { fileId: string; version: string } }
+) {
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+
+  try {
+    const user = await requireAuth(request);
+
+    const file = await database.getFileById(params.fileId);
+    if (!file || file.user_id !== user.id) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const version = /^\d+$/.test(params.version)
+      ? await getFileAtVersion(file, parseInt(params.version))
+      : null;
+    if (!version) {
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 }
+      );
+    }
+
+    const storage = getStorageAdapter(version.storage_backend);
+    if (!(await storage.exists(version.upload_path))) {
+      return NextResponse.json(
+        { error: "Version content is missing" },
+        { status: 404 }
+      );
+    }
+
+    // The version carries the file's id and download limit, which are for
+    // the people it's shared with, not its owner
+    const response = await createFileResponse(request, version, "attachment", {
+      countDownload: false
+    });
+
+    await logFileAccess({
+      file_id: file.id,
+      user_id: user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      action: "version_download",
+      success: true
+    });
+
+    response.headers.set("Cache-Control", "private, no-cache");
+    response.headers.set("X-Content-Type-Options", "nosniff");
+    response.headers.set("X-File-Version", params.version);
+
+    return response;
+  } catch (error: any) {
+    console.error("Download file version error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to download file version" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a single previous version
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { fileId: string; version: string } }
+) {
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+
+  try {
+    const user = await requireAuth(request);
+
+    const file = await database.getFileById(params.fileId);
+    if (!file || file.user_id !== user.id) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    if (!/^\d+$/.test(params.version)) {
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 }
+      );
+    }
+
+    const versionNumber = parseInt(params.version);
+    if (versionNumber === file.version) {
+      return NextResponse.json(
+        { error: "The current version cannot be deleted" },
+        { status: 409 }
+      );
+    }
+
+    if (!(await deleteFileVersion(file, versionNumber))) {
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 }
+      );
+    }
+
+    await logFileAccess({
+      file_id: file.id,
+      user_id: user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      action: "version_deleted",
+      success: true
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Version ${versionNumber} deleted`,
+    });
+  } catch (error: any) {
+    console.error("Delete file version error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete file version" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers":
+        "Content-Type, Authorization, Range, If-Range, If-None-Match, If-Modified-Since",
+      "Access-Control-Expose-Headers":
+        "Content-Range, Content-Length, Accept-Ranges, ETag, Last-Modified, X-File-Version",
+    },
+  });
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { database } from "@/lib/database";
+import { diffFileVersions } from "@/lib/file-versions";
+
+// Unified diff between two versions of a text file.
+// Query parameters: from (required), to (defaults to the current version)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const file = await database.getFileById(params.fileId);
+    if (!file || file.user_id !== user.id) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const url = new URL(request.url);
+    const from = url.searchParams.get("from");
+    const to = url.searchParams.get("to") || file.version.toString();
+    if (!from || !/^\d+$/.test(from) || !/^\d+$/.test(to)) {
+      return NextResponse.json(
+        { error: "from and to must be version numbers" },
+        { status: 400 }
+      );
+    }
+
+    const diff = await diffFileVersions(file, parseInt(from), parseInt(to));
+    if (diff === null) {
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(diff, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/x-diff; charset=utf-8",
+        "Cache-Control": "private, no-cache",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error: any) {
+    console.error("Diff file versions error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (error.message.includes("Diff is not available")) {
+      return NextResponse.json({ error: error.message }, { status: 415 });
+    }
+
+    if (error.message.includes("too large to diff")) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to diff file versions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,231 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { database } from "@/lib/database";
+import {
+  parseMultipartFormData,
+  discardParsedFiles,
+  ParsedFile,
+} from "@/lib/file-utils";
+import {
+  getFileVersionHistory,
+  uploadFileVersion,
+  pruneFileVersions,
+} from "@/lib/file-versions";
+import { logFileAccess } from "@/lib/secure-access";
+import { getUploadPolicy } from "@/lib/upload-policies";
+import { getClientIP } from "@/lib/client-ip";
+
+// List the versions of a file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const file = await database.getFileById(params.fileId);
+    if (!file || file.user_id !== user.id) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      fileId: file.id,
+      currentVersion: file.version,
+      versions: await getFileVersionHistory(file),
+    });
+  } catch (error: any) {
+    console.error("List file versions error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list file versions" },
+      { status: 500 }
+    );
+  }
+}
+
+// Upload a new version, keeping the file id and access token
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+  let parsedFiles: ParsedFile[] = [];
+
+  try {
+    const user = await requireAuth(request);
+
+    const file = await database.getFileById(params.fileId);
+    if (!file || file.user_id !== user.id) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const formData = await parseMultipartFormData(request, {
+      maxFileSize: (await getUploadPolicy(user.id)).maxFileSize,
+    });
+    parsedFiles = formData.files;
+
+    const upload = parsedFiles.find(
+      (part) => part.fieldName === "file" && part.originalName
+    );
+    if (!upload) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    const updated = await uploadFileVersion(
+      file,
+      {
+        originalName: upload.originalName,
+        filePath: upload.tempPath,
+        mimeType: upload.mimeType,
+        clientEncrypted: formData.fields.encrypted === "true",
+        keepMetadata: formData.fields.keepMetadata === "true",
+      },
+      user.id
+    );
+
+    await logFileAccess({
+      file_id: file.id,
+      user_id: user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      action: "version_uploaded",
+      success: true
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Version ${updated.version} uploaded successfully`,
+        file: {
+          id: updated.id,
+          version: updated.version,
+          originalName: updated.original_name,
+          mimeType: updated.mime_type,
+          size: updated.size,
+          contentHash: updated.content_hash,
+          clientEncrypted: !!updated.client_encrypted,
+          url: `/api/files/${updated.access_token}`,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error("Upload file version error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (error.message.includes("File size exceeds")) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+
+    if (error.message.includes("quota exceeded")) {
+      return NextResponse.json({ error: error.message }, { status: 507 });
+    }
+
+    if (
+      error.message.includes("File type") &&
+      error.message.includes("not allowed")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 415 });
+    }
+
+    if (
+      error.message.toLowerCase().includes("multipart") ||
+      error.message.includes("Content-Type") ||
+      error.message.includes("Form field")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to upload new version" },
+      { status: 500 }
+    );
+  } finally {
+    await discardParsedFiles(parsedFiles);
+  }
+}
+
+// Prune old versions, keeping the most recent `keep` previous versions
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+
+  try {
+    const user = await requireAuth(request);
+
+    const file = await database.getFileById(params.fileId);
+    if (!file || file.user_id !== user.id) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const url = new URL(request.url);
+    const keep = parseInt(url.searchParams.get("keep") || "0");
+    if (isNaN(keep) || keep < 0) {
+      return NextResponse.json(
+        { error: "keep must be a non-negative number" },
+        { status: 400 }
+      );
+    }
+
+    const pruned = await pruneFileVersions(file, keep);
+
+    await logFileAccess({
+      file_id: file.id,
+      user_id: user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      action: "versions_pruned",
+      success: true
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `${pruned} version(s) pruned`,
+      pruned,
+    });
+  } catch (error: any) {
+    console.error("Prune file versions error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to prune file versions" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
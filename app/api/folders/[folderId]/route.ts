@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { database } from "@/lib/database";
+import {
+  getUserFolder,
+  getFolderBreadcrumbs,
+  updateFolder,
+  deleteFolderRecursive,
+  toFolderInfo,
+} from "@/lib/folders";
+import { checkRateLimit } from "@/lib/secure-access";
+import { getClientIP } from "@/lib/client-ip";
+
+// A folder with its breadcrumbs and direct subfolders
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { folderId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const folder = await getUserFolder(user.id, params.folderId);
+    if (!folder) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+
+    const subfolders = await database.getChildFolders(user.id, folder.id);
+
+    return NextResponse.json({
+      success: true,
+      folder: toFolderInfo(folder),
+      breadcrumbs: await getFolderBreadcrumbs(folder),
+      folders: subfolders.map(toFolderInfo),
+    });
+  } catch (error: any) {
+    console.error("Get folder error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to retrieve folder" },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a folder and/or move it (parentId null moves it to the top level)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { folderId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const folder = await getUserFolder(user.id, params.folderId);
+    if (!folder) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { name, parentId } = body;
+
+    if (parentId !== undefined && parentId !== null && typeof parentId !== "string") {
+      return NextResponse.json(
+        { error: "parentId must be a folder id or null" },
+        { status: 400 }
+      );
+    }
+
+    if (name === undefined && parentId === undefined) {
+      return NextResponse.json(
+        { error: "Nothing to update: provide a name or parentId" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateFolder(folder, { name, parentId });
+
+    return NextResponse.json({
+      success: true,
+      folder: toFolderInfo(updated),
+      breadcrumbs: await getFolderBreadcrumbs(updated),
+    });
+  } catch (error: any) {
+    console.error("Update folder error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (error.message === "Parent folder not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("already exists")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (
+      error.message.startsWith("Folder name") ||
+      error.message.startsWith("Folders can be nested") ||
+      error.message.startsWith("Cannot move a folder")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update folder" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a folder with everything in it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { folderId: string } }
+) {
+  const ipAddress = getClientIP(request);
+
+  try {
+    // Rate limiting for folder deletion
+    const rateLimitKey = `folder_deletion:${ipAddress}`;
+    const rateLimit = checkRateLimit(rateLimitKey, 10, 10); // 10 deletions per 10 minutes
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: "Rate limit exceeded for folder deletion",
+          resetTime: new Date(rateLimit.resetTime).toISOString()
+        },
+        {
+          status: 429,
+          headers: {
+            "X-RateLimit-Limit": "10",
+            "X-RateLimit-Remaining": "0",
+            "X-RateLimit-Reset": Math.floor(rateLimit.resetTime / 1000).toString()
+          }
+        }
+      );
+    }
+
+    const user = await requireAuth(request);
+
+    const folder = await getUserFolder(user.id, params.folderId);
+    if (!folder) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+
+    const result = await deleteFolderRecursive(folder);
+
+    return NextResponse.json({
+      success: true,
+      message: `Deleted ${result.deletedFolders} folder(s) and ${result.deletedFiles} file(s)`,
+      ...result,
+    }, {
+      headers: {
+        "X-RateLimit-Limit": "10",
+        "X-RateLimit-Remaining": rateLimit.remaining.toString(),
+        "X-RateLimit-Reset": Math.floor(rateLimit.resetTime / 1000).toString()
+      }
+    });
+  } catch (error: any) {
+    console.error("Delete folder error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete folder" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, PATCH, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
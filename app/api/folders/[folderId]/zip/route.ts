@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { toWebStream } from "@/lib/file-utils";
+import { getUserFolder, createFolderArchive } from "@/lib/folders";
+import { logFileAccess } from "@/lib/secure-access";
+import { getClientIP } from "@/lib/client-ip";
+
+// Download a folder and everything below it as a ZIP archive
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { folderId: string } }
+) {
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+
+  try {
+    const user = await requireAuth(request);
+
+    const folder = await getUserFolder(user.id, params.folderId);
+    if (!folder) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+
+    const archive = await createFolderArchive(folder);
+
+    for (const file of archive.files) {
+      await logFileAccess({
+        file_id: file.id,
+        user_id: user.id,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "folder_zip_download",
+        success: true
+      });
+    }
+
+    return new NextResponse(toWebStream(archive.stream), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${encodeURIComponent(folder.name)}.zip"`,
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error: any) {
+    console.error("Folder archive error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (
+      error.message.includes("too many files") ||
+      error.message.includes("too large")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create folder archive" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { getUserFolder, moveFiles, updateFolder } from "@/lib/folders";
+import { logFileAccess } from "@/lib/secure-access";
+import { getClientIP } from "@/lib/client-ip";
+
+const MAX_BATCH_SIZE = 100;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+// Move files and folders into a folder (targetFolderId null for the top level)
+export async function POST(request: NextRequest) {
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent") || "";
+
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json().catch(() => ({}));
+    const { fileIds = [], folderIds = [], targetFolderId } = body;
+
+    if (!isStringArray(fileIds) || !isStringArray(folderIds)) {
+      return NextResponse.json(
+        { error: "fileIds and folderIds must be arrays of ids" },
+        { status: 400 }
+      );
+    }
+
+    if (fileIds.length + folderIds.length === 0) {
+      return NextResponse.json(
+        { error: "Nothing to move: provide fileIds or folderIds" },
+        { status: 400 }
+      );
+    }
+
+    if (fileIds.length + folderIds.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `Maximum ${MAX_BATCH_SIZE} items can be moved at once` },
+        { status: 400 }
+      );
+    }
+
+    if (targetFolderId === undefined || (targetFolderId !== null && typeof targetFolderId !== "string")) {
+      return NextResponse.json(
+        { error: "targetFolderId must be a folder id or null" },
+        { status: 400 }
+      );
+    }
+
+    if (targetFolderId && !(await getUserFolder(user.id, targetFolderId))) {
+      return NextResponse.json(
+        { error: "Target folder not found" },
+        { status: 404 }
+      );
+    }
+
+    const results = [];
+
+    const files = await moveFiles(user.id, fileIds, targetFolderId);
+    for (const fileId of files.moved) {
+      await logFileAccess({
+        file_id: fileId,
+        user_id: user.id,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        action: "file_moved",
+        success: true
+      });
+      results.push({ type: "file", id: fileId, success: true });
+    }
+    for (const fileId of files.failed) {
+      results.push({
+        type: "file",
+        id: fileId,
+        success: false,
+        error: "File not found"
+      });
+    }
+
+    for (const folderId of folderIds) {
+      const folder = await getUserFolder(user.id, folderId);
+      if (!folder) {
+        results.push({
+          type: "folder",
+          id: folderId,
+          success: false,
+          error: "Folder not found"
+        });
+        continue;
+      }
+
+      try {
+        await updateFolder(folder, { parentId: targetFolderId });
+        results.push({ type: "folder", id: folderId, success: true });
+      } catch (error: any) {
+        results.push({
+          type: "folder",
+          id: folderId,
+          success: false,
+          error: error.message
+        });
+      }
+    }
+
+    const successful = results.filter((result) => result.success).length;
+
+    return NextResponse.json({
+      success: successful > 0,
+      results,
+      summary: {
+        total: results.length,
+        successful,
+        failed: results.length - successful
+      }
+    });
+  } catch (error: any) {
+    console.error("Move error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to move items" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { createFolder, getFolderTree, toFolderInfo } from "@/lib/folders";
+
+// All of the user's folders as a tree
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    return NextResponse.json({
+      success: true,
+      folders: await getFolderTree(user.id),
+    });
+  } catch (error: any) {
+    console.error("List folders error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list folders" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a folder, at the top level or inside parentId
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json().catch(() => ({}));
+    const { name, parentId } = body;
+
+    if (parentId !== undefined && parentId !== null && typeof parentId !== "string") {
+      return NextResponse.json(
+        { error: "parentId must be a folder id or null" },
+        { status: 400 }
+      );
+    }
+
+    const folder = await createFolder(user.id, name, parentId || null);
+
+    return NextResponse.json(
+      { success: true, folder: toFolderInfo(folder) },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error("Create folder error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (error.message === "Parent folder not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("already exists")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (
+      error.message.startsWith("Folder name") ||
+      error.message.startsWith("Folders can be nested")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create folder" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
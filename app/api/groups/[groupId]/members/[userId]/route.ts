@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { removeGroupMember } from "@/lib/sharing";
+import { getClientIP } from "@/lib/client-ip";
+
+// Remove a member from a group. The owner can remove anyone, and members
+// can leave.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { groupId: string; userId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const members = await removeGroupMember(
+      {
+        userId: user.id,
+        ipAddress: getClientIP(request),
+        userAgent: request.headers.get("user-agent") || "",
+      },
+      params.groupId,
+      params.userId
+    );
+
+    return NextResponse.json({
+      success: true,
+      members: members.map((member) => ({
+        id: member.user_id,
+        username: member.username,
+      })),
+    });
+  } catch (error: any) {
+    console.error("Remove group member error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (error.message === "Group not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.startsWith("Access denied")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to remove group member" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
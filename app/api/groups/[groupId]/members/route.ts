@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { addGroupMember } from "@/lib/sharing";
+import { getClientIP } from "@/lib/client-ip";
+
+// Add a user to a group by username, email or id (owner only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { groupId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json().catch(() => ({}));
+    const { userId, username, email } = body;
+
+    const members = await addGroupMember(
+      {
+        userId: user.id,
+        ipAddress: getClientIP(request),
+        userAgent: request.headers.get("user-agent") || "",
+      },
+      params.groupId,
+      {
+        userId: typeof userId === "string" ? userId : undefined,
+        username: typeof username === "string" ? username : undefined,
+        email: typeof email === "string" ? email : undefined,
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      members: members.map((member) => ({
+        id: member.user_id,
+        username: member.username,
+      })),
+    });
+  } catch (error: any) {
+    console.error("Add group member error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.startsWith("Access denied")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error.message.includes("is required")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to add group member" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
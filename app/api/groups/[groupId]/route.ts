@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { database } from "@/lib/database";
+import { deleteGroup, getGroupForUser, toGroupInfo } from "@/lib/sharing";
+import { getClientIP } from "@/lib/client-ip";
+
+// A group and its members, for its owner and members
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { groupId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const group = await getGroupForUser(user.id, params.groupId);
+    if (!group) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      group: toGroupInfo(
+        group,
+        await database.getGroupMembers(group.id),
+        user.id
+      ),
+    });
+  } catch (error: any) {
+    console.error("Get group error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to get group" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a group; everything shared with it stops being shared
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { groupId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    await deleteGroup(
+      {
+        userId: user.id,
+        ipAddress: getClientIP(request),
+        userAgent: request.headers.get("user-agent") || "",
+      },
+      params.groupId
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Delete group error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (error.message === "Group not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.startsWith("Access denied")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete group" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { database } from "@/lib/database";
+import { createGroup, toGroupInfo } from "@/lib/sharing";
+import { getClientIP } from "@/lib/client-ip";
+
+// Groups the user owns or belongs to
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const groups = [];
+    for (const group of await database.getGroupsForUser(user.id)) {
+      groups.push(
+        toGroupInfo(group, await database.getGroupMembers(group.id), user.id)
+      );
+    }
+
+    return NextResponse.json({ success: true, groups });
+  } catch (error: any) {
+    console.error("List groups error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list groups" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a group, optionally with members given by username
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json().catch(() => ({}));
+    const { name, members = [] } = body;
+
+    if (
+      !Array.isArray(members) ||
+      members.some((member: unknown) => typeof member !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "members must be a list of usernames" },
+        { status: 400 }
+      );
+    }
+
+    const group = await createGroup(
+      {
+        userId: user.id,
+        ipAddress: getClientIP(request),
+        userAgent: request.headers.get("user-agent") || "",
+      },
+      name,
+      members.map((username: string) => ({ username }))
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        group: toGroupInfo(
+          group,
+          await database.getGroupMembers(group.id),
+          user.id
+        ),
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error("Create group error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (error.message === "User not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.includes("already exists")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error.message.startsWith("Group name")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create group" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
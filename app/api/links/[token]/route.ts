@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ShareLinkAction } from "@/lib/database";
+import { getDownloadableFile } from "@/lib/file-utils";
+import { createFileResponse } from "@/lib/file-response";
+import { checkRateLimit } from "@/lib/secure-access";
+import {
+  SHARE_LINK_ACTIONS,
+  claimShareLinkDownload,
+  openShareLink,
+} from "@/lib/share-links";
+import { getClientIP } from "@/lib/client-ip";
+
+// Map link errors to a status code: links that can no longer be used are
+// gone, links that can't be used from here are forbidden
+function getErrorStatus(message: string): number {
+  if (message.includes("not found")) return 404;
+  if (message.startsWith("Access denied")) return 403;
+  return 410;
+}
+
+// Open a share link: ?action=download (the default), view or info
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  const url = new URL(request.url);
+  const action = url.searchParams.get("action") || "download";
+  const visitor = {
+    ipAddress: getClientIP(request),
+    userAgent: request.headers.get("user-agent") || "",
+  };
+
+  try {
+    if (!SHARE_LINK_ACTIONS.includes(action as ShareLinkAction)) {
+      return NextResponse.json(
+        {
+          error: `Invalid action: must be one of ${SHARE_LINK_ACTIONS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const rateLimit = checkRateLimit(`share_link:${visitor.ipAddress}`, 30, 15);
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: "Rate limit exceeded",
+          resetTime: new Date(rateLimit.resetTime).toISOString(),
+        },
+        { status: 429 }
+      );
+    }
+
+    let opened;
+    try {
+      opened = await openShareLink(
+        params.token,
+        action as ShareLinkAction,
+        visitor
+      );
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: getErrorStatus(error.message) }
+      );
+    }
+    const { link, file: fileInfo } = opened;
+
+    if (action === "info") {
+      return NextResponse.json({
+        success: true,
+        link: {
+          label: link.label || null,
+          expiresAt: link.expires_at || null,
+          allowedActions: link.allowed_actions.split(","),
+          downloadsRemaining: link.max_downloads
+            ? Math.max(0, link.max_downloads - link.download_count)
+            : null,
+        },
+        file: {
+          originalName: fileInfo.original_name,
+          mimeType: fileInfo.mime_type,
+          size: fileInfo.size,
+          contentHash: fileInfo.content_hash,
+          clientEncrypted: !!fileInfo.client_encrypted,
+          scanStatus: fileInfo.scan_status ?? null,
+          createdAt: fileInfo.created_at,
+          expiresAt: fileInfo.expires_at,
+          description: fileInfo.description,
+        },
+      });
+    }
+
+    const file = await getDownloadableFile(fileInfo.access_token);
+    if (!file) {
+      return NextResponse.json(
+        { error: "File not available" },
+        { status: 404 }
+      );
+    }
+
+    // Views and downloads both count against the link's download limit
+    const response = await createFileResponse(
+      request,
+      file,
+      action === "view" ? "inline" : "attachment",
+      {
+        claimDownload: () =>
+          claimShareLinkDownload(
+            link,
+            action as ShareLinkAction,
+            visitor
+          ),
+        limited: Boolean(link.max_downloads)
+      }
+    );
+
+    response.headers.set("Cache-Control", "private, no-cache, must-revalidate");
+    response.headers.set("X-Content-Type-Options", "nosniff");
+    response.headers.set("X-Frame-Options", "DENY");
+    response.headers.set("Referrer-Policy", "no-referrer");
+
+    return response;
+  } catch (error: any) {
+    console.error("Share link access error:", error);
+
+    return NextResponse.json(
+      { error: "Failed to open link" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers":
+        "Content-Type, Range, If-Range, If-None-Match, If-Modified-Since",
+      "Access-Control-Expose-Headers":
+        "Content-Range, Content-Length, Accept-Ranges, ETag, Last-Modified",
+    },
+  });
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { database } from "@/lib/database";
+import { toNotificationInfo } from "@/lib/notifications";
+
+// The user's notifications, newest first; ?unread=true for unread ones only
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const url = new URL(request.url);
+    const unreadOnly = url.searchParams.get("unread") === "true";
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 100);
+
+    const notifications = await database.getNotifications(
+      user.id,
+      unreadOnly,
+      limit
+    );
+
+    return NextResponse.json({
+      success: true,
+      notifications: notifications.map(toNotificationInfo),
+    });
+  } catch (error: any) {
+    console.error("Get notifications error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to get notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+// Mark notifications read: the given ids, or all of them when none are given
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json().catch(() => ({}));
+    const ids = body.ids;
+    if (
+      ids !== undefined &&
+      (!Array.isArray(ids) || ids.some((id: unknown) => typeof id !== "string"))
+    ) {
+      return NextResponse.json(
+        { error: "ids must be an array of notification ids" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await database.markNotificationsRead(user.id, ids);
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error: any) {
+    console.error("Mark notifications read error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import {
+  getShareLink,
+  revokeShareLink,
+  updateShareLink,
+} from "@/lib/share-links";
+import { getClientIP } from "@/lib/client-ip";
+
+// Map share link errors to a status code, or null for unexpected errors
+function getErrorStatus(message: string): number | null {
+  if (message.includes("not found")) return 404;
+  if (message.startsWith("Access denied")) return 403;
+  if (message.startsWith("Invalid") || message.includes("is required")) {
+    return 400;
+  }
+  return null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { linkId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+    const link = await getShareLink(user.id, params.linkId);
+
+    return NextResponse.json({ success: true, link });
+  } catch (error: any) {
+    console.error("Get share link error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const status = getErrorStatus(error.message);
+    if (status) {
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to get share link" },
+      { status: 500 }
+    );
+  }
+}
+
+// Change a link's settings. Fields left out stay as they are, and null
+// clears an optional setting.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { linkId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json().catch(() => ({}));
+    const link = await updateShareLink(
+      {
+        userId: user.id,
+        ipAddress: getClientIP(request),
+        userAgent: request.headers.get("user-agent") || "",
+      },
+      params.linkId,
+      {
+        label: body.label,
+        expiresIn: body.expiresIn,
+        maxDownloads: body.maxDownloads,
+        burnAfterReading: body.burnAfterReading,
+        allowedActions: body.allowedActions,
+        ipAllowlist: body.ipAllowlist,
+      }
+    );
+
+    return NextResponse.json({ success: true, link });
+  } catch (error: any) {
+    console.error("Update share link error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const status = getErrorStatus(error.message);
+    if (status) {
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update share link" },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoke the link. Other links to the same file keep working.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { linkId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const link = await revokeShareLink(
+      {
+        userId: user.id,
+        ipAddress: getClientIP(request),
+        userAgent: request.headers.get("user-agent") || "",
+      },
+      params.linkId
+    );
+
+    return NextResponse.json({ success: true, link });
+  } catch (error: any) {
+    console.error("Revoke share link error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const status = getErrorStatus(error.message);
+    if (status) {
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to revoke share link" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, PATCH, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
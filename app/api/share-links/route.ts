@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { createShareLink, listShareLinks } from "@/lib/share-links";
+import { getClientIP } from "@/lib/client-ip";
+
+// Map share link errors to a status code, or null for unexpected errors
+function getErrorStatus(message: string): number | null {
+  if (message.includes("not found")) return 404;
+  if (message.startsWith("Access denied")) return 403;
+  if (message.startsWith("Invalid") || message.includes("is required")) {
+    return 400;
+  }
+  return null;
+}
+
+// Links on a file the user manages (?fileId=), or on every file they own
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const url = new URL(request.url);
+    const links = await listShareLinks(
+      user.id,
+      url.searchParams.get("fileId") || undefined
+    );
+
+    return NextResponse.json({ success: true, links });
+  } catch (error: any) {
+    console.error("List share links error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const status = getErrorStatus(error.message);
+    if (status) {
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list share links" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a new link to a file, with its own label, expiry, download limit,
+// allowed actions and IP allowlist
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json().catch(() => ({}));
+    if (!body.fileId || typeof body.fileId !== "string") {
+      return NextResponse.json(
+        { error: "fileId is required" },
+        { status: 400 }
+      );
+    }
+
+    const link = await createShareLink(
+      {
+        userId: user.id,
+        ipAddress: getClientIP(request),
+        userAgent: request.headers.get("user-agent") || "",
+      },
+      body.fileId,
+      {
+        label: body.label,
+        expiresIn: body.expiresIn,
+        maxDownloads: body.maxDownloads,
+        burnAfterReading: body.burnAfterReading,
+        allowedActions: body.allowedActions,
+        ipAllowlist: body.ipAllowlist,
+      }
+    );
+
+    return NextResponse.json({ success: true, link }, { status: 201 });
+  } catch (error: any) {
+    console.error("Create share link error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const status = getErrorStatus(error.message);
+    if (status) {
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create share link" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
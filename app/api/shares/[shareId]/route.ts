@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { revokeShare } from "@/lib/sharing";
+import { getClientIP } from "@/lib/client-ip";
+
+// Revoke a share, or leave one that was made to the user
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { shareId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const share = await revokeShare(
+      {
+        userId: user.id,
+        ipAddress: getClientIP(request),
+        userAgent: request.headers.get("user-agent") || "",
+      },
+      params.shareId
+    );
+
+    return NextResponse.json({ success: true, share });
+  } catch (error: any) {
+    console.error("Revoke share error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (error.message === "Share not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error.message.startsWith("Access denied")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to revoke share" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { database } from "@/lib/database";
+import { toAuditLogInfo } from "@/lib/audit";
+
+// Sharing and group changes the user made, or that were made to their
+// files, folders and groups
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const url = new URL(request.url);
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 100);
+    const offset = Math.max(parseInt(url.searchParams.get("offset") || "0"), 0);
+
+    const logs = await database.getAuditLogs(user.id, limit, offset);
+
+    return NextResponse.json({
+      success: true,
+      logs: logs.map(toAuditLogInfo),
+      pagination: {
+        limit,
+        offset,
+        hasMore: logs.length === limit,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get audit logs error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to get audit logs" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
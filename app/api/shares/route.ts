@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, isAuthError } from "@/lib/auth";
+import { listShares, shareResource } from "@/lib/sharing";
+import { getClientIP } from "@/lib/client-ip";
+
+// Map sharing errors to a status code, or null for unexpected errors
+function getErrorStatus(message: string): number | null {
+  if (message.includes("not found")) return 404;
+  if (message.startsWith("Access denied")) return 403;
+  if (message.startsWith("Invalid") || message.includes("is required")) {
+    return 400;
+  }
+  return null;
+}
+
+// Shares on a file (?fileId=) or folder (?folderId=) the user manages, or
+// everything the user has shared when neither is given
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const url = new URL(request.url);
+    const shares = await listShares(user.id, {
+      fileId: url.searchParams.get("fileId") || undefined,
+      folderId: url.searchParams.get("folderId") || undefined,
+    });
+
+    return NextResponse.json({ success: true, shares });
+  } catch (error: any) {
+    console.error("List shares error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const status = getErrorStatus(error.message);
+    if (status) {
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list shares" },
+      { status: 500 }
+    );
+  }
+}
+
+// Share a file or folder with a user or group, or change an existing share
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json().catch(() => ({}));
+    const idFields = [
+      "fileId",
+      "folderId",
+      "userId",
+      "username",
+      "email",
+      "groupId",
+    ];
+    for (const key of idFields) {
+      if (body[key] !== undefined && typeof body[key] !== "string") {
+        return NextResponse.json(
+          { error: `${key} must be a string` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const share = await shareResource(
+      {
+        userId: user.id,
+        ipAddress: getClientIP(request),
+        userAgent: request.headers.get("user-agent") || "",
+      },
+      {
+        fileId: body.fileId,
+        folderId: body.folderId,
+        userId: body.userId,
+        username: body.username,
+        email: body.email,
+        groupId: body.groupId,
+        permission: body.permission,
+        expiresIn: body.expiresIn,
+      }
+    );
+
+    return NextResponse.json(
+      { success: true, share },
+      { status: share.updatedAt ? 200 : 201 }
+    );
+  } catch (error: any) {
+    console.error("Create share error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const status = getErrorStatus(error.message);
+    if (status) {
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to share" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
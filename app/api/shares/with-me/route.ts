@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { database, File } from "@/lib/database";
+import { formatFileSize, getFileTypeIcon } from "@/lib/file-utils";
+import { toFolderInfo } from "@/lib/folders";
+import {
+  getSharedFolderContents,
+  getSharedWithUser,
+} from "@/lib/sharing";
+
+// Shared files leave out the access token: it is a download link in its
+// own right, so grantees fetch files through signed URLs instead
+function formatSharedFile(file: File, owners: Map<string, string>) {
+  return {
+    id: file.id,
+    originalName: file.original_name,
+    mimeType: file.mime_type,
+    size: file.size,
+    formattedSize: formatFileSize(file.size),
+    version: file.version,
+    icon: getFileTypeIcon(file.mime_type),
+    createdAt: file.created_at,
+    expiresAt: file.expires_at,
+    isPublic: file.is_public,
+    description: file.description,
+    folderId: file.folder_id || null,
+    owner: { id: file.user_id, username: owners.get(file.user_id) || null },
+    isExpired: file.expires_at ? new Date(file.expires_at) < new Date() : false,
+  };
+}
+
+async function getOwnerNames(userIds: string[]): Promise<Map<string, string>> {
+  const owners = new Map<string, string>();
+  for (const id of Array.from(new Set(userIds))) {
+    const owner = await database.getUserById(id);
+    if (owner) owners.set(id, owner.username);
+  }
+  return owners;
+}
+
+// Files and folders shared with the user, or the contents of one shared
+// folder with ?folderId=
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const url = new URL(request.url);
+    const folderId = url.searchParams.get("folderId");
+
+    if (folderId) {
+      const contents = await getSharedFolderContents(user.id, folderId);
+      if (!contents) {
+        return NextResponse.json(
+          { error: "Folder not found" },
+          { status: 404 }
+        );
+      }
+
+      const owners = await getOwnerNames([contents.folder.user_id]);
+      return NextResponse.json({
+        success: true,
+        folder: toFolderInfo(contents.folder),
+        permission: contents.access,
+        folders: contents.folders.map(toFolderInfo),
+        files: contents.files.map((file) => ({
+          ...formatSharedFile(file, owners),
+          permission: contents.access,
+        })),
+      });
+    }
+
+    const shared = await getSharedWithUser(user.id);
+    const owners = await getOwnerNames([
+      ...shared.files.map(({ file }) => file.user_id),
+      ...shared.folders.map(({ folder }) => folder.user_id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      files: shared.files.map(({ file, permission, share }) => ({
+        ...formatSharedFile(file, owners),
+        permission,
+        sharedAt: share.createdAt,
+        shareExpiresAt: share.expiresAt,
+      })),
+      folders: shared.folders.map(({ folder, permission, share }) => ({
+        ...toFolderInfo(folder),
+        owner: {
+          id: folder.user_id,
+          username: owners.get(folder.user_id) || null,
+        },
+        permission,
+        sharedAt: share.createdAt,
+        shareExpiresAt: share.expiresAt,
+      })),
+    });
+  } catch (error: any) {
+    console.error("List shared files error:", error);
+
+    if (
+      error.message === "Authentication required" ||
+      error.message === "Invalid or expired session"
+    ) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to list shared files" },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
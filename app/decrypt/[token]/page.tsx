@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  decryptFile,
+  getKeySource,
+  getLinkKey,
+  KeySource,
+} from "@/lib/e2e-encryption";
+
+// Opens an end-to-end encrypted file. The ciphertext is downloaded once and
+// decrypted here with the key from the link's fragment or a passphrase, so
+// neither the key nor the contents ever reach the server.
+export default function DecryptPage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  const [fileName, setFileName] = useState("download");
+  const [linkPassword, setLinkPassword] = useState<string | null>(null);
+  const [keySource, setKeySource] = useState<KeySource | null>(null);
+  const [secret, setSecret] = useState("");
+  const [result, setResult] = useState<{
+    url: string;
+    type: string;
+    text?: string;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Kept so retrying a key doesn't use up another download
+  const payload = useRef<Uint8Array | null>(null);
+
+  const token = encodeURIComponent(params.token);
+
+  const decrypt = async (value: string, source: KeySource) => {
+    try {
+      const { data, type } = await decryptFile(
+        payload.current!,
+        source === "link" ? { key: value } : { passphrase: value },
+      );
+      setResult({
+        url: URL.createObjectURL(data),
+        type,
+        text: type.startsWith("text/") ? await data.text() : undefined,
+      });
+      setSecret("");
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const fetchPayload = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      let response: Response;
+      if (linkPassword !== null) {
+        const unlock = await fetch(`/api/files/unlock/${token}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ password: linkPassword, action: "download" }),
+        });
+        const data = await unlock.json();
+        if (!unlock.ok) {
+          throw new Error(data.error || "Failed to unlock file");
+        }
+        response = await fetch(data.url);
+      } else {
+        response = await fetch(`/api/files/${token}`);
+      }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to download file");
+      }
+
+      const name = response.headers
+        .get("Content-Disposition")
+        ?.match(/filename="([^"]+)"/)?.[1];
+      if (name) {
+        setFileName(decodeURIComponent(name));
+      }
+      payload.current = new Uint8Array(await response.arrayBuffer());
+
+      const source = getKeySource(payload.current);
+      if (!source) {
+        throw new Error("This file is not end-to-end encrypted");
+      }
+      setKeySource(source);
+
+      const key = getLinkKey(window.location.hash);
+      if (source === "link" && key) {
+        await decrypt(key, source);
+      }
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const loadInfo = async () => {
+      const response = await fetch(`/api/files/${token}?info=true`);
+      const data = await response.json();
+      if (response.status === 401 && data.passwordProtected) {
+        setLinkPassword("");
+        return;
+      }
+      if (!response.ok) {
+        setError(data.error || "File not found");
+        return;
+      }
+      setFileName(data.file.originalName);
+      if (!data.file.clientEncrypted) {
+        setError("This file is not end-to-end encrypted");
+        return;
+      }
+      // Downloads are only used up once the file is actually opened
+      if (getLinkKey(window.location.hash)) {
+        await fetchPayload();
+      }
+    };
+
+    loadInfo().catch(() => setError("Failed to load file"));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  useEffect(() => {
+    return () => {
+      if (result) {
+        URL.revokeObjectURL(result.url);
+      }
+    };
+  }, [result]);
+
+  const needsPayload = !payload.current;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div
+        className={`w-full mx-auto px-4 ${result ? "max-w-4xl" : "max-w-sm"}`}
+      >
+        <div className="text-center mb-6">
+          <div className="w-12 h-12 bg-primary-600 rounded-lg flex items-center justify-center mx-auto mb-4">
+            <svg
+              className="w-8 h-8 text-white"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+              />
+            </svg>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2 break-all">
+            {fileName}
+          </h1>
+          <p className="text-gray-600">
+            End-to-end encrypted. This file is decrypted in your browser.
+          </p>
+        </div>
+
+        {result ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+            {result.type.startsWith("image/") && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={result.url}
+                alt={fileName}
+                className="max-w-full max-h-[70vh] mx-auto"
+              />
+            )}
+            {result.text !== undefined && (
+              <pre className="max-h-[70vh] overflow-auto text-sm bg-gray-50 rounded p-4 whitespace-pre-wrap">
+                {result.text}
+              </pre>
+            )}
+            <a
+              href={result.url}
+              download={fileName}
+              className="block text-center bg-primary-600 text-white rounded-lg px-4 py-2 font-medium hover:bg-primary-700"
+            >
+              Save file
+            </a>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (needsPayload) {
+                fetchPayload();
+              } else if (keySource && secret) {
+                setError(null);
+                decrypt(secret, keySource);
+              }
+            }}
+            className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4"
+          >
+            {needsPayload && linkPassword !== null && (
+              <input
+                type="password"
+                value={linkPassword}
+                onChange={(e) => setLinkPassword(e.target.value)}
+                placeholder="Link password"
+                autoFocus
+                autoComplete="off"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            )}
+            {!needsPayload && keySource && (
+              <input
+                type={keySource === "passphrase" ? "password" : "text"}
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                placeholder={
+                  keySource === "passphrase" ? "Passphrase" : "Decryption key"
+                }
+                autoFocus
+                autoComplete="off"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={
+                loading ||
+                (needsPayload && linkPassword === "") ||
+                (!needsPayload && !secret)
+              }
+              className="w-full bg-primary-600 text-white rounded-lg px-4 py-2 font-medium hover:bg-primary-700 disabled:opacity-50"
+            >
+              {loading ? "Opening..." : needsPayload ? "Open" : "Decrypt"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
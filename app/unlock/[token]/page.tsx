@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+
+// Asks for the password of a protected file link, then starts the download
+// through the short-lived signed URL the server hands back
+export default function UnlockPage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [unlocked, setUnlocked] = useState(false);
+
+  const unlock = async (action: "download" | "view") => {
+    if (!password) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/files/unlock/${encodeURIComponent(params.token)}`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ password, action }),
+        },
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to unlock file");
+      }
+
+      setUnlocked(true);
+      setPassword("");
+      window.location.href = data.url;
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="w-full max-w-sm mx-auto px-4">
+        <div className="text-center mb-6">
+          <div className="w-12 h-12 bg-primary-600 rounded-lg flex items-center justify-center mx-auto mb-4">
+            <svg
+              className="w-8 h-8 text-white"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+              />
+            </svg>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Password protected
+          </h1>
+          <p className="text-gray-600">
+            Enter the password you were given to open this file.
+          </p>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            unlock("download");
+          }}
+          className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4"
+        >
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoFocus
+            autoComplete="off"
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {unlocked && (
+            <p className="text-sm text-green-600">
+              Unlocked. Your download should start shortly.
+            </p>
+          )}
+
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={loading || !password}
+              className="flex-1 bg-primary-600 text-white rounded-lg px-4 py-2 font-medium hover:bg-primary-700 disabled:opacity-50"
+            >
+              {loading ? "Unlocking..." : "Download"}
+            </button>
+            <button
+              type="button"
+              onClick={() => unlock("view")}
+              disabled={loading || !password}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              View
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -5,15 +5,22 @@ import { useAuth } from "@/contexts/AuthContext";
 import AuthForm from "@/components/AuthForm";
 import FileUpload from "@/components/FileUpload";
 import FileList from "@/components/FileList";
+import FolderTree from "@/components/FolderTree";
+import SharedWithMe from "@/components/SharedWithMe";
+import QuotaMeter from "@/components/QuotaMeter";
+import type { NotificationInfo } from "@/lib/notifications";
 
 export default function VaultPage() {
-  const { user, loading, logout } = useAuth();
+  const { user, loading, logout, refreshUser } = useAuth();
   const [authMode, setAuthMode] = useState<"login" | "register">("login");
   const [currentView, setCurrentView] = useState<"upload" | "files" | "debug">(
     "upload",
   );
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  const [folderRefreshTrigger, setFolderRefreshTrigger] = useState(0);
   const [debugInfo, setDebugInfo] = useState<any>(null);
+  const [notifications, setNotifications] = useState<NotificationInfo[]>([]);
 
   useEffect(() => {
     // Debug: Check authentication status
@@ -37,9 +44,60 @@ export default function VaultPage() {
     }
   }, [user]);
 
-  const handleUploadComplete = () => {
+  // Usage and limits for the quota meter, after logging in and uploads
+  useEffect(() => {
+    if (user) {
+      refreshUser();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id, refreshTrigger]);
+
+  // Unread notifications, e.g. about files quarantined by the malware scan
+  useEffect(() => {
+    const fetchNotifications = async () => {
+      try {
+        const response = await fetch("/api/notifications?unread=true", {
+          credentials: "include",
+        });
+        if (response.ok) {
+          setNotifications((await response.json()).notifications);
+        }
+      } catch (error) {
+        console.error("Failed to fetch notifications:", error);
+      }
+    };
+
+    if (user) {
+      fetchNotifications();
+    }
+  }, [user, refreshTrigger, currentView]);
+
+  const dismissNotifications = async () => {
+    const ids = notifications.map((notification) => notification.id);
+    setNotifications([]);
+    try {
+      await fetch("/api/notifications", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ ids }),
+      });
+    } catch (error) {
+      console.error("Failed to mark notifications read:", error);
+    }
+  };
+
+  const handleUploadComplete = (encrypted: boolean) => {
     setRefreshTrigger((prev) => prev + 1);
-    setCurrentView("files");
+    setFolderRefreshTrigger((prev) => prev + 1);
+    // Stay on the upload view so the decryption links can be copied
+    if (!encrypted) {
+      setCurrentView("files");
+    }
+  };
+
+  const handleFoldersChanged = () => {
+    setFolderRefreshTrigger((prev) => prev + 1);
   };
 
   const handleLogout = async () => {
@@ -194,6 +252,24 @@ export default function VaultPage() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {notifications.length > 0 && (
+          <div className="mb-8 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <ul className="space-y-1 text-sm text-red-800">
+                {notifications.map((notification) => (
+                  <li key={notification.id}>⚠️ {notification.message}</li>
+                ))}
+              </ul>
+              <button
+                onClick={dismissNotifications}
+                className="ml-4 text-sm text-red-700 hover:text-red-900 font-medium"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
         {currentView === "upload" && (
           <div className="space-y-8">
             <div className="text-center">
@@ -201,10 +277,18 @@ export default function VaultPage() {
                 Upload Files to Your Vault
               </h2>
               <p className="text-gray-600">
-                Securely store and share your files with temporary access links
+                Securely store and share your files with temporary access links,
+                or encrypt them end-to-end so only you and the people you share
+                the key with can read them
               </p>
             </div>
-            <FileUpload onUploadComplete={handleUploadComplete} />
+            <FileUpload
+              onUploadComplete={handleUploadComplete}
+              folderId={currentFolderId}
+            />
+            <div className="max-w-md mx-auto">
+              <QuotaMeter />
+            </div>
           </div>
         )}
 
@@ -218,7 +302,27 @@ export default function VaultPage() {
                 Manage your uploaded files and access links
               </p>
             </div>
-            <FileList refreshTrigger={refreshTrigger} />
+            <div className="flex flex-col lg:flex-row gap-6 items-start">
+              <aside className="w-full lg:w-64 shrink-0">
+                <FolderTree
+                  currentFolderId={currentFolderId}
+                  onSelect={setCurrentFolderId}
+                  refreshTrigger={folderRefreshTrigger}
+                />
+                <SharedWithMe refreshTrigger={refreshTrigger} />
+                <div className="mt-4">
+                  <QuotaMeter />
+                </div>
+              </aside>
+              <div className="flex-1 min-w-0">
+                <FileList
+                  refreshTrigger={refreshTrigger}
+                  folderId={currentFolderId}
+                  onFolderChange={setCurrentFolderId}
+                  onFoldersChanged={handleFoldersChanged}
+                />
+              </div>
+            </div>
           </div>
         )}
 
@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import type { FolderNode } from "@/components/FolderTree";
+import FilePreview from "@/components/FilePreview";
+import { getDecryptUrl, recallLinkKey } from "@/lib/e2e-encryption";
 
 interface FileItem {
   id: string;
@@ -16,16 +19,100 @@ interface FileItem {
   createdAt: string;
   expiresAt?: string;
   downloadCount: number;
+  maxDownloads: number | null;
+  downloadLimitReached: boolean;
   isPublic: boolean;
   description?: string;
+  folderId: string | null;
+  tags: string[];
+  passwordProtected: boolean;
   isExpired: boolean;
+  clientEncrypted: boolean; // decrypted in the browser, never by the server
+  scanStatus: "pending" | "clean" | "infected" | "error" | null;
+  // Extracted from the contents on upload: image dimensions, CSV shape or
+  // markdown title and word count
+  metadata: {
+    width?: number;
+    height?: number;
+    dominantColor?: string;
+    rows?: number;
+    columns?: number;
+    title?: string | null;
+    wordCount?: number;
+  } | null;
+  // Only on search results: HTML with matches wrapped in <mark>
+  highlights?: { name: string; snippet: string | null } | null;
+}
+
+interface FolderItem {
+  id: string;
+  name: string;
+  parentId: string | null;
 }
 
 interface FileListProps {
   refreshTrigger?: number;
+  folderId?: string | null; // folder being shown; the top level if unset
+  onFolderChange?: (folderId: string | null) => void;
+  onFoldersChanged?: () => void; // folders were created, renamed or removed
+}
+
+// A short summary of a file's extracted metadata, e.g. "1920×1080"
+function describeMetadata(metadata: FileItem["metadata"]): string | null {
+  if (!metadata) return null;
+  if (metadata.width && metadata.height) {
+    return `${metadata.width}×${metadata.height}`;
+  }
+  if (metadata.rows !== undefined && metadata.columns !== undefined) {
+    return `${metadata.rows} rows × ${metadata.columns} columns`;
+  }
+  if (metadata.wordCount !== undefined) {
+    return `${metadata.wordCount} words`;
+  }
+  return null;
 }
 
-export default function FileList({ refreshTrigger = 0 }: FileListProps) {
+// Types with a preview (see lib/preview.ts)
+const PREVIEWABLE_TYPES = [
+  "text/markdown",
+  "text/csv",
+  "text/plain",
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/gif",
+  "image/svg+xml",
+];
+
+// Previews are served like views, so they need a file the server will
+// still hand out. End-to-end encrypted files open on the decrypt page.
+function canPreview(file: FileItem): boolean {
+  return (
+    PREVIEWABLE_TYPES.includes(file.mimeType) &&
+    !file.clientEncrypted &&
+    !file.isExpired &&
+    !file.downloadLimitReached &&
+    (file.scanStatus === "clean" || file.scanStatus === null)
+  );
+}
+
+// Flatten the folder tree into indented options for the move menu
+function flattenFolders(
+  nodes: FolderNode[],
+  depth = 0,
+): Array<{ id: string; label: string }> {
+  return nodes.flatMap((node) => [
+    { id: node.id, label: `${"\u00a0\u00a0".repeat(depth)}${node.name}` },
+    ...flattenFolders(node.children, depth + 1),
+  ]);
+}
+
+export default function FileList({
+  refreshTrigger = 0,
+  folderId = null,
+  onFolderChange,
+  onFoldersChanged,
+}: FileListProps) {
   const { user } = useAuth();
   const [files, setFiles] = useState<FileItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -34,30 +121,66 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
   const [showCopySuccess, setShowCopySuccess] = useState<string | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [breadcrumbs, setBreadcrumbs] = useState<FolderItem[]>([]);
+  const [subfolders, setSubfolders] = useState<FolderItem[]>([]);
+  const [moveTargets, setMoveTargets] = useState<
+    Array<{ id: string; label: string }>
+  >([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [typeFilter, setTypeFilter] = useState("");
+  const [orientationFilter, setOrientationFilter] = useState("");
+  const [searchResults, setSearchResults] = useState<FileItem[] | null>(
+    null,
+  );
+  const [previewFile, setPreviewFile] = useState<FileItem | null>(null);
+  const isSearching =
+    searchQuery.trim() !== "" || typeFilter !== "" || orientationFilter !== "";
 
   useEffect(() => {
     if (user) {
       fetchFiles();
+      setSelectedFiles(new Set());
     }
-  }, [user, refreshTrigger]);
+  }, [user, refreshTrigger, folderId]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (!user || !isSearching) {
+      setSearchResults(null);
+      return;
+    }
+    const timer = setTimeout(searchFiles, 300);
+    return () => clearTimeout(timer);
+  }, [user, refreshTrigger, searchQuery, typeFilter, orientationFilter]);
 
   const fetchFiles = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const response = await fetch("/api/files/my", {
-        method: "GET",
-        credentials: "include",
-      });
+      const response = await fetch(
+        `/api/files/my?folderId=${encodeURIComponent(folderId || "root")}`,
+        {
+          method: "GET",
+          credentials: "include",
+        },
+      );
 
       const data = await response.json();
 
+      // The folder was deleted or moved out from under us
+      if (response.status === 404 && folderId) {
+        onFolderChange?.(null);
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(data.error || "Failed to fetch files");
       }
 
       setFiles(data.files);
+      setBreadcrumbs(data.breadcrumbs || []);
+      setSubfolders(data.folders || []);
     } catch (error: any) {
       console.error("Error fetching files:", error);
       setError(error.message);
@@ -66,6 +189,172 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
     }
   };
 
+  const searchFiles = async () => {
+    try {
+      const params = new URLSearchParams({ q: searchQuery.trim() });
+      if (typeFilter) {
+        params.set("mimeType", typeFilter);
+      }
+      if (orientationFilter) {
+        params.set("orientation", orientationFilter);
+      }
+
+      const response = await fetch(`/api/files/search?${params}`, {
+        method: "GET",
+        credentials: "include",
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Search failed");
+      }
+
+      setSearchResults(data.files);
+      setSelectedFiles(new Set());
+    } catch (error: any) {
+      console.error("Error searching files:", error);
+      setError(error.message);
+    }
+  };
+
+  const editTags = async (file: FileItem) => {
+    const input = prompt(
+      "Tags (separated by commas)",
+      file.tags.join(", "),
+    );
+    if (input === null) return;
+
+    try {
+      const response = await fetch(`/api/files/tags/${file.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ tags: input.split(",") }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update tags");
+      }
+
+      fetchFiles();
+      if (isSearching) searchFiles();
+    } catch (error: any) {
+      console.error("Failed to update tags:", error);
+      alert(`Failed to update tags: ${error.message}`);
+    }
+  };
+
+  // Share a file or folder with another user by username
+  const shareResource = async (
+    resource: { fileId: string } | { folderId: string },
+    name: string,
+  ) => {
+    const username = prompt(`Share "${name}" with (username)`);
+    if (!username) return;
+    const permission = prompt(
+      "Permission: view, download or manage",
+      "download",
+    );
+    if (!permission) return;
+
+    try {
+      const response = await fetch("/api/shares", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          ...resource,
+          username: username.trim(),
+          permission: permission.trim().toLowerCase(),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to share");
+      }
+
+      alert(`Shared "${name}" with ${username.trim()} (${permission}).`);
+    } catch (error: any) {
+      console.error("Failed to share:", error);
+      alert(`Failed to share: ${error.message}`);
+    }
+  };
+
+  // Set, change or (with an empty value) remove the password on a file's
+  // public link
+  const editLinkPassword = async (file: FileItem) => {
+    const password = prompt(
+      file.passwordProtected
+        ? "New link password (leave empty to remove the password)"
+        : "Password visitors must enter to open the link",
+    );
+    if (password === null) return;
+
+    try {
+      const response = await fetch(`/api/files/link-password/${file.id}`, {
+        method: password ? "PUT" : "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: password ? JSON.stringify({ password }) : undefined,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update link password");
+      }
+
+      fetchFiles();
+      if (isSearching) searchFiles();
+    } catch (error: any) {
+      console.error("Failed to update link password:", error);
+      alert(`Failed to update link password: ${error.message}`);
+    }
+  };
+
+  // Create another public link to a file, with its own label and an
+  // optional download limit, and copy it to the clipboard
+  const createShareLink = async (file: FileItem) => {
+    const label = prompt(`Label for the new link to "${file.originalName}"`);
+    if (label === null) return;
+    const limit = prompt("Maximum downloads (leave empty for no limit)");
+    if (limit === null) return;
+
+    try {
+      const response = await fetch("/api/share-links", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          fileId: file.id,
+          label: label.trim(),
+          maxDownloads: limit.trim() ? Number(limit) : undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create link");
+      }
+
+      const linkUrl = `${window.location.origin}${data.link.url}`;
+      await navigator.clipboard.writeText(linkUrl);
+      alert(`Link created and copied to clipboard:\n${linkUrl}`);
+    } catch (error: any) {
+      console.error("Failed to create link:", error);
+      alert(`Failed to create link: ${error.message}`);
+    }
+  };
+
   const handleFileSelect = (fileId: string) => {
     const newSelected = new Set(selectedFiles);
     if (newSelected.has(fileId)) {
@@ -76,11 +365,14 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
     setSelectedFiles(newSelected);
   };
 
+  const visibleFiles = searchResults ?? files;
+  const visibleFolders = searchResults ? [] : subfolders;
+
   const handleSelectAll = () => {
-    if (selectedFiles.size === files.length) {
+    if (selectedFiles.size === visibleFiles.length) {
       setSelectedFiles(new Set());
     } else {
-      setSelectedFiles(new Set(files.map((f) => f.id)));
+      setSelectedFiles(new Set(visibleFiles.map((f) => f.id)));
     }
   };
 
@@ -116,11 +408,21 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
     }
   };
 
-  const copySecureLink = async (fileId: string) => {
+  // End-to-end encrypted files open on the decrypt page, with their key when
+  // they were uploaded from this browser
+  const getDecryptPageUrl = (file: FileItem) =>
+    `${window.location.origin}${getDecryptUrl(
+      file.accessToken,
+      recallLinkKey(file.accessToken),
+    )}`;
+
+  const copySecureLink = async (file: FileItem) => {
     try {
-      const secureUrl = await generateSecureUrl(fileId, "view");
+      const secureUrl = file.clientEncrypted
+        ? getDecryptPageUrl(file)
+        : await generateSecureUrl(file.id, "view");
       await navigator.clipboard.writeText(secureUrl);
-      setShowCopySuccess(fileId);
+      setShowCopySuccess(file.id);
       setTimeout(() => setShowCopySuccess(null), 2000);
     } catch (error) {
       console.error("Failed to copy secure link:", error);
@@ -129,6 +431,19 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
   };
 
   const downloadFile = async (file: FileItem) => {
+    if (file.scanStatus === "infected") {
+      alert("This file is quarantined: malware was found in it.");
+      return;
+    }
+    if (file.scanStatus === "pending" || file.scanStatus === "error") {
+      alert("This file is still waiting for a malware scan.");
+      return;
+    }
+    if (file.clientEncrypted) {
+      window.open(getDecryptPageUrl(file), "_blank", "noopener");
+      return;
+    }
+
     try {
       const secureUrl = await generateSecureUrl(file.id, "download");
       const link = document.createElement("a");
@@ -222,56 +537,206 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
     }
   };
 
+  // Signed URL of a ZIP of the selected files; the server checks access to
+  // each file again when it's downloaded
+  const generateArchiveUrl = async (expiresIn: number) => {
+    const response = await fetch("/api/files/archive", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      credentials: "include",
+      body: JSON.stringify({
+        fileIds: Array.from(selectedFiles),
+        signed: true,
+        expiresIn,
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      const file = files.find((f) => f.id === data.fileId);
+      throw new Error(
+        file ? `${file.originalName}: ${data.error}` : data.error,
+      );
+    }
+
+    return data.fullUrl as string;
+  };
+
   const downloadSelectedFiles = async () => {
     if (selectedFiles.size === 0) return;
 
     try {
-      // Generate URLs for all selected files
-      const response = await fetch("/api/files/generate-url", {
-        method: "PUT",
+      // Streamed straight to disk rather than built in the browser
+      const link = document.createElement("a");
+      link.href = await generateArchiveUrl(300); // 5 minutes
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error: any) {
+      console.error("Failed to download files:", error);
+      alert(`Failed to download files: ${error.message}`);
+    }
+  };
+
+  const copyArchiveLink = async () => {
+    if (selectedFiles.size === 0) return;
+
+    try {
+      await navigator.clipboard.writeText(await generateArchiveUrl(900));
+      alert("Archive link copied (15 min expiry)");
+    } catch (error: any) {
+      console.error("Failed to copy archive link:", error);
+      alert(`Failed to create archive link: ${error.message}`);
+    }
+  };
+
+  const createFolder = async () => {
+    const name = prompt("New folder name");
+    if (!name) return;
+
+    try {
+      const response = await fetch("/api/folders", {
+        method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         credentials: "include",
-        body: JSON.stringify({
-          fileIds: Array.from(selectedFiles),
-          action: "download",
-          expiresIn: 300, // 5 minutes for batch download
-        }),
+        body: JSON.stringify({ name, parentId: folderId }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create folder");
+      }
+
+      fetchFiles();
+      onFoldersChanged?.();
+    } catch (error: any) {
+      console.error("Failed to create folder:", error);
+      alert(`Failed to create folder: ${error.message}`);
+    }
+  };
+
+  const renameFolder = async (folder: FolderItem) => {
+    const name = prompt("Rename folder", folder.name);
+    if (!name || name === folder.name) return;
+
+    try {
+      const response = await fetch(`/api/folders/${folder.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ name }),
       });
 
       const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to rename folder");
+      }
+
+      fetchFiles();
+      onFoldersChanged?.();
+    } catch (error: any) {
+      console.error("Failed to rename folder:", error);
+      alert(`Failed to rename folder: ${error.message}`);
+    }
+  };
 
+  const deleteFolder = async (folder: FolderItem) => {
+    if (
+      !confirm(
+        `Delete "${folder.name}" and everything in it? This action cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/folders/${folder.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error(data.error || "Failed to generate download URLs");
+        throw new Error(data.error || "Failed to delete folder");
       }
 
-      // Download each file
-      for (const result of data.results) {
-        if (result.success) {
-          const link = document.createElement("a");
-          link.href = result.fullUrl;
-          link.download = result.file.originalName;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-
-          // Small delay between downloads
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
+      if (data.failedFiles.length > 0) {
+        alert(
+          `${data.failedFiles.length} files could not be deleted and were moved to the top level.`,
+        );
       }
 
-      const successCount = data.results.filter((r: any) => r.success).length;
-      const failCount = data.results.length - successCount;
+      fetchFiles();
+      onFoldersChanged?.();
+    } catch (error: any) {
+      console.error("Failed to delete folder:", error);
+      alert(`Failed to delete folder: ${error.message}`);
+    }
+  };
+
+  const downloadFolder = (folder: FolderItem) => {
+    const link = document.createElement("a");
+    link.href = `/api/folders/${folder.id}/zip`;
+    link.download = `${folder.name}.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const loadMoveTargets = async () => {
+    try {
+      const response = await fetch("/api/folders", {
+        method: "GET",
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setMoveTargets(flattenFolders(data.folders));
+      }
+    } catch (error) {
+      console.error("Failed to load folders:", error);
+    }
+  };
+
+  const moveSelectedFiles = async (targetFolderId: string | null) => {
+    if (selectedFiles.size === 0) return;
 
-      if (failCount > 0) {
+    try {
+      const response = await fetch("/api/folders/move", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          fileIds: Array.from(selectedFiles),
+          targetFolderId,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to move files");
+      }
+
+      if (data.summary.failed > 0) {
         alert(
-          `Downloaded ${successCount} files. ${failCount} files failed to download.`,
+          `Moved ${data.summary.successful} files. ${data.summary.failed} files could not be moved.`,
         );
       }
+
+      setSelectedFiles(new Set());
+      fetchFiles();
+      onFoldersChanged?.();
     } catch (error: any) {
-      console.error("Failed to download files:", error);
-      alert(`Failed to download files: ${error.message}`);
+      console.error("Failed to move files:", error);
+      alert(`Failed to move files: ${error.message}`);
     }
   };
 
@@ -353,7 +818,12 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
     );
   }
 
-  if (files.length === 0) {
+  if (
+    files.length === 0 &&
+    subfolders.length === 0 &&
+    !folderId &&
+    !isSearching
+  ) {
     return (
       <div className="w-full max-w-6xl mx-auto">
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8">
@@ -377,6 +847,12 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
             <p className="text-gray-600 mb-6">
               Upload your first file to get started with SnapVault
             </p>
+            <button
+              onClick={createFolder}
+              className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+            >
+              Or create a folder
+            </button>
           </div>
         </div>
       </div>
@@ -391,42 +867,167 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
               <h2 className="text-xl font-semibold text-gray-900">
-                Your Files ({files.length})
+                {searchResults ? "Search Results" : "Your Files"} (
+                {visibleFiles.length})
               </h2>
+              {visibleFiles.length > 0 && (
+                <button
+                  onClick={handleSelectAll}
+                  className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+                >
+                  {selectedFiles.size === visibleFiles.length
+                    ? "Deselect All"
+                    : "Select All"}
+                </button>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={createFolder}
+                className="text-sm text-primary-600 hover:text-primary-700 font-medium px-3 py-2 rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                + New Folder
+              </button>
               <button
-                onClick={handleSelectAll}
-                className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+                onClick={fetchFiles}
+                className="text-gray-600 hover:text-gray-900 p-2 rounded-lg hover:bg-gray-100 transition-colors"
+                title="Refresh"
               >
-                {selectedFiles.size === files.length
-                  ? "Deselect All"
-                  : "Select All"}
+                <svg
+                  className="w-5 h-5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                  />
+                </svg>
               </button>
             </div>
+          </div>
+
+          {/* Search */}
+          <div className="flex items-center space-x-2 mt-3">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search names, descriptions, tags and text..."
+              className="flex-1 text-sm border border-gray-300 rounded-lg px-3 py-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              className="text-sm border border-gray-300 rounded-lg px-2 py-2 text-gray-700"
+            >
+              <option value="">All types</option>
+              <option value="image/*">Images</option>
+              <option value="text/*">Text</option>
+            </select>
+            <select
+              value={orientationFilter}
+              onChange={(e) => setOrientationFilter(e.target.value)}
+              className="text-sm border border-gray-300 rounded-lg px-2 py-2 text-gray-700"
+            >
+              <option value="">Any shape</option>
+              <option value="landscape">Landscape</option>
+              <option value="portrait">Portrait</option>
+              <option value="square">Square</option>
+            </select>
+          </div>
+
+          {/* Breadcrumbs */}
+          {!searchResults && (
+          <nav className="flex items-center flex-wrap mt-2 text-sm text-gray-500">
             <button
-              onClick={fetchFiles}
-              className="text-gray-600 hover:text-gray-900 p-2 rounded-lg hover:bg-gray-100 transition-colors"
-              title="Refresh"
+              onClick={() => onFolderChange?.(null)}
+              className="hover:text-primary-600"
             >
-              <svg
-                className="w-5 h-5"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-                />
-              </svg>
+              Vault
             </button>
-          </div>
+            {breadcrumbs.map((crumb, index) => (
+              <span key={crumb.id} className="flex items-center">
+                <span className="mx-2">/</span>
+                {index === breadcrumbs.length - 1 ? (
+                  <span className="font-medium text-gray-900">
+                    {crumb.name}
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => onFolderChange?.(crumb.id)}
+                    className="hover:text-primary-600"
+                  >
+                    {crumb.name}
+                  </button>
+                )}
+              </span>
+            ))}
+          </nav>
+          )}
         </div>
 
         {/* File List */}
         <div className="divide-y divide-gray-200">
-          {files.map((file) => (
+          {visibleFolders.map((folder) => (
+            <div
+              key={folder.id}
+              className="px-6 py-3 hover:bg-gray-50 transition-colors"
+            >
+              <div className="flex items-center space-x-4">
+                <div className="w-4" />
+                <button
+                  onClick={() => onFolderChange?.(folder.id)}
+                  className="flex-1 flex items-center space-x-4 min-w-0 text-left"
+                >
+                  <div className="w-10 h-10 rounded-lg flex items-center justify-center text-lg text-yellow-600 bg-yellow-50">
+                    📁
+                  </div>
+                  <span className="text-sm font-medium text-gray-900 truncate">
+                    {folder.name}
+                  </span>
+                </button>
+                <div className="flex items-center space-x-2 text-sm">
+                  <button
+                    onClick={() => downloadFolder(folder)}
+                    className="px-2 py-1 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                    title="Download as ZIP"
+                  >
+                    ZIP
+                  </button>
+                  <button
+                    onClick={() =>
+                      shareResource({ folderId: folder.id }, folder.name)
+                    }
+                    className="px-2 py-1 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Share
+                  </button>
+                  <button
+                    onClick={() => renameFolder(folder)}
+                    className="px-2 py-1 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => deleteFolder(folder)}
+                    className="px-2 py-1 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+          {visibleFiles.length === 0 && visibleFolders.length === 0 && (
+            <div className="px-6 py-8 text-center text-sm text-gray-500">
+              {searchResults ? "No matching files" : "This folder is empty"}
+            </div>
+          )}
+          {visibleFiles.map((file) => (
             <div
               key={file.id}
               className={`px-6 py-4 hover:bg-gray-50 transition-colors ${
@@ -452,9 +1053,32 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
                 {/* File Info */}
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center space-x-2 mb-1">
-                    <h3 className="text-sm font-medium text-gray-900 truncate">
-                      {file.originalName}
-                    </h3>
+                    {file.highlights ? (
+                      <h3
+                        className={`text-sm font-medium text-gray-900 truncate ${
+                          canPreview(file) ? "cursor-pointer hover:underline" : ""
+                        }`}
+                        onClick={() => canPreview(file) && setPreviewFile(file)}
+                        // Escaped by the server, with matches in <mark>
+                        dangerouslySetInnerHTML={{
+                          __html: file.highlights.name,
+                        }}
+                      />
+                    ) : canPreview(file) ? (
+                      <h3 className="text-sm font-medium text-gray-900 truncate">
+                        <button
+                          onClick={() => setPreviewFile(file)}
+                          className="hover:underline truncate"
+                          title="Preview"
+                        >
+                          {file.originalName}
+                        </button>
+                      </h3>
+                    ) : (
+                      <h3 className="text-sm font-medium text-gray-900 truncate">
+                        {file.originalName}
+                      </h3>
+                    )}
                     {file.isPublic && (
                       <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
                         Public
@@ -465,6 +1089,22 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
                         🔒 Private
                       </span>
                     )}
+                    {file.clientEncrypted && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                        🔐 End-to-end
+                      </span>
+                    )}
+                    {(file.scanStatus === "pending" ||
+                      file.scanStatus === "error") && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                        Scanning…
+                      </span>
+                    )}
+                    {file.scanStatus === "infected" && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+                        ⚠️ Infected
+                      </span>
+                    )}
                     {file.isExpired && (
                       <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
                         Expired
@@ -473,6 +1113,12 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
                   </div>
                   <div className="flex items-center space-x-4 text-xs text-gray-500">
                     <span>{file.formattedSize}</span>
+                    {describeMetadata(file.metadata) && (
+                      <>
+                        <span>•</span>
+                        <span>{describeMetadata(file.metadata)}</span>
+                      </>
+                    )}
                     <span>•</span>
                     <span>Uploaded {formatDate(file.createdAt)}</span>
                     {file.expiresAt && !file.isExpired && (
@@ -482,20 +1128,75 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
                       </>
                     )}
                     <span>•</span>
-                    <span>{file.downloadCount} downloads</span>
+                    <span>
+                      {file.maxDownloads
+                        ? `${file.downloadCount}/${file.maxDownloads} downloads`
+                        : `${file.downloadCount} downloads`}
+                    </span>
+                    {file.maxDownloads === 1 && (
+                      <>
+                        <span>•</span>
+                        <span className="text-orange-600">
+                          {file.downloadLimitReached
+                            ? "Burned"
+                            : "Burn after reading"}
+                        </span>
+                      </>
+                    )}
                   </div>
                   {file.description && (
                     <p className="text-sm text-gray-600 mt-1 truncate">
                       {file.description}
                     </p>
                   )}
+                  {file.highlights?.snippet && (
+                    <p
+                      className="text-sm text-gray-600 mt-1 line-clamp-2"
+                      dangerouslySetInnerHTML={{
+                        __html: file.highlights.snippet,
+                      }}
+                    />
+                  )}
+                  <div className="flex items-center flex-wrap gap-1 mt-1">
+                    {file.tags.map((tag) => (
+                      <button
+                        key={tag}
+                        onClick={() => setSearchQuery(tag)}
+                        className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => editTags(file)}
+                      className="text-xs text-primary-600 hover:text-primary-700"
+                    >
+                      {file.tags.length > 0 ? "Edit tags" : "+ Add tags"}
+                    </button>
+                    <button
+                      onClick={() => editLinkPassword(file)}
+                      className="text-xs text-primary-600 hover:text-primary-700 pl-2"
+                      title="Require a password to open the file's link"
+                    >
+                      {file.passwordProtected
+                        ? "🔒 Link password"
+                        : "+ Link password"}
+                    </button>
+                    <button
+                      onClick={() => createShareLink(file)}
+                      className="text-xs text-primary-600 hover:text-primary-700 pl-2"
+                      title="Create another link with its own limits"
+                    >
+                      + New link
+                    </button>
+                  </div>
                 </div>
 
                 {/* Actions */}
                 <div className="flex items-center space-x-2">
                   {/* Copy Secure Link */}
                   <button
-                    onClick={() => copySecureLink(file.id)}
+                    onClick={() => copySecureLink(file)}
                     disabled={file.isExpired}
                     className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     title="Copy secure link (15 min expiry)"
@@ -529,6 +1230,35 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
                     )}
                   </button>
 
+                  {/* Preview */}
+                  {canPreview(file) && (
+                    <button
+                      onClick={() => setPreviewFile(file)}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                      title="Preview"
+                    >
+                      <svg
+                        className="w-4 h-4"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                        />
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                        />
+                      </svg>
+                    </button>
+                  )}
+
                   {/* Download */}
                   <button
                     onClick={() => downloadFile(file)}
@@ -551,6 +1281,29 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
                     </svg>
                   </button>
 
+                  {/* Share with another user */}
+                  <button
+                    onClick={() =>
+                      shareResource({ fileId: file.id }, file.originalName)
+                    }
+                    className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                    title="Share with a user"
+                  >
+                    <svg
+                      className="w-4 h-4"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z"
+                      />
+                    </svg>
+                  </button>
+
                   {/* Delete File */}
                   <button
                     onClick={() => deleteSingleFile(file.id, file.originalName)}
@@ -587,6 +1340,28 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
                 selected
               </span>
               <div className="flex items-center space-x-3">
+                <select
+                  value=""
+                  onFocus={loadMoveTargets}
+                  onChange={(e) =>
+                    moveSelectedFiles(
+                      e.target.value === "root" ? null : e.target.value,
+                    )
+                  }
+                  className="text-sm border border-gray-300 rounded-lg px-2 py-1 text-gray-700"
+                >
+                  <option value="" disabled>
+                    Move to...
+                  </option>
+                  <option value="root">Vault (top level)</option>
+                  {moveTargets
+                    .filter((target) => target.id !== folderId)
+                    .map((target) => (
+                      <option key={target.id} value={target.id}>
+                        {target.label}
+                      </option>
+                    ))}
+                </select>
                 <button
                   onClick={() => setShowDeleteConfirm(true)}
                   disabled={deleteLoading}
@@ -598,13 +1373,28 @@ export default function FileList({ refreshTrigger = 0 }: FileListProps) {
                   onClick={downloadSelectedFiles}
                   className="text-sm text-primary-600 hover:text-primary-700 font-medium"
                 >
-                  Download Selected
+                  Download as ZIP
+                </button>
+                <button
+                  onClick={copyArchiveLink}
+                  className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+                  title="Copy a link to a ZIP of the selected files"
+                >
+                  Copy ZIP Link
                 </button>
               </div>
             </div>
           </div>
         )}
 
+        {/* Preview Modal */}
+        {previewFile && (
+          <FilePreview
+            file={previewFile}
+            onClose={() => setPreviewFile(null)}
+          />
+        )}
+
         {/* Delete Confirmation Modal */}
         {showDeleteConfirm && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,376 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+interface PreviewFile {
+  id: string;
+  originalName: string;
+  mimeType: string;
+}
+
+// As returned by /api/files/secure/{fileId}/preview (see lib/preview.ts)
+type Preview =
+  | { type: "markdown"; html: string }
+  | { type: "text"; text: string }
+  | {
+      type: "csv";
+      header: string[] | null;
+      rows: string[][];
+      columns: number;
+      totalRows: number;
+      page: number;
+      pageSize: number;
+      pageCount: number;
+      sort: { column: number; order: "asc" | "desc" } | null;
+    }
+  | { type: "image"; width: number | null; height: number | null; url: string };
+
+type Sort = { column: number; order: "asc" | "desc" } | null;
+
+interface FilePreviewProps {
+  file: PreviewFile;
+  onClose: () => void;
+}
+
+const ZOOM_LEVELS = [0.25, 0.5, 1, 2, 4];
+
+// Column names for CSV files without a header row: A, B, ..., Z, AA, ...
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function CsvTable({
+  preview,
+  onPage,
+  onSort,
+}: {
+  preview: Extract<Preview, { type: "csv" }>;
+  onPage: (page: number) => void;
+  onSort: (sort: Sort) => void;
+}) {
+  // Clicking a column sorts it ascending, then descending, then not at all
+  const toggleSort = (column: number) => {
+    const { sort } = preview;
+    if (sort?.column !== column) {
+      onSort({ column, order: "asc" });
+    } else if (sort.order === "asc") {
+      onSort({ column, order: "desc" });
+    } else {
+      onSort(null);
+    }
+  };
+
+  const first = (preview.page - 1) * preview.pageSize + 1;
+  const last = Math.min(first + preview.rows.length - 1, preview.totalRows);
+
+  return (
+    <div>
+      <div className="overflow-auto max-h-[60vh] border border-gray-200 rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              {Array.from({ length: preview.columns }, (_, column) => (
+                <th
+                  key={column}
+                  className="px-3 py-2 text-left font-medium text-gray-700 border-b border-gray-200 whitespace-nowrap"
+                >
+                  <button
+                    onClick={() => toggleSort(column)}
+                    className="hover:text-gray-900"
+                    title="Sort by this column"
+                  >
+                    {preview.header?.[column] || columnName(column)}
+                    {preview.sort?.column === column &&
+                      (preview.sort.order === "asc" ? " ▲" : " ▼")}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {preview.rows.map((row, index) => (
+              <tr key={index} className="hover:bg-gray-50">
+                {row.map((cell, column) => (
+                  <td
+                    key={column}
+                    className="px-3 py-1.5 text-gray-800 whitespace-pre-wrap"
+                  >
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-between mt-3 text-sm text-gray-600">
+        <span>
+          {preview.totalRows === 0
+            ? "No rows"
+            : `Rows ${first}–${last} of ${preview.totalRows}`}
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onPage(preview.page - 1)}
+            disabled={preview.page <= 1}
+            className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span>
+            Page {preview.page} of {preview.pageCount}
+          </span>
+          <button
+            onClick={() => onPage(preview.page + 1)}
+            disabled={preview.page >= preview.pageCount}
+            className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ZoomableImage({
+  preview,
+  alt,
+}: {
+  preview: Extract<Preview, { type: "image" }>;
+  alt: string;
+}) {
+  const [zoom, setZoom] = useState<number | "fit">("fit");
+  const [naturalWidth, setNaturalWidth] = useState(preview.width);
+
+  const current = zoom === "fit" ? 1 : zoom;
+  const zoomBy = (step: 1 | -1) => {
+    const index = ZOOM_LEVELS.indexOf(current);
+    const next = ZOOM_LEVELS[index + step];
+    if (next) setZoom(next);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-center space-x-2 mb-3 text-sm">
+        <button
+          onClick={() => zoomBy(-1)}
+          disabled={current <= ZOOM_LEVELS[0]}
+          className="w-8 h-8 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          title="Zoom out"
+        >
+          −
+        </button>
+        <button
+          onClick={() => setZoom("fit")}
+          className={`px-3 py-1 border rounded-lg hover:bg-gray-50 ${
+            zoom === "fit" ? "border-primary-500 text-primary-700" : "border-gray-300"
+          }`}
+        >
+          Fit
+        </button>
+        {[1, 2, 4].map((level) => (
+          <button
+            key={level}
+            onClick={() => setZoom(level)}
+            className={`px-3 py-1 border rounded-lg hover:bg-gray-50 ${
+              zoom === level ? "border-primary-500 text-primary-700" : "border-gray-300"
+            }`}
+          >
+            {level}×
+          </button>
+        ))}
+        <button
+          onClick={() => zoomBy(1)}
+          disabled={current >= ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+          className="w-8 h-8 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          title="Zoom in"
+        >
+          +
+        </button>
+      </div>
+      <div className="overflow-auto max-h-[65vh] bg-gray-100 rounded-lg flex">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={preview.url}
+          alt={alt}
+          onLoad={(e) => setNaturalWidth(e.currentTarget.naturalWidth)}
+          className={zoom === "fit" ? "m-auto max-w-full max-h-[65vh]" : "m-auto max-w-none"}
+          style={
+            zoom !== "fit" && naturalWidth
+              ? { width: naturalWidth * zoom }
+              : undefined
+          }
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function FilePreview({ file, onClose }: FilePreviewProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<Sort>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  // Previews are served through the same signed URLs as views
+  useEffect(() => {
+    const generateToken = async () => {
+      try {
+        const response = await fetch("/api/files/generate-url", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({
+            fileId: file.id,
+            action: "view",
+            expiresIn: 900, // 15 minutes
+            restrictToIP: true,
+            restrictToUserAgent: false,
+          }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to generate secure URL");
+        }
+
+        setToken(
+          new URL(data.url, window.location.origin).searchParams.get("token"),
+        );
+      } catch (error: any) {
+        setError(error.message);
+        setLoading(false);
+      }
+    };
+
+    generateToken();
+  }, [file.id]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchPreview = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ token, page: String(page) });
+        if (sort) {
+          params.set("sort", String(sort.column));
+          params.set("order", sort.order);
+        }
+        const response = await fetch(
+          `/api/files/secure/${file.id}/preview?${params}`,
+          { credentials: "include" },
+        );
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load preview");
+        }
+
+        setPreview(data.preview);
+        setError(null);
+      } catch (error: any) {
+        setError(error.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPreview();
+  }, [file.id, token, page, sort]);
+
+  const changeSort = (next: Sort) => {
+    setSort(next);
+    setPage(1);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Preview of ${file.originalName}`}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 truncate">
+            {file.originalName}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Close preview"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 overflow-auto">
+          {error ? (
+            <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+              {error}
+            </p>
+          ) : !preview ? (
+            <div className="flex justify-center py-12">
+              <div className="spinner"></div>
+            </div>
+          ) : preview.type === "markdown" ? (
+            <div
+              className="markdown-preview"
+              // Sanitized by the server: text is escaped and only safe links
+              // are kept
+              dangerouslySetInnerHTML={{ __html: preview.html }}
+            />
+          ) : preview.type === "csv" ? (
+            <div className={loading ? "opacity-50" : ""}>
+              <CsvTable
+                preview={preview}
+                onPage={setPage}
+                onSort={changeSort}
+              />
+            </div>
+          ) : preview.type === "text" ? (
+            <pre className="text-sm text-gray-800 whitespace-pre-wrap break-words font-mono">
+              {preview.text}
+            </pre>
+          ) : (
+            <ZoomableImage preview={preview} alt={file.originalName} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
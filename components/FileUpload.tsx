@@ -2,9 +2,52 @@
 
 import { useState, useRef, useCallback } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import {
+  encryptFile,
+  generateLinkKey,
+  getDecryptUrl,
+  rememberLinkKey,
+  ENCRYPTED_MIME_TYPE,
+} from "@/lib/e2e-encryption";
+
+const TUS_VERSION = "1.0.0";
+const CHUNK_SIZE = 5 * 1024 * 1024; // 5MB per PATCH request
+const MAX_RETRIES = 3;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "24 hours" },
+  { hours: 168, label: "1 week" },
+  { hours: 720, label: "1 month" },
+];
+
+// Used until the user's own limits are loaded
+const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+const DEFAULT_ALLOWED_TYPES = [
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/gif",
+  "image/svg+xml",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+];
+
+// Upload-Metadata values are base64 encoded UTF-8
+function encodeUploadMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      return `${key} ${btoa(String.fromCharCode(...Array.from(bytes)))}`;
+    })
+    .join(",");
+}
 
 interface FileUploadProps {
-  onUploadComplete: () => void;
+  onUploadComplete: (encrypted: boolean) => void;
+  folderId?: string | null; // folder to upload into; the top level if unset
 }
 
 interface UploadingFile {
@@ -13,30 +56,40 @@ interface UploadingFile {
   status: "uploading" | "success" | "error";
   error?: string;
   result?: any;
+  decryptUrl?: string; // for end-to-end encrypted uploads
 }
 
-export default function FileUpload({ onUploadComplete }: FileUploadProps) {
+export default function FileUpload({
+  onUploadComplete,
+  folderId,
+}: FileUploadProps) {
   const { user } = useAuth();
   const [isDragOver, setIsDragOver] = useState(false);
   const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
   const [uploadOptions, setUploadOptions] = useState({
     isPublic: false,
+    keepMetadata: false,
     expiresIn: 0,
+    maxDownloads: 0,
     description: "",
+    encrypt: false,
+    keySource: "link" as "link" | "passphrase",
+    passphrase: "",
   });
+  const passphraseTooShort =
+    uploadOptions.encrypt &&
+    uploadOptions.keySource === "passphrase" &&
+    uploadOptions.passphrase.length < MIN_PASSPHRASE_LENGTH;
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const maxFileSize = 50 * 1024 * 1024; // 50MB
-  const allowedTypes = [
-    "image/jpeg",
-    "image/jpg",
-    "image/png",
-    "image/gif",
-    "image/svg+xml",
-    "text/plain",
-    "text/markdown",
-    "text/csv",
-  ];
+  // The limits of the user's plan; the server enforces them either way
+  const maxFileSize = user?.limits?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const allowedTypes = user?.limits?.allowedMimeTypes ?? DEFAULT_ALLOWED_TYPES;
+  const maxExpiryHours = user?.limits?.maxExpiryHours ?? null;
+  const storageLeft =
+    user?.limits?.storageQuota != null && user.stats
+      ? Math.max(user.limits.storageQuota - user.stats.storageUsed, 0)
+      : null;
 
   const validateFile = (file: File): string | null => {
     if (file.size > maxFileSize) {
@@ -45,31 +98,168 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
     if (!allowedTypes.includes(file.type)) {
       return `File type ${file.type} is not allowed`;
     }
+    if (storageLeft !== null && file.size > storageLeft) {
+      return "Storage quota exceeded";
+    }
     return null;
   };
 
-  const uploadFile = async (file: File): Promise<any> => {
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("description", uploadOptions.description);
-    formData.append("isPublic", uploadOptions.isPublic.toString());
-    if (uploadOptions.expiresIn > 0) {
-      formData.append("expiresIn", uploadOptions.expiresIn.toString());
-    }
-
-    const response = await fetch("/api/files/upload", {
-      method: "POST",
+  // Ask the server how much of a resumable upload it already has
+  const getUploadStatus = async (
+    uploadUrl: string,
+  ): Promise<{ offset: number; fileUrl: string | null } | null> => {
+    const response = await fetch(uploadUrl, {
+      method: "HEAD",
       credentials: "include",
-      body: formData,
+      headers: { "Tus-Resumable": TUS_VERSION },
     });
+    if (!response.ok) {
+      return null;
+    }
+    return {
+      offset: parseInt(response.headers.get("Upload-Offset") || "0"),
+      fileUrl: response.headers.get("Upload-File-Url"),
+    };
+  };
 
-    const data = await response.json();
+  const getErrorMessage = async (response: Response): Promise<string> => {
+    const data = await response.json().catch(() => ({}));
+    return data.error || "Upload failed";
+  };
 
-    if (!response.ok) {
-      throw new Error(data.error || "Upload failed");
+  // Upload through the resumable (tus) API in chunks. The upload URL is kept
+  // in localStorage so re-adding the same file after a reload resumes it.
+  const uploadFile = async (
+    file: File,
+    onProgress: (progress: number) => void,
+    encrypted = false,
+  ): Promise<any> => {
+    const fingerprint = `snapvault-upload:${file.name}:${file.size}:${file.lastModified}`;
+    let uploadUrl = localStorage.getItem(fingerprint);
+    let offset = 0;
+
+    if (uploadUrl) {
+      const status = await getUploadStatus(uploadUrl).catch(() => null);
+      if (status?.fileUrl) {
+        localStorage.removeItem(fingerprint);
+        return { url: status.fileUrl };
+      }
+      if (status) {
+        offset = status.offset;
+      } else {
+        localStorage.removeItem(fingerprint);
+        uploadUrl = null;
+      }
+    }
+
+    if (!uploadUrl) {
+      const metadata: Record<string, string> = {
+        filename: file.name,
+        filetype: file.type,
+        description: uploadOptions.description,
+        isPublic: uploadOptions.isPublic.toString(),
+      };
+      if (uploadOptions.keepMetadata) {
+        metadata.keepMetadata = "true";
+      }
+      if (uploadOptions.expiresIn > 0) {
+        metadata.expiresIn = uploadOptions.expiresIn.toString();
+      }
+      if (uploadOptions.maxDownloads > 0) {
+        metadata.maxDownloads = uploadOptions.maxDownloads.toString();
+      }
+      if (folderId) {
+        metadata.folderId = folderId;
+      }
+      if (encrypted) {
+        metadata.encrypted = "true";
+      }
+
+      const response = await fetch("/api/files/uploads", {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Tus-Resumable": TUS_VERSION,
+          "Upload-Length": file.size.toString(),
+          "Upload-Metadata": encodeUploadMetadata(metadata),
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response));
+      }
+
+      const fileUrl = response.headers.get("Upload-File-Url");
+      if (fileUrl) {
+        return { url: fileUrl };
+      }
+
+      uploadUrl = response.headers.get("Location")!;
+      localStorage.setItem(fingerprint, uploadUrl);
     }
 
-    return data;
+    let retries = 0;
+    let needsSync = false;
+
+    while (true) {
+      try {
+        // After a failed request, continue from whatever the server received
+        if (needsSync) {
+          const status = await getUploadStatus(uploadUrl);
+          if (!status) {
+            localStorage.removeItem(fingerprint);
+            throw new Error("Upload expired, please try again");
+          }
+          if (status.fileUrl) {
+            localStorage.removeItem(fingerprint);
+            return { url: status.fileUrl };
+          }
+          offset = status.offset;
+          needsSync = false;
+        }
+
+        const response = await fetch(uploadUrl, {
+          method: "PATCH",
+          credentials: "include",
+          headers: {
+            "Tus-Resumable": TUS_VERSION,
+            "Upload-Offset": offset.toString(),
+            "Content-Type": "application/offset+octet-stream",
+          },
+          body: file.slice(offset, offset + CHUNK_SIZE),
+        });
+
+        if (response.status === 409) {
+          needsSync = true;
+          continue;
+        }
+
+        if (!response.ok) {
+          localStorage.removeItem(fingerprint);
+          throw new Error(await getErrorMessage(response));
+        }
+
+        retries = 0;
+        offset = parseInt(response.headers.get("Upload-Offset") || "0");
+        onProgress(
+          file.size > 0 ? Math.round((offset / file.size) * 100) : 100,
+        );
+
+        const fileUrl = response.headers.get("Upload-File-Url");
+        if (fileUrl) {
+          localStorage.removeItem(fingerprint);
+          return { url: fileUrl };
+        }
+      } catch (error) {
+        // Network errors surface as TypeError from fetch
+        if (!(error instanceof TypeError) || retries >= MAX_RETRIES) {
+          throw error;
+        }
+        retries++;
+        needsSync = true;
+        await new Promise((resolve) => setTimeout(resolve, 1000 * retries));
+      }
+    }
   };
 
   const handleFiles = useCallback(
@@ -94,7 +284,7 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
         });
       }
 
-      if (validFiles.length === 0) {
+      if (validFiles.length === 0 || passphraseTooShort) {
         return;
       }
 
@@ -113,23 +303,48 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
         const uploadingFileIndex = uploadingFiles.length + i;
 
         try {
-          // Simulate progress for better UX
-          const progressInterval = setInterval(() => {
-            setUploadingFiles((prev) => {
-              const updated = [...prev];
-              if (
-                updated[uploadingFileIndex] &&
-                updated[uploadingFileIndex].progress < 90
-              ) {
-                updated[uploadingFileIndex].progress += 10;
-              }
-              return updated;
+          // In vault mode only ciphertext leaves the browser. Link keys are
+          // random per file; passphrases are stretched with a random salt.
+          let upload = file;
+          let linkKey: string | null = null;
+          if (uploadOptions.encrypt) {
+            if (uploadOptions.keySource === "link") {
+              linkKey = generateLinkKey();
+            }
+            const payload = await encryptFile(
+              file,
+              file.type,
+              linkKey
+                ? { key: linkKey }
+                : { passphrase: uploadOptions.passphrase },
+            );
+            upload = new File([payload], file.name, {
+              type: ENCRYPTED_MIME_TYPE,
             });
-          }, 200);
-
-          const result = await uploadFile(file);
-
-          clearInterval(progressInterval);
+          }
+
+          const result = await uploadFile(
+            upload,
+            (progress) => {
+              setUploadingFiles((prev) => {
+                const updated = [...prev];
+                if (updated[uploadingFileIndex]) {
+                  updated[uploadingFileIndex].progress = progress;
+                }
+                return updated;
+              });
+            },
+            uploadOptions.encrypt,
+          );
+
+          let decryptUrl: string | undefined;
+          if (uploadOptions.encrypt) {
+            const accessToken = result.url.split("/").pop();
+            if (linkKey) {
+              rememberLinkKey(accessToken, linkKey);
+            }
+            decryptUrl = `${window.location.origin}${getDecryptUrl(accessToken, linkKey)}`;
+          }
 
           // Update status to success
           setUploadingFiles((prev) => {
@@ -138,6 +353,7 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
               updated[uploadingFileIndex].progress = 100;
               updated[uploadingFileIndex].status = "success";
               updated[uploadingFileIndex].result = result;
+              updated[uploadingFileIndex].decryptUrl = decryptUrl;
             }
             return updated;
           });
@@ -155,14 +371,24 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
       }
 
       // Call completion callback
-      onUploadComplete();
-
-      // Clear uploading files after a delay
-      setTimeout(() => {
-        setUploadingFiles([]);
-      }, 3000);
+      onUploadComplete(uploadOptions.encrypt);
+
+      // Clear uploading files after a delay. Decryption links stay up so
+      // they can be copied.
+      if (!uploadOptions.encrypt) {
+        setTimeout(() => {
+          setUploadingFiles([]);
+        }, 3000);
+      }
     },
-    [uploadingFiles.length, uploadOptions, onUploadComplete],
+    [
+      uploadingFiles.length,
+      uploadOptions,
+      passphraseTooShort,
+      folderId,
+      onUploadComplete,
+      user,
+    ],
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -224,7 +450,7 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
         <h3 className="text-lg font-semibold text-gray-900 mb-4">
           Upload Options
         </h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div>
             <label className="flex items-center">
               <input
@@ -242,6 +468,22 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
                 Make files public
               </span>
             </label>
+            <label className="flex items-center mt-2">
+              <input
+                type="checkbox"
+                checked={uploadOptions.keepMetadata}
+                onChange={(e) =>
+                  setUploadOptions((prev) => ({
+                    ...prev,
+                    keepMetadata: e.target.checked,
+                  }))
+                }
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span className="ml-2 text-sm text-gray-700">
+                Keep photo metadata (location, camera)
+              </span>
+            </label>
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -257,11 +499,39 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
               }
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
             >
-              <option value={0}>Never</option>
-              <option value={1}>1 hour</option>
-              <option value={24}>24 hours</option>
-              <option value={168}>1 week</option>
-              <option value={720}>1 month</option>
+              <option value={0}>
+                {maxExpiryHours === null
+                  ? "Never"
+                  : `Plan maximum (${maxExpiryHours} hours)`}
+              </option>
+              {EXPIRY_OPTIONS.filter(
+                ({ hours }) => maxExpiryHours === null || hours <= maxExpiryHours,
+              ).map(({ hours, label }) => (
+                <option key={hours} value={hours}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Download limit
+            </label>
+            <select
+              value={uploadOptions.maxDownloads}
+              onChange={(e) =>
+                setUploadOptions((prev) => ({
+                  ...prev,
+                  maxDownloads: parseInt(e.target.value),
+                }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value={0}>Unlimited</option>
+              <option value={1}>Burn after reading</option>
+              <option value={5}>5 downloads</option>
+              <option value={10}>10 downloads</option>
+              <option value={100}>100 downloads</option>
             </select>
           </div>
           <div>
@@ -282,6 +552,80 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
             />
           </div>
         </div>
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={uploadOptions.encrypt}
+              onChange={(e) =>
+                setUploadOptions((prev) => ({
+                  ...prev,
+                  encrypt: e.target.checked,
+                }))
+              }
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">
+              End-to-end encrypt (files are encrypted in your browser; the
+              server never sees their contents)
+            </span>
+          </label>
+          {uploadOptions.encrypt && (
+            <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Key
+                </label>
+                <select
+                  value={uploadOptions.keySource}
+                  onChange={(e) =>
+                    setUploadOptions((prev) => ({
+                      ...prev,
+                      keySource: e.target.value as "link" | "passphrase",
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="link">Random key in the link</option>
+                  <option value="passphrase">Passphrase</option>
+                </select>
+              </div>
+              {uploadOptions.keySource === "passphrase" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Passphrase
+                  </label>
+                  <input
+                    type="password"
+                    value={uploadOptions.passphrase}
+                    onChange={(e) =>
+                      setUploadOptions((prev) => ({
+                        ...prev,
+                        passphrase: e.target.value,
+                      }))
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                    autoComplete="new-password"
+                  />
+                  {passphraseTooShort && (
+                    <p className="mt-1 text-xs text-red-600">
+                      Enter a passphrase of at least {MIN_PASSPHRASE_LENGTH}{" "}
+                      characters before uploading
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {uploadOptions.encrypt && (
+            <p className="mt-2 text-xs text-gray-500">
+              {uploadOptions.keySource === "link"
+                ? "Anyone with the decryption link can open the file. Lost links can't be recovered."
+                : "Share the passphrase separately. Lost passphrases can't be recovered."}
+            </p>
+          )}
+        </div>
       </div>
 
       {/* Upload Area */}
@@ -337,7 +681,7 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
           </div>
 
           <div className="text-sm text-gray-500">
-            <p>Maximum file size: 50MB</p>
+            <p>Maximum file size: {formatFileSize(maxFileSize)}</p>
             <p>Supported formats: JPG, PNG, GIF, SVG, TXT, MD, CSV</p>
           </div>
         </div>
@@ -438,6 +782,20 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
                     {uploadingFile.result.url}
                   </div>
                 )}
+                {uploadingFile.status === "success" &&
+                  uploadingFile.decryptUrl && (
+                    <div className="mt-2 text-sm text-gray-700 break-all">
+                      🔐 Decrypt in the browser at:{" "}
+                      <a
+                        href={uploadingFile.decryptUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary-600 hover:text-primary-700"
+                      >
+                        {uploadingFile.decryptUrl}
+                      </a>
+                    </div>
+                  )}
               </div>
             ))}
           </div>
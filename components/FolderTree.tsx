@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+
+export interface FolderNode {
+  id: string;
+  name: string;
+  parentId: string | null;
+  fileCount: number;
+  children: FolderNode[];
+}
+
+interface FolderTreeProps {
+  currentFolderId: string | null;
+  onSelect: (folderId: string | null) => void;
+  refreshTrigger?: number;
+}
+
+// Ids of a folder's ancestors, so the selected folder can be revealed
+function findAncestors(
+  nodes: FolderNode[],
+  folderId: string,
+  path: string[] = [],
+): string[] | null {
+  for (const node of nodes) {
+    if (node.id === folderId) return path;
+    const found = findAncestors(node.children, folderId, [...path, node.id]);
+    if (found) return found;
+  }
+  return null;
+}
+
+export default function FolderTree({
+  currentFolderId,
+  onSelect,
+  refreshTrigger = 0,
+}: FolderTreeProps) {
+  const { user } = useAuth();
+  const [folders, setFolders] = useState<FolderNode[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (user) {
+      fetchFolders();
+    }
+  }, [user, refreshTrigger]);
+
+  useEffect(() => {
+    if (!currentFolderId) return;
+    const ancestors = findAncestors(folders, currentFolderId);
+    if (ancestors && ancestors.some((id) => !expanded.has(id))) {
+      setExpanded(new Set([...Array.from(expanded), ...ancestors]));
+    }
+  }, [folders, currentFolderId]);
+
+  const fetchFolders = async () => {
+    try {
+      const response = await fetch("/api/folders", {
+        method: "GET",
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch folders");
+      }
+      setFolders(data.folders);
+    } catch (error) {
+      console.error("Error fetching folders:", error);
+    }
+  };
+
+  const toggle = (folderId: string) => {
+    const next = new Set(expanded);
+    if (next.has(folderId)) {
+      next.delete(folderId);
+    } else {
+      next.add(folderId);
+    }
+    setExpanded(next);
+  };
+
+  const renderNode = (node: FolderNode, depth: number) => {
+    const isOpen = expanded.has(node.id);
+    const isCurrent = node.id === currentFolderId;
+
+    return (
+      <li key={node.id}>
+        <div
+          className={`flex items-center rounded-lg pr-2 text-sm transition-colors ${
+            isCurrent
+              ? "bg-primary-100 text-primary-700"
+              : "text-gray-700 hover:bg-gray-100"
+          }`}
+          style={{ paddingLeft: `${depth * 12 + 4}px` }}
+        >
+          <button
+            onClick={() => toggle(node.id)}
+            className={`w-5 h-5 flex items-center justify-center text-gray-400 ${
+              node.children.length === 0 ? "invisible" : ""
+            }`}
+            aria-label={isOpen ? "Collapse folder" : "Expand folder"}
+          >
+            {isOpen ? "▾" : "▸"}
+          </button>
+          <button
+            onClick={() => onSelect(node.id)}
+            className="flex-1 flex items-center min-w-0 py-1.5 text-left"
+          >
+            <span className="mr-2">{isOpen ? "📂" : "📁"}</span>
+            <span className="truncate font-medium">{node.name}</span>
+            {node.fileCount > 0 && (
+              <span className="ml-auto pl-2 text-xs text-gray-400">
+                {node.fileCount}
+              </span>
+            )}
+          </button>
+        </div>
+        {isOpen && node.children.length > 0 && (
+          <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <nav className="bg-white rounded-lg shadow-sm border border-gray-200 p-3">
+      <h3 className="px-2 mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+        Folders
+      </h3>
+      <button
+        onClick={() => onSelect(null)}
+        className={`w-full flex items-center rounded-lg px-2 py-1.5 text-sm font-medium transition-colors ${
+          currentFolderId === null
+            ? "bg-primary-100 text-primary-700"
+            : "text-gray-700 hover:bg-gray-100"
+        }`}
+      >
+        <span className="mr-2">🏠</span>
+        Vault
+      </button>
+      <ul className="mt-1">{folders.map((node) => renderNode(node, 0))}</ul>
+    </nav>
+  );
+}
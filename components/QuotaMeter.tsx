@@ -0,0 +1,97 @@
+"use client";
+
+import { useAuth } from "@/contexts/AuthContext";
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+function meterColor(fraction: number): string {
+  if (fraction >= 0.9) return "bg-red-500";
+  if (fraction >= 0.75) return "bg-yellow-500";
+  return "bg-primary-600";
+}
+
+function Meter({
+  label,
+  used,
+  limit,
+}: {
+  label: string;
+  used: string;
+  limit: { value: string; fraction: number } | null;
+}) {
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>{label}</span>
+        <span>{limit ? `${used} of ${limit.value}` : `${used} (no limit)`}</span>
+      </div>
+      {limit && (
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div
+            className={`h-2 rounded-full transition-all ${meterColor(limit.fraction)}`}
+            style={{ width: `${Math.min(limit.fraction, 1) * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Storage and file count used, against the limits of the user's plan
+export default function QuotaMeter() {
+  const { user } = useAuth();
+
+  if (!user?.stats || !user.limits) {
+    return null;
+  }
+
+  const { stats, limits } = user;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">Usage</h3>
+        {user.plan && (
+          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-primary-100 text-primary-700">
+            {user.plan.name} plan
+          </span>
+        )}
+      </div>
+      <Meter
+        label="Storage"
+        used={formatFileSize(stats.storageUsed)}
+        limit={
+          limits.storageQuota !== null
+            ? {
+                value: formatFileSize(limits.storageQuota),
+                fraction: stats.storageUsed / (limits.storageQuota || 1),
+              }
+            : null
+        }
+      />
+      <Meter
+        label="Files"
+        used={stats.fileCount.toString()}
+        limit={
+          limits.maxFileCount !== null
+            ? {
+                value: limits.maxFileCount.toString(),
+                fraction: stats.fileCount / (limits.maxFileCount || 1),
+              }
+            : null
+        }
+      />
+      <p className="text-xs text-gray-500">
+        Up to {formatFileSize(limits.maxFileSize)} per file
+        {limits.maxExpiryHours !== null &&
+          `, kept for at most ${limits.maxExpiryHours} hours`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+
+type Permission = "view" | "download" | "manage" | "owner";
+
+interface SharedFile {
+  id: string;
+  originalName: string;
+  formattedSize: string;
+  icon: string;
+  owner: { id: string; username: string | null };
+  permission: Permission;
+  isExpired: boolean;
+}
+
+interface SharedFolder {
+  id: string;
+  name: string;
+  owner?: { id: string; username: string | null };
+  permission?: Permission;
+}
+
+interface SharedWithMeProps {
+  refreshTrigger?: number;
+}
+
+// Files and folders other users have shared with the current user. Shared
+// folders can be opened to list what is inside them.
+export default function SharedWithMe({
+  refreshTrigger = 0,
+}: SharedWithMeProps) {
+  const { user } = useAuth();
+  const [files, setFiles] = useState<SharedFile[]>([]);
+  const [folders, setFolders] = useState<SharedFolder[]>([]);
+  const [openFolder, setOpenFolder] = useState<SharedFolder | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchShared();
+    }
+  }, [user, refreshTrigger, openFolder]);
+
+  const fetchShared = async () => {
+    try {
+      const query = openFolder ? `?folderId=${openFolder.id}` : "";
+      const response = await fetch(`/api/shares/with-me${query}`, {
+        method: "GET",
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch shared files");
+      }
+      setFiles(data.files);
+      setFolders(data.folders);
+    } catch (error) {
+      console.error("Error fetching shared files:", error);
+    }
+  };
+
+  // Shared files are opened through short-lived signed URLs
+  const openFile = async (file: SharedFile) => {
+    const action = file.permission === "view" ? "view" : "download";
+    try {
+      const response = await fetch("/api/files/generate-url", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ fileId: file.id, action }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate secure URL");
+      }
+      window.open(data.fullUrl, "_blank", "noopener");
+    } catch (error: any) {
+      console.error("Failed to open shared file:", error);
+      alert(`Failed to open file: ${error.message}`);
+    }
+  };
+
+  if (!user || (!openFolder && files.length === 0 && folders.length === 0)) {
+    return null;
+  }
+
+  return (
+    <nav className="bg-white rounded-lg shadow-sm border border-gray-200 p-3 mt-4">
+      <h3 className="px-2 mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+        Shared with me
+      </h3>
+      {openFolder && (
+        <button
+          onClick={() => setOpenFolder(null)}
+          className="w-full flex items-center rounded-lg px-2 py-1.5 text-sm text-primary-600 hover:bg-gray-100"
+        >
+          ← {openFolder.name}
+        </button>
+      )}
+      <ul>
+        {folders.map((folder) => (
+          <li key={folder.id}>
+            <button
+              onClick={() =>
+                setOpenFolder({
+                  ...folder,
+                  owner: folder.owner || openFolder?.owner,
+                })
+              }
+              className="w-full flex items-center rounded-lg px-2 py-1.5 text-sm text-gray-700 hover:bg-gray-100 text-left"
+            >
+              <span className="mr-2">📁</span>
+              <span className="truncate font-medium">{folder.name}</span>
+              {folder.owner?.username && (
+                <span className="ml-auto pl-2 text-xs text-gray-400 truncate">
+                  {folder.owner.username}
+                </span>
+              )}
+            </button>
+          </li>
+        ))}
+        {files.map((file) => (
+          <li key={file.id}>
+            <button
+              onClick={() => openFile(file)}
+              disabled={file.isExpired}
+              className="w-full flex items-center rounded-lg px-2 py-1.5 text-sm text-gray-700 hover:bg-gray-100 text-left disabled:opacity-50"
+              title={`${file.formattedSize} · ${file.permission} access`}
+            >
+              <span className="mr-2">{file.icon}</span>
+              <span className="truncate">{file.originalName}</span>
+              {file.owner.username && (
+                <span className="ml-auto pl-2 text-xs text-gray-400 truncate">
+                  {file.owner.username}
+                </span>
+              )}
+            </button>
+          </li>
+        ))}
+        {openFolder && files.length === 0 && folders.length === 0 && (
+          <li className="px-2 py-1.5 text-sm text-gray-500">
+            This folder is empty
+          </li>
+        )}
+      </ul>
+    </nav>
+  );
+}
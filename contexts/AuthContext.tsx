@@ -2,6 +2,15 @@
 
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 
+// Limits of the user's upload policy; null means no limit
+export interface UploadLimits {
+  maxFileSize: number;
+  storageQuota: number | null;
+  maxFileCount: number | null;
+  allowedMimeTypes: string[];
+  maxExpiryHours: number | null;
+}
+
 interface User {
   id: string;
   username: string;
@@ -10,6 +19,8 @@ interface User {
     fileCount: number;
     storageUsed: number;
   };
+  plan?: { id: string; name: string };
+  limits?: UploadLimits;
 }
 
 interface AuthContextType {
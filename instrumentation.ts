@@ -0,0 +1,26 @@
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Runs once when the server starts
+export async function register() {
+  // Checked inline so the Node-only modules below stay out of the edge bundle
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { assertProductionSecrets } = await import("./lib/secrets");
+    try {
+      assertProductionSecrets();
+    } catch (error: any) {
+      console.error(error.message);
+      process.exit(1);
+    }
+
+    // Pick up scans that were interrupted or couldn't reach the scanner
+    const { resumeScans } = await import("./lib/malware-scanning");
+    resumeScans().catch((error) => {
+      console.error("Failed to resume malware scans:", error);
+    });
+
+    // Expired files and orphaned blobs, now and every hour after
+    const { cleanupExpiredFiles } = await import("./lib/file-utils");
+    cleanupExpiredFiles();
+    setInterval(cleanupExpiredFiles, CLEANUP_INTERVAL_MS).unref();
+  }
+}
@@ -0,0 +1,166 @@
+import { Readable } from "stream";
+import { database, File } from "./database";
+import { parseDatabaseTimestamp } from "./file-response";
+import { openContentStream } from "./encryption";
+import { MAX_ARCHIVE_SIZE, createFolderArchive } from "./folders";
+import { getScanBlock } from "./malware-scanning";
+import { getFileAccessLevel, getFolderAccessLevel, hasAccess } from "./sharing";
+import {
+  ZipEntry,
+  createZipStream,
+  toZipPathSegment,
+  dedupeZipEntryName,
+} from "./zip";
+
+// ZIP archives of files picked from a listing, or of a whole folder, served
+// by /api/files/archive. Every entry is checked against the user's access
+// before anything is streamed, and the archive is built as it's read.
+
+// Picked files are signed into archive URLs, which have to stay short
+export const MAX_ARCHIVE_SELECTION = 100;
+
+export type ArchiveSelection = { fileIds: string[] } | { folderId: string };
+
+export interface FileArchive {
+  name: string; // of the .zip, without the extension
+  files: File[];
+  stream: Readable;
+}
+
+// Why an archive can't be made, with the file to blame when there is one
+export interface ArchiveRefusal {
+  status: number;
+  error: string;
+  fileId?: string;
+}
+
+// The files or folder to archive, from a request body or signed URL claims
+export function parseArchiveSelection(value: any): ArchiveSelection {
+  const { fileIds, folderId } = value ?? {};
+  if ((fileIds === undefined) === (folderId === undefined)) {
+    throw new Error("Invalid selection: give either fileIds or folderId");
+  }
+
+  if (folderId !== undefined) {
+    if (typeof folderId !== "string" || folderId === "") {
+      throw new Error("Invalid folderId: must be a folder ID");
+    }
+    return { folderId };
+  }
+
+  if (
+    !Array.isArray(fileIds) ||
+    fileIds.length === 0 ||
+    !fileIds.every((id) => typeof id === "string" && id !== "")
+  ) {
+    throw new Error("Invalid fileIds: must be a non-empty array of file IDs");
+  }
+  const unique = Array.from(new Set<string>(fileIds));
+  if (unique.length > MAX_ARCHIVE_SELECTION) {
+    throw new Error(
+      `Invalid fileIds: at most ${MAX_ARCHIVE_SELECTION} files can be ` +
+        "archived at once; archive their folder instead",
+    );
+  }
+  return { fileIds: unique };
+}
+
+// A flat archive of the files, with clashing names numbered
+export function createFilesArchive(files: File[]): Readable {
+  const taken = new Set<string>();
+  return createZipStream(
+    files.map(
+      (file): ZipEntry => ({
+        name: dedupeZipEntryName(toZipPathSegment(file.original_name), taken),
+        modifiedAt: parseDatabaseTimestamp(
+          file.updated_at || file.created_at,
+        ),
+        compress: !file.mime_type.startsWith("image/"),
+        open: () => openContentStream(file),
+      }),
+    ),
+  );
+}
+
+// Why a picked file can't go in an archive, or null when it can. As in
+// folder archives, download-limited files are kept out since the archive
+// would get round their limit.
+async function checkArchiveEntry(
+  file: File | null,
+  fileId: string,
+  userId: string,
+): Promise<ArchiveRefusal | null> {
+  if (!file) {
+    return { status: 404, error: "File not found", fileId };
+  }
+  if (!hasAccess(await getFileAccessLevel(file, userId), "download")) {
+    return { status: 403, error: "Access denied", fileId };
+  }
+  if (file.expires_at && new Date(file.expires_at) < new Date()) {
+    return { status: 410, error: "File has expired", fileId };
+  }
+  if (file.max_downloads) {
+    return {
+      status: 409,
+      error: "Files with a download limit must be downloaded on their own",
+      fileId,
+    };
+  }
+  const blocked = getScanBlock(file);
+  if (blocked) {
+    return { ...blocked, fileId };
+  }
+  return null;
+}
+
+/**
+ * Resolve a selection into an archive the user may download. A folder needs
+ * download access, and so does each file createFolderArchive keeps in it;
+ * picked files are refused for the reasons above too. Nothing is read until
+ * the stream is.
+ */
+export async function createArchive(
+  selection: ArchiveSelection,
+  userId: string,
+): Promise<FileArchive | ArchiveRefusal> {
+  if ("folderId" in selection) {
+    const folder = await database.getFolderById(selection.folderId);
+    if (
+      !folder ||
+      !hasAccess(await getFolderAccessLevel(folder, userId), "download")
+    ) {
+      return { status: 404, error: "Folder not found" };
+    }
+
+    const archive = await createFolderArchive(folder);
+    for (const file of archive.files) {
+      if (!hasAccess(await getFileAccessLevel(file, userId), "download")) {
+        archive.stream.destroy();
+        return { status: 403, error: "Access denied", fileId: file.id };
+      }
+    }
+    return { name: folder.name, ...archive };
+  }
+
+  const files: File[] = [];
+  for (const fileId of selection.fileIds) {
+    const file = await database.getFileById(fileId);
+    const refusal = await checkArchiveEntry(file, fileId, userId);
+    if (refusal) {
+      return refusal;
+    }
+    files.push(file!);
+  }
+
+  const totalSize = files.reduce((total, file) => total + file.size, 0);
+  if (totalSize > MAX_ARCHIVE_SIZE) {
+    throw new Error("Selection is too large to archive");
+  }
+  return { name: "files", files, stream: createFilesArchive(files) };
+}
+
+export function isArchiveRefusal(
+  result: FileArchive | ArchiveRefusal,
+): result is ArchiveRefusal {
+  return "error" in result;
+}
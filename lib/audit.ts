@@ -0,0 +1,68 @@
+import crypto from "crypto";
+import { database, AuditLog } from "./database";
+
+// Who made a change, and from where
+export interface AuditContext {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEvent {
+  action: string;
+  targetType: AuditLog["target_type"];
+  targetId: string;
+  ownerId?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditLogInfo {
+  id: string;
+  userId: string | null;
+  ownerId: string | null;
+  action: string;
+  targetType: string;
+  targetId: string;
+  details: Record<string, unknown> | null;
+  ipAddress?: string;
+  createdAt: string;
+}
+
+// Record a change to sharing or groups, or with a null context, something
+// the app did itself such as quarantining a file. Like logFileAccess, a
+// failure is logged rather than thrown so it can't undo the change itself.
+export async function logAuditEvent(
+  context: AuditContext | null,
+  event: AuditEvent,
+): Promise<void> {
+  try {
+    await database.createAuditLog({
+      id: crypto.randomUUID(),
+      user_id: context?.userId,
+      owner_id: event.ownerId,
+      action: event.action,
+      target_type: event.targetType,
+      target_id: event.targetId,
+      details: event.details ? JSON.stringify(event.details) : undefined,
+      ip_address: context?.ipAddress,
+      user_agent: context?.userAgent,
+      created_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Failed to write audit log:", error);
+  }
+}
+
+export function toAuditLogInfo(log: AuditLog): AuditLogInfo {
+  return {
+    id: log.id,
+    userId: log.user_id || null,
+    ownerId: log.owner_id || null,
+    action: log.action,
+    targetType: log.target_type,
+    targetId: log.target_id,
+    details: log.details ? JSON.parse(log.details) : null,
+    ipAddress: log.ip_address,
+    createdAt: log.created_at,
+  };
+}
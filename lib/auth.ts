@@ -1,10 +1,8 @@
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import { v4 as uuidv4 } from "uuid";
 import { database, User, Session } from "./database";
+import { signWithKeyring, verifyWithKeyring } from "./keyring";
 
-const JWT_SECRET =
-  process.env.JWT_SECRET || "snapvault-dev-secret-change-in-production";
 const SESSION_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
 
 export interface AuthUser {
@@ -44,14 +42,18 @@ export async function verifyPassword(
   return await bcrypt.compare(password, hash);
 }
 
-// JWT utilities
-export function generateJWT(payload: object, expiresIn: string = "7d"): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn } as any);
+// JWT utilities, signed with the active session key and verified with the
+// key named by their kid header
+export async function generateJWT(
+  payload: object,
+  expiresIn: string = "7d",
+): Promise<string> {
+  return await signWithKeyring("session", payload, { expiresIn } as any);
 }
 
-export function verifyJWT(token: string): any {
+export async function verifyJWT(token: string): Promise<any> {
   try {
-    return jwt.verify(token, JWT_SECRET);
+    return await verifyWithKeyring("session", token);
   } catch (error) {
     return null;
   }
@@ -140,7 +142,7 @@ export async function loginUser(
 
   // Create session
   const sessionId = uuidv4();
-  const token = generateJWT({ userId: user.id, sessionId });
+  const token = await generateJWT({ userId: user.id, sessionId });
   const expiresAt = new Date(Date.now() + SESSION_DURATION);
 
   const session: Omit<Session, "created_at"> = {
@@ -172,7 +174,7 @@ export async function verifySession(token: string): Promise<AuthUser | null> {
 
   try {
     // Verify JWT
-    const decoded = verifyJWT(token);
+    const decoded = await verifyJWT(token);
     if (!decoded || !decoded.userId || !decoded.sessionId) {
       return null;
     }
@@ -283,6 +285,14 @@ export async function requireAuth(request: Request): Promise<AuthUser> {
   return user;
 }
 
+// Whether an error thrown by requireAuth means the request should get a 401
+export function isAuthError(error: any): boolean {
+  return (
+    error.message === "Authentication required" ||
+    error.message === "Invalid or expired session"
+  );
+}
+
 // Cookie utilities for web sessions
 export function createSessionCookie(token: string): string {
   const expires = new Date(Date.now() + SESSION_DURATION);
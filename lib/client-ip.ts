@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { isAddressAllowed, isValidAllowlistEntry } from "./share-links";
+
+// The address a request came from, as used for rate limits, access logs,
+// IP-bound signed URLs and share link allowlists.
+//
+// That's the address of the connection, which scripts/server.js passes on
+// in the header named by PEER_ADDRESS_HEADER. Clients can send any
+// X-Forwarded-For header they like, so it's only read when the connection
+// is from one of TRUSTED_PROXIES. Each proxy appends the address it was
+// connected from, so the header is read from the right and the client is
+// the first address that isn't a trusted proxy. Without the server, e.g.
+// under a bare `next start`, the address is "unknown".
+export function getClientIP(request: NextRequest): string {
+  // Set by hosting platforms that see the connection themselves
+  if (request.ip) {
+    return request.ip;
+  }
+
+  const header = process.env.PEER_ADDRESS_HEADER;
+  const peer = header && toPlainAddress(request.headers.get(header) || "");
+  if (!peer) {
+    return "unknown";
+  }
+
+  const trustedProxies = getTrustedProxies();
+  if (
+    trustedProxies.length === 0 ||
+    !isAddressAllowed(trustedProxies, peer)
+  ) {
+    return peer;
+  }
+
+  const hops = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((hop) => toPlainAddress(hop.trim()))
+    .filter(Boolean);
+  let client = peer;
+  while (hops.length > 0 && isAddressAllowed(trustedProxies, client)) {
+    client = hops.pop()!;
+  }
+  return client;
+}
+
+// Addresses and CIDR ranges of the proxies in front of the app, from the
+// comma-separated TRUSTED_PROXIES; invalid entries are ignored
+function getTrustedProxies(): string[] {
+  return (process.env.TRUSTED_PROXIES || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(isValidAllowlistEntry);
+}
+
+// IPv4 connections to a dual-stack socket show up as IPv4-mapped IPv6
+function toPlainAddress(address: string): string {
+  return address.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, "");
+}
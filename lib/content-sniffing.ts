@@ -0,0 +1,193 @@
+// Detection of what uploaded content really is, from its first bytes, so a
+// file can't claim to be an image while holding HTML, and sanitizing of SVG
+// images, which are XML documents that can carry scripts.
+
+// How many leading bytes sniffing looks at
+export const SNIFF_LENGTH = 4096;
+
+const SIGNATURES: { type: string; bytes: number[] }[] = [
+  { type: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  {
+    type: "image/png",
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { type: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38, 0x37, 0x61] },
+  { type: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38, 0x39, 0x61] },
+];
+
+// Bytes that never appear in text, per the WHATWG MIME Sniffing standard
+const BINARY_BYTES = /[\x00-\x08\x0b\x0e-\x1a\x1c-\x1f]/;
+
+// Leading tags that make browsers treat text as HTML, from the same standard
+const HTML_START =
+  /^\s*(?:<!--|<(?:!doctype html|html|head|script|iframe|h1|div|font|table|a|style|title|b|body|br|p)[\s>])/i;
+
+// An <svg> root, after any XML declaration, comments and doctype
+const SVG_START =
+  /^\s*(?:<\?xml[\s\S]*?\?>\s*|<!--[\s\S]*?-->\s*|<!doctype(?:[^>[]|\[[\s\S]*?\])*>\s*)*<svg[\s>/]/i;
+
+// The sniffed types each allowed upload type may hold. Markdown may embed
+// HTML, which is fine as it's never served as HTML.
+const ACCEPTED_CONTENT: Record<string, string[]> = {
+  "image/jpeg": ["image/jpeg"],
+  "image/jpg": ["image/jpeg"],
+  "image/png": ["image/png"],
+  "image/gif": ["image/gif"],
+  "image/svg+xml": ["image/svg+xml"],
+  "text/plain": ["text/plain"],
+  "text/markdown": ["text/plain", "text/html"],
+  "text/csv": ["text/plain"],
+};
+
+// Decode text, allowing for a multi-byte character cut off by the end of the
+// sniffed bytes. Null when the bytes aren't UTF-8 text.
+function decodeText(head: Buffer): string | null {
+  if (BINARY_BYTES.test(head.toString("latin1"))) {
+    return null;
+  }
+
+  const decoder = new TextDecoder("utf-8", { fatal: true });
+  const cut = head.length === SNIFF_LENGTH ? 3 : 0;
+  for (let trim = 0; trim <= cut; trim++) {
+    try {
+      return decoder.decode(head.subarray(0, head.length - trim));
+    } catch {
+      // Try again without the last bytes
+    }
+  }
+  return null;
+}
+
+// The type of content from its leading bytes: one of the allowed image
+// types, "text/html", "text/plain", or "application/octet-stream" for
+// anything else
+export function sniffMimeType(head: Buffer): string {
+  for (const { type, bytes } of SIGNATURES) {
+    if (bytes.every((byte, i) => head[i] === byte)) {
+      return type;
+    }
+  }
+
+  const text = decodeText(head);
+  if (text === null) {
+    return "application/octet-stream";
+  }
+  const start = text.replace(/^\uFEFF/, "");
+  if (SVG_START.test(start)) {
+    return "image/svg+xml";
+  }
+  if (HTML_START.test(start)) {
+    return "text/html";
+  }
+  return "text/plain";
+}
+
+// Whether content sniffed as `detected` may be stored as `declared`
+export function isContentOfType(declared: string, detected: string): boolean {
+  return (ACCEPTED_CONTENT[declared] || []).includes(detected);
+}
+
+// Elements that run scripts or embed other documents
+const UNSAFE_ELEMENTS = [
+  "script",
+  "foreignobject",
+  "iframe",
+  "embed",
+  "object",
+  "handler",
+  "listener",
+];
+
+// Element names are matched with any namespace prefix, which doesn't change
+// what an element does
+const PREFIX = "(?:[\\w.-]+:)?";
+const UNSAFE_NAMES = UNSAFE_ELEMENTS.join("|");
+const UNSAFE_BLOCK = new RegExp(
+  `<(${PREFIX}(?:${UNSAFE_NAMES}))\\b(?:[^>"']|"[^"]*"|'[^']*')*(?:\\/>|>[\\s\\S]*?<\\/\\1\\s*>)`,
+  "gi",
+);
+const TAG = /<(\/?)([a-zA-Z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE = /([^\s=/]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'>]+))?/g;
+
+// Only references within the document, or embedded raster images
+function isSafeReference(value: string): boolean {
+  return (
+    /^\s*#/.test(value) ||
+    /^\s*data:image\/(?:png|jpeg|gif|webp);base64,/i.test(value)
+  );
+}
+
+function sanitizeCss(css: string): string {
+  return css
+    .replace(/@import[^;]*;?/gi, "")
+    .replace(/url\(\s*(['"]?)(?!#)[^)]*\)/gi, "none")
+    .replace(/expression\s*\(/gi, "(");
+}
+
+function sanitizeAttributes(attributes: string): string {
+  let sanitized = "";
+  for (const [, name, quoted = '""'] of Array.from(
+    attributes.matchAll(ATTRIBUTE),
+  )) {
+    const localName = name.toLowerCase().split(":").pop()!;
+    const value = quoted.replace(/^["']|["']$/g, "");
+
+    if (
+      localName.startsWith("on") ||
+      name.toLowerCase() === "xml:base" ||
+      /^\s*(?:javascript|vbscript):/i.test(value)
+    ) {
+      continue;
+    }
+    if (
+      (localName === "href" || localName === "src") &&
+      !isSafeReference(value)
+    ) {
+      continue;
+    }
+    // Animations can otherwise set event handlers or links
+    if (
+      localName === "attributename" &&
+      /^\s*(?:on|(?:\w+:)?href\s*$)/i.test(value)
+    ) {
+      continue;
+    }
+
+    const quote = quoted[0] === "'" ? "'" : '"';
+    sanitized +=
+      localName === "style"
+        ? ` ${name}=${quote}${sanitizeCss(value)}${quote}`
+        : ` ${name}=${quoted}`;
+  }
+  return sanitized;
+}
+
+// Remove scripts, event handlers, embedded documents and references to
+// anything outside the image, so an SVG is safe to open directly. Entity
+// declarations and stylesheet processing instructions go too.
+export function sanitizeSvg(svg: string): string {
+  return svg
+    .replace(/<!doctype(?:[^>[]|\[[\s\S]*?\])*>/gi, "")
+    .replace(/<\?(?!xml\s)[\s\S]*?\?>/gi, "")
+    .replace(UNSAFE_BLOCK, "")
+    .replace(
+      new RegExp(
+        `(<(${PREFIX}style)\\b[^>]*>)([\\s\\S]*?)(<\\/\\2\\s*>)`,
+        "gi",
+      ),
+      (_, open, __, css, close) => `${open}${sanitizeCss(css)}${close}`,
+    )
+    .replace(TAG, (tag, closing, name, attributes) => {
+      if (UNSAFE_ELEMENTS.includes(name.toLowerCase().split(":").pop()!)) {
+        return "";
+      }
+      if (closing) {
+        return tag;
+      }
+      const selfClosing = /\/\s*$/.test(attributes);
+      const sanitized = sanitizeAttributes(
+        attributes.replace(/\/\s*$/, ""),
+      );
+      return `<${name}${sanitized}${selfClosing ? "/" : ""}>`;
+    });
+}
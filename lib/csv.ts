@@ -0,0 +1,127 @@
+import fs from "fs";
+import { StringDecoder } from "string_decoder";
+
+// CSV parsing shared by metadata extraction and previews. Cells are split
+// on commas, may be quoted with double quotes (doubled to escape one), and
+// quoted cells may span lines.
+
+// Lines of a buffer or file, decoded as UTF-8 a chunk at a time so large
+// files aren't held in memory. A leading byte order mark is dropped.
+export async function* readLines(
+  input: Buffer | string,
+): AsyncGenerator<string> {
+  const decoder = new StringDecoder("utf8");
+  const chunks = Buffer.isBuffer(input) ? [input] : fs.createReadStream(input);
+  let pending = "";
+  let first = true;
+
+  for await (const chunk of chunks) {
+    let text = decoder.write(chunk);
+    if (first && text !== "") {
+      text = text.replace(/^\uFEFF/, "");
+      first = false;
+    }
+    const lines = (pending + text).split("\n");
+    pending = lines.pop()!;
+    for (const line of lines) {
+      yield line.replace(/\r$/, "");
+    }
+  }
+  pending += decoder.end();
+  if (pending !== "") {
+    yield pending.replace(/\r$/, "");
+  }
+}
+
+// Split a CSV record into its cells, unquoting quoted ones
+export function parseCsvRecord(record: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+    if (quoted) {
+      if (char === '"' && record[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+// Records of CSV content. They span lines inside quoted cells, so a line
+// with an odd number of quotes opens or closes one. Blank lines are skipped.
+export async function* readCsvRecords(
+  input: Buffer | string,
+): AsyncGenerator<string> {
+  let record: string | null = null;
+  let quoted = false;
+  for await (const line of readLines(input)) {
+    record = record === null ? line : `${record}\n${line}`;
+    if ((line.match(/"/g)?.length ?? 0) % 2 === 1) {
+      quoted = !quoted;
+    }
+    if (!quoted) {
+      if (record.trim() !== "") yield record;
+      record = null;
+    }
+  }
+  // An unclosed quote runs to the end
+  if (record !== null && record.trim() !== "") {
+    yield record;
+  }
+}
+
+const NUMBER = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+function isNumeric(cell: string): boolean {
+  return NUMBER.test(cell.trim());
+}
+
+// Whether the first record names the columns rather than holding data,
+// which it's taken to do when its cells are all filled in, distinct and
+// not numbers
+export function hasCsvHeader(records: string[][]): boolean {
+  const first = records[0];
+  if (!first) {
+    return false;
+  }
+  const cells = first.map((cell) => cell.trim().toLowerCase());
+  return (
+    cells.every((cell) => cell !== "" && !isNumeric(cell)) &&
+    new Set(cells).size === cells.length
+  );
+}
+
+// Order for sorting cells: numbers by value before text, text in natural
+// order, and empty cells last
+export function compareCsvCells(a: string, b: string): number {
+  const x = a.trim();
+  const y = b.trim();
+  if (x === "" || y === "") {
+    return (x === "" ? 1 : 0) - (y === "" ? 1 : 0);
+  }
+  const xNumeric = isNumeric(x);
+  const yNumeric = isNumeric(y);
+  if (xNumeric && yNumeric) {
+    return Number(x) - Number(y);
+  }
+  if (xNumeric !== yNumeric) {
+    return xNumeric ? -1 : 1;
+  }
+  return x.localeCompare(y, undefined, { numeric: true, sensitivity: "base" });
+}
@@ -2,6 +2,9 @@ import sqlite3 from "sqlite3";
 import { promisify } from "util";
 import path from "path";
 import fs from "fs";
+import { getStorageAdapter, StorageBackend } from "./storage";
+import type { ContentEncryption } from "./encryption";
+import type { UploadPolicy } from "./upload-policies";
 
 const DB_PATH = path.join(process.cwd(), "data", "snapvault.db");
 
@@ -19,6 +22,33 @@ interface PromisifiedDatabase {
   close: () => void;
 }
 
+// Bytes stored for a user, with the user id bound twice. Logical size: a
+// deduplicated blob counts against every file using it, and previous
+// versions count until they are pruned.
+const STORAGE_USED_SQL = `(
+  COALESCE((SELECT SUM(size) FROM files WHERE user_id = ?), 0) +
+  COALESCE((SELECT SUM(v.size) FROM file_versions v
+            INNER JOIN files f ON v.file_id = f.id
+            WHERE f.user_id = ?), 0))`;
+
+// Archive URLs aren't for one file, so they have no file_id; user_id is
+// who signed them
+const SIGNED_URL_TOKEN_COLUMNS = `
+  jti TEXT PRIMARY KEY,
+  file_id TEXT,
+  user_id TEXT,
+  action TEXT,
+  max_uses INTEGER,
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TEXT NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TEXT,
+  revoked_at TEXT,
+  FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE`;
+
+type QuotaLimits = Pick<UploadPolicy, "storageQuota" | "maxFileCount">;
+
 // Database interface types
 export interface User {
   id: string;
@@ -27,22 +57,204 @@ export interface User {
   password_hash: string;
   created_at: string;
   last_login?: string;
+  plan_id?: string; // the default plan when unset
+}
+
+// Upload limits. Unset limits are inherited, see lib/upload-policies.ts.
+export interface PolicyLimits {
+  max_file_size?: number; // bytes
+  storage_quota?: number; // bytes
+  max_file_count?: number;
+  allowed_mime_types?: string; // JSON array
+  max_expiry_hours?: number;
+}
+
+export interface Plan extends PolicyLimits {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+// Limits set for one user, over those of their plan
+export interface UserPolicyOverride extends PolicyLimits {
+  user_id: string;
+  updated_at: string;
 }
 
-export interface File {
+export interface File extends ContentEncryption {
   id: string;
   user_id: string;
   filename: string;
   original_name: string;
   mime_type: string;
   size: number;
-  upload_path: string;
+  upload_path: string; // storage key within storage_backend
+  storage_backend: StorageBackend;
+  content_hash?: string; // SHA-256 hex of the stored bytes
+  blob_hash?: string; // shared blob holding the bytes; unset for legacy files
+  version: number; // number of the current version
   access_token: string;
   expires_at?: string;
   created_at: string;
+  updated_at?: string; // when the current version was uploaded or restored
   download_count: number;
   is_public: boolean;
   description?: string;
+  folder_id?: string; // unset for files at the top level
+  link_password_hash?: string; // bcrypt hash guarding the access token link
+  max_downloads?: number; // unset for unlimited; 1 burns after reading
+  content_deleted_at?: string; // when the bytes of a used-up file were removed
+  client_encrypted?: boolean; // encrypted in the browser; stored as ciphertext
+  detected_mime_type?: string; // sniffed from the content when uploaded
+  scan_status?: ScanStatus; // the blob's; unset if stored unscanned
+  file_metadata?: string; // JSON extracted from the content when uploaded
+}
+
+// Malware scan of stored content. Anything but clean is held in quarantine.
+export type ScanStatus = "pending" | "clean" | "infected" | "error";
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: string;
+  message: string;
+  file_id?: string;
+  details?: string; // JSON
+  created_at: string;
+  read_at?: string;
+}
+
+export interface Folder {
+  id: string;
+  user_id: string;
+  parent_id?: string; // unset for top-level folders
+  name: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface FileTag {
+  file_id: string;
+  tag: string; // normalized: trimmed, lower case
+  created_at: string;
+}
+
+// What the search index holds for a file
+export interface FileSearchDocument {
+  name: string;
+  description: string;
+  tags: string;
+  body: string; // extracted text of text uploads, empty otherwise
+}
+
+export interface FileSearchFilters {
+  match?: string; // FTS5 match expression; unset lists by date instead
+  mimeTypes?: string[]; // exact types, or "image/*" style prefixes
+  minSize?: number;
+  maxSize?: number;
+  createdAfter?: string;
+  createdBefore?: string;
+  isPublic?: boolean;
+  expiry?: "none" | "active" | "expired";
+  tags?: string[]; // files must have every tag
+  metadata?: FileMetadataRange[];
+  orientation?: "landscape" | "portrait" | "square"; // images only
+}
+
+// Numeric fields of file_metadata that listings can be filtered by
+export type FileMetadataField =
+  | "width"
+  | "height"
+  | "rows"
+  | "columns"
+  | "wordCount";
+
+export interface FileMetadataRange {
+  field: FileMetadataField;
+  min?: number;
+  max?: number;
+}
+
+export interface FileSearchRow extends File {
+  name_highlight?: string;
+  snippet?: string;
+  rank?: number;
+}
+
+// A named set of users that files and folders can be shared with
+export interface UserGroup {
+  id: string;
+  owner_id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface GroupMember {
+  group_id: string;
+  user_id: string;
+  username: string;
+  email: string;
+  created_at: string;
+}
+
+export type SharePermission = "view" | "download" | "manage";
+
+// A grant on exactly one file or folder, to exactly one user or group
+export interface Share {
+  id: string;
+  file_id?: string;
+  folder_id?: string;
+  user_id?: string;
+  group_id?: string;
+  permission: SharePermission;
+  created_by?: string;
+  expires_at?: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+// A share with the names of what is shared and who it is shared with
+export interface ShareDetails extends Share {
+  file_name?: string;
+  folder_name?: string;
+  owner_id: string;
+  username?: string;
+  group_name?: string;
+}
+
+export type ShareLinkAction = "download" | "view" | "info";
+
+// One of possibly many public links to a file, each with its own limits
+export interface ShareLink {
+  id: string;
+  file_id: string;
+  token: string;
+  label?: string;
+  expires_at?: string;
+  max_downloads?: number; // unset for unlimited
+  download_count: number;
+  allowed_actions: string; // comma-separated ShareLinkAction values
+  ip_allowlist?: string; // comma-separated addresses and CIDR ranges
+  created_by?: string;
+  created_at: string;
+  updated_at?: string;
+  last_accessed_at?: string;
+  revoked_at?: string;
+}
+
+// Changes to sharing and groups; unlike file access logs these outlive the
+// files and folders they describe
+export interface AuditLog {
+  id: string;
+  user_id?: string; // who made the change
+  owner_id?: string; // whose file, folder or group was changed
+  action: string;
+  target_type: "file" | "folder" | "group";
+  target_id: string;
+  details?: string; // JSON
+  ip_address?: string;
+  user_agent?: string;
+  created_at: string;
 }
 
 export interface Session {
@@ -55,6 +267,113 @@ export interface Session {
   user_agent?: string;
 }
 
+// A previous version of a file; the current version lives on the file row
+export interface FileVersion extends ContentEncryption {
+  id: string;
+  file_id: string;
+  version_number: number;
+  filename: string;
+  original_name: string;
+  mime_type: string;
+  size: number;
+  upload_path: string;
+  storage_backend: StorageBackend;
+  content_hash?: string;
+  blob_hash?: string;
+  client_encrypted?: boolean;
+  detected_mime_type?: string;
+  scan_status?: ScanStatus;
+  file_metadata?: string; // JSON
+  created_at: string; // when this version was originally uploaded
+}
+
+// The columns that change when a file gets a new current version
+export type FileContent = Pick<
+  File,
+  | "filename"
+  | "original_name"
+  | "mime_type"
+  | "size"
+  | "upload_path"
+  | "storage_backend"
+  | "content_hash"
+  | "blob_hash"
+  | "encryption_key"
+  | "encryption_nonce"
+  | "client_encrypted"
+  | "detected_mime_type"
+  | "scan_status"
+  | "file_metadata"
+>;
+
+// Content-addressed object shared by every file with the same bytes
+export interface StoredBlob extends ContentEncryption {
+  hash: string;
+  storage_backend: StorageBackend;
+  storage_key: string;
+  size: number;
+  ref_count: number;
+  created_at: string;
+  claimed_at?: string; // when an upload last took it for a file to come
+  scan_status?: ScanStatus; // unset when stored with scanning off
+  scan_signature?: string; // what the scanner found in infected content
+  scanned_at?: string;
+}
+
+export interface UploadSession {
+  id: string;
+  user_id: string;
+  upload_length: number;
+  upload_offset: number;
+  metadata: string; // JSON of the decoded Upload-Metadata pairs
+  temp_path: string;
+  file_id?: string; // set once the upload has been turned into a file
+  expires_at: string;
+  created_at: string;
+}
+
+// Uses of a signed URL, keyed by the jti claim of its token
+export interface SignedUrlToken {
+  jti: string;
+  file_id?: string; // unset for archive URLs
+  user_id?: string; // who signed an archive URL
+  action?: string;
+  max_uses?: number; // unset for unlimited
+  use_count: number;
+  expires_at: string;
+  created_at: string;
+  last_used_at?: string;
+  revoked_at?: string;
+}
+
+// A signed URL as issued: its generation log entry and its use record
+export interface IssuedSignedUrl extends SignedUrlToken {
+  file_name?: string; // unset for archive URLs
+  issued_at: string;
+  issued_by?: string;
+  issued_by_username?: string;
+}
+
+// Keys for signing session tokens and signed URLs, found by the kid header
+// of the tokens they sign. The newest unretired key of a purpose signs; the
+// rest only verify until verify_until.
+export type SigningKeyPurpose = "session" | "signed_url";
+
+// HMAC keys sign sessions and signed URLs. Signed URLs can also be signed
+// with asymmetric keys, whose public half is published for other servers.
+export type SigningKeyAlgorithm = "HS256" | "EdDSA" | "ES256";
+
+export interface SigningKey {
+  kid: string;
+  purpose: SigningKeyPurpose;
+  algorithm: SigningKeyAlgorithm;
+  secret?: string; // unset for the key taken from the environment
+  public_key?: string; // JWK of asymmetric keys
+  created_at: string;
+  retired_at?: string;
+  verify_until?: string;
+}
+
 export interface FileAccessLog {
   id: string;
   file_id: string;
@@ -64,288 +383,2251 @@ export interface FileAccessLog {
   action: string;
   success: boolean;
   error_message?: string;
+  share_link_id?: string; // the share link the request came through
+  token_id?: string; // jti of the signed URL the entry is about
+  details?: string; // JSON, e.g. the metadata stripped from an upload
   created_at: string;
 }
 
 class Database {
   private db: PromisifiedDatabase;
-  private initialized = false;
+  private initialization: Promise<void> | null = null;
+
+  constructor() {
+    const sqliteDb = new sqlite3.Database(DB_PATH);
+    this.db = {
+      run: promisify(sqliteDb.run.bind(sqliteDb)),
+      get: promisify(sqliteDb.get.bind(sqliteDb)),
+      all: promisify(sqliteDb.all.bind(sqliteDb)),
+      close: () => sqliteDb.close(),
+    };
+  }
+
+  // Requests arriving before the first migration finishes wait on the same
+  // one, rather than racing it; a failed attempt is retried by the next call
+  initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.migrate().catch((error) => {
+        this.initialization = null;
+        throw error;
+      });
+    }
+    return this.initialization;
+  }
+
+  private async migrate(): Promise<void> {
+    try {
+      // Enable foreign keys
+      await this.db.run("PRAGMA foreign_keys = ON");
+
+      // Create users table
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          username TEXT UNIQUE NOT NULL,
+          email TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_login DATETIME
+        )
+      `);
+
+      // Create files table
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS files (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          filename TEXT NOT NULL,
+          original_name TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          upload_path TEXT NOT NULL,
+          access_token TEXT UNIQUE NOT NULL,
+          expires_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          download_count INTEGER DEFAULT 0,
+          is_public BOOLEAN DEFAULT 0,
+          description TEXT,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        )
+      `);
+
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS file_access_logs (
+          id TEXT PRIMARY KEY,
+          file_id TEXT NOT NULL,
+          user_id TEXT,
+          ip_address TEXT,
+          user_agent TEXT,
+          action TEXT NOT NULL,
+          success BOOLEAN NOT NULL,
+          error_message TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE SET NULL
+        )
+      `);
+
+      // Create sessions table
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          token TEXT UNIQUE NOT NULL,
+          expires_at DATETIME NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          ip_address TEXT,
+          user_agent TEXT,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        )
+      `);
+
+      // Create blobs table (deduplicated file contents)
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS blobs (
+          hash TEXT PRIMARY KEY,
+          storage_backend TEXT NOT NULL,
+          storage_key TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          ref_count INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create file versions table (history of replaced file contents)
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS file_versions (
+          id TEXT PRIMARY KEY,
+          file_id TEXT NOT NULL,
+          version_number INTEGER NOT NULL,
+          filename TEXT NOT NULL,
+          original_name TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          upload_path TEXT NOT NULL,
+          storage_backend TEXT NOT NULL,
+          content_hash TEXT,
+          blob_hash TEXT,
+          created_at TEXT NOT NULL,
+          UNIQUE (file_id, version_number),
+          FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE CASCADE
+        )
+      `);
+
+      // Create upload sessions table (resumable uploads in progress)
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS upload_sessions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          upload_length INTEGER NOT NULL,
+          upload_offset INTEGER NOT NULL DEFAULT 0,
+          metadata TEXT NOT NULL,
+          temp_path TEXT NOT NULL,
+          file_id TEXT,
+          expires_at TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+          FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE SET NULL
+        )
+      `);
+
+      // Create folders table (nested by parent id)
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS folders (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          parent_id TEXT,
+          name TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+          FOREIGN KEY (parent_id) REFERENCES folders (id) ON DELETE CASCADE
+        )
+      `);
+
+      // Create file tags table
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS file_tags (
+          file_id TEXT NOT NULL,
+          tag TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (file_id, tag),
+          FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE CASCADE
+        )
+      `);
+
+      // Create full-text search index over file names, descriptions, tags
+      // and text contents. Rows are written by the application, since the
+      // contents come from storage.
+      await this.db.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS files_fts USING fts5(
+          file_id UNINDEXED,
+          name,
+          description,
+          tags,
+          body,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        )
+      `);
+
+      // Create user groups and their members
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS user_groups (
+          id TEXT PRIMARY KEY,
+          owner_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (owner_id) REFERENCES users (id) ON DELETE CASCADE
+        )
+      `);
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS group_members (
+          group_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (group_id, user_id),
+          FOREIGN KEY (group_id) REFERENCES user_groups (id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        )
+      `);
+
+      // Create shares table (access granted on a file or folder to a user
+      // or group)
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS shares (
+          id TEXT PRIMARY KEY,
+          file_id TEXT,
+          folder_id TEXT,
+          user_id TEXT,
+          group_id TEXT,
+          permission TEXT NOT NULL
+            CHECK (permission IN ('view', 'download', 'manage')),
+          created_by TEXT,
+          expires_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT,
+          CHECK ((file_id IS NULL) <> (folder_id IS NULL)),
+          CHECK ((user_id IS NULL) <> (group_id IS NULL)),
+          FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE CASCADE,
+          FOREIGN KEY (folder_id) REFERENCES folders (id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+          FOREIGN KEY (group_id) REFERENCES user_groups (id) ON DELETE CASCADE,
+          FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL
+        )
+      `);
+
+      // Create share links table (public links with their own limits)
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS share_links (
+          id TEXT PRIMARY KEY,
+          file_id TEXT NOT NULL,
+          token TEXT UNIQUE NOT NULL,
+          label TEXT,
+          expires_at TEXT,
+          max_downloads INTEGER,
+          download_count INTEGER NOT NULL DEFAULT 0,
+          allowed_actions TEXT NOT NULL,
+          ip_allowlist TEXT,
+          created_by TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT,
+          last_accessed_at TEXT,
+          revoked_at TEXT,
+          FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE CASCADE,
+          FOREIGN KEY (created_by) REFERENCES users (id) ON DELETE SET NULL
+        )
+      `);
+
+      // Create signed URL tokens table (use counts and revocations)
+      await this.db.run(
+        `CREATE TABLE IF NOT EXISTS signed_url_tokens (${SIGNED_URL_TOKEN_COLUMNS})`,
+      );
+
+      // Create signing keys table (see scripts/signing-keys.js)
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS signing_keys (
+          kid TEXT NOT NULL,
+          purpose TEXT NOT NULL CHECK (purpose IN ('session', 'signed_url')),
+          secret TEXT,
+          created_at TEXT NOT NULL,
+          retired_at TEXT,
+          verify_until TEXT,
+          PRIMARY KEY (purpose, kid)
+        )
+      `);
+
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS audit_logs (
+          id TEXT PRIMARY KEY,
+          user_id TEXT,
+          owner_id TEXT,
+          action TEXT NOT NULL,
+          target_type TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          details TEXT,
+          ip_address TEXT,
+          user_agent TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS notifications (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          message TEXT NOT NULL,
+          file_id TEXT,
+          details TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          read_at TEXT,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        )
+      `);
+
+      // Create plans tables (see scripts/plans.js). Users without a plan
+      // are on the default one.
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS plans (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          max_file_size INTEGER,
+          storage_quota INTEGER,
+          max_file_count INTEGER,
+          allowed_mime_types TEXT,
+          max_expiry_hours INTEGER,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await this.db.run(
+        "INSERT OR IGNORE INTO plans (id, name) VALUES ('default', 'Default')",
+      );
+
+      await this.db.run(`
+        CREATE TABLE IF NOT EXISTS user_policy_overrides (
+          user_id TEXT PRIMARY KEY,
+          max_file_size INTEGER,
+          storage_quota INTEGER,
+          max_file_count INTEGER,
+          allowed_mime_types TEXT,
+          max_expiry_hours INTEGER,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        )
+      `);
+
+      // Columns added after the initial schema
+      await this.addColumnIfMissing(
+        "users",
+        "plan_id",
+        "TEXT REFERENCES plans (id) ON DELETE SET NULL",
+      );
+      await this.addColumnIfMissing(
+        "files",
+        "storage_backend",
+        "TEXT NOT NULL DEFAULT 'local'",
+      );
+      await this.addColumnIfMissing("files", "content_hash", "TEXT");
+      await this.addColumnIfMissing("files", "blob_hash", "TEXT");
+      await this.addColumnIfMissing(
+        "files",
+        "version",
+        "INTEGER NOT NULL DEFAULT 1",
+      );
+      await this.addColumnIfMissing("files", "updated_at", "TEXT");
+      await this.addColumnIfMissing(
+        "files",
+        "folder_id",
+        "TEXT REFERENCES folders (id) ON DELETE SET NULL",
+      );
+      await this.addColumnIfMissing("files", "link_password_hash", "TEXT");
+      await this.addColumnIfMissing("files", "max_downloads", "INTEGER");
+      await this.addColumnIfMissing("files", "content_deleted_at", "TEXT");
+      await this.addColumnIfMissing(
+        "file_access_logs",
+        "share_link_id",
+        "TEXT REFERENCES share_links (id) ON DELETE SET NULL",
+      );
+      await this.addColumnIfMissing("file_access_logs", "token_id", "TEXT");
+      await this.addColumnIfMissing("file_access_logs", "details", "TEXT");
+      await this.addColumnIfMissing(
+        "signing_keys",
+        "algorithm",
+        "TEXT NOT NULL DEFAULT 'HS256'",
+      );
+      await this.addColumnIfMissing("signing_keys", "public_key", "TEXT");
+      // One active key per purpose and algorithm, so keys made on first use
+      // can't be made twice. Extra active keys, from before the index, are
+      // retired but still verify.
+      await this.db.run(
+        `UPDATE signing_keys SET retired_at = ?
+         WHERE retired_at IS NULL AND rowid NOT IN (
+           SELECT MAX(rowid) FROM signing_keys
+           WHERE retired_at IS NULL
+           GROUP BY purpose, algorithm
+         )`,
+        [new Date().toISOString()],
+      );
+      await this.db.run(
+        `CREATE UNIQUE INDEX IF NOT EXISTS idx_signing_keys_active
+         ON signing_keys(purpose, algorithm) WHERE retired_at IS NULL`,
+      );
+      await this.addColumnIfMissing("blobs", "scan_status", "TEXT");
+      await this.addColumnIfMissing("blobs", "scan_signature", "TEXT");
+      await this.addColumnIfMissing("blobs", "scanned_at", "TEXT");
+      await this.addColumnIfMissing("blobs", "claimed_at", "TEXT");
+      await this.rebuildSignedUrlTokensForArchives();
+      for (const table of ["files", "file_versions", "blobs"]) {
+        await this.addColumnIfMissing(table, "encryption_key", "TEXT");
+        await this.addColumnIfMissing(table, "encryption_nonce", "TEXT");
+      }
+      for (const table of ["files", "file_versions"]) {
+        await this.addColumnIfMissing(
+          table,
+          "client_encrypted",
+          "BOOLEAN DEFAULT 0",
+        );
+        await this.addColumnIfMissing(table, "detected_mime_type", "TEXT");
+        await this.addColumnIfMissing(table, "scan_status", "TEXT");
+        await this.addColumnIfMissing(table, "file_metadata", "TEXT");
+      }
+
+      // Keep blob reference counts in step with the files pointing at them,
+      // however the file rows are created, changed or deleted
+      await this.db.run(`
+        CREATE TRIGGER IF NOT EXISTS trg_files_blob_insert
+        AFTER INSERT ON files WHEN NEW.blob_hash IS NOT NULL
+        BEGIN
+          UPDATE blobs SET ref_count = ref_count + 1 WHERE hash = NEW.blob_hash;
+        END
+      `);
+      await this.db.run(`
+        CREATE TRIGGER IF NOT EXISTS trg_files_blob_delete
+        AFTER DELETE ON files WHEN OLD.blob_hash IS NOT NULL
+        BEGIN
+          UPDATE blobs SET ref_count = ref_count - 1 WHERE hash = OLD.blob_hash;
+        END
+      `);
+      await this.db.run(`
+        CREATE TRIGGER IF NOT EXISTS trg_files_blob_update
+        AFTER UPDATE OF blob_hash ON files
+        WHEN OLD.blob_hash IS NOT NEW.blob_hash
+        BEGIN
+          UPDATE blobs SET ref_count = ref_count - 1 WHERE hash = OLD.blob_hash;
+          UPDATE blobs SET ref_count = ref_count + 1 WHERE hash = NEW.blob_hash;
+        END
+      `);
+      await this.db.run(`
+        CREATE TRIGGER IF NOT EXISTS trg_file_versions_blob_insert
+        AFTER INSERT ON file_versions WHEN NEW.blob_hash IS NOT NULL
+        BEGIN
+          UPDATE blobs SET ref_count = ref_count + 1 WHERE hash = NEW.blob_hash;
+        END
+      `);
+      await this.db.run(`
+        CREATE TRIGGER IF NOT EXISTS trg_file_versions_blob_delete
+        AFTER DELETE ON file_versions WHEN OLD.blob_hash IS NOT NULL
+        BEGIN
+          UPDATE blobs SET ref_count = ref_count - 1 WHERE hash = OLD.blob_hash;
+        END
+      `);
+
+      await this.db.run(`
+        CREATE TRIGGER IF NOT EXISTS trg_files_fts_delete
+        AFTER DELETE ON files
+        BEGIN
+          DELETE FROM files_fts WHERE file_id = OLD.id;
+        END
+      `);
+
+      // Create indexes for better performance
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_files_user_id ON files(user_id)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_files_access_token ON files(access_token)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_files_expires_at ON files(expires_at)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_files_blob_hash ON files(blob_hash)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_file_versions_file_id ON file_versions(file_id)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at ON upload_sessions(expires_at)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_files_folder_id ON files(folder_id)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_file_tags_tag ON file_tags(tag)",
+      );
+      // One share per resource and grantee; sharing again updates it
+      await this.db.run(
+        `CREATE UNIQUE INDEX IF NOT EXISTS idx_shares_resource_grantee
+         ON shares(COALESCE(file_id, ''), COALESCE(folder_id, ''),
+                   COALESCE(user_id, ''), COALESCE(group_id, ''))`,
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_shares_user_id ON shares(user_id)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_shares_group_id ON shares(group_id)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_group_members_user_id ON group_members(user_id)",
+      );
+      await this.db.run(
+        "CREATE UNIQUE INDEX IF NOT EXISTS idx_user_groups_owner_name ON user_groups(owner_id, name COLLATE NOCASE)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_share_links_file_id ON share_links(file_id)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_file_access_logs_token_id ON file_access_logs(token_id)",
+      );
+      await this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_audit_logs_owner_id ON audit_logs(owner_id, created_at)",
+      );
+      // Folder names are unique among their siblings, ignoring case
+      await this.db.run(
+        `CREATE UNIQUE INDEX IF NOT EXISTS idx_folders_parent_name
+         ON folders(user_id, COALESCE(parent_id, ''), name COLLATE NOCASE)`,
+      );
+
+      console.log("Database initialized successfully");
+    } catch (error) {
+      console.error("Failed to initialize database:", error);
+      throw error;
+    }
+  }
+
+  // Tables from before archive URLs were recorded require a file_id, which
+  // SQLite can't relax in place, so they are copied into a new table
+  private async rebuildSignedUrlTokensForArchives(): Promise<void> {
+    const columns = await this.db.all("PRAGMA table_info(signed_url_tokens)");
+    if (columns.some((c: any) => c.name === "user_id")) {
+      return;
+    }
+    await this.db.run("DROP TABLE IF EXISTS signed_url_tokens_rebuild");
+    await this.db.run(
+      `CREATE TABLE signed_url_tokens_rebuild (${SIGNED_URL_TOKEN_COLUMNS})`,
+    );
+    await this.db.run(
+      `INSERT INTO signed_url_tokens_rebuild (jti, file_id, action, max_uses,
+         use_count, expires_at, created_at, last_used_at, revoked_at)
+       SELECT jti, file_id, action, max_uses, use_count, expires_at,
+         created_at, last_used_at, revoked_at
+       FROM signed_url_tokens`,
+    );
+    await this.db.run("DROP TABLE signed_url_tokens");
+    await this.db.run(
+      "ALTER TABLE signed_url_tokens_rebuild RENAME TO signed_url_tokens",
+    );
+  }
+
+  private async addColumnIfMissing(
+    table: string,
+    column: string,
+    definition: string,
+  ): Promise<void> {
+    const columns = await this.db.all(`PRAGMA table_info(${table})`);
+    if (columns.some((c: any) => c.name === column)) {
+      return;
+    }
+    try {
+      await this.db.run(
+        `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`,
+      );
+    } catch (error: any) {
+      // Another process sharing the database file may have added it since
+      if (!String(error?.message).includes("duplicate column name")) {
+        throw error;
+      }
+    }
+  }
+
+  // User methods
+  async createUser(
+    user: Omit<User, "created_at" | "last_login">,
+  ): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "INSERT INTO users (id, username, email, password_hash) VALUES (?, ?, ?, ?)",
+      [user.id, user.username, user.email, user.password_hash],
+    );
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    await this.initialize();
+    const user = await this.db.get("SELECT * FROM users WHERE id = ?", [id]);
+    return user || null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    await this.initialize();
+    const user = await this.db.get("SELECT * FROM users WHERE email = ?", [
+      email,
+    ]);
+    return user || null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    await this.initialize();
+    const user = await this.db.get("SELECT * FROM users WHERE username = ?", [
+      username,
+    ]);
+    return user || null;
+  }
+
+  async updateUserLastLogin(id: string): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ?",
+      [id],
+    );
+  }
+
+  // File methods
+
+  // Returns false, storing nothing, when the file would take its owner over
+  // `quota`. Usage is read in the same statement as the insert, so
+  // concurrent uploads can't all fit under the same remaining space.
+  async createFile(
+    file: Omit<
+      File,
+      "created_at" | "download_count" | "version" | "content_deleted_at"
+    >,
+    quota: QuotaLimits = { storageQuota: null, maxFileCount: null },
+  ): Promise<boolean> {
+    await this.initialize();
+    const result = await this.db.get(
+      `INSERT INTO files (id, user_id, filename, original_name, mime_type, size,
+       upload_path, storage_backend, content_hash, blob_hash, encryption_key, encryption_nonce, client_encrypted, detected_mime_type, scan_status, file_metadata, access_token, expires_at, is_public, description, folder_id, max_downloads)
+       SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+       WHERE (? IS NULL OR (SELECT COUNT(*) FROM files WHERE user_id = ?) < ?)
+         AND (? IS NULL OR ${STORAGE_USED_SQL} + ? <= ?)
+       RETURNING id`,
+      [
+        file.id,
+        file.user_id,
+        file.filename,
+        file.original_name,
+        file.mime_type,
+        file.size,
+        file.upload_path,
+        file.storage_backend,
+        file.content_hash,
+        file.blob_hash,
+        file.encryption_key,
+        file.encryption_nonce,
+        file.client_encrypted ?? false,
+        file.detected_mime_type,
+        file.scan_status,
+        file.file_metadata,
+        file.access_token,
+        file.expires_at,
+        file.is_public,
+        file.description,
+        file.folder_id,
+        file.max_downloads,
+        quota.maxFileCount,
+        file.user_id,
+        quota.maxFileCount,
+        quota.storageQuota,
+        file.user_id,
+        file.user_id,
+        file.size,
+        quota.storageQuota,
+      ],
+    );
+    return !!result;
+  }
+
+  async getFileById(id: string): Promise<File | null> {
+    await this.initialize();
+    const file = await this.db.get("SELECT * FROM files WHERE id = ?", [id]);
+    return file || null;
+  }
+
+  async getFileByAccessToken(token: string): Promise<File | null> {
+    await this.initialize();
+    const file = await this.db.get(
+      "SELECT * FROM files WHERE access_token = ?",
+      [token],
+    );
+    return file || null;
+  }
+
+  async getFilesByUserId(
+    userId: string,
+    limit = 50,
+    offset = 0,
+  ): Promise<File[]> {
+    await this.initialize();
+    const files = await this.db.all(
+      "SELECT * FROM files WHERE user_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?",
+      [userId, limit, offset],
+    );
+    return files || [];
+  }
+
+  // Files directly inside a folder, or at the top level when folderId is null
+  async getFilesInFolder(
+    userId: string,
+    folderId: string | null,
+    limit = 50,
+    offset = 0,
+  ): Promise<File[]> {
+    await this.initialize();
+    const files = await this.db.all(
+      `SELECT * FROM files WHERE user_id = ? AND folder_id IS ?
+       ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      [userId, folderId, limit, offset],
+    );
+    return files || [];
+  }
+
+  async moveFilesToFolder(
+    userId: string,
+    fileIds: string[],
+    folderId: string | null,
+  ): Promise<void> {
+    await this.initialize();
+    if (fileIds.length === 0) return;
+    const placeholders = fileIds.map(() => "?").join(", ");
+    await this.db.run(
+      `UPDATE files SET folder_id = ?
+       WHERE user_id = ? AND id IN (${placeholders})`,
+      [folderId, userId, ...fileIds],
+    );
+  }
+
+  async incrementDownloadCount(id: string): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "UPDATE files SET download_count = download_count + 1 WHERE id = ?",
+      [id],
+    );
+  }
+
+  async updateFileContentHash(id: string, contentHash: string): Promise<void> {
+    await this.initialize();
+    await this.db.run("UPDATE files SET content_hash = ? WHERE id = ?", [
+      contentHash,
+      id,
+    ]);
+  }
+
+  async updateFileAccessToken(id: string, newToken: string): Promise<void> {
+    await this.initialize();
+    await this.db.run("UPDATE files SET access_token = ? WHERE id = ?", [
+      newToken,
+      id,
+    ]);
+  }
+
+  // Point a file at new content and bump its version number. Returns false,
+  // changing nothing, when the new content would take the owner over their
+  // storage quota; the content it replaces stops counting, so it should
+  // already be stored as a version.
+  async updateFileContent(
+    id: string,
+    content: FileContent,
+    version: number,
+    quota: { userId: string; storageQuota: number | null } = {
+      userId: "",
+      storageQuota: null,
+    },
+  ): Promise<boolean> {
+    await this.initialize();
+    const result = await this.db.get(
+      `UPDATE files SET filename = ?, original_name = ?, mime_type = ?, size = ?, upload_path = ?,
+       storage_backend = ?, content_hash = ?, blob_hash = ?, encryption_key = ?, encryption_nonce = ?,
+       client_encrypted = ?, detected_mime_type = ?, scan_status = ?, file_metadata = ?,
+       version = ?, updated_at = ?
+       WHERE id = ?
+         AND (? IS NULL OR ${STORAGE_USED_SQL} - size + ? <= ?)
+       RETURNING id`,
+      [
+        content.filename,
+        content.original_name,
+        content.mime_type,
+        content.size,
+        content.upload_path,
+        content.storage_backend,
+        content.content_hash,
+        content.blob_hash,
+        content.encryption_key,
+        content.encryption_nonce,
+        content.client_encrypted ?? false,
+        content.detected_mime_type,
+        content.scan_status,
+        content.file_metadata,
+        version,
+        new Date().toISOString(),
+        id,
+        quota.storageQuota,
+        quota.userId,
+        quota.userId,
+        content.size,
+        quota.storageQuota,
+      ],
+    );
+    return !!result;
+  }
+
+  async deleteFile(id: string): Promise<void> {
+    await this.initialize();
+    await this.db.run("DELETE FROM files WHERE id = ?", [id]);
+  }
+
+  // Count a download against the file's limit in a single statement, so
+  // concurrent requests can't go over it. Returns the updated count, or null
+  // when the limit is already used up.
+  async claimFileDownload(
+    id: string,
+  ): Promise<Pick<File, "download_count" | "max_downloads"> | null> {
+    await this.initialize();
+    const result = await this.db.get(
+      `UPDATE files SET download_count = download_count + 1
+       WHERE id = ?
+         AND (max_downloads IS NULL OR download_count < max_downloads)
+       RETURNING download_count, max_downloads`,
+      [id],
+    );
+    return result || null;
+  }
+
+  // Files whose download limit is used up but whose bytes are still stored
+  async getUsedUpFiles(limit = 1000): Promise<File[]> {
+    await this.initialize();
+    const files = await this.db.all(
+      `SELECT * FROM files
+       WHERE max_downloads IS NOT NULL AND download_count >= max_downloads
+         AND content_deleted_at IS NULL
+       LIMIT ?`,
+      [limit],
+    );
+    return files || [];
+  }
+
+  // Detach a used-up file from its bytes and drop its previous versions. The
+  // record itself stays so the file can be reported as used up.
+  async markFileContentDeleted(id: string): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `UPDATE files SET blob_hash = NULL, encryption_key = NULL,
+         encryption_nonce = NULL, content_deleted_at = ?
+       WHERE id = ?`,
+      [new Date().toISOString(), id],
+    );
+    await this.db.run("DELETE FROM file_versions WHERE file_id = ?", [id]);
+  }
+
+  async getExpiredFiles(limit = 1000): Promise<File[]> {
+    await this.initialize();
+    const files = await this.db.all(
+      "SELECT * FROM files WHERE expires_at IS NOT NULL AND expires_at < ? LIMIT ?",
+      [new Date().toISOString(), limit],
+    );
+    return files || [];
+  }
+
+  async deleteExpiredFiles(): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "DELETE FROM files WHERE expires_at IS NOT NULL AND expires_at < CURRENT_TIMESTAMP",
+    );
+  }
+
+  // Session methods
+  async createSession(session: Omit<Session, "created_at">): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "INSERT INTO sessions (id, user_id, token, expires_at, ip_address, user_agent) VALUES (?, ?, ?, ?, ?, ?)",
+      [
+        session.id,
+        session.user_id,
+        session.token,
+        session.expires_at,
+        session.ip_address,
+        session.user_agent,
+      ],
+    );
+  }
+
+  async getSessionByToken(token: string): Promise<Session | null> {
+    await this.initialize();
+    const session = await this.db.get(
+      "SELECT * FROM sessions WHERE token = ? AND expires_at > CURRENT_TIMESTAMP",
+      [token],
+    );
+    return session || null;
+  }
+
+  async deleteSession(token: string): Promise<void> {
+    await this.initialize();
+    await this.db.run("DELETE FROM sessions WHERE token = ?", [token]);
+  }
+
+  async deleteExpiredSessions(): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "DELETE FROM sessions WHERE expires_at < CURRENT_TIMESTAMP",
+    );
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    await this.initialize();
+    await this.db.run("DELETE FROM sessions WHERE user_id = ?", [userId]);
+  }
+
+  // File version methods
+  async createFileVersion(version: FileVersion): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT INTO file_versions (id, file_id, version_number, filename, original_name, mime_type, size,
+       upload_path, storage_backend, content_hash, blob_hash, encryption_key, encryption_nonce, client_encrypted, detected_mime_type, scan_status, file_metadata, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        version.id,
+        version.file_id,
+        version.version_number,
+        version.filename,
+        version.original_name,
+        version.mime_type,
+        version.size,
+        version.upload_path,
+        version.storage_backend,
+        version.content_hash,
+        version.blob_hash,
+        version.encryption_key,
+        version.encryption_nonce,
+        version.client_encrypted ?? false,
+        version.detected_mime_type,
+        version.scan_status,
+        version.file_metadata,
+        version.created_at,
+      ],
+    );
+  }
+
+  async getFileVersions(fileId: string): Promise<FileVersion[]> {
+    await this.initialize();
+    const versions = await this.db.all(
+      "SELECT * FROM file_versions WHERE file_id = ? ORDER BY version_number DESC",
+      [fileId],
+    );
+    return versions || [];
+  }
+
+  async getFileVersion(
+    fileId: string,
+    versionNumber: number,
+  ): Promise<FileVersion | null> {
+    await this.initialize();
+    const version = await this.db.get(
+      "SELECT * FROM file_versions WHERE file_id = ? AND version_number = ?",
+      [fileId, versionNumber],
+    );
+    return version || null;
+  }
+
+  async deleteFileVersion(id: string): Promise<void> {
+    await this.initialize();
+    await this.db.run("DELETE FROM file_versions WHERE id = ?", [id]);
+  }
+
+  // Pass null to remove the password
+  async updateFileLinkPassword(
+    id: string,
+    passwordHash: string | null,
+  ): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "UPDATE files SET link_password_hash = ? WHERE id = ?",
+      [passwordHash, id],
+    );
+  }
+
+  // Folder methods
+  async createFolder(
+    folder: Omit<Folder, "created_at" | "updated_at">,
+  ): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "INSERT INTO folders (id, user_id, parent_id, name) VALUES (?, ?, ?, ?)",
+      [folder.id, folder.user_id, folder.parent_id, folder.name],
+    );
+  }
+
+  async getFolderById(id: string): Promise<Folder | null> {
+    await this.initialize();
+    const folder = await this.db.get("SELECT * FROM folders WHERE id = ?", [
+      id,
+    ]);
+    return folder || null;
+  }
+
+  async getFoldersByUserId(userId: string): Promise<Folder[]> {
+    await this.initialize();
+    const folders = await this.db.all(
+      "SELECT * FROM folders WHERE user_id = ? ORDER BY name COLLATE NOCASE",
+      [userId],
+    );
+    return folders || [];
+  }
+
+  // Subfolders of a folder, or the top-level folders when parentId is null
+  async getChildFolders(
+    userId: string,
+    parentId: string | null,
+  ): Promise<Folder[]> {
+    await this.initialize();
+    const folders = await this.db.all(
+      `SELECT * FROM folders WHERE user_id = ? AND parent_id IS ?
+       ORDER BY name COLLATE NOCASE`,
+      [userId, parentId],
+    );
+    return folders || [];
+  }
+
+  async getFolderByName(
+    userId: string,
+    parentId: string | null,
+    name: string,
+  ): Promise<Folder | null> {
+    await this.initialize();
+    const folder = await this.db.get(
+      `SELECT * FROM folders
+       WHERE user_id = ? AND parent_id IS ? AND name = ? COLLATE NOCASE`,
+      [userId, parentId, name],
+    );
+    return folder || null;
+  }
+
+  // A folder and all of its ancestors, starting from the top level
+  async getFolderPath(id: string): Promise<Folder[]> {
+    await this.initialize();
+    const folders = await this.db.all(
+      `WITH RECURSIVE ancestors(id, depth) AS (
+         SELECT ?, 0
+         UNION ALL
+         SELECT f.parent_id, a.depth + 1 FROM folders f
+         INNER JOIN ancestors a ON f.id = a.id
+         WHERE f.parent_id IS NOT NULL
+       )
+       SELECT f.* FROM folders f INNER JOIN ancestors a ON f.id = a.id
+       ORDER BY a.depth DESC`,
+      [id],
+    );
+    return folders || [];
+  }
+
+  // A folder and everything nested below it
+  async getFolderSubtree(id: string): Promise<Folder[]> {
+    await this.initialize();
+    const folders = await this.db.all(
+      `WITH RECURSIVE subtree(id) AS (
+         SELECT ?
+         UNION ALL
+         SELECT f.id FROM folders f INNER JOIN subtree s ON f.parent_id = s.id
+       )
+       SELECT f.* FROM folders f INNER JOIN subtree s ON f.id = s.id`,
+      [id],
+    );
+    return folders || [];
+  }
+
+  async getFilesInFolderTree(id: string): Promise<File[]> {
+    await this.initialize();
+    const files = await this.db.all(
+      `WITH RECURSIVE subtree(id) AS (
+         SELECT ?
+         UNION ALL
+         SELECT f.id FROM folders f INNER JOIN subtree s ON f.parent_id = s.id
+       )
+       SELECT files.* FROM files INNER JOIN subtree s ON files.folder_id = s.id
+       ORDER BY files.original_name COLLATE NOCASE`,
+      [id],
+    );
+    return files || [];
+  }
+
+  async getFolderFileCounts(userId: string): Promise<Map<string, number>> {
+    await this.initialize();
+    const rows = await this.db.all(
+      `SELECT folder_id, COUNT(*) as count FROM files
+       WHERE user_id = ? AND folder_id IS NOT NULL GROUP BY folder_id`,
+      [userId],
+    );
+    return new Map(rows.map((row: any) => [row.folder_id, row.count]));
+  }
+
+  async updateFolder(
+    id: string,
+    name: string,
+    parentId: string | null,
+  ): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "UPDATE folders SET name = ?, parent_id = ?, updated_at = ? WHERE id = ?",
+      [name, parentId, new Date().toISOString(), id],
+    );
+  }
+
+  // Subfolders go with it; files left inside fall back to the top level
+  async deleteFolder(id: string): Promise<void> {
+    await this.initialize();
+    await this.db.run("DELETE FROM folders WHERE id = ?", [id]);
+  }
+
+  // Tag methods
+  async getFileTags(fileId: string): Promise<string[]> {
+    await this.initialize();
+    const rows = await this.db.all(
+      "SELECT tag FROM file_tags WHERE file_id = ? ORDER BY tag",
+      [fileId],
+    );
+    return rows.map((row: any) => row.tag);
+  }
+
+  async getTagsForFiles(fileIds: string[]): Promise<Map<string, string[]>> {
+    await this.initialize();
+    const tags = new Map<string, string[]>();
+    if (fileIds.length === 0) return tags;
+
+    const placeholders = fileIds.map(() => "?").join(", ");
+    const rows = await this.db.all(
+      `SELECT file_id, tag FROM file_tags WHERE file_id IN (${placeholders})
+       ORDER BY tag`,
+      fileIds,
+    );
+    for (const row of rows) {
+      tags.set(row.file_id, [...(tags.get(row.file_id) || []), row.tag]);
+    }
+    return tags;
+  }
+
+  async setFileTags(fileId: string, tags: string[]): Promise<void> {
+    await this.initialize();
+    await this.db.run("DELETE FROM file_tags WHERE file_id = ?", [fileId]);
+    for (const tag of tags) {
+      await this.db.run(
+        "INSERT OR IGNORE INTO file_tags (file_id, tag) VALUES (?, ?)",
+        [fileId, tag],
+      );
+    }
+  }
+
+  async getUserTags(
+    userId: string,
+  ): Promise<Array<{ tag: string; count: number }>> {
+    await this.initialize();
+    const rows = await this.db.all(
+      `SELECT t.tag, COUNT(*) as count FROM file_tags t
+       INNER JOIN files f ON t.file_id = f.id
+       WHERE f.user_id = ? GROUP BY t.tag ORDER BY t.tag`,
+      [userId],
+    );
+    return rows || [];
+  }
+
+  // Search index methods
+  async indexFileForSearch(
+    fileId: string,
+    document: FileSearchDocument,
+  ): Promise<void> {
+    await this.initialize();
+    await this.db.run("DELETE FROM files_fts WHERE file_id = ?", [fileId]);
+    await this.db.run(
+      `INSERT INTO files_fts (file_id, name, description, tags, body)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        fileId,
+        document.name,
+        document.description,
+        document.tags,
+        document.body,
+      ],
+    );
+  }
+
+  // Files uploaded before the search index existed, or whose indexing failed
+  async getUnindexedFiles(userId: string, limit = 100): Promise<File[]> {
+    await this.initialize();
+    const files = await this.db.all(
+      `SELECT * FROM files WHERE user_id = ?
+       AND id NOT IN (SELECT file_id FROM files_fts) LIMIT ?`,
+      [userId, limit],
+    );
+    return files || [];
+  }
+
+  async searchFiles(
+    userId: string,
+    filters: FileSearchFilters,
+    limit = 50,
+    offset = 0,
+  ): Promise<FileSearchRow[]> {
+    await this.initialize();
+    const conditions = ["f.user_id = ?"];
+    const params: any[] = [userId];
+
+    if (filters.mimeTypes && filters.mimeTypes.length > 0) {
+      conditions.push(
+        `(${filters.mimeTypes
+          .map((type) => {
+            if (type.endsWith("/*")) {
+              params.push(`${type.slice(0, -1)}%`);
+              return "f.mime_type LIKE ?";
+            }
+            params.push(type);
+            return "f.mime_type = ?";
+          })
+          .join(" OR ")})`,
+      );
+    }
+    if (filters.minSize !== undefined) {
+      conditions.push("f.size >= ?");
+      params.push(filters.minSize);
+    }
+    if (filters.maxSize !== undefined) {
+      conditions.push("f.size <= ?");
+      params.push(filters.maxSize);
+    }
+    // created_at may be in SQLite's or ISO format; datetime() reads both
+    if (filters.createdAfter) {
+      conditions.push("datetime(f.created_at) >= datetime(?)");
+      params.push(filters.createdAfter);
+    }
+    if (filters.createdBefore) {
+      conditions.push("datetime(f.created_at) <= datetime(?)");
+      params.push(filters.createdBefore);
+    }
+    if (filters.isPublic !== undefined) {
+      conditions.push("f.is_public = ?");
+      params.push(filters.isPublic ? 1 : 0);
+    }
+    if (filters.expiry === "none") {
+      conditions.push("f.expires_at IS NULL");
+    } else if (filters.expiry === "active") {
+      conditions.push("f.expires_at IS NOT NULL AND f.expires_at >= ?");
+      params.push(new Date().toISOString());
+    } else if (filters.expiry === "expired") {
+      conditions.push("f.expires_at IS NOT NULL AND f.expires_at < ?");
+      params.push(new Date().toISOString());
+    }
+    for (const tag of filters.tags || []) {
+      conditions.push(
+        "EXISTS (SELECT 1 FROM file_tags t WHERE t.file_id = f.id AND t.tag = ?)",
+      );
+      params.push(tag);
+    }
+    // Files without the field, or without metadata, don't match
+    for (const { field, min, max } of filters.metadata || []) {
+      if (min !== undefined) {
+        conditions.push("json_extract(f.file_metadata, ?) >= ?");
+        params.push(`$.${field}`, min);
+      }
+      if (max !== undefined) {
+        conditions.push("json_extract(f.file_metadata, ?) <= ?");
+        params.push(`$.${field}`, max);
+      }
+    }
+    if (filters.orientation) {
+      const comparison = { landscape: ">", portrait: "<", square: "=" }[
+        filters.orientation
+      ];
+      conditions.push(
+        `json_extract(f.file_metadata, '$.width') ${comparison} json_extract(f.file_metadata, '$.height')`,
+      );
+    }
+
+    if (!filters.match) {
+      const files = await this.db.all(
+        `SELECT f.* FROM files f WHERE ${conditions.join(" AND ")}
+         ORDER BY f.created_at DESC LIMIT ? OFFSET ?`,
+        [...params, limit, offset],
+      );
+      return files || [];
+    }
+
+    // Highlights are delimited with control characters so the caller can
+    // escape the text before turning them into markup. Matches in the name
+    // weigh most, then description and tags, then the body.
+    const files = await this.db.all(
+      `SELECT f.*,
+         highlight(files_fts, 1, char(2), char(3)) as name_highlight,
+         snippet(files_fts, -1, char(2), char(3), '…', 16) as snippet,
+         bm25(files_fts, 0.0, 10.0, 5.0, 5.0, 1.0) as rank
+       FROM files_fts
+       INNER JOIN files f ON f.id = files_fts.file_id
+       WHERE files_fts MATCH ? AND ${conditions.join(" AND ")}
+       ORDER BY rank LIMIT ? OFFSET ?`,
+      [filters.match, ...params, limit, offset],
+    );
+    return files || [];
+  }
+
+  // Group methods
+  async createGroup(group: Omit<UserGroup, "created_at">): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "INSERT INTO user_groups (id, owner_id, name) VALUES (?, ?, ?)",
+      [group.id, group.owner_id, group.name],
+    );
+  }
+
+  async getGroupById(id: string): Promise<UserGroup | null> {
+    await this.initialize();
+    const group = await this.db.get("SELECT * FROM user_groups WHERE id = ?", [
+      id,
+    ]);
+    return group || null;
+  }
+
+  async getGroupByName(
+    ownerId: string,
+    name: string,
+  ): Promise<UserGroup | null> {
+    await this.initialize();
+    const group = await this.db.get(
+      "SELECT * FROM user_groups WHERE owner_id = ? AND name = ? COLLATE NOCASE",
+      [ownerId, name],
+    );
+    return group || null;
+  }
+
+  // Groups the user owns or belongs to
+  async getGroupsForUser(userId: string): Promise<UserGroup[]> {
+    await this.initialize();
+    const groups = await this.db.all(
+      `SELECT * FROM user_groups WHERE owner_id = ?
+         OR id IN (SELECT group_id FROM group_members WHERE user_id = ?)
+       ORDER BY name COLLATE NOCASE`,
+      [userId, userId],
+    );
+    return groups || [];
+  }
+
+  async getGroupMembers(groupId: string): Promise<GroupMember[]> {
+    await this.initialize();
+    const members = await this.db.all(
+      `SELECT m.group_id, m.user_id, u.username, u.email, m.created_at
+       FROM group_members m INNER JOIN users u ON m.user_id = u.id
+       WHERE m.group_id = ? ORDER BY u.username COLLATE NOCASE`,
+      [groupId],
+    );
+    return members || [];
+  }
+
+  async isGroupMember(groupId: string, userId: string): Promise<boolean> {
+    await this.initialize();
+    const row = await this.db.get(
+      "SELECT 1 FROM group_members WHERE group_id = ? AND user_id = ?",
+      [groupId, userId],
+    );
+    return !!row;
+  }
+
+  async addGroupMember(groupId: string, userId: string): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "INSERT OR IGNORE INTO group_members (group_id, user_id) VALUES (?, ?)",
+      [groupId, userId],
+    );
+  }
+
+  async removeGroupMember(groupId: string, userId: string): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "DELETE FROM group_members WHERE group_id = ? AND user_id = ?",
+      [groupId, userId],
+    );
+  }
+
+  // Shares made to the group go with it
+  async deleteGroup(id: string): Promise<void> {
+    await this.initialize();
+    await this.db.run("DELETE FROM user_groups WHERE id = ?", [id]);
+  }
+
+  // Share methods
+  async upsertShare(
+    share: Omit<Share, "created_at" | "updated_at">,
+  ): Promise<Share> {
+    await this.initialize();
+    return await this.db.get(
+      `INSERT INTO shares
+         (id, file_id, folder_id, user_id, group_id, permission, created_by,
+          expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (COALESCE(file_id, ''), COALESCE(folder_id, ''),
+                    COALESCE(user_id, ''), COALESCE(group_id, ''))
+       DO UPDATE SET permission = excluded.permission,
+         expires_at = excluded.expires_at, updated_at = ?
+       RETURNING *`,
+      [
+        share.id,
+        share.file_id || null,
+        share.folder_id || null,
+        share.user_id || null,
+        share.group_id || null,
+        share.permission,
+        share.created_by,
+        share.expires_at || null,
+        new Date().toISOString(),
+      ],
+    );
+  }
+
+  private shareDetailsQuery(where: string): string {
+    return `SELECT s.*, fi.original_name as file_name, fo.name as folder_name,
+         COALESCE(fi.user_id, fo.user_id) as owner_id,
+         u.username, g.name as group_name
+       FROM shares s
+       LEFT JOIN files fi ON s.file_id = fi.id
+       LEFT JOIN folders fo ON s.folder_id = fo.id
+       LEFT JOIN users u ON s.user_id = u.id
+       LEFT JOIN user_groups g ON s.group_id = g.id
+       WHERE ${where}`;
+  }
+
+  async getShareById(id: string): Promise<ShareDetails | null> {
+    await this.initialize();
+    const share = await this.db.get(this.shareDetailsQuery("s.id = ?"), [id]);
+    return share || null;
+  }
+
+  // Shares on a file or folder, including expired ones
+  async getSharesForResource(
+    type: "file" | "folder",
+    id: string,
+  ): Promise<ShareDetails[]> {
+    await this.initialize();
+    const shares = await this.db.all(
+      this.shareDetailsQuery(`s.${type}_id = ?`) + " ORDER BY s.created_at",
+      [id],
+    );
+    return shares || [];
+  }
+
+  // Shares on anything the user owns
+  async getSharesByOwner(userId: string): Promise<ShareDetails[]> {
+    await this.initialize();
+    const shares = await this.db.all(
+      this.shareDetailsQuery("COALESCE(fi.user_id, fo.user_id) = ?") +
+        " ORDER BY s.created_at DESC",
+      [userId],
+    );
+    return shares || [];
+  }
+
+  // Unexpired shares to the user, directly or through a group
+  async getSharesWithUser(userId: string): Promise<ShareDetails[]> {
+    await this.initialize();
+    const shares = await this.db.all(
+      this.shareDetailsQuery(
+        `(s.user_id = ? OR s.group_id IN
+           (SELECT group_id FROM group_members WHERE user_id = ?))
+         AND (s.expires_at IS NULL OR s.expires_at > ?)`,
+      ) + " ORDER BY s.created_at DESC",
+      [userId, userId, new Date().toISOString()],
+    );
+    return shares || [];
+  }
+
+  // Unexpired permissions the user holds on a file or folder, whether
+  // granted on it directly or on any folder above it
+  async getGrantedPermissions(
+    type: "file" | "folder",
+    id: string,
+    userId: string,
+  ): Promise<SharePermission[]> {
+    await this.initialize();
+    const start =
+      type === "file"
+        ? "SELECT folder_id FROM files WHERE id = ? AND folder_id IS NOT NULL"
+        : "SELECT ?";
+    const rows = await this.db.all(
+      `WITH RECURSIVE ancestors(id) AS (
+         ${start}
+         UNION ALL
+         SELECT f.parent_id FROM folders f INNER JOIN ancestors a ON f.id = a.id
+         WHERE f.parent_id IS NOT NULL
+       )
+       SELECT DISTINCT s.permission FROM shares s
+       WHERE (s.file_id = ? OR s.folder_id IN (SELECT id FROM ancestors))
+         AND (s.user_id = ? OR s.group_id IN
+           (SELECT group_id FROM group_members WHERE user_id = ?))
+         AND (s.expires_at IS NULL OR s.expires_at > ?)`,
+      [
+        id,
+        type === "file" ? id : null,
+        userId,
+        userId,
+        new Date().toISOString(),
+      ],
+    );
+    return rows.map((row: any) => row.permission);
+  }
+
+  async deleteShare(id: string): Promise<void> {
+    await this.initialize();
+    await this.db.run("DELETE FROM shares WHERE id = ?", [id]);
+  }
+
+  // Share link methods
+  async createShareLink(
+    link: Omit<
+      ShareLink,
+      | "download_count"
+      | "created_at"
+      | "updated_at"
+      | "last_accessed_at"
+      | "revoked_at"
+    >,
+  ): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT INTO share_links (id, file_id, token, label, expires_at,
+         max_downloads, allowed_actions, ip_allowlist, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        link.id,
+        link.file_id,
+        link.token,
+        link.label,
+        link.expires_at,
+        link.max_downloads,
+        link.allowed_actions,
+        link.ip_allowlist,
+        link.created_by,
+      ],
+    );
+  }
+
+  async getShareLinkById(id: string): Promise<ShareLink | null> {
+    await this.initialize();
+    const link = await this.db.get("SELECT * FROM share_links WHERE id = ?", [
+      id,
+    ]);
+    return link || null;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | null> {
+    await this.initialize();
+    const link = await this.db.get(
+      "SELECT * FROM share_links WHERE token = ?",
+      [token],
+    );
+    return link || null;
+  }
+
+  async getShareLinksForFile(fileId: string): Promise<ShareLink[]> {
+    await this.initialize();
+    const links = await this.db.all(
+      "SELECT * FROM share_links WHERE file_id = ? ORDER BY created_at DESC",
+      [fileId],
+    );
+    return links || [];
+  }
+
+  // Links on every file the user owns
+  async getShareLinksByOwner(userId: string): Promise<ShareLink[]> {
+    await this.initialize();
+    const links = await this.db.all(
+      `SELECT l.* FROM share_links l INNER JOIN files f ON l.file_id = f.id
+       WHERE f.user_id = ? ORDER BY l.created_at DESC`,
+      [userId],
+    );
+    return links || [];
+  }
+
+  async updateShareLink(
+    id: string,
+    changes: Pick<
+      ShareLink,
+      | "label"
+      | "expires_at"
+      | "max_downloads"
+      | "allowed_actions"
+      | "ip_allowlist"
+    >,
+  ): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `UPDATE share_links SET label = ?, expires_at = ?, max_downloads = ?,
+         allowed_actions = ?, ip_allowlist = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        changes.label,
+        changes.expires_at,
+        changes.max_downloads,
+        changes.allowed_actions,
+        changes.ip_allowlist,
+        new Date().toISOString(),
+        id,
+      ],
+    );
+  }
+
+  async revokeShareLink(id: string): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "UPDATE share_links SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL",
+      [new Date().toISOString(), id],
+    );
+  }
+
+  async touchShareLink(id: string): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "UPDATE share_links SET last_accessed_at = ? WHERE id = ?",
+      [new Date().toISOString(), id],
+    );
+  }
+
+  // Count a download against the link's limit in a single statement, so
+  // concurrent requests can't go over it. False when the limit is used up.
+  async claimShareLinkDownload(id: string): Promise<boolean> {
+    await this.initialize();
+    const result = await this.db.get(
+      `UPDATE share_links SET download_count = download_count + 1
+       WHERE id = ?
+         AND (max_downloads IS NULL OR download_count < max_downloads)
+       RETURNING id`,
+      [id],
+    );
+    return !!result;
+  }
+
+  // Signed URL token methods
+  async createSignedUrlToken(
+    token: Omit<
+      SignedUrlToken,
+      "use_count" | "created_at" | "last_used_at" | "revoked_at"
+    >,
+  ): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT INTO signed_url_tokens (jti, file_id, user_id, action, max_uses,
+         expires_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        token.jti,
+        token.file_id,
+        token.user_id,
+        token.action,
+        token.max_uses,
+        token.expires_at,
+      ],
+    );
+  }
+
+  async getSignedUrlToken(jti: string): Promise<SignedUrlToken | null> {
+    await this.initialize();
+    const token = await this.db.get(
+      "SELECT * FROM signed_url_tokens WHERE jti = ?",
+      [jti],
+    );
+    return token || null;
+  }
+
+  // Record a use of a signed URL in a single statement, so concurrent
+  // requests can't go over its use limit. Tokens issued without a record
+  // get one on first use. False once the URL is used up or revoked.
+  async claimSignedUrlUse(
+    token: Pick<SignedUrlToken, "jti" | "file_id" | "max_uses" | "expires_at">,
+  ): Promise<boolean> {
+    await this.initialize();
+    const now = new Date().toISOString();
+    const result = await this.db.get(
+      `INSERT INTO signed_url_tokens (jti, file_id, max_uses, use_count,
+         expires_at, last_used_at)
+       VALUES (?, ?, ?, 1, ?, ?)
+       ON CONFLICT (jti) DO UPDATE SET
+         use_count = use_count + 1, last_used_at = excluded.last_used_at
+       WHERE revoked_at IS NULL
+         AND (max_uses IS NULL OR use_count < max_uses)
+       RETURNING jti`,
+      [token.jti, token.file_id, token.max_uses, token.expires_at, now],
+    );
+    return !!result;
+  }
+
+  async revokeSignedUrlToken(jti: string): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      "UPDATE signed_url_tokens SET revoked_at = ? WHERE jti = ? AND revoked_at IS NULL",
+      [new Date().toISOString(), jti],
+    );
+  }
+
+  // Use records are kept for a week after their URL expires, so recently
+  // expired URLs still show up in listings
+  async deleteExpiredSignedUrlTokens(): Promise<void> {
+    await this.initialize();
+    const cutoffDate = new Date(
+      Date.now() - 7 * 24 * 60 * 60 * 1000,
+    ).toISOString();
+    await this.db.run("DELETE FROM signed_url_tokens WHERE expires_at < ?", [
+      cutoffDate,
+    ]);
+  }
+
+  // Signed URLs issued for a file, or for any file the user owns, newest
+  // first, from the log entries written when they were generated
+  async getIssuedSignedUrls(
+    filter: { fileId: string } | { ownerId: string },
+    limit = 100,
+  ): Promise<IssuedSignedUrl[]> {
+    await this.initialize();
+    const byFile = "fileId" in filter;
+    const urls = await this.db.all(
+      `SELECT t.*, f.original_name AS file_name, l.created_at AS issued_at,
+         l.user_id AS issued_by, u.username AS issued_by_username
+       FROM file_access_logs l
+       INNER JOIN signed_url_tokens t ON t.jti = l.token_id
+       INNER JOIN files f ON f.id = l.file_id
+       LEFT JOIN users u ON u.id = l.user_id
+       WHERE l.action IN ('generate_download_url', 'generate_view_url',
+           'generate_info_url')
+         AND l.success = 1
+         AND ${byFile ? "l.file_id = ?" : "f.user_id = ?"}
+       ORDER BY l.created_at DESC, l.rowid DESC
+       LIMIT ?`,
+      [byFile ? filter.fileId : filter.ownerId, limit],
+    );
+    return urls || [];
+  }
+
+  // Archive URLs a user signed, newest first, issued when they were recorded
+  async getIssuedArchiveUrls(
+    userId: string,
+    limit = 100,
+  ): Promise<IssuedSignedUrl[]> {
+    await this.initialize();
+    const urls = await this.db.all(
+      `SELECT t.*, strftime('%Y-%m-%dT%H:%M:%fZ', t.created_at) AS issued_at,
+         t.user_id AS issued_by, u.username AS issued_by_username
+       FROM signed_url_tokens t
+       LEFT JOIN users u ON u.id = t.user_id
+       WHERE t.action = 'archive' AND t.user_id = ?
+       ORDER BY t.created_at DESC, t.rowid DESC
+       LIMIT ?`,
+      [userId, limit],
+    );
+    return urls || [];
+  }
+
+  // Signing key methods
+  async getSigningKey(
+    purpose: SigningKeyPurpose,
+    kid: string,
+  ): Promise<SigningKey | null> {
+    await this.initialize();
+    const key = await this.db.get(
+      "SELECT * FROM signing_keys WHERE purpose = ? AND kid = ?",
+      [purpose, kid],
+    );
+    return key || null;
+  }
+
+  async getActiveSigningKey(
+    purpose: SigningKeyPurpose,
+    algorithm: SigningKeyAlgorithm = "HS256",
+  ): Promise<SigningKey | null> {
+    await this.initialize();
+    const key = await this.db.get(
+      `SELECT * FROM signing_keys
+       WHERE purpose = ? AND algorithm = ? AND retired_at IS NULL
+       ORDER BY created_at DESC, rowid DESC LIMIT 1`,
+      [purpose, algorithm],
+    );
+    return key || null;
+  }
+
+  // Does nothing when the purpose already has an active key of the algorithm
+  async createSigningKey(
+    key: Omit<SigningKey, "retired_at" | "verify_until">,
+  ): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT INTO signing_keys (kid, purpose, algorithm, secret, public_key,
+         created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (purpose, algorithm) WHERE retired_at IS NULL DO NOTHING`,
+      [
+        key.kid,
+        key.purpose,
+        key.algorithm,
+        key.secret,
+        key.public_key,
+        key.created_at,
+      ],
+    );
+  }
+
+  // Asymmetric keys that still verify, newest first
+  async getPublicSigningKeys(purpose: SigningKeyPurpose): Promise<SigningKey[]> {
+    await this.initialize();
+    const keys = await this.db.all(
+      `SELECT * FROM signing_keys
+       WHERE purpose = ? AND public_key IS NOT NULL
+         AND (verify_until IS NULL OR verify_until > ?)
+       ORDER BY created_at DESC, rowid DESC`,
+      [purpose, new Date().toISOString()],
+    );
+    return keys || [];
+  }
+
+  // Audit log methods
+  async createAuditLog(log: AuditLog): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT INTO audit_logs (id, user_id, owner_id, action, target_type,
+         target_id, details, ip_address, user_agent, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        log.id,
+        log.user_id,
+        log.owner_id,
+        log.action,
+        log.target_type,
+        log.target_id,
+        log.details,
+        log.ip_address,
+        log.user_agent,
+        log.created_at,
+      ],
+    );
+  }
 
-  constructor() {
-    const sqliteDb = new sqlite3.Database(DB_PATH);
-    this.db = {
-      run: promisify(sqliteDb.run.bind(sqliteDb)),
-      get: promisify(sqliteDb.get.bind(sqliteDb)),
-      all: promisify(sqliteDb.all.bind(sqliteDb)),
-      close: () => sqliteDb.close(),
-    };
+  // Changes the user made, or that were made to what they own
+  async getAuditLogs(
+    userId: string,
+    limit = 50,
+    offset = 0,
+  ): Promise<AuditLog[]> {
+    await this.initialize();
+    const logs = await this.db.all(
+      `SELECT * FROM audit_logs WHERE owner_id = ? OR user_id = ?
+       ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      [userId, userId, limit, offset],
+    );
+    return logs || [];
   }
 
-  async initialize(): Promise<void> {
-    if (this.initialized) return;
+  // Blob methods
+  async getBlob(hash: string): Promise<StoredBlob | null> {
+    await this.initialize();
+    const blob = await this.db.get("SELECT * FROM blobs WHERE hash = ?", [
+      hash,
+    ]);
+    return blob || null;
+  }
 
-    try {
-      // Enable foreign keys
-      await this.db.run("PRAGMA foreign_keys = ON");
+  // Look a blob up for a file about to reference it, claiming it in the same
+  // statement so it can't be deleted before the file row raises its count
+  async claimBlob(hash: string): Promise<StoredBlob | null> {
+    await this.initialize();
+    const blob = await this.db.get(
+      "UPDATE blobs SET claimed_at = CURRENT_TIMESTAMP WHERE hash = ? RETURNING *",
+      [hash],
+    );
+    return blob || null;
+  }
 
-      // Create users table
-      await this.db.run(`
-        CREATE TABLE IF NOT EXISTS users (
-          id TEXT PRIMARY KEY,
-          username TEXT UNIQUE NOT NULL,
-          email TEXT UNIQUE NOT NULL,
-          password_hash TEXT NOT NULL,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          last_login DATETIME
-        )
-      `);
+  // Reference counts start at zero and are raised by the files triggers.
+  // The blob is claimed as by claimBlob, whether or not it was already there.
+  async createBlob(
+    blob: Omit<StoredBlob, "ref_count" | "created_at" | "claimed_at">,
+  ): Promise<void> {
+    await this.initialize();
+    await this.db.run(
+      `INSERT INTO blobs (hash, storage_backend, storage_key, size,
+         encryption_key, encryption_nonce, scan_status, claimed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+       ON CONFLICT (hash) DO UPDATE SET claimed_at = CURRENT_TIMESTAMP`,
+      [
+        blob.hash,
+        blob.storage_backend,
+        blob.storage_key,
+        blob.size,
+        blob.encryption_key,
+        blob.encryption_nonce,
+        blob.scan_status,
+      ],
+    );
+  }
 
-      // Create files table
-      await this.db.run(`
-        CREATE TABLE IF NOT EXISTS files (
-          id TEXT PRIMARY KEY,
-          user_id TEXT NOT NULL,
-          filename TEXT NOT NULL,
-          original_name TEXT NOT NULL,
-          mime_type TEXT NOT NULL,
-          size INTEGER NOT NULL,
-          upload_path TEXT NOT NULL,
-          access_token TEXT UNIQUE NOT NULL,
-          expires_at TEXT,
-          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-          download_count INTEGER DEFAULT 0,
-          is_public BOOLEAN DEFAULT 0,
-          description TEXT,
-          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
-        );
+  // Only removes the row if nothing references it any more, and no upload
+  // has claimed it within the hour; deleteOrphanedBlobs gets those later
+  async deleteUnreferencedBlob(hash: string): Promise<boolean> {
+    await this.initialize();
+    const result = await this.db.get(
+      `DELETE FROM blobs WHERE hash = ? AND ref_count <= 0
+         AND (claimed_at IS NULL OR claimed_at < datetime('now', '-1 hour'))
+       RETURNING hash`,
+      [hash],
+    );
+    return !!result;
+  }
 
-        CREATE TABLE IF NOT EXISTS file_access_logs (
-          id TEXT PRIMARY KEY,
-          file_id TEXT NOT NULL,
-          user_id TEXT,
-          ip_address TEXT,
-          user_agent TEXT,
-          action TEXT NOT NULL,
-          success BOOLEAN NOT NULL,
-          error_message TEXT,
-          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-          FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE CASCADE,
-          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE SET NULL
-        );
-      `);
+  // Blobs left without references, e.g. after files were removed by
+  // deleteExpiredFiles or a cascading user delete. Recently claimed blobs
+  // are skipped so an upload that hasn't inserted its file row yet keeps
+  // its blob.
+  async deleteOrphanedBlobs(): Promise<void> {
+    await this.initialize();
+    const orphans: StoredBlob[] = await this.db.all(
+      `SELECT * FROM blobs WHERE ref_count <= 0
+         AND COALESCE(claimed_at, created_at) < datetime('now', '-1 hour')`,
+    );
+    for (const blob of orphans || []) {
+      if (await this.deleteUnreferencedBlob(blob.hash)) {
+        await getStorageAdapter(blob.storage_backend).delete(blob.storage_key);
+      }
+    }
+  }
 
-      // Create sessions table
-      await this.db.run(`
-        CREATE TABLE IF NOT EXISTS sessions (
-          id TEXT PRIMARY KEY,
-          user_id TEXT NOT NULL,
-          token TEXT UNIQUE NOT NULL,
-          expires_at DATETIME NOT NULL,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          ip_address TEXT,
-          user_agent TEXT,
-          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
-        )
-      `);
+  // Encryption at rest methods
+  async getPlaintextBlobs(): Promise<StoredBlob[]> {
+    await this.initialize();
+    const blobs = await this.db.all(
+      "SELECT * FROM blobs WHERE encryption_key IS NULL",
+    );
+    return blobs || [];
+  }
 
-      // Create indexes for better performance
-      await this.db.run(
-        "CREATE INDEX IF NOT EXISTS idx_files_user_id ON files(user_id)",
-      );
-      await this.db.run(
-        "CREATE INDEX IF NOT EXISTS idx_files_access_token ON files(access_token)",
-      );
-      await this.db.run(
-        "CREATE INDEX IF NOT EXISTS idx_files_expires_at ON files(expires_at)",
-      );
-      await this.db.run(
-        "CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token)",
-      );
-      await this.db.run(
-        "CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)",
-      );
-      await this.db.run(
-        "CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at)",
-      );
+  // Contents stored before blobs existed and not encrypted yet, one row per
+  // file or version using them
+  async getPlaintextLegacyContents(): Promise<FileContent[]> {
+    await this.initialize();
+    const contents = await this.db.all(
+      `SELECT filename, original_name, mime_type, size, upload_path,
+         storage_backend, content_hash, blob_hash
+       FROM files WHERE blob_hash IS NULL AND encryption_key IS NULL
+         AND content_deleted_at IS NULL
+       UNION ALL
+       SELECT filename, original_name, mime_type, size, upload_path,
+         storage_backend, content_hash, blob_hash
+       FROM file_versions WHERE blob_hash IS NULL AND encryption_key IS NULL`,
+    );
+    return contents || [];
+  }
 
-      this.initialized = true;
-      console.log("Database initialized successfully");
-    } catch (error) {
-      console.error("Failed to initialize database:", error);
-      throw error;
-    }
+  // Filenames of the files and versions using a blob, which their
+  // thumbnails are stored under
+  async getBlobFilenames(hash: string): Promise<string[]> {
+    await this.initialize();
+    const rows = await this.db.all(
+      `SELECT filename FROM files WHERE blob_hash = ?
+       UNION SELECT filename FROM file_versions WHERE blob_hash = ?`,
+      [hash, hash],
+    );
+    return (rows || []).map((row: { filename: string }) => row.filename);
   }
 
-  // User methods
-  async createUser(
-    user: Omit<User, "created_at" | "last_login">,
+  // Point a blob, and the files and versions using it, at its encrypted copy
+  async setBlobEncryption(
+    hash: string,
+    storageKey: string,
+    encryption: Required<ContentEncryption>,
   ): Promise<void> {
     await this.initialize();
+    const { encryption_key, encryption_nonce } = encryption;
     await this.db.run(
-      "INSERT INTO users (id, username, email, password_hash) VALUES (?, ?, ?, ?)",
-      [user.id, user.username, user.email, user.password_hash],
+      `UPDATE blobs SET storage_key = ?, encryption_key = ?,
+         encryption_nonce = ? WHERE hash = ?`,
+      [storageKey, encryption_key, encryption_nonce, hash],
     );
+    for (const table of ["files", "file_versions"]) {
+      await this.db.run(
+        `UPDATE ${table} SET upload_path = ?, encryption_key = ?,
+           encryption_nonce = ? WHERE blob_hash = ?`,
+        [storageKey, encryption_key, encryption_nonce, hash],
+      );
+    }
   }
 
-  async getUserById(id: string): Promise<User | null> {
+  // The same for contents stored before blobs existed
+  async setLegacyContentEncryption(
+    content: Pick<FileContent, "upload_path" | "storage_backend">,
+    newUploadPath: string,
+    encryption: Required<ContentEncryption>,
+  ): Promise<void> {
     await this.initialize();
-    const user = await this.db.get("SELECT * FROM users WHERE id = ?", [id]);
-    return user || null;
+    for (const table of ["files", "file_versions"]) {
+      await this.db.run(
+        `UPDATE ${table} SET upload_path = ?, encryption_key = ?,
+           encryption_nonce = ?
+         WHERE upload_path = ? AND storage_backend = ? AND blob_hash IS NULL`,
+        [
+          newUploadPath,
+          encryption.encryption_key,
+          encryption.encryption_nonce,
+          content.upload_path,
+          content.storage_backend,
+        ],
+      );
+    }
   }
 
-  async getUserByEmail(email: string): Promise<User | null> {
+  // Every wrapped data key, for rewrapping them under a new master key
+  async getWrappedDataKeys(): Promise<
+    { table_name: string; id: string; encryption_key: string }[]
+  > {
     await this.initialize();
-    const user = await this.db.get("SELECT * FROM users WHERE email = ?", [
-      email,
-    ]);
-    return user || null;
+    const keys = await this.db.all(
+      `SELECT 'blobs' AS table_name, hash AS id, encryption_key FROM blobs
+         WHERE encryption_key IS NOT NULL
+       UNION ALL
+       SELECT 'files', id, encryption_key FROM files
+         WHERE encryption_key IS NOT NULL
+       UNION ALL
+       SELECT 'file_versions', id, encryption_key FROM file_versions
+         WHERE encryption_key IS NOT NULL`,
+    );
+    return keys || [];
   }
 
-  async getUserByUsername(username: string): Promise<User | null> {
+  // Only replaces the key it was read as, so a row changed in the meantime
+  // is left for the next run
+  async updateWrappedDataKey(
+    table: string,
+    id: string,
+    wrappedKey: string,
+    newWrappedKey: string,
+  ): Promise<boolean> {
     await this.initialize();
-    const user = await this.db.get("SELECT * FROM users WHERE username = ?", [
-      username,
-    ]);
-    return user || null;
+    const idColumn = { blobs: "hash", files: "id", file_versions: "id" }[
+      table
+    ];
+    if (!idColumn) {
+      throw new Error(`Invalid table: ${table}`);
+    }
+    const result = await this.db.get(
+      `UPDATE ${table} SET encryption_key = ?
+       WHERE ${idColumn} = ? AND encryption_key = ? RETURNING encryption_key`,
+      [newWrappedKey, id, wrappedKey],
+    );
+    return !!result;
   }
 
-  async updateUserLastLogin(id: string): Promise<void> {
+  // Scan methods
+  async getBlobsToScan(): Promise<StoredBlob[]> {
     await this.initialize();
-    await this.db.run(
-      "UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ?",
-      [id],
+    const blobs = await this.db.all(
+      "SELECT * FROM blobs WHERE scan_status IN ('pending', 'error')",
     );
+    return blobs || [];
   }
 
-  // File methods
-  async createFile(
-    file: Omit<File, "created_at" | "download_count">,
+  async setBlobScanResult(
+    hash: string,
+    result: Required<Pick<StoredBlob, "scan_status" | "storage_key">> &
+      Pick<StoredBlob, "scan_signature">,
   ): Promise<void> {
     await this.initialize();
     await this.db.run(
-      `INSERT INTO files (id, user_id, filename, original_name, mime_type, size,
-       upload_path, access_token, expires_at, is_public, description)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `UPDATE blobs SET scan_status = ?, scan_signature = ?, storage_key = ?,
+         scanned_at = ? WHERE hash = ?`,
       [
-        file.id,
-        file.user_id,
-        file.filename,
-        file.original_name,
-        file.mime_type,
-        file.size,
-        file.upload_path,
-        file.access_token,
-        file.expires_at,
-        file.is_public,
-        file.description,
+        result.scan_status,
+        result.scan_signature,
+        result.storage_key,
+        new Date().toISOString(),
+        hash,
       ],
     );
   }
 
-  async getFileById(id: string): Promise<File | null> {
+  // Bring the files and versions using a blob in line with its scan status
+  // and storage key. Returns the files whose status changed.
+  async applyBlobScanStatus(hash: string): Promise<File[]> {
     await this.initialize();
-    const file = await this.db.get("SELECT * FROM files WHERE id = ?", [id]);
-    return file || null;
+    const blob = await this.getBlob(hash);
+    if (!blob?.scan_status) {
+      return [];
+    }
+
+    const changed: File[] = await this.db.all(
+      `SELECT * FROM files WHERE blob_hash = ?
+         AND (scan_status IS NULL OR scan_status != ?)`,
+      [hash, blob.scan_status],
+    );
+    for (const table of ["files", "file_versions"]) {
+      await this.db.run(
+        `UPDATE ${table} SET scan_status = ?, upload_path = ?
+         WHERE blob_hash = ?`,
+        [blob.scan_status, blob.storage_key, hash],
+      );
+    }
+    return (changed || []).map((file) => ({
+      ...file,
+      scan_status: blob.scan_status,
+      upload_path: blob.storage_key,
+    }));
   }
 
-  async getFileByAccessToken(token: string): Promise<File | null> {
+  // Notification methods
+  async createNotification(notification: Notification): Promise<void> {
     await this.initialize();
-    const file = await this.db.get(
-      "SELECT * FROM files WHERE access_token = ?",
-      [token],
+    await this.db.run(
+      `INSERT INTO notifications (id, user_id, type, message, file_id, details,
+         created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        notification.id,
+        notification.user_id,
+        notification.type,
+        notification.message,
+        notification.file_id,
+        notification.details,
+        notification.created_at,
+      ],
     );
-    return file || null;
   }
 
-  async getFilesByUserId(
+  async getNotifications(
     userId: string,
+    unreadOnly = false,
     limit = 50,
-    offset = 0,
-  ): Promise<File[]> {
+  ): Promise<Notification[]> {
     await this.initialize();
-    const files = await this.db.all(
-      "SELECT * FROM files WHERE user_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?",
-      [userId, limit, offset],
+    const notifications = await this.db.all(
+      `SELECT * FROM notifications WHERE user_id = ?
+         ${unreadOnly ? "AND read_at IS NULL" : ""}
+       ORDER BY created_at DESC LIMIT ?`,
+      [userId, limit],
     );
-    return files || [];
+    return notifications || [];
   }
 
-  async incrementDownloadCount(id: string): Promise<void> {
+  // Marks the given notifications read, or all of the user's when none are
+  // given. Returns how many were marked.
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
     await this.initialize();
-    await this.db.run(
-      "UPDATE files SET download_count = download_count + 1 WHERE id = ?",
-      [id],
+    if (ids?.length === 0) {
+      return 0;
+    }
+    const filter = ids
+      ? `AND id IN (${ids.map(() => "?").join(", ")})`
+      : "";
+    const marked = await this.db.all(
+      `UPDATE notifications SET read_at = ?
+       WHERE user_id = ? AND read_at IS NULL ${filter} RETURNING id`,
+      [new Date().toISOString(), userId, ...(ids || [])],
     );
+    return (marked || []).length;
   }
 
-  async updateFileAccessToken(id: string, newToken: string): Promise<void> {
+  // Plan methods
+  async getPlan(id: string): Promise<Plan | null> {
     await this.initialize();
-    await this.db.run("UPDATE files SET access_token = ? WHERE id = ?", [
-      newToken,
-      id,
-    ]);
+    const plan = await this.db.get("SELECT * FROM plans WHERE id = ?", [id]);
+    return plan || null;
   }
 
-  async deleteFile(id: string): Promise<void> {
+  async getUserPolicyOverride(
+    userId: string,
+  ): Promise<UserPolicyOverride | null> {
     await this.initialize();
-    await this.db.run("DELETE FROM files WHERE id = ?", [id]);
+    const override = await this.db.get(
+      "SELECT * FROM user_policy_overrides WHERE user_id = ?",
+      [userId],
+    );
+    return override || null;
   }
 
-  async deleteExpiredFiles(): Promise<void> {
+  // Upload session methods
+  async createUploadSession(
+    upload: Omit<UploadSession, "created_at" | "upload_offset" | "file_id">,
+  ): Promise<void> {
     await this.initialize();
     await this.db.run(
-      "DELETE FROM files WHERE expires_at IS NOT NULL AND expires_at < CURRENT_TIMESTAMP",
+      "INSERT INTO upload_sessions (id, user_id, upload_length, metadata, temp_path, expires_at) VALUES (?, ?, ?, ?, ?, ?)",
+      [
+        upload.id,
+        upload.user_id,
+        upload.upload_length,
+        upload.metadata,
+        upload.temp_path,
+        upload.expires_at,
+      ],
     );
   }
 
-  // Session methods
-  async createSession(session: Omit<Session, "created_at">): Promise<void> {
+  async getUploadSession(id: string): Promise<UploadSession | null> {
     await this.initialize();
-    await this.db.run(
-      "INSERT INTO sessions (id, user_id, token, expires_at, ip_address, user_agent) VALUES (?, ?, ?, ?, ?, ?)",
-      [
-        session.id,
-        session.user_id,
-        session.token,
-        session.expires_at,
-        session.ip_address,
-        session.user_agent,
-      ],
+    const upload = await this.db.get(
+      "SELECT * FROM upload_sessions WHERE id = ? AND expires_at > ?",
+      [id, new Date().toISOString()],
     );
+    return upload || null;
   }
 
-  async getSessionByToken(token: string): Promise<Session | null> {
+  async updateUploadSessionOffset(
+    id: string,
+    offset: number,
+    expiresAt: string,
+  ): Promise<void> {
     await this.initialize();
-    const session = await this.db.get(
-      "SELECT * FROM sessions WHERE token = ? AND expires_at > CURRENT_TIMESTAMP",
-      [token],
+    await this.db.run(
+      "UPDATE upload_sessions SET upload_offset = ?, expires_at = ? WHERE id = ?",
+      [offset, expiresAt, id],
     );
-    return session || null;
   }
 
-  async deleteSession(token: string): Promise<void> {
+  async completeUploadSession(id: string, fileId: string): Promise<void> {
     await this.initialize();
-    await this.db.run("DELETE FROM sessions WHERE token = ?", [token]);
+    await this.db.run("UPDATE upload_sessions SET file_id = ? WHERE id = ?", [
+      fileId,
+      id,
+    ]);
   }
 
-  async deleteExpiredSessions(): Promise<void> {
+  async deleteUploadSession(id: string): Promise<void> {
     await this.initialize();
-    await this.db.run(
-      "DELETE FROM sessions WHERE expires_at < CURRENT_TIMESTAMP",
-    );
+    await this.db.run("DELETE FROM upload_sessions WHERE id = ?", [id]);
   }
 
-  async deleteUserSessions(userId: string): Promise<void> {
+  // Removes abandoned uploads along with their partially written data
+  async deleteStaleUploadSessions(): Promise<void> {
     await this.initialize();
-    await this.db.run("DELETE FROM sessions WHERE user_id = ?", [userId]);
+    const stale: UploadSession[] = await this.db.all(
+      "SELECT * FROM upload_sessions WHERE expires_at < ?",
+      [new Date().toISOString()],
+    );
+    for (const upload of stale || []) {
+      await fs.promises.rm(upload.temp_path, { force: true });
+      await this.deleteUploadSession(upload.id);
+    }
   }
 
   // File access logging methods
   async createFileAccessLog(log: FileAccessLog): Promise<void> {
     await this.initialize();
     await this.db.run(
-      `INSERT INTO file_access_logs (id, file_id, user_id, ip_address, user_agent, action, success, error_message, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO file_access_logs (id, file_id, user_id, ip_address, user_agent, action, success, error_message, share_link_id, token_id, details, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         log.id,
         log.file_id,
@@ -355,6 +2637,9 @@ class Database {
         log.action,
         log.success,
         log.error_message,
+        log.share_link_id,
+        log.token_id,
+        log.details,
         log.created_at,
       ],
     );
@@ -422,8 +2707,8 @@ class Database {
   async getUserStorageUsed(userId: string): Promise<number> {
     await this.initialize();
     const result = await this.db.get(
-      "SELECT SUM(size) as total_size FROM files WHERE user_id = ?",
-      [userId],
+      `SELECT ${STORAGE_USED_SQL} as total_size`,
+      [userId, userId],
     );
     return result?.total_size || 0;
   }
@@ -432,6 +2717,8 @@ class Database {
   async cleanup(): Promise<void> {
     await this.deleteExpiredFiles();
     await this.deleteExpiredSessions();
+    await this.deleteStaleUploadSessions();
+    await this.deleteOrphanedBlobs();
     await this.deleteOldFileAccessLogs();
   }
 
@@ -0,0 +1,194 @@
+// Line-based unified diffs (the `diff -u` format) using Myers' O(ND)
+// shortest edit script algorithm.
+
+const CONTEXT_LINES = 3;
+// Past this many changed lines the differing region is shown as one
+// replacement instead of searching for the minimal edit script
+const MAX_EDIT_DISTANCE = 2000;
+
+type EditType = " " | "-" | "+";
+
+interface Edit {
+  type: EditType;
+  line: string;
+}
+
+// Lines keep their terminator so a missing final newline counts as a change
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function toEdits(type: EditType, lines: string[]): Edit[] {
+  return lines.map((line) => ({ type, line }));
+}
+
+function shortestEditScript(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, offset);
+      }
+    }
+  }
+
+  return toEdits("-", a).concat(toEdits("+", b));
+}
+
+// Walk the recorded frontiers back from the end to recover the edits
+function backtrack(
+  trace: Int32Array[],
+  a: string[],
+  b: string[],
+  offset: number,
+): Edit[] {
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: " ", line: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: "+", line: b[y - 1] });
+      } else {
+        edits.push({ type: "-", line: a[x - 1] });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return edits.reverse();
+}
+
+function diffLines(a: string[], b: string[]): Edit[] {
+  // Common leading and trailing lines need no search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return toEdits(" ", a.slice(0, prefix))
+    .concat(
+      shortestEditScript(
+        a.slice(prefix, a.length - suffix),
+        b.slice(prefix, b.length - suffix),
+      ),
+    )
+    .concat(toEdits(" ", a.slice(a.length - suffix)));
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+function formatLine(edit: Edit): string {
+  return edit.line.endsWith("\n")
+    ? edit.type + edit.line
+    : `${edit.type}${edit.line}\n\\ No newline at end of file\n`;
+}
+
+/**
+ * Unified diff between two texts. Returns an empty string when they are
+ * identical.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+): string {
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+
+  const changes: number[] = [];
+  edits.forEach((edit, index) => {
+    if (edit.type !== " ") changes.push(index);
+  });
+  if (changes.length === 0) {
+    return "";
+  }
+
+  // Number of old/new lines before each edit, for hunk headers
+  const oldLines = new Int32Array(edits.length + 1);
+  const newLines = new Int32Array(edits.length + 1);
+  edits.forEach((edit, index) => {
+    oldLines[index + 1] = oldLines[index] + (edit.type !== "+" ? 1 : 0);
+    newLines[index + 1] = newLines[index] + (edit.type !== "-" ? 1 : 0);
+  });
+
+  const output = [`--- ${oldLabel}\n`, `+++ ${newLabel}\n`];
+
+  let i = 0;
+  while (i < changes.length) {
+    const start = Math.max(0, changes[i] - CONTEXT_LINES);
+    let end = Math.min(edits.length, changes[i] + CONTEXT_LINES + 1);
+
+    // Merge changes whose context would overlap into one hunk
+    while (
+      i + 1 < changes.length &&
+      changes[i + 1] - CONTEXT_LINES <= end
+    ) {
+      i++;
+      end = Math.min(edits.length, changes[i] + CONTEXT_LINES + 1);
+    }
+
+    const oldCount = oldLines[end] - oldLines[start];
+    const newCount = newLines[end] - newLines[start];
+    const oldStart = oldCount === 0 ? oldLines[start] : oldLines[start] + 1;
+    const newStart = newCount === 0 ? newLines[start] : newLines[start] + 1;
+
+    output.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@\n`,
+    );
+    for (let k = start; k < end; k++) {
+      output.push(formatLine(edits[k]));
+    }
+
+    i++;
+  }
+
+  return output.join("");
+}
@@ -0,0 +1,207 @@
+// End-to-end encryption of vault files. Files are encrypted in the browser
+// with WebCrypto before they're uploaded, and decrypted in the browser after
+// they're downloaded, so the server only ever holds ciphertext. The key is
+// either random and carried in the link's fragment (#key=...), which
+// browsers never send to the server, or derived from a passphrase.
+//
+// Payload layout; the header is authenticated along with the ciphertext:
+//
+//   "SVE1"             4 bytes
+//   key source         1 byte: 0 = key in the link, 1 = passphrase
+//   PBKDF2 iterations  4 bytes, big-endian; 0 for link keys
+//   salt               16 bytes; zeros for link keys
+//   IV                 12 bytes
+//   AES-256-GCM ciphertext, with its 16-byte tag, of:
+//     type length      2 bytes, big-endian
+//     type             MIME type of the file, UTF-8
+//     content
+//
+// Only the WebCrypto API is used, so this runs in browsers and on the
+// server alike.
+
+const MAGIC = "SVE1";
+const HEADER_SIZE = 37;
+const TAG_SIZE = 16;
+const MAX_TYPE_LENGTH = 255;
+const PBKDF2_ITERATIONS = 600_000;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+
+// How encrypted files are stored and served, whatever their contents
+export const ENCRYPTED_MIME_TYPE = "application/octet-stream";
+
+// Bytes encryption adds to a file, at least and at most
+export const E2E_MIN_OVERHEAD = HEADER_SIZE + 2 + TAG_SIZE;
+export const E2E_MAX_OVERHEAD = E2E_MIN_OVERHEAD + MAX_TYPE_LENGTH;
+
+export type KeySource = "link" | "passphrase";
+
+export type VaultSecret = { key: string } | { passphrase: string };
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// Whether bytes start like a vault payload; the server checks uploads
+// marked as encrypted with this
+export function isVaultPayload(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= E2E_MIN_OVERHEAD &&
+    String.fromCharCode(...Array.from(bytes.subarray(0, 4))) === MAGIC
+  );
+}
+
+// How a payload's key is given, or null if it isn't a vault payload
+export function getKeySource(payload: Uint8Array): KeySource | null {
+  if (!isVaultPayload(payload)) {
+    return null;
+  }
+  return payload[4] === 1 ? "passphrase" : "link";
+}
+
+// A new random key, as carried in links
+export function generateLinkKey(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+// The key in a link's fragment, e.g. from window.location.hash
+export function getLinkKey(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, "")).get("key");
+}
+
+async function importKey(
+  secret: VaultSecret,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<CryptoKey> {
+  if ("key" in secret) {
+    const raw = fromBase64Url(secret.key);
+    if (raw.length !== 32) {
+      throw new Error("Invalid key");
+    }
+    return crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+      "encrypt",
+      "decrypt",
+    ]);
+  }
+
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret.passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+export async function encryptFile(
+  file: Blob,
+  type: string,
+  secret: VaultSecret,
+): Promise<Blob> {
+  const typeBytes = new TextEncoder().encode(type);
+  if (typeBytes.length > MAX_TYPE_LENGTH) {
+    throw new Error("File type is too long");
+  }
+
+  const header = new Uint8Array(HEADER_SIZE);
+  const view = new DataView(header.buffer);
+  header.set(new TextEncoder().encode(MAGIC), 0);
+  const salt = header.subarray(9, 25);
+  const iv = header.subarray(25, 37);
+  crypto.getRandomValues(iv);
+  if ("passphrase" in secret) {
+    header[4] = 1;
+    view.setUint32(5, PBKDF2_ITERATIONS);
+    crypto.getRandomValues(salt);
+  }
+
+  const plaintext = new Uint8Array(2 + typeBytes.length + file.size);
+  new DataView(plaintext.buffer).setUint16(0, typeBytes.length);
+  plaintext.set(typeBytes, 2);
+  plaintext.set(new Uint8Array(await file.arrayBuffer()), 2 + typeBytes.length);
+
+  const key = await importKey(secret, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: header },
+    key,
+    plaintext,
+  );
+  return new Blob([header, ciphertext], { type: ENCRYPTED_MIME_TYPE });
+}
+
+// Decrypt a payload back into the file and its type. Fails with "Wrong key
+// or passphrase" when the secret doesn't open it.
+export async function decryptFile(
+  payload: Uint8Array,
+  secret: VaultSecret,
+): Promise<{ data: Blob; type: string }> {
+  if (!isVaultPayload(payload)) {
+    throw new Error("Not an encrypted vault file");
+  }
+
+  const header = payload.subarray(0, HEADER_SIZE);
+  const iterations = new DataView(
+    header.buffer,
+    header.byteOffset,
+    header.byteLength,
+  ).getUint32(5);
+  const validIterations = iterations > 0 && iterations <= MAX_PBKDF2_ITERATIONS;
+  if (header[4] === 1 && !validIterations) {
+    throw new Error("Not an encrypted vault file");
+  }
+
+  let plaintext: Uint8Array;
+  try {
+    const key = await importKey(secret, header.subarray(9, 25), iterations);
+    const iv = header.subarray(25, 37);
+    plaintext = new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv, additionalData: header },
+        key,
+        payload.subarray(HEADER_SIZE),
+      ),
+    );
+  } catch {
+    throw new Error("Wrong key or passphrase");
+  }
+
+  const typeLength = (plaintext[0] << 8) | plaintext[1];
+  const type = new TextDecoder().decode(plaintext.subarray(2, 2 + typeLength));
+  return {
+    data: new Blob([plaintext.subarray(2 + typeLength)], { type }),
+    type,
+  };
+}
+
+// Where a file is decrypted in the browser, with its key when it's known
+export function getDecryptUrl(accessToken: string, key?: string | null) {
+  const fragment = key ? `#key=${key}` : "";
+  return `/decrypt/${encodeURIComponent(accessToken)}${fragment}`;
+}
+
+// Link keys of files uploaded from this browser are kept in localStorage,
+// so their owner can open them again from the vault
+const KEY_STORAGE_PREFIX = "snapvault-e2e-key:";
+
+export function rememberLinkKey(accessToken: string, key: string): void {
+  localStorage.setItem(`${KEY_STORAGE_PREFIX}${accessToken}`, key);
+}
+
+export function recallLinkKey(accessToken: string): string | null {
+  return localStorage.getItem(`${KEY_STORAGE_PREFIX}${accessToken}`);
+}
@@ -0,0 +1,215 @@
+import crypto from "crypto";
+import path from "path";
+import { database, FileContent } from "./database";
+import {
+  addMasterKey,
+  encryptThumbnail,
+  generateDataKey,
+  getActiveMasterKey,
+  getMasterKeyId,
+  getMasterKeyIds,
+  putContent,
+  removeMasterKeys,
+  unwrapDataKey,
+  wrapDataKey,
+  DataKey,
+} from "./encryption";
+import { getStorageAdapter, StorageAdapter } from "./storage";
+
+// Maintenance for encryption at rest, run by `npm run encryption`. These
+// work on the live database and storage, so content uploaded while they run
+// stays readable, but uploads of content that is being migrated at the same
+// moment can end up pointing at its deleted plaintext; run them when the
+// app is quiet.
+
+export interface EncryptionStatus {
+  activeMasterKey: string;
+  dataKeysByMasterKey: Record<string, number>;
+  plaintextBlobs: number;
+  plaintextLegacyContents: number;
+}
+
+export async function getEncryptionStatus(): Promise<EncryptionStatus> {
+  const activeMasterKey = getActiveMasterKey().id;
+  const dataKeysByMasterKey: Record<string, number> = {};
+  for (const id of getMasterKeyIds()) {
+    dataKeysByMasterKey[id] = 0;
+  }
+  for (const row of await database.getWrappedDataKeys()) {
+    const id = getMasterKeyId(row.encryption_key);
+    dataKeysByMasterKey[id] = (dataKeysByMasterKey[id] || 0) + 1;
+  }
+
+  const legacy = await database.getPlaintextLegacyContents();
+  return {
+    activeMasterKey,
+    dataKeysByMasterKey,
+    plaintextBlobs: (await database.getPlaintextBlobs()).length,
+    plaintextLegacyContents: new Set(
+      legacy.map((content) => content.upload_path),
+    ).size,
+  };
+}
+
+// Size checks keep content whose object doesn't match its row from being
+// encrypted into something that can't be decrypted
+async function checkObject(
+  storage: StorageAdapter,
+  key: string,
+  size: number,
+  log: (message: string) => void,
+): Promise<boolean> {
+  const stat = await storage.stat(key);
+  if (!stat) {
+    log(`Skipped ${key}: missing from ${storage.backend} storage`);
+    return false;
+  }
+  if (stat.size !== size) {
+    log(`Skipped ${key}: stored size ${stat.size} doesn't match ${size}`);
+    return false;
+  }
+  return true;
+}
+
+async function encryptThumbnailObject(
+  storage: StorageAdapter,
+  key: string,
+  filename: string,
+  dataKey: DataKey,
+): Promise<void> {
+  if (await storage.exists(key)) {
+    const data = await storage.get(key);
+    await storage.put(key, encryptThumbnail(dataKey, filename, data));
+  }
+}
+
+// Encrypt every blob and legacy object still stored in plaintext. Each is
+// copied, encrypted, to a new key, the rows using it are pointed at the
+// copy, and only then is the plaintext deleted, so an interrupted run can
+// simply be run again. Returns how many objects were encrypted.
+export async function encryptExistingContent(
+  log: (message: string) => void = console.log,
+): Promise<number> {
+  let encrypted = 0;
+
+  for (const blob of await database.getPlaintextBlobs()) {
+    const storage = getStorageAdapter(blob.storage_backend);
+    if (!(await checkObject(storage, blob.storage_key, blob.size, log))) {
+      continue;
+    }
+
+    const { dataKey, encryption } = generateDataKey();
+    const key = `${blob.storage_key}.${crypto.randomBytes(4).toString("hex")}`;
+    await putContent(
+      storage,
+      key,
+      await storage.stream(blob.storage_key),
+      blob.size,
+      dataKey,
+    );
+    await database.setBlobEncryption(blob.hash, key, encryption);
+
+    for (const filename of await database.getBlobFilenames(blob.hash)) {
+      await encryptThumbnailObject(
+        storage,
+        `thumb_${filename}`,
+        filename,
+        dataKey,
+      );
+    }
+    await storage.delete(blob.storage_key);
+    encrypted++;
+  }
+
+  // Legacy objects can be shared by a file and its versions
+  const legacy = new Map<string, FileContent[]>();
+  for (const content of await database.getPlaintextLegacyContents()) {
+    const id = `${content.storage_backend}:${content.upload_path}`;
+    legacy.set(id, [...(legacy.get(id) || []), content]);
+  }
+
+  for (const contents of Array.from(legacy.values())) {
+    const { upload_path, storage_backend, size } = contents[0];
+    const storage = getStorageAdapter(storage_backend);
+    if (!(await checkObject(storage, upload_path, size, log))) {
+      continue;
+    }
+
+    const { dataKey, encryption } = generateDataKey();
+    const key = `${upload_path}.enc`;
+    await putContent(
+      storage,
+      key,
+      await storage.stream(upload_path),
+      size,
+      dataKey,
+    );
+    await database.setLegacyContentEncryption(contents[0], key, encryption);
+
+    // Legacy thumbnails live next to the main object
+    for (const { filename } of contents) {
+      await encryptThumbnailObject(
+        storage,
+        path.join(path.dirname(upload_path), `thumb_${filename}`),
+        filename,
+        dataKey,
+      );
+    }
+    await storage.delete(upload_path);
+    encrypted++;
+  }
+
+  return encrypted;
+}
+
+// Wrap every data key not wrapped by the active master key with it. A row
+// changed while this runs is left for the next run. Returns how many keys
+// were rewrapped.
+export async function rewrapDataKeys(): Promise<number> {
+  const activeId = getActiveMasterKey().id;
+  let rewrapped = 0;
+
+  for (const row of await database.getWrappedDataKeys()) {
+    if (getMasterKeyId(row.encryption_key) === activeId) {
+      continue;
+    }
+
+    const wrapped = wrapDataKey(unwrapDataKey(row.encryption_key));
+    if (
+      await database.updateWrappedDataKey(
+        row.table_name,
+        row.id,
+        row.encryption_key,
+        wrapped,
+      )
+    ) {
+      rewrapped++;
+    }
+  }
+
+  return rewrapped;
+}
+
+// Make a new master key active and rewrap every data key with it. With
+// ENCRYPTION_MASTER_KEY the new key is set in the environment instead, with
+// the old one moved to ENCRYPTION_PREVIOUS_MASTER_KEYS, before running this.
+export async function rotateMasterKey(): Promise<{
+  masterKeyId: string;
+  rewrapped: number;
+}> {
+  const masterKey = process.env.ENCRYPTION_MASTER_KEY
+    ? getActiveMasterKey()
+    : addMasterKey();
+  return { masterKeyId: masterKey.id, rewrapped: await rewrapDataKeys() };
+}
+
+// Remove the key file's master keys that no data key is wrapped with any
+// more. Returns the ids removed.
+export async function pruneMasterKeys(): Promise<string[]> {
+  const inUse = new Set(
+    (await database.getWrappedDataKeys()).map((row) =>
+      getMasterKeyId(row.encryption_key),
+    ),
+  );
+  return removeMasterKeys(getMasterKeyIds().filter((id) => !inUse.has(id)));
+}
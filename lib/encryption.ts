@@ -0,0 +1,597 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { pipeline, Readable, Transform } from "stream";
+import {
+  getStorageAdapter,
+  ByteRange,
+  StorageAdapter,
+  StorageBackend,
+} from "./storage";
+
+// Envelope encryption of stored content. Each blob gets a random AES-256
+// data key, wrapped by a master key and kept with the rows that reference
+// the blob, along with a random nonce.
+//
+// Content is encrypted in segments of SEGMENT_SIZE bytes, each with its own
+// GCM tag, so ranges can be decrypted and authenticated without reading the
+// whole object. Segment nonces are the file nonce with the segment index
+// XORed into its last four bytes, and each segment's index and whether it
+// is the last one are authenticated, so segments can't be reordered or cut
+// off.
+
+export const SEGMENT_SIZE = 64 * 1024;
+const TAG_SIZE = 16;
+const CIPHER_SEGMENT_SIZE = SEGMENT_SIZE + TAG_SIZE;
+
+const KEY_FILE =
+  process.env.ENCRYPTION_KEY_FILE ||
+  path.join(process.cwd(), "data", "master-keys.json");
+
+// Columns describing how a blob's bytes are encrypted; unset for plaintext
+export interface ContentEncryption {
+  encryption_key?: string; // data key wrapped by a master key
+  encryption_nonce?: string; // base64
+}
+
+// Where content is stored, and how
+export interface StoredContent extends ContentEncryption {
+  size: number; // plaintext size
+  upload_path: string;
+  storage_backend: StorageBackend;
+}
+
+export interface DataKey {
+  key: Buffer;
+  nonce: Buffer;
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// Master keys kept in the key file, by id, and which one wraps new keys
+interface KeyFile {
+  active: string;
+  keys: Record<string, string>; // base64
+}
+
+export function isEncryptionEnabled(): boolean {
+  return process.env.ENCRYPTION_AT_REST !== "false";
+}
+
+// Master keys
+
+// ENCRYPTION_MASTER_KEY and ENCRYPTION_PREVIOUS_MASTER_KEYS take 32-byte
+// keys as base64 or hex. Their ids are derived from the keys, so they stay
+// the same across restarts.
+function parseMasterKey(value: string): MasterKey {
+  const key = /^[0-9a-f]{64}$/i.test(value)
+    ? Buffer.from(value, "hex")
+    : Buffer.from(value, "base64");
+  if (key.length !== 32) {
+    throw new Error("Encryption master keys must be 32 bytes");
+  }
+  const id = crypto.createHash("sha256").update(key).digest("hex");
+  return { id: `env-${id.substring(0, 12)}`, key };
+}
+
+let keyFileCache: { mtimeMs: number; contents: KeyFile } | null = null;
+
+// Re-read whenever the file changes, so keys rotated by the CLI are used
+// without a restart
+function readKeyFile(): KeyFile | null {
+  let stats: fs.Stats;
+  try {
+    stats = fs.statSync(KEY_FILE);
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  if (keyFileCache?.mtimeMs !== stats.mtimeMs) {
+    keyFileCache = {
+      mtimeMs: stats.mtimeMs,
+      contents: JSON.parse(fs.readFileSync(KEY_FILE, "utf8")),
+    };
+  }
+  return keyFileCache.contents;
+}
+
+function writeKeyFile(contents: KeyFile): void {
+  fs.mkdirSync(path.dirname(KEY_FILE), { recursive: true });
+  const tempFile = `${KEY_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(contents, null, 2), {
+    mode: 0o600,
+  });
+  fs.renameSync(tempFile, KEY_FILE);
+}
+
+function getMasterKeys(): Map<string, MasterKey> {
+  const keys = new Map<string, MasterKey>();
+  const keyFile = readKeyFile();
+  for (const [id, key] of Object.entries(keyFile?.keys || {})) {
+    keys.set(id, { id, key: Buffer.from(key, "base64") });
+  }
+
+  const envKeys = [
+    process.env.ENCRYPTION_MASTER_KEY,
+    ...(process.env.ENCRYPTION_PREVIOUS_MASTER_KEYS || "").split(","),
+  ];
+  for (const value of envKeys) {
+    if (value?.trim()) {
+      const key = parseMasterKey(value.trim());
+      keys.set(key.id, key);
+    }
+  }
+  return keys;
+}
+
+// The master key new data keys are wrapped with: ENCRYPTION_MASTER_KEY when
+// set, otherwise the active key of the key file, which is created the first
+// time it's needed
+export function getActiveMasterKey(): MasterKey {
+  if (process.env.ENCRYPTION_MASTER_KEY) {
+    return parseMasterKey(process.env.ENCRYPTION_MASTER_KEY);
+  }
+
+  const keyFile = readKeyFile();
+  if (keyFile) {
+    return {
+      id: keyFile.active,
+      key: Buffer.from(keyFile.keys[keyFile.active], "base64"),
+    };
+  }
+  return addMasterKey();
+}
+
+// Add a new random key to the key file and make it the active one. Keys
+// already in the file are kept so data keys they wrap can still be opened.
+export function addMasterKey(): MasterKey {
+  if (process.env.ENCRYPTION_MASTER_KEY) {
+    throw new Error(
+      "ENCRYPTION_MASTER_KEY is set; change it instead of the key file",
+    );
+  }
+
+  const keyFile = readKeyFile() || { active: "", keys: {} };
+  const masterKey = {
+    id: crypto.randomBytes(6).toString("hex"),
+    key: crypto.randomBytes(32),
+  };
+  writeKeyFile({
+    active: masterKey.id,
+    keys: {
+      ...keyFile.keys,
+      [masterKey.id]: masterKey.key.toString("base64"),
+    },
+  });
+  return masterKey;
+}
+
+// Drop keys from the key file, other than the active one
+export function removeMasterKeys(ids: string[]): string[] {
+  const keyFile = readKeyFile();
+  if (!keyFile) {
+    return [];
+  }
+
+  const removed = ids.filter(
+    (id) => id !== keyFile.active && id in keyFile.keys,
+  );
+  const keys = { ...keyFile.keys };
+  removed.forEach((id) => delete keys[id]);
+  writeKeyFile({ active: keyFile.active, keys });
+  return removed;
+}
+
+export function getMasterKeyIds(): string[] {
+  return Array.from(getMasterKeys().keys());
+}
+
+// Data keys
+
+// Wrapped keys read "<master key id>:<base64 of IV, key and tag>"
+export function getMasterKeyId(wrappedKey: string): string {
+  return wrappedKey.substring(0, wrappedKey.indexOf(":"));
+}
+
+export function wrapDataKey(key: Buffer): string {
+  const masterKey = getActiveMasterKey();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", masterKey.key, iv);
+  const wrapped = Buffer.concat([
+    iv,
+    cipher.update(key),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+  return `${masterKey.id}:${wrapped.toString("base64")}`;
+}
+
+export function unwrapDataKey(wrappedKey: string): Buffer {
+  const masterKeyId = getMasterKeyId(wrappedKey);
+  const masterKey = getMasterKeys().get(masterKeyId);
+  if (!masterKey) {
+    throw new Error(`Unknown encryption master key: ${masterKeyId}`);
+  }
+
+  const wrapped = Buffer.from(
+    wrappedKey.substring(masterKeyId.length + 1),
+    "base64",
+  );
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    masterKey.key,
+    wrapped.subarray(0, 12),
+  );
+  decipher.setAuthTag(wrapped.subarray(wrapped.length - TAG_SIZE));
+  return Buffer.concat([
+    decipher.update(wrapped.subarray(12, wrapped.length - TAG_SIZE)),
+    decipher.final(),
+  ]);
+}
+
+// A new data key, and the columns to store it in
+export function generateDataKey(): {
+  dataKey: DataKey;
+  encryption: Required<ContentEncryption>;
+} {
+  const dataKey = {
+    key: crypto.randomBytes(32),
+    nonce: crypto.randomBytes(12),
+  };
+  return {
+    dataKey,
+    encryption: {
+      encryption_key: wrapDataKey(dataKey.key),
+      encryption_nonce: dataKey.nonce.toString("base64"),
+    },
+  };
+}
+
+export function openDataKey(encryption: ContentEncryption): DataKey {
+  return {
+    key: unwrapDataKey(encryption.encryption_key!),
+    nonce: Buffer.from(encryption.encryption_nonce!, "base64"),
+  };
+}
+
+// Segments
+
+function countSegments(size: number): number {
+  return Math.max(1, Math.ceil(size / SEGMENT_SIZE));
+}
+
+// Stored size of content of the given plaintext size
+export function getEncryptedSize(size: number): number {
+  return size + countSegments(size) * TAG_SIZE;
+}
+
+function segmentParams(index: number, final: boolean, dataKey: DataKey) {
+  const nonce = Buffer.from(dataKey.nonce);
+  nonce.writeUInt32BE((nonce.readUInt32BE(8) ^ index) >>> 0, 8);
+  const aad = Buffer.alloc(5);
+  aad.writeUInt32BE(index, 0);
+  aad[4] = final ? 1 : 0;
+  return { nonce, aad };
+}
+
+function encryptSegment(
+  dataKey: DataKey,
+  index: number,
+  final: boolean,
+  plaintext: Buffer,
+): Buffer {
+  const { nonce, aad } = segmentParams(index, final, dataKey);
+  const cipher = crypto.createCipheriv("aes-256-gcm", dataKey.key, nonce);
+  cipher.setAAD(aad);
+  return Buffer.concat([
+    cipher.update(plaintext),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+}
+
+function decryptSegment(
+  dataKey: DataKey,
+  index: number,
+  final: boolean,
+  segment: Buffer,
+): Buffer {
+  const { nonce, aad } = segmentParams(index, final, dataKey);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", dataKey.key, nonce);
+  decipher.setAAD(aad);
+  decipher.setAuthTag(segment.subarray(segment.length - TAG_SIZE));
+  return Buffer.concat([
+    decipher.update(segment.subarray(0, segment.length - TAG_SIZE)),
+    decipher.final(),
+  ]);
+}
+
+export function encryptBuffer(dataKey: DataKey, data: Buffer): Buffer {
+  const segments = countSegments(data.length);
+  const encrypted: Buffer[] = [];
+  for (let index = 0; index < segments; index++) {
+    encrypted.push(
+      encryptSegment(
+        dataKey,
+        index,
+        index === segments - 1,
+        data.subarray(index * SEGMENT_SIZE, (index + 1) * SEGMENT_SIZE),
+      ),
+    );
+  }
+  return Buffer.concat(encrypted);
+}
+
+export function createEncryptStream(dataKey: DataKey): Transform {
+  let pending = Buffer.alloc(0);
+  let index = 0;
+
+  // A full segment is only written once more input follows it, as the last
+  // segment is marked as such
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = Buffer.concat([pending, chunk]);
+      while (pending.length > SEGMENT_SIZE) {
+        const segment = pending.subarray(0, SEGMENT_SIZE);
+        this.push(encryptSegment(dataKey, index++, false, segment));
+        pending = pending.subarray(SEGMENT_SIZE);
+      }
+      callback();
+    },
+    flush(callback) {
+      this.push(encryptSegment(dataKey, index, true, pending));
+      callback();
+    },
+  });
+}
+
+// The stored bytes holding a plaintext range: whole segments from the one
+// the range starts in to the one it ends in
+export function getEncryptedRange(
+  size: number,
+  range?: ByteRange,
+): ByteRange {
+  const firstSegment = range ? Math.floor(range.start / SEGMENT_SIZE) : 0;
+  const lastSegment = range
+    ? Math.floor(range.end / SEGMENT_SIZE)
+    : countSegments(size) - 1;
+  const end = Math.min(
+    (lastSegment + 1) * CIPHER_SEGMENT_SIZE,
+    getEncryptedSize(size),
+  );
+  return { start: firstSegment * CIPHER_SEGMENT_SIZE, end: end - 1 };
+}
+
+// Decrypts the stored bytes given by getEncryptedRange, and passes on the
+// plaintext range. Fails the stream if any segment doesn't authenticate or
+// the input ends early.
+export function createDecryptStream(
+  dataKey: DataKey,
+  size: number,
+  range?: ByteRange,
+): Transform {
+  const totalSegments = countSegments(size);
+  const start = range?.start ?? 0;
+  const end = range?.end ?? size - 1;
+  const lastSegment = range
+    ? Math.floor(range.end / SEGMENT_SIZE)
+    : totalSegments - 1;
+  let index = range ? Math.floor(range.start / SEGMENT_SIZE) : 0;
+  let pending = Buffer.alloc(0);
+
+  const decryptNext = (segment: Buffer): Buffer => {
+    const plaintext = decryptSegment(
+      dataKey,
+      index,
+      index === totalSegments - 1,
+      segment,
+    );
+    const offset = index * SEGMENT_SIZE;
+    index++;
+    return plaintext.subarray(
+      Math.max(0, start - offset),
+      Math.max(0, end - offset + 1),
+    );
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = Buffer.concat([pending, chunk]);
+      try {
+        while (pending.length >= CIPHER_SEGMENT_SIZE && index <= lastSegment) {
+          this.push(decryptNext(pending.subarray(0, CIPHER_SEGMENT_SIZE)));
+          pending = pending.subarray(CIPHER_SEGMENT_SIZE);
+        }
+        callback();
+      } catch {
+        callback(new Error("Stored content failed to decrypt"));
+      }
+    },
+    flush(callback) {
+      try {
+        if (pending.length > 0 && index <= lastSegment) {
+          this.push(decryptNext(pending));
+        }
+        if (index !== lastSegment + 1) {
+          throw new Error("truncated");
+        }
+        callback();
+      } catch {
+        callback(new Error("Stored content failed to decrypt"));
+      }
+    },
+  });
+}
+
+// Thumbnails are encrypted with a key derived from the data key and their
+// filename, which is unique, so every derived key encrypts a single message
+function thumbnailKey(dataKey: DataKey, filename: string): Buffer {
+  return Buffer.from(
+    crypto.hkdfSync(
+      "sha256",
+      dataKey.key,
+      Buffer.alloc(0),
+      `thumbnail:${filename}`,
+      32,
+    ),
+  );
+}
+
+export function encryptThumbnail(
+  dataKey: DataKey,
+  filename: string,
+  data: Buffer,
+): Buffer {
+  const cipher = crypto.createCipheriv(
+    "aes-256-gcm",
+    thumbnailKey(dataKey, filename),
+    Buffer.alloc(12),
+  );
+  return Buffer.concat([
+    cipher.update(data),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+}
+
+export function decryptThumbnail(
+  dataKey: DataKey,
+  filename: string,
+  data: Buffer,
+): Buffer {
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    thumbnailKey(dataKey, filename),
+    Buffer.alloc(12),
+  );
+  decipher.setAuthTag(data.subarray(data.length - TAG_SIZE));
+  return Buffer.concat([
+    decipher.update(data.subarray(0, data.length - TAG_SIZE)),
+    decipher.final(),
+  ]);
+}
+
+// Cached image derivatives use a key derived from the data key with a random
+// nonce stored in front, as an evicted derivative may be rendered and
+// written again
+function derivativeKey(dataKey: DataKey): Buffer {
+  return Buffer.from(
+    crypto.hkdfSync("sha256", dataKey.key, Buffer.alloc(0), "derivative", 32),
+  );
+}
+
+export function encryptDerivative(dataKey: DataKey, data: Buffer): Buffer {
+  const nonce = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(
+    "aes-256-gcm",
+    derivativeKey(dataKey),
+    nonce,
+  );
+  return Buffer.concat([
+    nonce,
+    cipher.update(data),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+}
+
+export function decryptDerivative(dataKey: DataKey, data: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    derivativeKey(dataKey),
+    data.subarray(0, 12),
+  );
+  decipher.setAuthTag(data.subarray(data.length - TAG_SIZE));
+  return Buffer.concat([
+    decipher.update(data.subarray(12, data.length - TAG_SIZE)),
+    decipher.final(),
+  ]);
+}
+
+// Stored content
+
+// Write content, encrypted when a data key is given. Streams are encrypted
+// as they're written.
+export async function putContent(
+  storage: StorageAdapter,
+  key: string,
+  source: Buffer | Readable,
+  size: number,
+  dataKey?: DataKey,
+): Promise<void> {
+  if (Buffer.isBuffer(source)) {
+    await storage.put(key, dataKey ? encryptBuffer(dataKey, source) : source);
+  } else if (!dataKey) {
+    await storage.putStream(key, source, size);
+  } else {
+    const encrypted = pipeline(source, createEncryptStream(dataKey), () => {});
+    await storage.putStream(key, encrypted, getEncryptedSize(size));
+  }
+}
+
+// Open a stream over content's plaintext, optionally limited to a byte range
+export async function openContentStream(
+  content: StoredContent,
+  range?: ByteRange,
+): Promise<Readable> {
+  const storage = getStorageAdapter(content.storage_backend);
+  if (!content.encryption_key) {
+    return await storage.stream(content.upload_path, range);
+  }
+
+  const dataKey = openDataKey(content);
+  const stored = await storage.stream(
+    content.upload_path,
+    getEncryptedRange(content.size, range),
+  );
+  return pipeline(
+    stored,
+    createDecryptStream(dataKey, content.size, range),
+    () => {},
+  );
+}
+
+export async function readContent(content: StoredContent): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openContentStream(content)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Thumbnails are stored next to their content's backend under
+// thumb_<filename>, encrypted when the content is
+export async function putThumbnail(
+  content: StoredContent,
+  filename: string,
+  data: Buffer,
+): Promise<void> {
+  await getStorageAdapter(content.storage_backend).put(
+    `thumb_${filename}`,
+    content.encryption_key
+      ? encryptThumbnail(openDataKey(content), filename, data)
+      : data,
+  );
+}
+
+// A thumbnail's plaintext, or null when there is none
+export async function getThumbnail(
+  content: StoredContent,
+  filename: string,
+): Promise<Buffer | null> {
+  const storage = getStorageAdapter(content.storage_backend);
+  if (!(await storage.exists(`thumb_${filename}`))) {
+    return null;
+  }
+
+  const data = await storage.get(`thumb_${filename}`);
+  return content.encryption_key
+    ? decryptThumbnail(openDataKey(content), filename, data)
+    : data;
+}
@@ -0,0 +1,130 @@
+import type { File } from "./database";
+import { parseCsvRecord, readCsvRecords, readLines } from "./csv";
+
+// Metadata extracted from file contents when they're uploaded, stored as
+// JSON in the file_metadata column of files and their versions. Fields are
+// kept flat so listings can filter on them with json_extract.
+
+export interface ImageFileMetadata {
+  width: number; // as displayed, after the EXIF orientation
+  height: number;
+  format?: string;
+  channels?: number;
+  hasAlpha?: boolean;
+  dominantColor?: string; // #rrggbb
+}
+
+export interface CsvFileMetadata {
+  rows: number; // data rows, not counting the header
+  columns: number;
+  header: string[];
+}
+
+export interface MarkdownFileMetadata {
+  title: string | null; // the first heading
+  wordCount: number;
+}
+
+export type FileMetadata =
+  | ImageFileMetadata
+  | CsvFileMetadata
+  | MarkdownFileMetadata;
+
+// Header cells beyond the first 100 are counted but not kept, and header
+// cells and titles are cut to 256 characters
+const MAX_HEADER_COLUMNS = 100;
+const MAX_TEXT_LENGTH = 256;
+
+const WORD = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+async function extractCsvMetadata(
+  input: Buffer | string,
+): Promise<CsvFileMetadata> {
+  let header: string[] | null = null;
+  let rows = 0;
+  for await (const record of readCsvRecords(input)) {
+    if (header) {
+      rows++;
+    } else {
+      header = parseCsvRecord(record);
+    }
+  }
+
+  return {
+    rows,
+    columns: header?.length ?? 0,
+    header: (header ?? [])
+      .slice(0, MAX_HEADER_COLUMNS)
+      .map((cell) => cell.trim().slice(0, MAX_TEXT_LENGTH)),
+  };
+}
+
+// Words of prose, leaving out fenced code, link targets and HTML tags
+async function extractMarkdownMetadata(
+  input: Buffer | string,
+): Promise<MarkdownFileMetadata> {
+  let title: string | null = null;
+  let wordCount = 0;
+  let fence: string | null = null;
+  let previous = "";
+
+  for await (const line of readLines(input)) {
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1].startsWith(fence)) fence = null;
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    if (title === null) {
+      const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/);
+      if (heading) {
+        title = heading[1].trim() || null;
+      } else if (/^\s{0,3}(=+|-+)\s*$/.test(line) && previous.trim()) {
+        // A setext heading underlines the line before it
+        title = previous.trim();
+      }
+    }
+    previous = line;
+
+    const prose = line
+      .replace(/<[^>]*>/g, " ")
+      .replace(/\]\([^)]*\)/g, "] ");
+    wordCount += prose.match(WORD)?.length ?? 0;
+  }
+
+  return { title: title?.slice(0, MAX_TEXT_LENGTH) ?? null, wordCount };
+}
+
+// Metadata of CSV and markdown content; images get theirs while they're
+// processed. Null for other types.
+export async function extractTextMetadata(
+  input: Buffer | string,
+  mimeType: string,
+): Promise<FileMetadata | null> {
+  switch (mimeType) {
+    case "text/csv":
+      return await extractCsvMetadata(input);
+    case "text/markdown":
+      return await extractMarkdownMetadata(input);
+    default:
+      return null;
+  }
+}
+
+// A file's stored metadata, or null when it has none
+export function parseFileMetadata(
+  file: Pick<File, "file_metadata">,
+): FileMetadata | null {
+  if (!file.file_metadata) {
+    return null;
+  }
+  try {
+    return JSON.parse(file.file_metadata);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,451 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { File } from "./database";
+import {
+  claimFileDownload,
+  deleteUsedUpContent,
+  getFileETag,
+  onStreamDone,
+  openFileStream,
+} from "./file-utils";
+import { getScanBlock } from "./malware-scanning";
+import {
+  getImageDerivative,
+  getImageDerivativeETag,
+  ImageTransform,
+} from "./image-derivatives";
+import {
+  CsvPreviewOptions,
+  MAX_PREVIEW_SIZE,
+  renderFilePreview,
+} from "./preview";
+import type { ByteRange } from "./storage";
+
+const MAX_RANGES = 16;
+
+// Lets an SVG draw itself and its embedded images, and nothing else
+const SVG_CONTENT_SECURITY_POLICY =
+  "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox";
+
+export type ContentDisposition = "attachment" | "inline";
+
+// Run once a response is going to serve the file, e.g. to count a use of
+// the signed URL it was requested with. Returns why the request is refused,
+// which is answered with a 403, or null.
+export type AccessClaim = () => Promise<string | null>;
+
+async function refuseAccess(
+  claimAccess?: AccessClaim,
+): Promise<NextResponse | null> {
+  const error = claimAccess && (await claimAccess());
+  return error ? NextResponse.json({ error }, { status: 403 }) : null;
+}
+
+// SQLite's CURRENT_TIMESTAMP is UTC without a zone designator
+export function parseDatabaseTimestamp(value: string): Date {
+  if (/[zZ]|[+-]\d{2}:?\d{2}$/.test(value)) {
+    return new Date(value);
+  }
+  return new Date(value.replace(" ", "T") + "Z");
+}
+
+/**
+ * Parse a Range header against a resource size.
+ * Returns null when the header should be ignored (absent, malformed or
+ * abusive), or an empty array when no range is satisfiable. Ranges are
+ * sorted, and overlapping or adjacent ones coalesced, so no byte is sent
+ * twice.
+ */
+export function parseRangeHeader(
+  header: string | null,
+  size: number,
+): ByteRange[] | null {
+  if (!header) return null;
+
+  const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+  if (!match) return null;
+
+  const specs = match[1].split(",").map((spec) => spec.trim());
+  if (specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = spec.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (!parts || (parts[1] === "" && parts[2] === "")) return null;
+
+    if (parts[1] === "") {
+      // Suffix range: last N bytes
+      const length = parseInt(parts[2]);
+      if (length === 0 || size === 0) continue;
+      ranges.push({ start: Math.max(0, size - length), end: size - 1 });
+      continue;
+    }
+
+    const start = parseInt(parts[1]);
+    const end = parts[2] === "" ? Infinity : parseInt(parts[2]);
+    if (end < start) return null;
+    if (start >= size) continue;
+
+    ranges.push({ start, end: Math.min(end, size - 1) });
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const coalesced: ByteRange[] = [];
+  for (const range of ranges) {
+    const last = coalesced[coalesced.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      coalesced.push(range);
+    }
+  }
+  return coalesced;
+}
+
+function etagMatches(header: string, etag: string): boolean {
+  if (header.trim() === "*") return true;
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+  return header.split(",").some((tag) => opaque(tag) === opaque(etag));
+}
+
+// True when the client's cached copy is still current (RFC 9110 13.2.2)
+function isNotModified(
+  request: Request,
+  etag: string,
+  lastModified: Date,
+): boolean {
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    return etagMatches(ifNoneMatch, etag);
+  }
+
+  const ifModifiedSince = request.headers.get("if-modified-since");
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return (
+      !isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since
+    );
+  }
+
+  return false;
+}
+
+// If-Range only allows a partial response when the validator still matches
+function isRangeStillValid(
+  request: Request,
+  etag: string,
+  lastModified: Date,
+): boolean {
+  const ifRange = request.headers.get("if-range");
+  if (!ifRange) return true;
+
+  if (ifRange.trim().startsWith('"')) {
+    return ifRange.trim() === etag;
+  }
+
+  const date = Date.parse(ifRange);
+  return (
+    !isNaN(date) && Math.floor(lastModified.getTime() / 1000) * 1000 === date
+  );
+}
+
+function multipartByteranges(
+  file: File,
+  ranges: ByteRange[],
+  boundary: string,
+): { body: ReadableStream<Uint8Array>; length: number } {
+  const partHeader = (range: ByteRange, index: number) =>
+    Buffer.from(
+      `${index === 0 ? "" : "\r\n"}--${boundary}\r\n` +
+        `Content-Type: ${file.mime_type}\r\n` +
+        `Content-Range: bytes ${range.start}-${range.end}/${file.size}\r\n\r\n`,
+    );
+  const trailer = Buffer.from(`\r\n--${boundary}--\r\n`);
+
+  const length =
+    ranges.reduce(
+      (total, range, index) =>
+        total + partHeader(range, index).length + range.end - range.start + 1,
+      0,
+    ) + trailer.length;
+
+  const parts = async function* () {
+    for (let i = 0; i < ranges.length; i++) {
+      yield partHeader(ranges[i], i);
+      const reader = (await openFileStream(file, ranges[i])).getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield value;
+      }
+    }
+    yield trailer;
+  };
+
+  const iterator = parts();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(new Uint8Array(value));
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    },
+  });
+
+  return { body, length };
+}
+
+/**
+ * Build a download response for a file, honouring conditional requests
+ * (If-None-Match / If-Modified-Since) and byte ranges (Range / If-Range).
+ * Files that aren't clean by their malware scan are refused.
+ * Without a download limit, the download count only increases for
+ * responses that include the first byte, so resumed or seeking requests
+ * don't inflate it. With one, the file's or the one checked by
+ * `claimDownload` (flagged by `limited`), every response with a body counts,
+ * or repeated ranged requests could fetch the file without using it up.
+ * Counted responses are refused with a 410 once a limit is used up. The
+ * response that uses up the file's limit deletes its bytes once it has been
+ * sent. Downloads that don't count, such as an owner's of a previous
+ * version, pass `countDownload: false`. `claimAccess` runs for every
+ * response with a body, before the download is counted.
+ */
+export async function createFileResponse(
+  request: Request,
+  file: File,
+  disposition: ContentDisposition,
+  options: {
+    claimDownload?: () => Promise<boolean>;
+    limited?: boolean;
+    countDownload?: boolean;
+    claimAccess?: AccessClaim;
+  } = {},
+): Promise<NextResponse> {
+  // Content waiting for, or failing, its malware scan stays in quarantine
+  const blocked = getScanBlock(file);
+  if (blocked) {
+    return NextResponse.json(
+      { error: blocked.error, scanStatus: file.scan_status },
+      { status: blocked.status },
+    );
+  }
+
+  const etag = getFileETag(file);
+  const lastModified = parseDatabaseTimestamp(
+    file.updated_at || file.created_at,
+  );
+
+  const headers = new Headers({
+    ETag: etag,
+    "Last-Modified": lastModified.toUTCString(),
+    "Accept-Ranges": "bytes",
+  });
+
+  if (isNotModified(request, etag, lastModified)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  headers.set(
+    "Content-Disposition",
+    `${disposition}; filename="${encodeURIComponent(file.original_name)}"`,
+  );
+  // Uploaded SVGs are sanitized, but ones stored before that weren't, and
+  // an SVG opened directly is a document that could run scripts
+  if (file.mime_type === "image/svg+xml") {
+    headers.set("Content-Security-Policy", SVG_CONTENT_SECURITY_POLICY);
+  }
+
+  const ranges = isRangeStillValid(request, etag, lastModified)
+    ? parseRangeHeader(request.headers.get("range"), file.size)
+    : null;
+
+  if (ranges && ranges.length === 0) {
+    headers.set("Content-Range", `bytes */${file.size}`);
+    return new NextResponse(null, { status: 416, headers });
+  }
+
+  const refused = await refuseAccess(options.claimAccess);
+  if (refused) {
+    return refused;
+  }
+
+  let usedUp = false;
+  const limited = Boolean(file.max_downloads || options.limited);
+  if (
+    options.countDownload !== false &&
+    (limited || !ranges || ranges.some((range) => range.start === 0))
+  ) {
+    const claim =
+      !options.claimDownload || (await options.claimDownload())
+        ? await claimFileDownload(file)
+        : null;
+    if (!claim?.claimed) {
+      return NextResponse.json(
+        { error: "Download limit reached" },
+        { status: 410 },
+      );
+    }
+    usedUp = claim.usedUp;
+  }
+  const body = (stream: ReadableStream<Uint8Array>) =>
+    usedUp ? onStreamDone(stream, () => deleteUsedUpContent(file)) : stream;
+
+  if (!ranges) {
+    headers.set("Content-Type", file.mime_type);
+    headers.set("Content-Length", file.size.toString());
+    return new NextResponse(body(await openFileStream(file)), {
+      status: 200,
+      headers,
+    });
+  }
+
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    headers.set("Content-Type", file.mime_type);
+    headers.set("Content-Length", (range.end - range.start + 1).toString());
+    headers.set(
+      "Content-Range",
+      `bytes ${range.start}-${range.end}/${file.size}`,
+    );
+    return new NextResponse(body(await openFileStream(file, range)), {
+      status: 206,
+      headers,
+    });
+  }
+
+  const boundary = crypto.randomBytes(16).toString("hex");
+  const multipart = multipartByteranges(file, ranges, boundary);
+  headers.set("Content-Type", `multipart/byteranges; boundary=${boundary}`);
+  headers.set("Content-Length", multipart.length.toString());
+  return new NextResponse(body(multipart.body), { status: 206, headers });
+}
+
+/**
+ * Build a response with a rendition of an image file, taken from the
+ * derivative cache or rendered. Like downloads, renditions are refused while
+ * the file isn't clean by its malware scan, and count against its download
+ * limit unless the client's cached copy is still current. The rendition is
+ * made before access and the download are claimed, so failed renders don't
+ * use one up.
+ */
+export async function createImageDerivativeResponse(
+  request: Request,
+  file: File,
+  transform: ImageTransform,
+  claimAccess?: AccessClaim,
+): Promise<NextResponse> {
+  const blocked = getScanBlock(file);
+  if (blocked) {
+    return NextResponse.json(
+      { error: blocked.error, scanStatus: file.scan_status },
+      { status: blocked.status },
+    );
+  }
+
+  const etag = getImageDerivativeETag(file, transform);
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch && etagMatches(ifNoneMatch, etag)) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+  }
+
+  const derivative = await getImageDerivative(file, transform);
+
+  const refused = await refuseAccess(claimAccess);
+  if (refused) {
+    return refused;
+  }
+  const claim = await claimFileDownload(file);
+  if (!claim.claimed) {
+    return NextResponse.json(
+      { error: "Download limit reached" },
+      { status: 410 },
+    );
+  }
+  if (claim.usedUp) {
+    await deleteUsedUpContent(file);
+  }
+
+  const name = file.original_name.replace(/\.[^.]*$/, "");
+  return new NextResponse(new Uint8Array(derivative.data), {
+    status: 200,
+    headers: {
+      ETag: etag,
+      "Content-Type": derivative.mimeType,
+      "Content-Length": derivative.data.length.toString(),
+      "Content-Disposition": `inline; filename="${encodeURIComponent(`${name}.${transform.format}`)}"`,
+      "X-Image-Cache": derivative.cached ? "HIT" : "MISS",
+    },
+  });
+}
+
+/**
+ * Build a response with a preview of a file (see lib/preview.ts). Previews
+ * are refused while the file isn't clean by its malware scan, and count
+ * against its download limit, except for images, whose preview points at
+ * `imageUrl` and counts when the image itself is fetched; `claimAccess` is
+ * left to that fetch too. The preview is rendered before access and the
+ * download are claimed, so invalid requests don't use one up.
+ */
+export async function createPreviewResponse(
+  file: File,
+  options: CsvPreviewOptions,
+  imageUrl: string,
+  claimAccess?: AccessClaim,
+): Promise<NextResponse> {
+  const blocked = getScanBlock(file);
+  if (blocked) {
+    return NextResponse.json(
+      { error: blocked.error, scanStatus: file.scan_status },
+      { status: blocked.status },
+    );
+  }
+
+  const file_ = { name: file.original_name, mimeType: file.mime_type };
+  if (file.mime_type.startsWith("image/")) {
+    const preview = await renderFilePreview(file, options);
+    return NextResponse.json({
+      success: true,
+      file: file_,
+      preview: { ...preview, url: imageUrl },
+    });
+  }
+
+  if (file.size > MAX_PREVIEW_SIZE) {
+    return NextResponse.json(
+      { error: "File is too large to preview" },
+      { status: 413 },
+    );
+  }
+
+  let preview;
+  try {
+    preview = await renderFilePreview(file, options);
+  } catch (error: any) {
+    if (error.message.startsWith("Invalid")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const refused = await refuseAccess(claimAccess);
+  if (refused) {
+    return refused;
+  }
+  const claim = await claimFileDownload(file);
+  if (!claim.claimed) {
+    return NextResponse.json(
+      { error: "Download limit reached" },
+      { status: 410 },
+    );
+  }
+  if (claim.usedUp) {
+    await deleteUsedUpContent(file);
+  }
+
+  return NextResponse.json({ success: true, file: file_, preview });
+}
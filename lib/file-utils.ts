@@ -1,39 +1,87 @@
+import crypto from "crypto";
 import fs from "fs";
+import os from "os";
 import path from "path";
+import { Readable } from "stream";
 import { v4 as uuidv4 } from "uuid";
 import mime from "mime-types";
 import sharp from "sharp";
-import { database, File } from "./database";
+import {
+  database,
+  File,
+  FileContent,
+  ScanStatus,
+  StoredBlob,
+} from "./database";
 import { generateSecureToken } from "./auth";
-
-const UPLOAD_DIR = path.join(process.cwd(), "uploads");
-const MAX_FILE_SIZE = 2 * 1024 * 1024; // 2MB
-const ALLOWED_FILE_TYPES = [
-  // Images
-  "image/jpeg",
-  "image/jpg",
-  "image/png",
-  "image/gif",
-  "image/svg+xml",
-  // Documents
-  "text/plain",
-  "text/markdown",
-  "text/csv",
-];
-
-// Ensure upload directory exists
-if (!fs.existsSync(UPLOAD_DIR)) {
-  fs.mkdirSync(UPLOAD_DIR, { recursive: true });
-}
+import { logFileAccess } from "./secure-access";
+import { getStorageAdapter, ByteRange } from "./storage";
+import {
+  generateDataKey,
+  isEncryptionEnabled,
+  openContentStream,
+  openDataKey,
+  putContent,
+  putThumbnail,
+} from "./encryption";
+import { normalizeTags, tryIndexFile } from "./search";
+import {
+  isContentOfType,
+  sanitizeSvg,
+  sniffMimeType,
+  SNIFF_LENGTH,
+} from "./content-sniffing";
+import {
+  getScanBlock,
+  isScanningEnabled,
+  queueScan,
+  QUARANTINE_PREFIX,
+} from "./malware-scanning";
+import {
+  E2E_MAX_OVERHEAD,
+  E2E_MIN_OVERHEAD,
+  ENCRYPTED_MIME_TYPE,
+  isVaultPayload,
+} from "./e2e-encryption";
+import { invalidateImageDerivatives } from "./image-derivatives";
+import {
+  ImageMetadataSummary,
+  METADATA_MIME_TYPES,
+  summarizeImageMetadata,
+} from "./image-metadata";
+import {
+  extractTextMetadata,
+  FileMetadata,
+  ImageFileMetadata,
+} from "./file-metadata";
+
+import {
+  getUploadPolicy,
+  getUploadUsage,
+  resolveExpiry,
+  DEFAULT_UPLOAD_POLICY,
+  MAX_FILE_SIZE,
+  UploadPolicy,
+} from "./upload-policies";
+
+const MAX_FIELD_SIZE = 64 * 1024; // 64KB for non-file form fields
+export const TEMP_UPLOAD_DIR = path.join(os.tmpdir(), "snapvault-uploads");
 
 export interface FileUploadOptions {
   userId: string;
   originalName: string;
-  buffer: Buffer;
+  // Provide either an in-memory buffer or the path of a spooled upload
+  buffer?: Buffer;
+  filePath?: string;
   mimeType: string;
   description?: string;
   isPublic?: boolean;
   expiresIn?: number; // hours
+  maxDownloads?: number; // see parseMaxDownloads; unlimited when unset
+  folderId?: string; // must belong to the user; the top level when unset
+  tags?: string[];
+  clientEncrypted?: boolean; // ciphertext from the browser's vault mode
+  keepMetadata?: boolean; // keep an image's EXIF/XMP/IPTC/GPS and orientation
 }
 
 export interface FileUploadResult {
@@ -42,35 +90,62 @@ export interface FileUploadResult {
   originalName: string;
   size: number;
   mimeType: string;
+  contentHash: string; // SHA-256 hex, for client-side integrity checks
   accessToken: string;
   expiresAt?: Date;
+  maxDownloads?: number;
+  folderId?: string;
+  tags: string[];
+  clientEncrypted: boolean;
+  detectedMimeType?: string; // sniffed from the content; unset if encrypted
+  scanStatus?: ScanStatus; // unset when malware scanning is off
+  imageMetadata?: ImageMetadataSummary; // unset unless an image had any
   url: string;
 }
 
+// Stored content, and the metadata found in it on the way
+export interface StoredFileContent {
+  content: FileContent;
+  privacy?: ImageMetadataSummary;
+}
+
 export interface FileValidationResult {
   isValid: boolean;
   error?: string;
   warnings?: string[];
 }
 
-// File validation
+// File validation against the uploading user's policy. End-to-end
+// encrypted payloads can't be inspected, so only their size is checked,
+// allowing for what encryption adds.
 export function validateFile(
-  buffer: Buffer,
+  size: number,
   mimeType: string,
   originalName: string,
+  clientEncrypted = false,
+  policy: UploadPolicy = DEFAULT_UPLOAD_POLICY,
 ): FileValidationResult {
   const warnings: string[] = [];
 
   // Check file size
-  if (buffer.length > MAX_FILE_SIZE) {
+  const maxSize = clientEncrypted
+    ? policy.maxFileSize + E2E_MAX_OVERHEAD
+    : policy.maxFileSize;
+  if (size > maxSize) {
     return {
       isValid: false,
-      error: `File size exceeds maximum allowed size of ${formatFileSize(MAX_FILE_SIZE)}`,
+      error: `File size exceeds maximum allowed size of ${formatFileSize(policy.maxFileSize)}`,
     };
   }
 
+  if (clientEncrypted) {
+    return size < E2E_MIN_OVERHEAD
+      ? { isValid: false, error: "Encrypted payload is too small" }
+      : { isValid: true };
+  }
+
   // Check file type
-  if (!ALLOWED_FILE_TYPES.includes(mimeType)) {
+  if (!policy.allowedMimeTypes.includes(mimeType)) {
     return {
       isValid: false,
       error: `File type ${mimeType} is not allowed`,
@@ -108,6 +183,42 @@ export function validateFile(
   };
 }
 
+// Throws when storing `size` more bytes, in `files` new files, would take a
+// user over their quota. Previous versions count towards storage too.
+//
+// This is an early check, before the content is stored; concurrent uploads
+// can all pass it, so the statement recording the file checks again.
+export async function checkQuota(
+  userId: string,
+  policy: UploadPolicy,
+  size: number,
+  files: number,
+): Promise<void> {
+  if (policy.storageQuota === null && policy.maxFileCount === null) {
+    return;
+  }
+
+  const usage = await getUploadUsage(userId);
+  if (
+    policy.maxFileCount !== null &&
+    files > 0 &&
+    usage.fileCount + files > policy.maxFileCount
+  ) {
+    throw new Error(
+      `File quota exceeded: your plan allows ${policy.maxFileCount} files`,
+    );
+  }
+  if (
+    policy.storageQuota !== null &&
+    usage.storageUsed + size > policy.storageQuota
+  ) {
+    const left = Math.max(policy.storageQuota - usage.storageUsed, 0);
+    throw new Error(
+      `Storage quota exceeded: ${formatFileSize(left)} left of your plan's ${formatFileSize(policy.storageQuota)}`,
+    );
+  }
+}
+
 // Generate unique filename
 export function generateUniqueFilename(originalName: string): string {
   const extension = path.extname(originalName);
@@ -123,37 +234,54 @@ export function generateUniqueFilename(originalName: string): string {
   return `${timestamp}_${uuid}_${sanitizedBaseName}${extension}`;
 }
 
-// Process image files (generate thumbnails, optimize)
+// Process image files (strip metadata, generate thumbnails, optimize). The
+// input may be a buffer or a file path; `processed` is only set when the
+// image was re-encoded. Photos lose their EXIF, XMP, IPTC and GPS metadata
+// and are turned upright unless `keepMetadata` is set; `privacy` says what
+// was found.
 export async function processImage(
-  buffer: Buffer,
+  input: Buffer | string,
   mimeType: string,
+  size: number,
+  keepMetadata = false,
 ): Promise<{
-  processed: Buffer;
+  processed?: Buffer;
   thumbnail?: Buffer;
-  metadata: any;
+  privacy?: ImageMetadataSummary;
+  metadata?: ImageFileMetadata;
 }> {
   if (!mimeType.startsWith("image/")) {
-    return { processed: buffer, metadata: {} };
+    return {};
   }
 
   try {
-    const image = sharp(buffer);
+    const image = sharp(input);
     const metadata = await image.metadata();
+    const privacy = METADATA_MIME_TYPES.includes(mimeType)
+      ? summarizeImageMetadata(metadata, !keepMetadata)
+      : null;
+
+    // Re-encode to drop metadata, or to optimize large images (reducing
+    // their quality), keeping the metadata when asked to. The colour profile
+    // isn't private, so it stays either way.
+    let output: sharp.Sharp | undefined;
+    const large = size > 2 * 1024 * 1024; // 2MB threshold
+    if (privacy?.stripped) {
+      output = image.clone().rotate().keepIccProfile();
+    } else if (large) {
+      output = keepMetadata ? image.clone().withMetadata() : image.clone();
+    }
 
-    // Optimize image (reduce quality for large images)
-    let processed = buffer;
-    if (buffer.length > 2 * 1024 * 1024) {
-      // 2MB threshold
-      if (mimeType === "image/jpeg") {
-        processed = await image
-          .jpeg({ quality: 85, progressive: true })
-          .toBuffer();
-      } else if (mimeType === "image/png") {
-        processed = await image.png({ compressionLevel: 8 }).toBuffer();
-      }
+    let processed: Buffer | undefined;
+    if (output && (mimeType === "image/jpeg" || mimeType === "image/jpg")) {
+      processed = await output
+        .jpeg({ quality: large ? 85 : 92, progressive: large })
+        .toBuffer();
+    } else if (output && mimeType === "image/png") {
+      processed = await output.png({ compressionLevel: 8 }).toBuffer();
     }
 
-    // Generate thumbnail for images
+    // Generate thumbnail for images, upright
     let thumbnail: Buffer | undefined;
     if (
       metadata.width &&
@@ -161,123 +289,387 @@ export async function processImage(
       (metadata.width > 300 || metadata.height > 300)
     ) {
       thumbnail = await image
+        .clone()
+        .rotate()
         .resize(300, 300, { fit: "inside", withoutEnlargement: true })
         .jpeg({ quality: 80 })
         .toBuffer();
     }
 
+    // Dimensions as displayed; orientations 5 to 8 turn the image sideways
+    const sideways = (metadata.orientation ?? 1) >= 5;
+    const stats = await image.stats().catch(() => null);
+    const dominant = stats?.dominant;
+
     return {
       processed,
       thumbnail,
-      metadata: {
-        width: metadata.width,
-        height: metadata.height,
-        format: metadata.format,
-        channels: metadata.channels,
-        hasAlpha: metadata.hasAlpha,
-      },
+      privacy: privacy ?? undefined,
+      metadata:
+        metadata.width && metadata.height
+          ? {
+              width: sideways ? metadata.height : metadata.width,
+              height: sideways ? metadata.width : metadata.height,
+              format: metadata.format,
+              channels: metadata.channels,
+              hasAlpha: metadata.hasAlpha,
+              ...(dominant && {
+                dominantColor: `#${[dominant.r, dominant.g, dominant.b]
+                  .map((value) => value.toString(16).padStart(2, "0"))
+                  .join("")}`,
+              }),
+            }
+          : undefined,
     };
   } catch (error) {
     console.error("Image processing error:", error);
-    return { processed: buffer, metadata: {} };
+    return {};
   }
 }
 
-// Upload file
-export async function uploadFile(
-  options: FileUploadOptions,
-): Promise<FileUploadResult> {
+// Validate, process and store uploaded bytes. Returns the columns describing
+// the stored content, shared by new files and new versions of existing ones.
+// The declared type is only trusted when the content's leading bytes agree
+// with it, and SVGs are sanitized. End-to-end encrypted content is stored as
+// it comes, without sniffing, processing or malware scanning. With `quota`,
+// the bytes are only stored if they fit in the user's quota. Images are
+// stored without their metadata unless `keepMetadata` is set.
+export async function storeFileContent(
+  options: Pick<
+    FileUploadOptions,
+    | "originalName"
+    | "buffer"
+    | "filePath"
+    | "mimeType"
+    | "clientEncrypted"
+    | "keepMetadata"
+  >,
+  policy: UploadPolicy = DEFAULT_UPLOAD_POLICY,
+  quota?: { userId: string; files: number },
+): Promise<StoredFileContent> {
   const {
-    userId,
     originalName,
     buffer,
-    mimeType,
-    description,
-    isPublic = false,
-    expiresIn,
+    filePath,
+    clientEncrypted = false,
+    keepMetadata = false,
   } = options;
+  const mimeType = clientEncrypted ? ENCRYPTED_MIME_TYPE : options.mimeType;
+
+  const input = buffer ?? filePath;
+  if (input === undefined) {
+    throw new Error("Either buffer or filePath is required");
+  }
+  const inputSize = buffer
+    ? buffer.length
+    : (await fs.promises.stat(filePath!)).size;
 
   // Validate file
-  const validation = validateFile(buffer, mimeType, originalName);
+  const validation = validateFile(
+    inputSize,
+    mimeType,
+    originalName,
+    clientEncrypted,
+    policy,
+  );
   if (!validation.isValid) {
     throw new Error(validation.error || "File validation failed");
   }
+  if (quota) {
+    await checkQuota(quota.userId, policy, inputSize, quota.files);
+  }
+  let detectedMimeType: string | undefined;
+  if (clientEncrypted) {
+    const head = await readHead(input, E2E_MIN_OVERHEAD);
+    if (!isVaultPayload(head)) {
+      throw new Error("Encrypted payload is not in the vault format");
+    }
+  } else {
+    detectedMimeType = sniffMimeType(await readHead(input, SNIFF_LENGTH));
+    if (!isContentOfType(mimeType, detectedMimeType)) {
+      throw new Error(
+        `File content doesn't match its type ${mimeType} (detected ${detectedMimeType})`,
+      );
+    }
+  }
 
-  // Generate unique filename and paths
+  // Generate unique filename
   const filename = generateUniqueFilename(originalName);
-  const filePath = path.join(UPLOAD_DIR, filename);
-  const fileId = uuidv4();
-  const accessToken = generateSecureToken();
 
-  // Process file if it's an image
-  let processedBuffer = buffer;
+  // Process file if it's an image. SVGs are sanitized first, so nothing
+  // they reference is fetched while rendering their thumbnail.
+  let processedBuffer: Buffer | undefined;
   let thumbnailBuffer: Buffer | undefined;
-
-  if (mimeType.startsWith("image/")) {
-    const processed = await processImage(buffer, mimeType);
-    processedBuffer = processed.processed;
+  let privacy: ImageMetadataSummary | undefined;
+  let fileMetadata: FileMetadata | null | undefined;
+
+  if (detectedMimeType === "image/svg+xml") {
+    const svg = (buffer ?? (await fs.promises.readFile(filePath!))).toString();
+    const sanitized = sanitizeSvg(svg);
+    if (sanitized !== svg) {
+      processedBuffer = Buffer.from(sanitized);
+    }
+  }
+  if (!clientEncrypted && mimeType.startsWith("image/")) {
+    const processed = await processImage(
+      processedBuffer ?? input,
+      mimeType,
+      processedBuffer?.length ?? inputSize,
+      keepMetadata,
+    );
+    processedBuffer = processed.processed ?? processedBuffer;
     thumbnailBuffer = processed.thumbnail;
+    privacy = processed.privacy;
+    fileMetadata = processed.metadata;
+  } else if (!clientEncrypted) {
+    fileMetadata = await extractTextMetadata(input, mimeType).catch(
+      (error) => {
+        console.error("Failed to extract file metadata:", error);
+        return null;
+      },
+    );
   }
 
-  // Save main file
-  await fs.promises.writeFile(filePath, processedBuffer);
+  // Store the bytes once per distinct content
+  const data = processedBuffer || buffer;
+  const contentHash = data
+    ? crypto.createHash("sha256").update(data).digest("hex")
+    : await hashFile(filePath!);
+  const storedSize = data ? data.length : inputSize;
+  const blob = await storeBlob(contentHash, data ?? filePath!, storedSize, {
+    quarantine: !clientEncrypted,
+  });
+
+  const content: FileContent = {
+    filename,
+    original_name: originalName,
+    mime_type: mimeType,
+    size: storedSize,
+    upload_path: blob.storage_key,
+    storage_backend: blob.storage_backend,
+    content_hash: contentHash,
+    blob_hash: blob.hash,
+    encryption_key: blob.encryption_key,
+    encryption_nonce: blob.encryption_nonce,
+    client_encrypted: clientEncrypted,
+    detected_mime_type: detectedMimeType,
+    // Files wait for their blob's scan even when it's done, so its result
+    // is applied, and reported, for them too. Content others already stored
+    // starts out pending like new content, or uploads would tell whether
+    // someone else has the same file.
+    scan_status: blob.scan_status ? "pending" : blob.scan_status,
+    file_metadata: fileMetadata ? JSON.stringify(fileMetadata) : undefined,
+  };
 
   // Save thumbnail if generated
-  let thumbnailPath: string | undefined;
   if (thumbnailBuffer) {
-    const thumbnailFilename = `thumb_${filename}`;
-    thumbnailPath = path.join(UPLOAD_DIR, thumbnailFilename);
-    await fs.promises.writeFile(thumbnailPath, thumbnailBuffer);
+    await putThumbnail(content, filename, thumbnailBuffer);
   }
 
+  return { content, privacy };
+}
+
+// Upload file
+export async function uploadFile(
+  options: FileUploadOptions,
+): Promise<FileUploadResult> {
+  const {
+    userId,
+    description,
+    isPublic = false,
+    expiresIn,
+    maxDownloads,
+    folderId,
+  } = options;
+  const tags = normalizeTags(options.tags || []);
+
+  const policy = await getUploadPolicy(userId);
+  const expiryHours = resolveExpiry(policy, expiresIn);
+  const { content, privacy } = await storeFileContent(options, policy, {
+    userId,
+    files: 1,
+  });
+  const fileId = uuidv4();
+  const accessToken = generateSecureToken();
+
   // Calculate expiration date
   let expiresAt: string | undefined;
-  if (expiresIn && expiresIn > 0) {
-    const expiry = new Date(Date.now() + expiresIn * 60 * 60 * 1000);
+  if (expiryHours) {
+    const expiry = new Date(Date.now() + expiryHours * 60 * 60 * 1000);
     expiresAt = expiry.toISOString();
   }
 
-  // Create database record
-  const fileRecord: Omit<File, "created_at" | "download_count"> = {
-    id: fileId,
-    user_id: userId,
-    filename,
-    original_name: originalName,
-    mime_type: mimeType,
-    size: processedBuffer.length,
-    upload_path: filePath,
-    access_token: accessToken,
-    expires_at: expiresAt,
-    is_public: isPublic,
-    description,
-  };
+  // Create database record, unless other uploads used up the quota since
+  // it was checked
+  const created = await database.createFile(
+    {
+      id: fileId,
+      user_id: userId,
+      ...content,
+      access_token: accessToken,
+      expires_at: expiresAt,
+      is_public: isPublic,
+      description,
+      folder_id: folderId,
+      max_downloads: maxDownloads,
+    },
+    policy,
+  );
+  if (!created) {
+    await deleteStoredObjects(content);
+    await checkQuota(userId, policy, content.size, 1);
+    throw new Error("Storage quota exceeded");
+  }
 
-  await database.createFile(fileRecord);
+  if (tags.length > 0) {
+    await database.setFileTags(fileId, tags);
+  }
+  await tryIndexFile((await database.getFileById(fileId))!);
+  await logMetadataRemoval(fileId, userId, privacy);
+
+  // Scan in the background; the file is held in quarantine meanwhile
+  if (content.scan_status === "pending") {
+    queueScan(content.blob_hash!);
+  }
 
   return {
     id: fileId,
-    filename,
-    originalName,
-    size: processedBuffer.length,
-    mimeType,
+    filename: content.filename,
+    originalName: content.original_name,
+    size: content.size,
+    mimeType: content.mime_type,
+    contentHash: content.content_hash!,
     accessToken,
     expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    maxDownloads,
+    folderId,
+    tags,
+    clientEncrypted: !!content.client_encrypted,
+    detectedMimeType: content.detected_mime_type,
+    scanStatus: content.scan_status,
+    imageMetadata: privacy,
     url: `/api/files/${accessToken}`,
   };
 }
 
+// Record which kinds of metadata and fields were stripped from an upload
+// in the file's access log, without their values
+export async function logMetadataRemoval(
+  fileId: string,
+  userId: string,
+  privacy?: ImageMetadataSummary,
+): Promise<void> {
+  if (!privacy?.stripped) {
+    return;
+  }
+  await logFileAccess({
+    file_id: fileId,
+    user_id: userId,
+    action: "metadata_stripped",
+    success: true,
+    details: JSON.stringify({
+      kinds: privacy.kinds,
+      fields: privacy.fields,
+      orientation: privacy.orientation,
+    }),
+  });
+}
+
+// Content-addressed storage key, fanned out so no directory grows too large
+function getBlobKey(hash: string): string {
+  return `blobs/${hash.substring(0, 2)}/${hash}`;
+}
+
+// Store content under its SHA-256 hash, reusing the existing blob when the
+// same bytes were uploaded before. The blob's reference count is raised when
+// a file row pointing at it is inserted; until then the claim taken here
+// keeps releaseBlob from deleting it.
+//
+// New blobs are stored under a suffixed key, so neither concurrent uploads
+// of the same bytes nor a release of the blob they replace can overwrite or
+// delete them; the first one recorded is kept. They're encrypted with their
+// own data key, and with malware scanning on, put in quarantine until their
+// scan finds them clean, unless `quarantine` is false.
+export async function storeBlob(
+  hash: string,
+  source: Buffer | string,
+  size: number,
+  options: { quarantine?: boolean } = {},
+): Promise<StoredBlob> {
+  const existing = await database.claimBlob(hash);
+  if (
+    existing &&
+    (await getStorageAdapter(existing.storage_backend).exists(
+      existing.storage_key,
+    ))
+  ) {
+    return existing;
+  }
+
+  const storage = existing
+    ? getStorageAdapter(existing.storage_backend)
+    : getStorageAdapter();
+
+  // A blob whose object went missing is stored again as it was
+  const generated =
+    !existing && isEncryptionEnabled() ? generateDataKey() : null;
+  const encryption = generated?.encryption ?? {
+    encryption_key: existing?.encryption_key,
+    encryption_nonce: existing?.encryption_nonce,
+  };
+  const dataKey =
+    generated?.dataKey ??
+    (encryption.encryption_key ? openDataKey(encryption) : undefined);
+  const scanned =
+    !existing && options.quarantine !== false && isScanningEnabled();
+  const suffix = crypto.randomBytes(4).toString("hex");
+  const blobKey = `${getBlobKey(hash)}.${suffix}`;
+  const key =
+    existing?.storage_key ??
+    (scanned ? `${QUARANTINE_PREFIX}${blobKey}` : blobKey);
+
+  await putContent(
+    storage,
+    key,
+    Buffer.isBuffer(source) ? source : fs.createReadStream(source),
+    size,
+    dataKey,
+  );
+
+  await database.createBlob({
+    hash,
+    storage_backend: storage.backend,
+    storage_key: key,
+    size,
+    ...encryption,
+    scan_status: scanned ? "pending" : undefined,
+  });
+
+  const blob = (await database.getBlob(hash))!;
+  if (blob.storage_key !== key) {
+    await storage.delete(key);
+  }
+  return blob;
+}
+
+// Delete a blob's bytes once no file references or has claimed it
+export async function releaseBlob(hash: string): Promise<void> {
+  const blob = await database.getBlob(hash);
+  if (blob && (await database.deleteUnreferencedBlob(hash))) {
+    await getStorageAdapter(blob.storage_backend).delete(blob.storage_key);
+  }
+}
+
 // Get file info
 export async function getFileInfo(accessToken: string): Promise<File | null> {
   return await database.getFileByAccessToken(accessToken);
 }
 
-// Download file
-export async function downloadFile(accessToken: string): Promise<{
-  buffer: Buffer;
-  filename: string;
-  mimeType: string;
-  size: number;
-} | null> {
+// Look up a file for download, deleting it if it has expired. Returns null
+// when the file is unknown, expired or missing from its storage backend.
+export async function getDownloadableFile(
+  accessToken: string,
+): Promise<File | null> {
   const fileRecord = await database.getFileByAccessToken(accessToken);
 
   if (!fileRecord) {
@@ -294,20 +686,140 @@ export async function downloadFile(accessToken: string): Promise<{
     }
   }
 
-  // Check if file exists on disk
-  if (!fs.existsSync(fileRecord.upload_path)) {
-    console.error(`File not found on disk: ${fileRecord.upload_path}`);
+  // Check if file exists in its storage backend
+  const storage = getStorageAdapter(fileRecord.storage_backend);
+  if (!(await storage.exists(fileRecord.upload_path))) {
+    console.error(
+      `File not found in ${storage.backend} storage: ${fileRecord.upload_path}`,
+    );
+    return null;
+  }
+
+  // Files uploaded before content hashing get their hash computed once
+  if (!fileRecord.content_hash) {
+    const hash = crypto.createHash("sha256");
+    for await (const chunk of await openContentStream(fileRecord)) {
+      hash.update(chunk);
+    }
+    fileRecord.content_hash = hash.digest("hex");
+    await database.updateFileContentHash(
+      fileRecord.id,
+      fileRecord.content_hash,
+    );
+  }
+
+  return fileRecord;
+}
+
+// Open a web stream over a file's bytes, optionally limited to a byte range.
+// Encrypted content is decrypted as it's read.
+export async function openFileStream(
+  file: File,
+  range?: ByteRange,
+): Promise<ReadableStream<Uint8Array>> {
+  return toWebStream(await openContentStream(file, range));
+}
+
+// Strong ETag derived from the content hash
+export function getFileETag(file: File): string {
+  return `"${file.content_hash}"`;
+}
+
+// The download limit of an upload, from its form or metadata fields. Burn
+// after reading allows a single download.
+export function parseMaxDownloads(
+  maxDownloads?: string,
+  burnAfterReading?: string,
+): number | undefined {
+  if (burnAfterReading === "true") {
+    return 1;
+  }
+  if (!maxDownloads) {
+    return undefined;
+  }
+  const limit = Number(maxDownloads);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("Invalid maxDownloads: must be a positive whole number");
+  }
+  return limit;
+}
+
+export function isDownloadLimitReached(file: File): boolean {
+  return (
+    file.max_downloads !== null &&
+    file.max_downloads !== undefined &&
+    file.download_count >= file.max_downloads
+  );
+}
+
+// Count a download against the file's limit. Returns false, without
+// counting, once the limit is used up. `usedUp` is set for the download
+// that takes the last one, whose bytes should be deleted once it is served.
+export async function claimFileDownload(
+  file: File,
+): Promise<{ claimed: boolean; usedUp: boolean }> {
+  const claim = await database.claimFileDownload(file.id);
+  if (!claim) {
+    return { claimed: false, usedUp: false };
+  }
+  return {
+    claimed: true,
+    usedUp:
+      claim.max_downloads !== null &&
+      claim.max_downloads !== undefined &&
+      claim.download_count >= claim.max_downloads,
+  };
+}
+
+// Delete the stored bytes and previous versions of a file whose download
+// limit is used up. The record is kept, so requests for it can be told the
+// limit was reached rather than that the file doesn't exist.
+export async function deleteUsedUpContent(file: File): Promise<void> {
+  try {
+    const versions = await database.getFileVersions(file.id);
+
+    await database.markFileContentDeleted(file.id);
+
+    await deleteStoredObjects(file);
+    await invalidateImageDerivatives(file.id);
+    for (const version of versions) {
+      await deleteStoredObjects(version);
+    }
+  } catch (error) {
+    console.error("Error deleting used up file content:", error);
+  }
+}
+
+// Download file. The body is returned as a web stream so route handlers can
+// pass it straight to the response without buffering. Returns null when the
+// file's download limit is used up or it's held in quarantine; the last
+// allowed download deletes the bytes once the stream has been read.
+export async function downloadFile(accessToken: string): Promise<{
+  stream: ReadableStream<Uint8Array>;
+  filename: string;
+  mimeType: string;
+  size: number;
+} | null> {
+  const fileRecord = await getDownloadableFile(accessToken);
+
+  if (!fileRecord || getScanBlock(fileRecord)) {
     return null;
   }
 
-  // Read file
-  const buffer = await fs.promises.readFile(fileRecord.upload_path);
+  // Count the download, refusing it when the limit is used up
+  const claim = await claimFileDownload(fileRecord);
+  if (!claim.claimed) {
+    return null;
+  }
 
-  // Increment download count
-  await database.incrementDownloadCount(fileRecord.id);
+  // Open file stream
+  let stream = await openFileStream(fileRecord);
+  if (claim.usedUp) {
+    stream = onStreamDone(stream, () => deleteUsedUpContent(fileRecord));
+  }
 
   return {
-    buffer,
+    stream,
     filename: fileRecord.original_name,
     mimeType: fileRecord.mime_type,
     size: fileRecord.size,
@@ -322,22 +834,7 @@ export async function deleteFile(fileId: string): Promise<boolean> {
       return false;
     }
 
-    // Delete file from disk
-    if (fs.existsSync(fileRecord.upload_path)) {
-      await fs.promises.unlink(fileRecord.upload_path);
-    }
-
-    // Delete thumbnail if exists
-    const thumbnailPath = path.join(
-      path.dirname(fileRecord.upload_path),
-      `thumb_${fileRecord.filename}`,
-    );
-    if (fs.existsSync(thumbnailPath)) {
-      await fs.promises.unlink(thumbnailPath);
-    }
-
-    // Delete from database
-    await database.deleteFile(fileId);
+    await deleteFileAndObjects(fileRecord);
 
     return true;
   } catch (error) {
@@ -346,6 +843,47 @@ export async function deleteFile(fileId: string): Promise<boolean> {
   }
 }
 
+// Delete a file's record and previous versions, then their stored bytes and
+// cached derivatives. The database goes first so blob references are
+// released.
+async function deleteFileAndObjects(file: File): Promise<void> {
+  const versions = await database.getFileVersions(file.id);
+
+  await database.deleteFile(file.id);
+
+  await deleteStoredObjects(file);
+  await invalidateImageDerivatives(file.id);
+  for (const version of versions) {
+    await deleteStoredObjects(version);
+  }
+}
+
+// Remove deleted content and its thumbnail from whichever backend holds it.
+// Shared blobs are only removed with their last reference.
+export async function deleteStoredObjects(
+  content: Pick<
+    File,
+    "filename" | "upload_path" | "storage_backend" | "blob_hash"
+  >,
+): Promise<void> {
+  const storage = getStorageAdapter(content.storage_backend);
+
+  if (content.blob_hash) {
+    await releaseBlob(content.blob_hash);
+    await storage.delete(`thumb_${content.filename}`);
+    return;
+  }
+
+  await storage.delete(content.upload_path);
+
+  // Legacy thumbnails live next to the main object
+  const thumbnailKey = path.join(
+    path.dirname(content.upload_path),
+    `thumb_${content.filename}`,
+  );
+  await storage.delete(thumbnailKey);
+}
+
 // Get user files
 export async function getUserFiles(
   userId: string,
@@ -355,36 +893,62 @@ export async function getUserFiles(
   return await database.getFilesByUserId(userId, limit, offset);
 }
 
-// Clean up expired files
+// Run a callback once a stream has been read to the end, has failed or
+// has been cancelled by its reader
+export function onStreamDone(
+  stream: ReadableStream<Uint8Array>,
+  callback: () => void | Promise<void>,
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  let done = false;
+  const finish = () => {
+    if (!done) {
+      done = true;
+      void callback();
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const result = await reader.read();
+        if (result.done) {
+          controller.close();
+          finish();
+        } else {
+          controller.enqueue(result.value);
+        }
+      } catch (error) {
+        controller.error(error);
+        finish();
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+      finish();
+    },
+  });
+}
+
+// Clean up expired files, and the bytes of used-up files whose deletion
+// didn't happen after their last download (after a restart, say). Use
+// records of long expired signed URLs go too, and so do blobs left without
+// files once uploads stop holding on to them.
 export async function cleanupExpiredFiles(): Promise<void> {
   try {
+    for (const file of await database.getUsedUpFiles()) {
+      await deleteUsedUpContent(file);
+    }
+    await database.deleteExpiredSignedUrlTokens();
+
     // Get expired files before deleting from database
-    const expiredFiles = await database
-      .getFilesByUserId("", 1000, 0)
-      .then((files) =>
-        files.filter(
-          (file) => file.expires_at && new Date(file.expires_at) < new Date(),
-        ),
-      );
+    const expiredFiles = await database.getExpiredFiles();
 
-    // Delete files from disk
+    // Delete database records, then the stored files
     for (const file of expiredFiles) {
-      if (fs.existsSync(file.upload_path)) {
-        await fs.promises.unlink(file.upload_path);
-      }
-
-      // Delete thumbnail if exists
-      const thumbnailPath = path.join(
-        path.dirname(file.upload_path),
-        `thumb_${file.filename}`,
-      );
-      if (fs.existsSync(thumbnailPath)) {
-        await fs.promises.unlink(thumbnailPath);
-      }
+      await deleteFileAndObjects(file);
     }
-
-    // Delete from database
-    await database.deleteExpiredFiles();
+    await database.deleteOrphanedBlobs();
 
     console.log(`Cleaned up ${expiredFiles.length} expired files`);
   } catch (error) {
@@ -393,6 +957,36 @@ export async function cleanupExpiredFiles(): Promise<void> {
 }
 
 // Utility functions
+async function readHead(
+  input: Buffer | string,
+  length: number,
+): Promise<Buffer> {
+  if (Buffer.isBuffer(input)) {
+    return input.subarray(0, length);
+  }
+
+  const handle = await fs.promises.open(input, "r");
+  try {
+    const head = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(head, 0, length, 0);
+    return head.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+export function toWebStream(stream: Readable): ReadableStream<Uint8Array> {
+  return Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>;
+}
+
 export function formatFileSize(bytes: number): string {
   if (bytes === 0) return "0 Bytes";
 
@@ -428,86 +1022,199 @@ export function isDocumentFile(mimeType: string): boolean {
   return documentTypes.includes(mimeType);
 }
 
-// File upload middleware for multipart/form-data
+// File upload middleware for multipart/form-data. File parts are streamed to
+// temporary files as they arrive, so request bodies are never held in memory.
 export interface ParsedFile {
   fieldName: string;
   originalName: string;
   mimeType: string;
-  buffer: Buffer;
+  tempPath: string;
   size: number;
 }
 
-export async function parseMultipartFormData(request: Request): Promise<{
+export async function parseMultipartFormData(
+  request: Request,
+  options: { maxFileSize?: number } = {},
+): Promise<{
   files: ParsedFile[];
   fields: Record<string, string>;
 }> {
+  // File parts may be end-to-end encrypted, which adds a little
+  const { maxFileSize = MAX_FILE_SIZE } = options;
+  const maxPartSize = maxFileSize + E2E_MAX_OVERHEAD;
   const contentType = request.headers.get("content-type") || "";
 
   if (!contentType.includes("multipart/form-data")) {
     throw new Error("Content-Type must be multipart/form-data");
   }
 
-  const boundary = contentType.split("boundary=")[1];
+  const boundaryMatch = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  const boundary = boundaryMatch?.[1] || boundaryMatch?.[2];
   if (!boundary) {
     throw new Error("Missing boundary in Content-Type header");
   }
 
-  const body = await request.arrayBuffer();
-  const buffer = Buffer.from(body);
+  if (!request.body) {
+    throw new Error("Multipart request body is empty");
+  }
+
+  await fs.promises.mkdir(TEMP_UPLOAD_DIR, { recursive: true });
 
   const files: ParsedFile[] = [];
   const fields: Record<string, string> = {};
 
-  // Simple multipart parser (for production, consider using a proper library)
-  const boundaryBuffer = Buffer.from(`--${boundary}`);
-  const parts = [];
-  let start = 0;
-
-  while (true) {
-    const boundaryIndex = buffer.indexOf(boundaryBuffer, start);
-    if (boundaryIndex === -1) break;
-
-    if (start !== 0) {
-      parts.push(buffer.slice(start, boundaryIndex));
+  const firstDelimiter = Buffer.from(`--${boundary}`);
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+
+  let state: "preamble" | "headers" | "body" | "boundary" | "done" =
+    "preamble";
+  let pending = Buffer.alloc(0);
+
+  // Current part
+  let fieldName = "";
+  let fileHandle: fs.promises.FileHandle | null = null;
+  let currentFile: ParsedFile | null = null;
+  let fieldChunks: Buffer[] = [];
+  let fieldSize = 0;
+
+  const writePartData = async (data: Buffer) => {
+    if (data.length === 0) return;
+
+    if (currentFile && fileHandle) {
+      currentFile.size += data.length;
+      if (currentFile.size > maxPartSize) {
+        throw new Error(
+          `File size exceeds maximum allowed size of ${formatFileSize(maxFileSize)}`,
+        );
+      }
+      await fileHandle.write(data);
+    } else {
+      fieldSize += data.length;
+      if (fieldSize > MAX_FIELD_SIZE) {
+        throw new Error(`Form field "${fieldName}" is too large`);
+      }
+      fieldChunks.push(data);
     }
+  };
 
-    start = boundaryIndex + boundaryBuffer.length;
-  }
-
-  for (const part of parts) {
-    const headerEndIndex = part.indexOf("\r\n\r\n");
-    if (headerEndIndex === -1) continue;
-
-    const headers = part.slice(0, headerEndIndex).toString();
-    const content = part.slice(headerEndIndex + 4, part.length - 2); // Remove trailing \r\n
+  const finishPart = async () => {
+    if (fileHandle) {
+      await fileHandle.close();
+      fileHandle = null;
+      currentFile = null;
+    } else if (fieldName) {
+      fields[fieldName] = Buffer.concat(fieldChunks).toString();
+    }
+    fieldName = "";
+    fieldChunks = [];
+    fieldSize = 0;
+  };
 
-    const dispositionMatch = headers.match(
-      /Content-Disposition: form-data; name="([^"]+)"(?:; filename="([^"]+)")?/,
+  const startPart = async (rawHeaders: string) => {
+    const dispositionMatch = rawHeaders.match(
+      /Content-Disposition:\s*form-data;\s*name="([^"]*)"(?:;\s*filename="([^"]*)")?/i,
     );
-    if (!dispositionMatch) continue;
+    if (!dispositionMatch) {
+      throw new Error("Malformed multipart part headers");
+    }
 
-    const fieldName = dispositionMatch[1];
+    fieldName = dispositionMatch[1];
     const filename = dispositionMatch[2];
 
-    if (filename) {
+    if (filename !== undefined) {
       // This is a file
-      const contentTypeMatch = headers.match(/Content-Type: ([^\r\n]+)/);
-      const mimeType = contentTypeMatch
-        ? contentTypeMatch[1]
-        : "application/octet-stream";
-
-      files.push({
+      const contentTypeMatch = rawHeaders.match(/Content-Type:\s*([^\r\n]+)/i);
+      const tempPath = path.join(TEMP_UPLOAD_DIR, uuidv4());
+      currentFile = {
         fieldName,
-        originalName: filename,
-        mimeType,
-        buffer: content,
-        size: content.length,
-      });
-    } else {
-      // This is a regular field
-      fields[fieldName] = content.toString();
+        originalName: path.basename(filename),
+        mimeType: contentTypeMatch
+          ? contentTypeMatch[1].trim()
+          : "application/octet-stream",
+        tempPath,
+        size: 0,
+      };
+      files.push(currentFile);
+      fileHandle = await fs.promises.open(tempPath, "w");
+    }
+  };
+
+  try {
+    for await (const chunk of Readable.fromWeb(request.body as any)) {
+      pending = Buffer.concat([pending, chunk as Buffer]);
+
+      let progressed = true;
+      while (progressed && state !== "done") {
+        progressed = false;
+
+        if (state === "preamble") {
+          const index = pending.indexOf(firstDelimiter);
+          if (index !== -1) {
+            pending = pending.subarray(index + firstDelimiter.length);
+            state = "boundary";
+            progressed = true;
+          }
+        } else if (state === "boundary") {
+          if (pending.length >= 2) {
+            if (pending.subarray(0, 2).toString() === "--") {
+              state = "done";
+            } else {
+              const lineEnd = pending.indexOf("\r\n");
+              if (lineEnd === -1) break;
+              pending = pending.subarray(lineEnd + 2);
+              state = "headers";
+            }
+            progressed = true;
+          }
+        } else if (state === "headers") {
+          const headerEnd = pending.indexOf("\r\n\r\n");
+          if (headerEnd !== -1) {
+            await startPart(pending.subarray(0, headerEnd).toString());
+            pending = pending.subarray(headerEnd + 4);
+            state = "body";
+            progressed = true;
+          } else if (pending.length > MAX_FIELD_SIZE) {
+            throw new Error("Multipart part headers are too large");
+          }
+        } else if (state === "body") {
+          const index = pending.indexOf(delimiter);
+          if (index !== -1) {
+            await writePartData(pending.subarray(0, index));
+            await finishPart();
+            pending = pending.subarray(index + delimiter.length);
+            state = "boundary";
+            progressed = true;
+          } else if (pending.length > delimiter.length) {
+            // Keep enough bytes to detect a delimiter split across chunks
+            const safeLength = pending.length - delimiter.length;
+            await writePartData(pending.subarray(0, safeLength));
+            pending = pending.subarray(safeLength);
+          }
+        }
+      }
+
+      // Drop references to consumed bytes
+      pending = Buffer.from(pending);
     }
+
+    if (state !== "done") {
+      throw new Error("Unexpected end of multipart body");
+    }
+  } catch (error) {
+    const openHandle = fileHandle as fs.promises.FileHandle | null;
+    if (openHandle) {
+      await openHandle.close().catch(() => {});
+    }
+    await discardParsedFiles(files);
+    throw error;
   }
 
   return { files, fields };
 }
+
+// Remove the temporary files created by parseMultipartFormData
+export async function discardParsedFiles(files: ParsedFile[]): Promise<void> {
+  await Promise.all(
+    files.map((file) => fs.promises.rm(file.tempPath, { force: true })),
+  );
+}
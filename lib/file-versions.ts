@@ -0,0 +1,289 @@
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { database, File, FileContent, FileVersion } from "./database";
+import {
+  checkQuota,
+  storeFileContent,
+  storeBlob,
+  deleteStoredObjects,
+  generateUniqueFilename,
+  logMetadataRemoval,
+  FileUploadOptions,
+} from "./file-utils";
+import { getThumbnail, putThumbnail, readContent } from "./encryption";
+import { createUnifiedDiff } from "./diff";
+import { invalidateImageDerivatives } from "./image-derivatives";
+import { queueScan } from "./malware-scanning";
+import { tryIndexFile } from "./search";
+import { getUploadPolicy, UploadPolicy } from "./upload-policies";
+
+const DIFFABLE_TYPES = ["text/plain", "text/markdown", "text/csv"];
+const MAX_DIFF_SIZE = 1024 * 1024; // 1MB per side
+
+export interface FileVersionInfo {
+  version: number;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  contentHash?: string;
+  clientEncrypted: boolean;
+  createdAt: string;
+  isCurrent: boolean;
+}
+
+function toVersionInfo(
+  content: FileContent,
+  version: number,
+  createdAt: string,
+  isCurrent: boolean,
+): FileVersionInfo {
+  return {
+    version,
+    originalName: content.original_name,
+    mimeType: content.mime_type,
+    size: content.size,
+    contentHash: content.content_hash,
+    clientEncrypted: !!content.client_encrypted,
+    createdAt,
+    isCurrent,
+  };
+}
+
+function contentOf(source: File | FileVersion): FileContent {
+  return {
+    filename: source.filename,
+    original_name: source.original_name,
+    mime_type: source.mime_type,
+    size: source.size,
+    upload_path: source.upload_path,
+    storage_backend: source.storage_backend,
+    content_hash: source.content_hash,
+    blob_hash: source.blob_hash,
+    encryption_key: source.encryption_key,
+    encryption_nonce: source.encryption_nonce,
+    client_encrypted: !!source.client_encrypted,
+    detected_mime_type: source.detected_mime_type,
+    scan_status: source.scan_status,
+    file_metadata: source.file_metadata,
+  };
+}
+
+// Current version first, then previous versions newest to oldest
+export async function getFileVersionHistory(
+  file: File,
+): Promise<FileVersionInfo[]> {
+  const versions = await database.getFileVersions(file.id);
+  return [
+    toVersionInfo(
+      contentOf(file),
+      file.version,
+      file.updated_at || file.created_at,
+      true,
+    ),
+    ...versions.map((version) =>
+      toVersionInfo(
+        contentOf(version),
+        version.version_number,
+        version.created_at,
+        false,
+      ),
+    ),
+  ];
+}
+
+// A version presented as a file, so it can be served like the current one
+export async function getFileAtVersion(
+  file: File,
+  versionNumber: number,
+): Promise<File | null> {
+  if (versionNumber === file.version) {
+    return file;
+  }
+
+  const version = await database.getFileVersion(file.id, versionNumber);
+  if (!version) {
+    return null;
+  }
+
+  return {
+    ...file,
+    ...contentOf(version),
+    created_at: version.created_at,
+    updated_at: undefined,
+  };
+}
+
+// Move the current content into the history table and make `content` the
+// new current version. The id and access token stay the same, so existing
+// links keep working; cached derivatives of the old content are dropped.
+//
+// With the owner's `policy`, their storage quota is checked again as the
+// content is switched, since concurrent uploads can all pass the early check.
+async function replaceCurrentContent(
+  file: File,
+  content: FileContent,
+  policy?: UploadPolicy,
+): Promise<File> {
+  const versionId = uuidv4();
+  await database.createFileVersion({
+    id: versionId,
+    file_id: file.id,
+    version_number: file.version,
+    ...contentOf(file),
+    created_at: file.updated_at || file.created_at,
+  });
+
+  const replaced = await database.updateFileContent(
+    file.id,
+    content,
+    file.version + 1,
+    { userId: file.user_id, storageQuota: policy?.storageQuota ?? null },
+  );
+  if (!replaced) {
+    await database.deleteFileVersion(versionId);
+    await deleteStoredObjects(content);
+    await checkQuota(file.user_id, policy!, content.size, 0);
+    throw new Error("Storage quota exceeded");
+  }
+  await invalidateImageDerivatives(file.id);
+
+  const updated = (await database.getFileById(file.id))!;
+  await tryIndexFile(updated);
+  return updated;
+}
+
+// Upload new content for an existing file, on behalf of its owner or a user
+// it's shared with
+export async function uploadFileVersion(
+  file: File,
+  options: Pick<
+    FileUploadOptions,
+    | "originalName"
+    | "buffer"
+    | "filePath"
+    | "mimeType"
+    | "clientEncrypted"
+    | "keepMetadata"
+  >,
+  uploadedBy: string = file.user_id,
+): Promise<File> {
+  // The new content counts towards the owner's quota, and the old content
+  // still does as a version
+  const policy = await getUploadPolicy(file.user_id);
+  const { content, privacy } = await storeFileContent(options, policy, {
+    userId: file.user_id,
+    files: 0,
+  });
+  const updated = await replaceCurrentContent(file, content, policy);
+  await logMetadataRemoval(file.id, uploadedBy, privacy);
+  if (content.scan_status === "pending") {
+    queueScan(content.blob_hash!);
+  }
+  return updated;
+}
+
+// Make a previous version current again. The restored content becomes a new
+// version, so the history is never rewritten.
+export async function restoreFileVersion(
+  file: File,
+  versionNumber: number,
+): Promise<File | null> {
+  const version = await database.getFileVersion(file.id, versionNumber);
+  if (!version) {
+    return null;
+  }
+
+  // Thumbnails are stored per filename, so the restored copy gets its own
+  const content = contentOf(version);
+  content.filename = generateUniqueFilename(version.original_name);
+
+  // Legacy content isn't reference counted; move it into a blob so the
+  // version and the restored file don't share an object one of them deletes.
+  // It was stored before scanning, so it isn't quarantined now.
+  if (!version.blob_hash) {
+    const data = await readContent(version);
+    const hash = crypto.createHash("sha256").update(data).digest("hex");
+    const blob = await storeBlob(hash, data, data.length, {
+      quarantine: false,
+    });
+    content.upload_path = blob.storage_key;
+    content.storage_backend = blob.storage_backend;
+    content.content_hash = hash;
+    content.blob_hash = blob.hash;
+    content.encryption_key = blob.encryption_key;
+    content.encryption_nonce = blob.encryption_nonce;
+  }
+
+  const thumbnail = await getThumbnail(version, version.filename);
+  if (thumbnail) {
+    await putThumbnail(content, content.filename, thumbnail);
+  }
+
+  return await replaceCurrentContent(file, content);
+}
+
+export async function deleteFileVersion(
+  file: File,
+  versionNumber: number,
+): Promise<boolean> {
+  const version = await database.getFileVersion(file.id, versionNumber);
+  if (!version) {
+    return false;
+  }
+
+  await database.deleteFileVersion(version.id);
+  await deleteStoredObjects(version);
+  return true;
+}
+
+// Delete all but the `keep` most recent previous versions
+export async function pruneFileVersions(
+  file: File,
+  keep: number,
+): Promise<number> {
+  const versions = await database.getFileVersions(file.id);
+  const pruned = versions.slice(keep);
+
+  for (const version of pruned) {
+    await database.deleteFileVersion(version.id);
+    await deleteStoredObjects(version);
+  }
+
+  return pruned.length;
+}
+
+export function isDiffableType(mimeType: string): boolean {
+  return DIFFABLE_TYPES.includes(mimeType);
+}
+
+async function readVersionText(file: File): Promise<string> {
+  if (!isDiffableType(file.mime_type)) {
+    throw new Error(`Diff is not available for ${file.mime_type} files`);
+  }
+  if (file.size > MAX_DIFF_SIZE) {
+    throw new Error("File version is too large to diff");
+  }
+
+  return (await readContent(file)).toString("utf8");
+}
+
+// Unified diff between two versions of a text file. Returns null when either
+// version doesn't exist.
+export async function diffFileVersions(
+  file: File,
+  fromVersion: number,
+  toVersion: number,
+): Promise<string | null> {
+  const from = await getFileAtVersion(file, fromVersion);
+  const to = await getFileAtVersion(file, toVersion);
+  if (!from || !to) {
+    return null;
+  }
+
+  return createUnifiedDiff(
+    await readVersionText(from),
+    await readVersionText(to),
+    `${from.original_name} (version ${fromVersion})`,
+    `${to.original_name} (version ${toVersion})`,
+  );
+}
@@ -0,0 +1,314 @@
+import { Readable } from "stream";
+import { v4 as uuidv4 } from "uuid";
+import { database, File, Folder } from "./database";
+import { deleteFile } from "./file-utils";
+import { parseDatabaseTimestamp } from "./file-response";
+import { openContentStream } from "./encryption";
+import { getScanBlock } from "./malware-scanning";
+import {
+  ZipEntry,
+  createZipStream,
+  toZipPathSegment,
+  dedupeZipEntryName,
+} from "./zip";
+
+const MAX_FOLDER_NAME_LENGTH = 255;
+const MAX_FOLDER_DEPTH = 32;
+const MAX_ARCHIVE_FILES = 10000;
+export const MAX_ARCHIVE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB, well inside ZIP limits
+
+export interface FolderInfo {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface FolderTreeNode extends FolderInfo {
+  fileCount: number;
+  children: FolderTreeNode[];
+}
+
+export interface FolderDeletionResult {
+  deletedFolders: number;
+  deletedFiles: number;
+  failedFiles: string[]; // ids of files that couldn't be deleted
+}
+
+export function toFolderInfo(folder: Folder): FolderInfo {
+  return {
+    id: folder.id,
+    name: folder.name,
+    parentId: folder.parent_id || null,
+    createdAt: folder.created_at,
+    updatedAt: folder.updated_at,
+  };
+}
+
+export function validateFolderName(name: unknown): string {
+  if (typeof name !== "string" || name.trim() === "") {
+    throw new Error("Folder name is required");
+  }
+
+  const trimmed = name.trim();
+  if (trimmed.length > MAX_FOLDER_NAME_LENGTH) {
+    throw new Error(
+      `Folder name must be at most ${MAX_FOLDER_NAME_LENGTH} characters`,
+    );
+  }
+  if (
+    /[\/\\\x00-\x1f]/.test(trimmed) ||
+    trimmed === "." ||
+    trimmed === ".."
+  ) {
+    throw new Error("Folder name contains invalid characters");
+  }
+
+  return trimmed;
+}
+
+// A folder, if it exists and belongs to the user
+export async function getUserFolder(
+  userId: string,
+  folderId: string,
+): Promise<Folder | null> {
+  const folder = await database.getFolderById(folderId);
+  return folder && folder.user_id === userId ? folder : null;
+}
+
+async function assertNameAvailable(
+  userId: string,
+  parentId: string | null,
+  name: string,
+  folderId?: string,
+): Promise<void> {
+  const existing = await database.getFolderByName(userId, parentId, name);
+  if (existing && existing.id !== folderId) {
+    throw new Error(`A folder named "${name}" already exists here`);
+  }
+}
+
+async function resolveParent(
+  userId: string,
+  parentId: string | null,
+): Promise<Folder[]> {
+  if (!parentId) {
+    return [];
+  }
+
+  const parent = await getUserFolder(userId, parentId);
+  if (!parent) {
+    throw new Error("Parent folder not found");
+  }
+
+  const path = await database.getFolderPath(parent.id);
+  if (path.length >= MAX_FOLDER_DEPTH) {
+    throw new Error(`Folders can be nested at most ${MAX_FOLDER_DEPTH} deep`);
+  }
+  return path;
+}
+
+export async function createFolder(
+  userId: string,
+  name: unknown,
+  parentId: string | null,
+): Promise<Folder> {
+  const folderName = validateFolderName(name);
+  await resolveParent(userId, parentId);
+  await assertNameAvailable(userId, parentId, folderName);
+
+  const id = uuidv4();
+  await database.createFolder({
+    id,
+    user_id: userId,
+    parent_id: parentId || undefined,
+    name: folderName,
+  });
+
+  return (await database.getFolderById(id))!;
+}
+
+// Rename a folder and/or move it under another parent (null for the top
+// level). A folder can't be moved into its own subtree.
+export async function updateFolder(
+  folder: Folder,
+  changes: { name?: unknown; parentId?: string | null },
+): Promise<Folder> {
+  const name =
+    changes.name !== undefined
+      ? validateFolderName(changes.name)
+      : folder.name;
+  const parentId =
+    changes.parentId !== undefined
+      ? changes.parentId
+      : folder.parent_id || null;
+
+  const parentPath = await resolveParent(folder.user_id, parentId);
+  if (parentPath.some((ancestor) => ancestor.id === folder.id)) {
+    throw new Error(
+      "Cannot move a folder into itself or one of its subfolders",
+    );
+  }
+
+  await assertNameAvailable(folder.user_id, parentId, name, folder.id);
+  await database.updateFolder(folder.id, name, parentId);
+
+  return (await database.getFolderById(folder.id))!;
+}
+
+// The folder's ancestors and the folder itself, from the top level down
+export async function getFolderBreadcrumbs(
+  folder: Folder,
+): Promise<FolderInfo[]> {
+  return (await database.getFolderPath(folder.id)).map(toFolderInfo);
+}
+
+// All of a user's folders as a tree, with the number of files directly in
+// each folder
+export async function getFolderTree(
+  userId: string,
+): Promise<FolderTreeNode[]> {
+  const folders = await database.getFoldersByUserId(userId);
+  const fileCounts = await database.getFolderFileCounts(userId);
+
+  const nodes = new Map<string, FolderTreeNode>();
+  for (const folder of folders) {
+    nodes.set(folder.id, {
+      ...toFolderInfo(folder),
+      fileCount: fileCounts.get(folder.id) || 0,
+      children: [],
+    });
+  }
+
+  const roots: FolderTreeNode[] = [];
+  for (const node of Array.from(nodes.values())) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+// Move files into a folder (null for the top level). Only the user's own
+// files are moved; the ids of the others are returned.
+export async function moveFiles(
+  userId: string,
+  fileIds: string[],
+  folderId: string | null,
+): Promise<{ moved: string[]; failed: string[] }> {
+  const moved: string[] = [];
+  const failed: string[] = [];
+
+  for (const fileId of fileIds) {
+    const file = await database.getFileById(fileId);
+    if (file && file.user_id === userId) {
+      moved.push(fileId);
+    } else {
+      failed.push(fileId);
+    }
+  }
+
+  await database.moveFilesToFolder(userId, moved, folderId);
+  return { moved, failed };
+}
+
+// Delete a folder with all of its subfolders and the files inside them
+export async function deleteFolderRecursive(
+  folder: Folder,
+): Promise<FolderDeletionResult> {
+  const subtree = await database.getFolderSubtree(folder.id);
+  const files = await database.getFilesInFolderTree(folder.id);
+
+  const failedFiles: string[] = [];
+  for (const file of files) {
+    if (!(await deleteFile(file.id))) {
+      failedFiles.push(file.id);
+    }
+  }
+
+  // Files that couldn't be deleted are kept, at the top level
+  await database.deleteFolder(folder.id);
+
+  return {
+    deletedFolders: subtree.length,
+    deletedFiles: files.length - failedFiles.length,
+    failedFiles,
+  };
+}
+
+export interface FolderArchive {
+  stream: Readable;
+  files: File[];
+}
+
+// A ZIP of the folder and everything below it, under a top-level directory
+// named after the folder. Empty subfolders are kept as directory entries.
+export async function createFolderArchive(
+  folder: Folder,
+): Promise<FolderArchive> {
+  const subtree = await database.getFolderSubtree(folder.id);
+  const now = new Date();
+  // Download-limited files are left out, as the archive would get round
+  // their limit, and so are files held in quarantine
+  const files = (await database.getFilesInFolderTree(folder.id)).filter(
+    (file) =>
+      (!file.expires_at || new Date(file.expires_at) > now) &&
+      !file.max_downloads &&
+      !getScanBlock(file),
+  );
+
+  if (files.length > MAX_ARCHIVE_FILES) {
+    throw new Error(
+      `Folder has too many files to archive (maximum ${MAX_ARCHIVE_FILES})`,
+    );
+  }
+  const totalSize = files.reduce((total, file) => total + file.size, 0);
+  if (totalSize > MAX_ARCHIVE_SIZE) {
+    throw new Error("Folder is too large to archive");
+  }
+
+  // Directory paths, built top-down so parents resolve before children.
+  // Sibling folder names are unique ignoring case, so paths can't collide.
+  const byId = new Map(subtree.map((f) => [f.id, f]));
+  const paths = new Map<string, string>();
+  const pathOf = (f: Folder): string => {
+    let cached = paths.get(f.id);
+    if (cached === undefined) {
+      const parent =
+        f.id !== folder.id && f.parent_id ? byId.get(f.parent_id) : undefined;
+      cached = `${parent ? pathOf(parent) : ""}${toZipPathSegment(f.name)}/`;
+      paths.set(f.id, cached);
+    }
+    return cached;
+  };
+
+  const taken = new Set<string>();
+  const entries: ZipEntry[] = subtree
+    .map((f) => ({
+      name: dedupeZipEntryName(pathOf(f), taken),
+      modifiedAt: parseDatabaseTimestamp(f.updated_at || f.created_at),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const file of files) {
+    const directory = pathOf(byId.get(file.folder_id!)!);
+    entries.push({
+      name: dedupeZipEntryName(
+        directory + toZipPathSegment(file.original_name),
+        taken,
+      ),
+      modifiedAt: parseDatabaseTimestamp(
+        file.updated_at || file.created_at,
+      ),
+      compress: !file.mime_type.startsWith("image/"),
+      open: () => openContentStream(file),
+    });
+  }
+
+  return { stream: createZipStream(entries), files };
+}
@@ -0,0 +1,345 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { File } from "./database";
+import {
+  decryptDerivative,
+  encryptDerivative,
+  openDataKey,
+  readContent,
+} from "./encryption";
+
+// Image derivatives: resized, cropped or converted renditions of image
+// files, served from /api/files/secure/{fileId}/image. Transforms are signed
+// into the URL (its `tf` claim), so a URL only renders what it was issued
+// for. Rendered derivatives are cached on local disk under IMAGE_CACHE_DIR,
+// encrypted when their file's content is, and the least recently used ones
+// are evicted once the cache outgrows IMAGE_CACHE_MAX_SIZE. A file's
+// derivatives are dropped when it's deleted or gets a new version.
+
+export const MAX_IMAGE_DIMENSION = 4096;
+const DEFAULT_QUALITY = 80;
+
+export const IMAGE_FORMATS = ["webp", "avif", "png", "jpeg"] as const;
+export const IMAGE_FITS = [
+  "cover",
+  "contain",
+  "fill",
+  "inside",
+  "outside",
+] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+export type ImageFit = (typeof IMAGE_FITS)[number];
+
+// Raster types sharp renders; SVGs are served as they are
+const TRANSFORMABLE_MIME_TYPES = [
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/gif",
+];
+
+export interface ImageTransform {
+  width?: number;
+  height?: number;
+  fit: ImageFit; // cover crops to fill both dimensions
+  format: ImageFormat;
+  quality: number; // 1-100; ignored by png
+}
+
+export interface ImageDerivative {
+  data: Buffer;
+  mimeType: string;
+  etag: string;
+  cached: boolean; // served from the cache rather than rendered
+}
+
+export function isTransformableImage(
+  file: Pick<File, "mime_type" | "client_encrypted">,
+): boolean {
+  return (
+    !file.client_encrypted && TRANSFORMABLE_MIME_TYPES.includes(file.mime_type)
+  );
+}
+
+function parseInteger(
+  name: string,
+  value: unknown,
+  max: number,
+): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const number = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > max) {
+    throw new Error(
+      `Invalid transform: ${name} must be a whole number from 1 to ${max}`,
+    );
+  }
+  return number;
+}
+
+function parseChoice<T extends string>(
+  name: string,
+  value: unknown,
+  choices: readonly T[],
+  fallback: T,
+): T {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+  if (!choices.includes(value as T)) {
+    throw new Error(
+      `Invalid transform: ${name} must be one of ${choices.join(", ")}`,
+    );
+  }
+  return value as T;
+}
+
+// Parse a transform from query parameters (w, h, fit, format, q) or the same
+// keys in a request body. Other keys are ignored.
+export function parseImageTransform(
+  params: URLSearchParams | Record<string, unknown>,
+): ImageTransform {
+  const get = (key: string) =>
+    params instanceof URLSearchParams ? params.get(key) : params[key];
+
+  return {
+    width: parseInteger("w", get("w"), MAX_IMAGE_DIMENSION),
+    height: parseInteger("h", get("h"), MAX_IMAGE_DIMENSION),
+    fit: parseChoice("fit", get("fit"), IMAGE_FITS, "cover"),
+    format: parseChoice("format", get("format"), IMAGE_FORMATS, "webp"),
+    quality: parseInteger("q", get("q"), 100) ?? DEFAULT_QUALITY,
+  };
+}
+
+// The canonical query of a transform, used both in its URL and as the
+// signed claim, so equal transforms always compare equal
+export function serializeImageTransform(transform: ImageTransform): string {
+  const params = new URLSearchParams();
+  if (transform.width) params.set("w", transform.width.toString());
+  if (transform.height) params.set("h", transform.height.toString());
+  params.set("fit", transform.fit);
+  params.set("format", transform.format);
+  params.set("q", transform.quality.toString());
+  return params.toString();
+}
+
+async function renderDerivative(
+  file: File,
+  transform: ImageTransform,
+): Promise<Buffer> {
+  // Upright, as the EXIF orientation goes with the rest of the metadata
+  let image = sharp(await readContent(file)).rotate();
+  if (transform.width || transform.height) {
+    image = image.resize(transform.width, transform.height, {
+      fit: transform.fit,
+      withoutEnlargement: true,
+    });
+  }
+  return await image
+    .toFormat(transform.format, { quality: transform.quality })
+    .toBuffer();
+}
+
+// Cache
+
+function getCacheDir(): string {
+  return (
+    process.env.IMAGE_CACHE_DIR ||
+    path.join(process.cwd(), "data", "image-cache")
+  );
+}
+
+// Bytes on disk, 256MB unless set
+function getCacheMaxSize(): number {
+  return parseInt(process.env.IMAGE_CACHE_MAX_SIZE || "") || 256 * 1024 * 1024;
+}
+
+interface CacheIndex {
+  dir: string;
+  entries: Map<string, number>; // sizes by path, least recently used first
+  size: number;
+}
+
+// Loaded from disk on first use, and again if the directory changes
+let cacheIndex: Promise<CacheIndex> | null = null;
+let cacheIndexDir: string | null = null;
+const rendering = new Map<string, Promise<Buffer>>();
+
+async function loadCacheIndex(cacheDir: string): Promise<CacheIndex> {
+  const found: { path: string; size: number; usedAt: number }[] = [];
+  const directories = await fs.promises
+    .readdir(cacheDir, { withFileTypes: true })
+    .catch(() => []);
+  for (const directory of directories) {
+    if (!directory.isDirectory()) continue;
+    const dir = path.join(cacheDir, directory.name);
+    for (const name of await fs.promises.readdir(dir).catch(() => [])) {
+      const entryPath = path.join(dir, name);
+      const stats = await fs.promises.stat(entryPath).catch(() => null);
+      if (stats?.isFile()) {
+        found.push({
+          path: entryPath,
+          size: stats.size,
+          usedAt: stats.mtimeMs,
+        });
+      }
+    }
+  }
+
+  // Hits touch their file, so the order survives restarts
+  found.sort((a, b) => a.usedAt - b.usedAt);
+  const index: CacheIndex = { dir: cacheDir, entries: new Map(), size: 0 };
+  for (const entry of found) {
+    index.entries.set(entry.path, entry.size);
+    index.size += entry.size;
+  }
+  return index;
+}
+
+function getCacheIndex(): Promise<CacheIndex> {
+  const cacheDir = getCacheDir();
+  if (!cacheIndex || cacheIndexDir !== cacheDir) {
+    cacheIndexDir = cacheDir;
+    cacheIndex = loadCacheIndex(cacheDir);
+  }
+  return cacheIndex;
+}
+
+function removeEntry(index: CacheIndex, entryPath: string): void {
+  const size = index.entries.get(entryPath);
+  if (size !== undefined) {
+    index.entries.delete(entryPath);
+    index.size -= size;
+  }
+}
+
+async function evictLeastRecentlyUsed(index: CacheIndex): Promise<void> {
+  const maxSize = getCacheMaxSize();
+  for (const entryPath of Array.from(index.entries.keys())) {
+    if (index.size <= maxSize) break;
+    removeEntry(index, entryPath);
+    await fs.promises.rm(entryPath, { force: true });
+  }
+}
+
+// Derivatives of a file live in a directory named after it, and are keyed
+// by its content too, so a version that missed invalidation is never served
+function getDerivativeKey(file: File, transform: ImageTransform): string {
+  const content = file.content_hash ?? `${file.id}:${file.version}`;
+  return crypto
+    .createHash("sha256")
+    .update(`${content}:${serializeImageTransform(transform)}`)
+    .digest("hex");
+}
+
+async function readCached(
+  file: File,
+  index: CacheIndex,
+  cachePath: string,
+): Promise<Buffer | null> {
+  const size = index.entries.get(cachePath);
+  if (size === undefined) {
+    return null;
+  }
+
+  try {
+    const data = await fs.promises.readFile(cachePath);
+    index.entries.delete(cachePath);
+    index.entries.set(cachePath, size);
+    const now = new Date();
+    fs.promises.utimes(cachePath, now, now).catch(() => {});
+    return file.encryption_key
+      ? decryptDerivative(openDataKey(file), data)
+      : data;
+  } catch {
+    // Removed behind the cache's back, or unreadable; render it again
+    removeEntry(index, cachePath);
+    return null;
+  }
+}
+
+async function writeCached(
+  file: File,
+  index: CacheIndex,
+  cachePath: string,
+  data: Buffer,
+): Promise<void> {
+  const stored = file.encryption_key
+    ? encryptDerivative(openDataKey(file), data)
+    : data;
+  if (stored.length > getCacheMaxSize()) {
+    return;
+  }
+
+  await fs.promises.mkdir(path.dirname(cachePath), { recursive: true });
+  await fs.promises.writeFile(cachePath, stored);
+
+  removeEntry(index, cachePath);
+  index.entries.set(cachePath, stored.length);
+  index.size += stored.length;
+  await evictLeastRecentlyUsed(index);
+}
+
+// A file's image rendered with the transform, from the cache when it's
+// there. Concurrent requests for the same derivative render it once.
+export async function getImageDerivative(
+  file: File,
+  transform: ImageTransform,
+): Promise<ImageDerivative> {
+  if (!isTransformableImage(file)) {
+    throw new Error(`Images of type ${file.mime_type} can't be transformed`);
+  }
+
+  const key = getDerivativeKey(file, transform);
+  const index = await getCacheIndex();
+  const cachePath = path.join(index.dir, file.id, `${key}.${transform.format}`);
+  const mimeType = `image/${transform.format}`;
+  const etag = `"${key}"`;
+
+  const cached = await readCached(file, index, cachePath);
+  if (cached) {
+    return { data: cached, mimeType, etag, cached: true };
+  }
+
+  let render = rendering.get(cachePath);
+  if (!render) {
+    render = (async () => {
+      const data = await renderDerivative(file, transform);
+      await writeCached(file, index, cachePath, data).catch((error) => {
+        console.error("Failed to cache image derivative:", error);
+      });
+      return data;
+    })().finally(() => rendering.delete(cachePath));
+    rendering.set(cachePath, render);
+  }
+
+  return { data: await render, mimeType, etag, cached: false };
+}
+
+// The ETag a derivative will have, so conditional requests can be answered
+// without rendering it
+export function getImageDerivativeETag(
+  file: File,
+  transform: ImageTransform,
+): string {
+  return `"${getDerivativeKey(file, transform)}"`;
+}
+
+// Drop every cached derivative of a file, once it's deleted or its content
+// replaced by a new version
+export async function invalidateImageDerivatives(
+  fileId: string,
+): Promise<void> {
+  const index = await getCacheIndex();
+  const dir = path.join(index.dir, fileId);
+  for (const entryPath of Array.from(index.entries.keys())) {
+    if (path.dirname(entryPath) === dir) {
+      removeEntry(index, entryPath);
+    }
+  }
+  await fs.promises.rm(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,150 @@
+import type { Metadata } from "sharp";
+
+// Privacy of uploaded images. Photos carry EXIF, XMP and IPTC metadata such
+// as GPS coordinates, camera serial numbers and owner names, which anyone
+// with a link could read. Uploads are re-encoded without it and rotated
+// upright from their EXIF orientation, unless the uploader asks to keep it.
+// What was found is summarised by kind and EXIF field name only; the values
+// are the private part, so they're never kept.
+
+export type MetadataKind = "exif" | "gps" | "xmp" | "iptc";
+
+export interface ImageMetadataSummary {
+  stripped: boolean; // false when the uploader kept it
+  kinds: MetadataKind[]; // found, and removed when stripped
+  fields: string[]; // EXIF fields found, e.g. GPSLatitude or BodySerialNumber
+  orientation?: number; // EXIF orientation the image was rotated from
+}
+
+// Image types the pipeline re-encodes; SVGs are sanitized instead
+export const METADATA_MIME_TYPES = ["image/jpeg", "image/jpg", "image/png"];
+
+// EXIF tags worth naming, from IFD0 and the Exif sub-IFD
+const EXIF_FIELDS: Record<number, string> = {
+  0x010e: "ImageDescription",
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0112: "Orientation",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x013b: "Artist",
+  0x8298: "Copyright",
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+  0x927c: "MakerNote",
+  0x9286: "UserComment",
+  0xa420: "ImageUniqueID",
+  0xa430: "CameraOwnerName",
+  0xa431: "BodySerialNumber",
+  0xa433: "LensMake",
+  0xa434: "LensModel",
+  0xa435: "LensSerialNumber",
+};
+
+const GPS_FIELDS: Record<number, string> = {
+  0x01: "GPSLatitudeRef",
+  0x02: "GPSLatitude",
+  0x03: "GPSLongitudeRef",
+  0x04: "GPSLongitude",
+  0x05: "GPSAltitudeRef",
+  0x06: "GPSAltitude",
+  0x07: "GPSTimeStamp",
+  0x0c: "GPSSpeedRef",
+  0x0d: "GPSSpeed",
+  0x10: "GPSImgDirectionRef",
+  0x11: "GPSImgDirection",
+  0x1d: "GPSDateStamp",
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+// Tags of the IFD at `offset` in a TIFF structure, with each entry's value
+// field read as a LONG, which is what IFD pointers are
+function readIfd(
+  tiff: Buffer,
+  offset: number,
+  littleEndian: boolean,
+): Map<number, number> {
+  const tags = new Map<number, number>();
+  if (offset < 8 || offset + 2 > tiff.length) {
+    return tags;
+  }
+
+  const count = littleEndian
+    ? tiff.readUInt16LE(offset)
+    : tiff.readUInt16BE(offset);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    const tag = littleEndian
+      ? tiff.readUInt16LE(entry)
+      : tiff.readUInt16BE(entry);
+    const value = littleEndian
+      ? tiff.readUInt32LE(entry + 8)
+      : tiff.readUInt32BE(entry + 8);
+    tags.set(tag, value);
+  }
+  return tags;
+}
+
+// Names of the notable fields in an EXIF block, as sharp returns it (with or
+// without its "Exif\0\0" header). Malformed blocks give what could be read.
+export function listExifFields(exif: Buffer): string[] {
+  const tiff =
+    exif.subarray(0, 6).toString("latin1") === "Exif\0\0"
+      ? exif.subarray(6)
+      : exif;
+  if (tiff.length < 8) {
+    return [];
+  }
+  const order = tiff.subarray(0, 2).toString("latin1");
+  if (order !== "II" && order !== "MM") {
+    return [];
+  }
+  const littleEndian = order === "II";
+  const ifd0Offset = littleEndian ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4);
+
+  const fields = new Set<string>();
+  const ifd0 = readIfd(tiff, ifd0Offset, littleEndian);
+  const exifIfd = ifd0.has(EXIF_IFD_POINTER)
+    ? readIfd(tiff, ifd0.get(EXIF_IFD_POINTER)!, littleEndian)
+    : new Map<number, number>();
+  for (const tag of [...ifd0.keys(), ...exifIfd.keys()]) {
+    if (EXIF_FIELDS[tag]) fields.add(EXIF_FIELDS[tag]);
+  }
+
+  if (ifd0.has(GPS_IFD_POINTER)) {
+    const gps = readIfd(tiff, ifd0.get(GPS_IFD_POINTER)!, littleEndian);
+    for (const tag of gps.keys()) {
+      fields.add(GPS_FIELDS[tag] ?? "GPSInfo");
+    }
+  }
+
+  return Array.from(fields);
+}
+
+// What metadata an image carries, from sharp's reading of it. Null when
+// there's none.
+export function summarizeImageMetadata(
+  metadata: Metadata,
+  stripped: boolean,
+): ImageMetadataSummary | null {
+  const kinds: MetadataKind[] = [];
+  const fields = metadata.exif ? listExifFields(metadata.exif) : [];
+  if (metadata.exif) kinds.push("exif");
+  if (fields.some((field) => field.startsWith("GPS"))) kinds.push("gps");
+  if (metadata.xmp) kinds.push("xmp");
+  if (metadata.iptc) kinds.push("iptc");
+  if (kinds.length === 0) {
+    return null;
+  }
+
+  return {
+    stripped,
+    kinds,
+    fields,
+    ...(metadata.orientation &&
+      metadata.orientation !== 1 && { orientation: metadata.orientation }),
+  };
+}
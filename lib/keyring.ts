@@ -0,0 +1,184 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import {
+  database,
+  SigningKey,
+  SigningKeyAlgorithm,
+  SigningKeyPurpose,
+} from "./database";
+import { getEnvSecret } from "./secrets";
+import {
+  AsymmetricAlgorithm,
+  decodeToken,
+  signAsymmetric,
+  verifyTokenSignature,
+} from "./signed-url-verifier";
+
+// Keys are rotated with `npm run keys`, which writes the signing_keys table.
+// Until a purpose is first rotated, its key is the secret in the
+// environment, under the kid "env". Rotating retires it like any other key.
+export const ENV_KEY_ID = "env";
+
+export const SIGNING_ALGORITHMS: SigningKeyAlgorithm[] = [
+  "HS256",
+  "EdDSA",
+  "ES256",
+];
+
+export interface KeyringKey {
+  kid: string;
+  algorithm: SigningKeyAlgorithm;
+  secret: string; // HMAC secret, or PEM private key of asymmetric keys
+}
+
+// Asymmetric keys are made the first time they're needed, rather than
+// waiting for a rotation. When concurrent first uses race, the key stored
+// first is the one they all sign with.
+async function createAsymmetricKey(
+  purpose: SigningKeyPurpose,
+  algorithm: AsymmetricAlgorithm,
+): Promise<KeyringKey> {
+  const { privateKey, publicKey } =
+    algorithm === "ES256"
+      ? crypto.generateKeyPairSync("ec", { namedCurve: "P-256" })
+      : crypto.generateKeyPairSync("ed25519");
+
+  await database.createSigningKey({
+    kid: crypto.randomBytes(8).toString("hex"),
+    purpose,
+    algorithm,
+    secret: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    public_key: JSON.stringify(publicKey.export({ format: "jwk" })),
+    created_at: new Date().toISOString(),
+  });
+
+  const active = (await database.getActiveSigningKey(purpose, algorithm))!;
+  return { kid: active.kid, algorithm, secret: active.secret! };
+}
+
+// The key new tokens of a purpose are signed with
+export async function getSigningKey(
+  purpose: SigningKeyPurpose,
+  algorithm: SigningKeyAlgorithm = "HS256",
+): Promise<KeyringKey> {
+  if (!SIGNING_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`Unsupported signing algorithm: ${algorithm}`);
+  }
+
+  const active = await database.getActiveSigningKey(purpose, algorithm);
+  if (active) {
+    return {
+      kid: active.kid,
+      algorithm,
+      secret: active.secret ?? getEnvSecret(purpose),
+    };
+  }
+
+  if (algorithm !== "HS256") {
+    return await createAsymmetricKey(purpose, algorithm);
+  }
+
+  // Never rotated, or every key has been retired. Retiring the environment
+  // key by hand without rotating leaves nothing to sign with.
+  const envKey = await database.getSigningKey(purpose, ENV_KEY_ID);
+  if (envKey) {
+    throw new Error(`No active ${purpose} signing key`);
+  }
+  return { kid: ENV_KEY_ID, algorithm, secret: getEnvSecret(purpose) };
+}
+
+// The key a token with the given kid verifies against, or null once it has
+// been retired for longer than its grace period. Tokens without a kid were
+// signed before the keyring, with the environment secret.
+export async function getVerificationKey(
+  purpose: SigningKeyPurpose,
+  kid: string = ENV_KEY_ID,
+): Promise<Omit<SigningKey, "purpose" | "created_at"> | null> {
+  const key = await database.getSigningKey(purpose, kid);
+  if (!key) {
+    return kid === ENV_KEY_ID
+      ? { kid, algorithm: "HS256", secret: getEnvSecret(purpose) }
+      : null;
+  }
+
+  if (key.verify_until && new Date(key.verify_until) <= new Date()) {
+    return null;
+  }
+  return { ...key, secret: key.secret ?? getEnvSecret(purpose) };
+}
+
+// Asymmetric tokens are signed as given, so their payload has to carry its
+// own exp
+export async function signWithKeyring(
+  purpose: SigningKeyPurpose,
+  payload: object,
+  options: jwt.SignOptions = {},
+  algorithm: SigningKeyAlgorithm = "HS256",
+): Promise<string> {
+  const key = await getSigningKey(purpose, algorithm);
+  if (key.algorithm === "HS256") {
+    return jwt.sign(payload, key.secret, {
+      ...options,
+      algorithm: "HS256",
+      keyid: key.kid,
+    });
+  }
+
+  const header = { alg: key.algorithm, typ: "JWT", kid: key.kid };
+  const signingInput = [header, payload]
+    .map((part) => Buffer.from(JSON.stringify(part)).toString("base64url"))
+    .join(".");
+  const signature = signAsymmetric(key.algorithm, signingInput, key.secret);
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+// Throws the same errors as jwt.verify, so callers can tell expired tokens
+// from invalid ones
+export async function verifyWithKeyring(
+  purpose: SigningKeyPurpose,
+  token: string,
+): Promise<any> {
+  const decoded = decodeToken(token);
+  if (!decoded) {
+    throw new jwt.JsonWebTokenError("jwt malformed");
+  }
+
+  // The token has to claim the algorithm of the key it names, so a public
+  // key can never be used as an HMAC secret
+  const key = await getVerificationKey(purpose, decoded.header.kid);
+  if (!key || key.algorithm !== decoded.header.alg) {
+    throw new jwt.JsonWebTokenError("unknown or retired signing key");
+  }
+
+  if (key.algorithm === "HS256") {
+    return jwt.verify(token, key.secret!, { algorithms: ["HS256"] });
+  }
+
+  const publicKey = crypto.createPublicKey({
+    key: JSON.parse(key.public_key!),
+    format: "jwk",
+  });
+  if (!verifyTokenSignature(decoded, publicKey)) {
+    throw new jwt.JsonWebTokenError("invalid signature");
+  }
+
+  const { exp } = decoded.payload;
+  if (typeof exp === "number" && exp <= Date.now() / 1000) {
+    throw new jwt.TokenExpiredError("jwt expired", new Date(exp * 1000));
+  }
+  return decoded.payload;
+}
+
+// Public keys of the signed URL keys that still verify, for servers that
+// check signed URLs themselves
+export async function getSignedUrlJwks(): Promise<{ keys: object[] }> {
+  const keys = await database.getPublicSigningKeys("signed_url");
+  return {
+    keys: keys.map((key) => ({
+      ...JSON.parse(key.public_key!),
+      kid: key.kid,
+      alg: key.algorithm,
+      use: "sig",
+    })),
+  };
+}
@@ -0,0 +1,250 @@
+import net from "net";
+import { Readable } from "stream";
+import { database, File, ScanStatus, StoredBlob } from "./database";
+import { logAuditEvent } from "./audit";
+import { openContentStream } from "./encryption";
+import { notifyUser } from "./notifications";
+import { getStorageAdapter } from "./storage";
+
+// Malware scanning of uploaded content. With MALWARE_SCANNER set, new blobs
+// are stored under quarantine/ with a pending scan and scanned in the
+// background, one at a time. Clean content is moved to its usual place;
+// infected content stays in quarantine, and the owners of the files using
+// it get a notification and an audit entry. Downloads of anything that
+// isn't clean are refused, see getScanBlock.
+
+export const QUARANTINE_PREFIX = "quarantine/";
+
+const CLAMAV_CHUNK_SIZE = 64 * 1024;
+const CLAMAV_TIMEOUT = 5 * 60 * 1000;
+
+export interface ScanResult {
+  infected: boolean;
+  signature?: string; // name of what was found
+}
+
+export interface MalwareScanner {
+  readonly name: string;
+  scan(content: Readable): Promise<ScanResult>;
+}
+
+function write(socket: net.Socket, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) =>
+    socket.write(data, (error) => (error ? reject(error) : resolve())),
+  );
+}
+
+// Scans with a ClamAV daemon (clamd), streaming content to it with the
+// INSTREAM command over a Unix or TCP socket
+export class ClamAVScanner implements MalwareScanner {
+  readonly name = "clamav";
+
+  constructor(
+    private readonly address: net.NetConnectOpts,
+    private readonly timeout = CLAMAV_TIMEOUT,
+  ) {}
+
+  async scan(content: Readable): Promise<ScanResult> {
+    const socket = net.createConnection(this.address);
+    socket.setTimeout(this.timeout, () =>
+      socket.destroy(new Error("ClamAV timed out")),
+    );
+
+    const reply = new Promise<string>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      // Replies end with a null byte
+      socket.on("data", (chunk: Buffer) => {
+        chunks.push(chunk);
+        if (chunk.includes(0)) {
+          resolve(Buffer.concat(chunks).toString());
+        }
+      });
+      socket.on("error", (error) => {
+        if (chunks.length === 0) {
+          reject(error);
+        }
+      });
+      socket.on("close", () => resolve(Buffer.concat(chunks).toString()));
+    });
+    reply.catch(() => {});
+
+    try {
+      await write(socket, Buffer.from("zINSTREAM\0"));
+      for await (const chunk of content) {
+        for (let i = 0; i < chunk.length; i += CLAMAV_CHUNK_SIZE) {
+          const part: Buffer = chunk.subarray(i, i + CLAMAV_CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(part.length);
+          await write(socket, Buffer.concat([length, part]));
+        }
+      }
+      await write(socket, Buffer.alloc(4));
+    } catch {
+      // clamd hangs up when it refuses a stream; its reply says why
+    } finally {
+      content.destroy();
+    }
+
+    const response = (await reply).replace(/\0/g, "").trim();
+    socket.destroy();
+    const found = response.match(/^stream: (.+) FOUND$/);
+    if (found) {
+      return { infected: true, signature: found[1] };
+    }
+    if (response === "stream: OK") {
+      return { infected: false };
+    }
+    throw new Error(`ClamAV: ${response || "no reply"}`);
+  }
+}
+
+export function isScanningEnabled(): boolean {
+  return process.env.MALWARE_SCANNER === "clamav";
+}
+
+// The configured scanner, or null when scanning is off
+export function getMalwareScanner(): MalwareScanner | null {
+  if (!isScanningEnabled()) {
+    return null;
+  }
+  return new ClamAVScanner(
+    process.env.CLAMAV_SOCKET
+      ? { path: process.env.CLAMAV_SOCKET }
+      : {
+          host: process.env.CLAMAV_HOST || "127.0.0.1",
+          port: parseInt(process.env.CLAMAV_PORT || "") || 3310,
+        },
+  );
+}
+
+// Why downloads of stored content are refused, or null when they aren't.
+// Content stored with scanning off has no status and isn't held back.
+export function getScanBlock(content: {
+  scan_status?: ScanStatus;
+}): { status: number; error: string } | null {
+  switch (content.scan_status) {
+    case "pending":
+      return { status: 423, error: "File is waiting for a malware scan" };
+    case "error":
+      return { status: 423, error: "File could not be scanned for malware" };
+    case "infected":
+      return { status: 403, error: "File is quarantined: malware was found" };
+    default:
+      return null;
+  }
+}
+
+async function reportInfectedFile(
+  file: File,
+  blob: StoredBlob,
+  scanner: string,
+): Promise<void> {
+  const details = {
+    originalName: file.original_name,
+    signature: blob.scan_signature || null,
+    scanner,
+  };
+  await logAuditEvent(null, {
+    action: "file_infected",
+    targetType: "file",
+    targetId: file.id,
+    ownerId: file.user_id,
+    details,
+  });
+  await notifyUser(file.user_id, {
+    type: "file_infected",
+    message: `Malware was found in "${file.original_name}"${
+      blob.scan_signature ? ` (${blob.scan_signature})` : ""
+    }. The file has been quarantined and can't be downloaded.`,
+    fileId: file.id,
+    details,
+  });
+}
+
+// Copy clean content out of quarantine. Returns its new storage key; the
+// quarantined copy is deleted once nothing points at it.
+async function copyOutOfQuarantine(blob: StoredBlob): Promise<string> {
+  if (!blob.storage_key.startsWith(QUARANTINE_PREFIX)) {
+    return blob.storage_key;
+  }
+
+  const storage = getStorageAdapter(blob.storage_backend);
+  const key = blob.storage_key.substring(QUARANTINE_PREFIX.length);
+  const stat = await storage.stat(blob.storage_key);
+  if (!stat) {
+    throw new Error(`Quarantined content is missing: ${blob.storage_key}`);
+  }
+  await storage.putStream(
+    key,
+    await storage.stream(blob.storage_key),
+    stat.size,
+  );
+  return key;
+}
+
+// Scan a blob if it's waiting for one, then bring the files using it in
+// line with the result
+export async function scanBlob(hash: string): Promise<ScanStatus | null> {
+  const blob = await database.getBlob(hash);
+  if (!blob?.scan_status) {
+    return null;
+  }
+
+  const scanner = getMalwareScanner();
+  const waiting = ["pending", "error"].includes(blob.scan_status);
+  if (scanner && waiting) {
+    let result: Pick<StoredBlob, "scan_signature"> &
+      Required<Pick<StoredBlob, "scan_status" | "storage_key">>;
+    try {
+      const { infected, signature } = await scanner.scan(
+        await openContentStream({ ...blob, upload_path: blob.storage_key }),
+      );
+      result = infected
+        ? {
+            scan_status: "infected",
+            scan_signature: signature,
+            storage_key: blob.storage_key,
+          }
+        : {
+            scan_status: "clean",
+            storage_key: await copyOutOfQuarantine(blob),
+          };
+    } catch (error) {
+      console.error(`Malware scan of blob ${hash} failed:`, error);
+      result = { scan_status: "error", storage_key: blob.storage_key };
+    }
+    await database.setBlobScanResult(hash, result);
+  }
+
+  const scanned = (await database.getBlob(hash))!;
+  for (const file of await database.applyBlobScanStatus(hash)) {
+    if (file.scan_status === "infected") {
+      await reportInfectedFile(file, scanned, scanner?.name || "unknown");
+    }
+  }
+  if (scanned.storage_key !== blob.storage_key) {
+    await getStorageAdapter(blob.storage_backend).delete(blob.storage_key);
+  }
+  return scanned.scan_status || null;
+}
+
+let scans: Promise<unknown> = Promise.resolve();
+
+// Scan a blob in the background, after the scans already queued
+export function queueScan(hash: string): Promise<void> {
+  const scan = scans.then(() => scanBlob(hash));
+  scans = scan.catch((error) => {
+    console.error(`Malware scan of blob ${hash} failed:`, error);
+  });
+  return scans.then(() => {});
+}
+
+// Queue the blobs still waiting for a scan, or whose scan failed, e.g.
+// because the server stopped or the scanner was unreachable
+export async function resumeScans(): Promise<number> {
+  const blobs = await database.getBlobsToScan();
+  for (const blob of blobs) {
+    queueScan(blob.hash);
+  }
+  return blobs.length;
+}
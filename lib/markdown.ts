@@ -0,0 +1,396 @@
+// Markdown to HTML for previews, covering CommonMark's common blocks and
+// inlines plus GitHub's tables, strikethrough and bare links. The output is
+// safe to insert into a page: all source text is escaped, so raw HTML shows
+// as text, and the only tags are the ones generated here. Links must be
+// http(s), mailto or relative, and images become links to them, so a
+// preview never fetches anything.
+
+const PLACEHOLDER_START = "\uE000";
+const PLACEHOLDER_END = "\uE001";
+const MAX_NESTING = 16;
+// Inline spans are looked for this far at most, so unmatched delimiters
+// can't make rendering quadratic
+const MAX_SPAN = 1000;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Absolute URLs have to use a safe scheme; anything else with a colon
+// before its path, query or fragment is refused
+function isSafeUrl(url: string): boolean {
+  if (/^(https?:|mailto:)/i.test(url)) {
+    return true;
+  }
+  return !/^[^/?#]*:/.test(url);
+}
+
+function link(href: string, title?: string): string {
+  return `<a href="${href}"${
+    title ? ` title="${title}"` : ""
+  } rel="noopener noreferrer nofollow" target="_blank">`;
+}
+
+// Inlines
+
+// Text between two delimiters, not starting or ending with whitespace. The
+// opening pattern's group is text before the delimiter, which is kept.
+function span(open: string, close: string): RegExp {
+  return new RegExp(
+    `${open}(?=\\S)([\\s\\S]{0,${MAX_SPAN}}?\\S)${close}`,
+    "gu",
+  );
+}
+
+function renderInline(source: string): string {
+  // Finished markup is set aside behind placeholders, so later patterns
+  // can't match inside it. The escaped source text of each is kept too, for
+  // link URLs and titles, where markup doesn't belong.
+  const stashed: string[] = [];
+  const sources: string[] = [];
+  const stash = (html: string, source = html) => {
+    sources.push(source);
+    return `${PLACEHOLDER_START}${stashed.push(html) - 1}${PLACEHOLDER_END}`;
+  };
+  // Stashed markup may hold placeholders of its own
+  const placeholder = new RegExp(
+    `${PLACEHOLDER_START}(\\d+)${PLACEHOLDER_END}`,
+    "g",
+  );
+  const expand = (value: string, from: string[]) => {
+    while (placeholder.test(value)) {
+      value = value.replace(placeholder, (_, index: string) => from[+index]);
+    }
+    return value;
+  };
+
+  let text = source
+    .replace(new RegExp(`[${PLACEHOLDER_START}${PLACEHOLDER_END}]`, "g"), "")
+    .replace(
+      new RegExp(`(\`+)([\\s\\S]{0,${MAX_SPAN}}?[^\`])\\1(?!\`)`, "g"),
+      (match: string, _: string, code: string) =>
+        stash(`<code>${escapeHtml(code.trim())}</code>`, escapeHtml(match)),
+    )
+    .replace(/\\([!-/:-@[-`{-~])/g, (_, char: string) =>
+      stash(escapeHtml(char)),
+    )
+    .replace(
+      /<((?:https?|mailto):[^\s<>]+)>/gi,
+      (match: string, url: string) =>
+        stash(
+          `${link(escapeHtml(url))}${escapeHtml(url)}</a>`,
+          escapeHtml(match),
+        ),
+    );
+
+  text = escapeHtml(text)
+    // Images and links, whose URLs may hold balanced parentheses; the text
+    // of a refused link is kept
+    .replace(
+      new RegExp(
+        `(!?)\\[([^\\]]{0,${MAX_SPAN}})\\]\\(\\s*` +
+          `((?:[^\\s()]|\\([^\\s()]{0,${MAX_SPAN}}\\)){1,${MAX_SPAN}})` +
+          `(?:\\s+&quot;(.{0,${MAX_SPAN}}?)&quot;)?\\s*\\)`,
+        "g",
+      ),
+      (_, image: string, label: string, href: string, title?: string) => {
+        const url = expand(href, sources);
+        if (!isSafeUrl(url)) {
+          return label;
+        }
+        const content = image ? label || url : label;
+        return `${stash(
+          link(url, title && expand(title, sources)),
+        )}${content}${stash("</a>")}`;
+      },
+    )
+    // Bare URLs end before quotes and brackets, and trailing punctuation
+    .replace(
+      new RegExp(
+        `\\bhttps?://(?:(?!&(?:quot|#39|lt|gt);)[^\\s<]){1,${MAX_SPAN}}`,
+        "g",
+      ),
+      (match) => {
+        const url = match.replace(/(?:[.,:!?)\]*_~]|(?<!&[#\w]+);)+$/, "");
+        return `${stash(`${link(url)}${url}</a>`)}${match.slice(url.length)}`;
+      },
+    )
+    .replace(span("()\\*\\*", "\\*\\*"), "$1<strong>$2</strong>")
+    .replace(span("()__", "__"), "$1<strong>$2</strong>")
+    .replace(span("()\\*", "\\*"), "$1<em>$2</em>")
+    .replace(
+      span("(^|[^\\p{L}\\p{N}_])_", "_(?![\\p{L}\\p{N}_])"),
+      "$1<em>$2</em>",
+    )
+    .replace(span("()~~", "~~"), "$1<del>$2</del>")
+    // Two trailing spaces or a backslash break the line
+    .replace(/(?: {2,}|\\)\n/g, "<br>\n");
+
+  return expand(text, stashed);
+}
+
+// Blocks
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])( +|$)/;
+const SETEXT = /^ {0,3}(=+|-+)\s*$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function isBlank(line: string): boolean {
+  return line.trim() === "";
+}
+
+// Lines that end a paragraph without a blank line between
+function startsBlock(line: string): boolean {
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line)
+  );
+}
+
+function splitTableRow(line: string): string[] {
+  const row = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim());
+}
+
+function renderTable(lines: string[]): string {
+  const header = splitTableRow(lines[0]);
+  const alignments = splitTableRow(lines[1]).map((cell) =>
+    cell.startsWith(":") && cell.endsWith(":")
+      ? "center"
+      : cell.endsWith(":")
+        ? "right"
+        : cell.startsWith(":")
+          ? "left"
+          : null,
+  );
+  const cell = (tag: string, content: string, column: number) => {
+    const align = alignments[column];
+    const style = align ? ` style="text-align:${align}"` : "";
+    return `<${tag}${style}>${renderInline(content)}</${tag}>`;
+  };
+
+  const head = header.map((content, i) => cell("th", content, i)).join("");
+  const body = lines.slice(2).map((line) => {
+    const cells = splitTableRow(line);
+    return `<tr>${header
+      .map((_, i) => cell("td", cells[i] ?? "", i))
+      .join("")}</tr>`;
+  });
+  return `<table><thead><tr>${head}</tr></thead>${
+    body.length > 0 ? `<tbody>${body.join("")}</tbody>` : ""
+  }</table>`;
+}
+
+function renderList(lines: string[], depth: number): string {
+  const ordered = /\d/.test(LIST_ITEM.exec(lines[0])![2]);
+  const items: string[][] = [];
+  let loose = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (match && match[1].length < 2) {
+      const indent = match[0].length;
+      const item = [lines[i].slice(indent)];
+      // Continuation lines are indented past the marker, or follow the
+      // item's text directly
+      while (i + 1 < lines.length) {
+        const next = lines[i + 1];
+        if (isBlank(next)) {
+          const following = lines[i + 2];
+          if (following === undefined || !/^\s{2,}\S/.test(following)) {
+            break;
+          }
+          loose = true;
+          item.push("");
+        } else if (/^\s{2,}/.test(next)) {
+          item.push(next.replace(new RegExp(`^ {1,${indent}}`), ""));
+        } else if (!startsBlock(next)) {
+          item.push(next);
+        } else {
+          break;
+        }
+        i++;
+      }
+      items.push(item);
+    } else if (!isBlank(lines[i])) {
+      loose = true;
+    }
+  }
+
+  const start = ordered ? parseInt(LIST_ITEM.exec(lines[0])![2]) : 1;
+  const tag = ordered ? "ol" : "ul";
+  const html = items.map((item) => {
+    let content = renderBlocks(item, depth + 1);
+    // Tight lists don't wrap their items' text in paragraphs
+    if (!loose) {
+      content = content.replace(/^<p>([\s\S]*?)<\/p>/, "$1");
+    }
+    return `<li>${content}</li>`;
+  });
+  return `<${tag}${start !== 1 ? ` start="${start}"` : ""}>${html.join(
+    "",
+  )}</${tag}>`;
+}
+
+function renderBlocks(lines: string[], depth = 0): string {
+  if (depth > MAX_NESTING) {
+    return `<p>${escapeHtml(lines.join("\n"))}</p>`;
+  }
+
+  const html: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (
+        i < lines.length &&
+        !lines[i].trim().startsWith(fence[1][0].repeat(fence[1].length))
+      ) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const language = fence[2].replace(/[^\w+-]/g, "");
+      html.push(
+        `<pre><code${
+          language ? ` class="language-${language}"` : ""
+        }>${escapeHtml(code.join("\n"))}</code></pre>`,
+      );
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2] ?? "")}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      html.push("<hr>");
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ""));
+        i++;
+      }
+      html.push(`<blockquote>${renderBlocks(quoted, depth + 1)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      // Items of the other kind start a new list
+      const ordered = (text: string) =>
+        /^\s*\d/.test(text) && LIST_ITEM.test(text);
+      const list: string[] = [];
+      while (i < lines.length) {
+        const next = lines[i];
+        if (
+          list.length > 0 &&
+          LIST_ITEM.test(next) &&
+          !/^\s{2}/.test(next) &&
+          ordered(next) !== ordered(line)
+        ) {
+          break;
+        }
+        if (isBlank(next)) {
+          // A blank line only continues the list if more of it follows
+          const following = lines[i + 1];
+          if (
+            following === undefined ||
+            !(/^\s{2,}\S/.test(following) || LIST_ITEM.test(following))
+          ) {
+            break;
+          }
+        } else if (
+          list.length > 0 &&
+          !/^\s/.test(next) &&
+          !LIST_ITEM.test(next) &&
+          (isBlank(list[list.length - 1]) || startsBlock(next))
+        ) {
+          break;
+        }
+        list.push(next);
+        i++;
+      }
+      html.push(renderList(list, depth));
+      continue;
+    }
+
+    if (
+      line.includes("|") &&
+      i + 1 < lines.length &&
+      TABLE_DELIMITER.test(lines[i + 1]) &&
+      lines[i + 1].includes("-")
+    ) {
+      const table = [line, lines[i + 1]];
+      i += 2;
+      while (
+        i < lines.length &&
+        lines[i].includes("|") &&
+        !isBlank(lines[i])
+      ) {
+        table.push(lines[i]);
+        i++;
+      }
+      html.push(renderTable(table));
+      continue;
+    }
+
+    // A paragraph, unless an underline makes it a heading
+    const paragraph = [line];
+    i++;
+    let level = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const setext = SETEXT.exec(lines[i]);
+      if (setext) {
+        level = setext[1][0] === "=" ? 1 : 2;
+        i++;
+        break;
+      }
+      if (startsBlock(lines[i])) break;
+      paragraph.push(lines[i]);
+      i++;
+    }
+    const content = renderInline(
+      paragraph.map((text) => text.replace(/^\s+/, "")).join("\n"),
+    );
+    html.push(
+      level ? `<h${level}>${content}</h${level}>` : `<p>${content}</p>`,
+    );
+  }
+
+  return html.join("\n");
+}
+
+export function renderMarkdown(source: string): string {
+  return renderBlocks(
+    source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split("\n"),
+  );
+}
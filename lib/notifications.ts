@@ -0,0 +1,54 @@
+import crypto from "crypto";
+import { database, Notification } from "./database";
+
+export interface NotificationInfo {
+  id: string;
+  type: string;
+  message: string;
+  fileId: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+  read: boolean;
+}
+
+// Tell a user about something that happened to their files. Like
+// logAuditEvent, a failure is logged rather than thrown.
+export async function notifyUser(
+  userId: string,
+  notification: {
+    type: string;
+    message: string;
+    fileId?: string;
+    details?: Record<string, unknown>;
+  },
+): Promise<void> {
+  try {
+    await database.createNotification({
+      id: crypto.randomUUID(),
+      user_id: userId,
+      type: notification.type,
+      message: notification.message,
+      file_id: notification.fileId,
+      details: notification.details
+        ? JSON.stringify(notification.details)
+        : undefined,
+      created_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Failed to create notification:", error);
+  }
+}
+
+export function toNotificationInfo(
+  notification: Notification,
+): NotificationInfo {
+  return {
+    id: notification.id,
+    type: notification.type,
+    message: notification.message,
+    fileId: notification.file_id || null,
+    details: notification.details ? JSON.parse(notification.details) : null,
+    createdAt: notification.created_at,
+    read: !!notification.read_at,
+  };
+}
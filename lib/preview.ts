@@ -0,0 +1,208 @@
+import { File } from "./database";
+import { readContent } from "./encryption";
+import {
+  compareCsvCells,
+  hasCsvHeader,
+  parseCsvRecord,
+  readCsvRecords,
+} from "./csv";
+import { ImageFileMetadata, parseFileMetadata } from "./file-metadata";
+import { renderMarkdown } from "./markdown";
+
+// Previews of files for display in the browser, served from
+// /api/files/secure/{fileId}/preview: markdown rendered to sanitized HTML,
+// CSV as pages of a table that can be sorted by any column, and plain text
+// as it is. Images are shown from their view URL. Files are read whole, so
+// only ones up to MAX_PREVIEW_SIZE can be previewed.
+
+export const MAX_PREVIEW_SIZE = 5 * 1024 * 1024;
+export const DEFAULT_PREVIEW_PAGE_SIZE = 50;
+export const MAX_PREVIEW_PAGE_SIZE = 500;
+
+export type PreviewType = "markdown" | "csv" | "text" | "image";
+
+const PREVIEW_TYPES: Record<string, PreviewType> = {
+  "text/markdown": "markdown",
+  "text/csv": "csv",
+  "text/plain": "text",
+  "image/jpeg": "image",
+  "image/jpg": "image",
+  "image/png": "image",
+  "image/gif": "image",
+  "image/svg+xml": "image",
+};
+
+export interface CsvPreviewOptions {
+  page: number; // from 1
+  pageSize: number;
+  sort?: { column: number; order: "asc" | "desc" };
+}
+
+export type FilePreview =
+  | { type: "markdown"; html: string }
+  | { type: "text"; text: string }
+  | {
+      type: "csv";
+      header: string[] | null; // null when the first row holds data
+      rows: string[][]; // the requested page, padded to `columns` cells
+      columns: number;
+      totalRows: number;
+      page: number;
+      pageSize: number;
+      pageCount: number;
+      sort: { column: number; order: "asc" | "desc" } | null;
+    }
+  | {
+      type: "image";
+      width: number | null;
+      height: number | null;
+    };
+
+// How a file is previewed, or null when it can't be. End-to-end encrypted
+// files can only be read in the browser that holds their key.
+export function getPreviewType(
+  file: Pick<File, "mime_type" | "client_encrypted">,
+): PreviewType | null {
+  if (file.client_encrypted) {
+    return null;
+  }
+  return PREVIEW_TYPES[file.mime_type] ?? null;
+}
+
+function parseWholeNumber(
+  name: string,
+  value: string | null,
+  min: number,
+  max: number,
+): number | undefined {
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(
+      `Invalid ${name}: must be a whole number from ${min} to ${max}`,
+    );
+  }
+  return number;
+}
+
+// Parse the page, pageSize, sort (a column index) and order of a CSV
+// preview from query parameters
+export function parseCsvPreviewOptions(
+  params: URLSearchParams,
+): CsvPreviewOptions {
+  const page =
+    parseWholeNumber("page", params.get("page"), 1, Number.MAX_SAFE_INTEGER) ??
+    1;
+  const pageSize =
+    parseWholeNumber(
+      "pageSize",
+      params.get("pageSize"),
+      1,
+      MAX_PREVIEW_PAGE_SIZE,
+    ) ?? DEFAULT_PREVIEW_PAGE_SIZE;
+  const column = parseWholeNumber("sort", params.get("sort"), 0, 10000);
+
+  const order = params.get("order") || "asc";
+  if (order !== "asc" && order !== "desc") {
+    throw new Error("Invalid order: must be asc or desc");
+  }
+
+  return {
+    page,
+    pageSize,
+    ...(column !== undefined && { sort: { column, order } }),
+  };
+}
+
+async function renderCsvPreview(
+  content: Buffer,
+  options: CsvPreviewOptions,
+): Promise<FilePreview> {
+  const records: string[][] = [];
+  for await (const record of readCsvRecords(content)) {
+    records.push(parseCsvRecord(record));
+  }
+
+  const header = hasCsvHeader(records) ? records[0] : null;
+  const rows = header ? records.slice(1) : records;
+  const columns = records.reduce(
+    (max, record) => Math.max(max, record.length),
+    0,
+  );
+
+  const { sort } = options;
+  if (sort) {
+    if (sort.column >= columns) {
+      const plural = columns === 1 ? "" : "s";
+      throw new Error(`Invalid sort: the file has ${columns} column${plural}`);
+    }
+    // Empty cells stay last either way
+    const direction = sort.order === "desc" ? -1 : 1;
+    rows.sort((a, b) => {
+      const x = a[sort.column] ?? "";
+      const y = b[sort.column] ?? "";
+      const compared = compareCsvCells(x, y);
+      return x.trim() === "" || y.trim() === ""
+        ? compared
+        : compared * direction;
+    });
+  }
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / options.pageSize));
+  const start = (options.page - 1) * options.pageSize;
+  const pad = (row: string[]) =>
+    row.concat(Array(columns - row.length).fill(""));
+
+  return {
+    type: "csv",
+    header: header && pad(header),
+    rows: rows.slice(start, start + options.pageSize).map(pad),
+    columns,
+    totalRows: rows.length,
+    page: options.page,
+    pageSize: options.pageSize,
+    pageCount,
+    sort: sort ?? null,
+  };
+}
+
+// Render a file's preview. Images are described rather than read, so their
+// size doesn't matter; other files larger than MAX_PREVIEW_SIZE are refused.
+export async function renderFilePreview(
+  file: File,
+  options: CsvPreviewOptions = {
+    page: 1,
+    pageSize: DEFAULT_PREVIEW_PAGE_SIZE,
+  },
+): Promise<FilePreview> {
+  const type = getPreviewType(file);
+  if (!type) {
+    throw new Error(`Files of type ${file.mime_type} can't be previewed`);
+  }
+
+  if (type === "image") {
+    const metadata = parseFileMetadata(file) as ImageFileMetadata | null;
+    return {
+      type,
+      width: metadata?.width ?? null,
+      height: metadata?.height ?? null,
+    };
+  }
+
+  if (file.size > MAX_PREVIEW_SIZE) {
+    throw new Error("File is too large to preview");
+  }
+  const content = await readContent(file);
+  const text = content.toString("utf8").replace(/^\uFEFF/, "");
+
+  switch (type) {
+    case "markdown":
+      return { type, html: renderMarkdown(text) };
+    case "csv":
+      return await renderCsvPreview(content, options);
+    case "text":
+      return { type, text };
+  }
+}
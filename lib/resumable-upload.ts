@@ -0,0 +1,308 @@
+import fs from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import mime from "mime-types";
+import { database, UploadSession } from "./database";
+import {
+  checkQuota,
+  uploadFile,
+  validateFile,
+  parseMaxDownloads,
+  FileUploadResult,
+  TEMP_UPLOAD_DIR,
+} from "./file-utils";
+import { getUserFolder } from "./folders";
+import { normalizeTags } from "./search";
+import { getUploadPolicy, resolveExpiry } from "./upload-policies";
+
+// tus resumable upload protocol (https://tus.io/protocols/resumable-upload)
+export const TUS_VERSION = "1.0.0";
+export const TUS_EXTENSIONS = ["creation", "termination", "expiration"];
+const UPLOAD_SESSION_TTL = 24 * 60 * 60 * 1000; // idle uploads expire after 24h
+const RESUMABLE_UPLOAD_DIR = path.join(TEMP_UPLOAD_DIR, "resumable");
+
+// Uploads currently receiving a PATCH, so concurrent chunks can't interleave
+const activeUploads = new Set<string>();
+
+export interface ResumableUploadMetadata {
+  filename: string;
+  filetype: string;
+  description?: string;
+  isPublic?: string;
+  expiresIn?: string;
+  maxDownloads?: string;
+  burnAfterReading?: string;
+  folderId?: string;
+  tags?: string; // comma separated
+  encrypted?: string; // "true" for end-to-end encrypted payloads
+  keepMetadata?: string; // "true" to keep an image's metadata
+}
+
+export interface ChunkResult {
+  offset: number;
+  expiresAt: string;
+  result?: FileUploadResult;
+}
+
+// Headers sent with every tus response
+export function tusHeaders(
+  extra: Record<string, string> = {},
+): Record<string, string> {
+  return {
+    "Tus-Resumable": TUS_VERSION,
+    "Cache-Control": "no-store",
+    ...extra,
+  };
+}
+
+export function isSupportedTusVersion(request: Request): boolean {
+  return request.headers.get("tus-resumable") === TUS_VERSION;
+}
+
+// Upload-Metadata is a comma separated list of "key base64(value)" pairs
+export function parseUploadMetadata(
+  header: string | null,
+): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+
+  for (const pair of header.split(",")) {
+    const [key, value, ...rest] = pair.trim().split(/\s+/);
+    if (!key) continue;
+    if (rest.length > 0 || (value && !/^[A-Za-z0-9+/]*={0,2}$/.test(value))) {
+      throw new Error("Invalid Upload-Metadata header");
+    }
+    metadata[key] = value
+      ? Buffer.from(value, "base64").toString("utf8")
+      : "";
+  }
+
+  return metadata;
+}
+
+export function getUploadMetadata(
+  upload: UploadSession,
+): ResumableUploadMetadata {
+  return JSON.parse(upload.metadata);
+}
+
+function nextExpiry(): string {
+  return new Date(Date.now() + UPLOAD_SESSION_TTL).toISOString();
+}
+
+// Create a new resumable upload. The declared size and type are validated
+// up front so clients don't upload bytes that would be rejected at the end.
+export async function createResumableUpload(
+  userId: string,
+  uploadLength: number,
+  rawMetadata: Record<string, string>,
+): Promise<{ upload: UploadSession; result?: FileUploadResult }> {
+  if (!rawMetadata.filename) {
+    throw new Error("Upload-Metadata must include a filename");
+  }
+
+  const metadata: ResumableUploadMetadata = {
+    filename: rawMetadata.filename,
+    filetype:
+      rawMetadata.filetype ||
+      mime.lookup(rawMetadata.filename) ||
+      "application/octet-stream",
+    description: rawMetadata.description || undefined,
+    isPublic: rawMetadata.isPublic,
+    expiresIn: rawMetadata.expiresIn,
+    maxDownloads: rawMetadata.maxDownloads || undefined,
+    burnAfterReading: rawMetadata.burnAfterReading || undefined,
+    folderId: rawMetadata.folderId || undefined,
+    tags: rawMetadata.tags || undefined,
+    encrypted: rawMetadata.encrypted || undefined,
+    keepMetadata: rawMetadata.keepMetadata || undefined,
+  };
+
+  try {
+    normalizeTags(metadata.tags || "");
+  } catch (error: any) {
+    throw new Error(`Invalid Upload-Metadata tags: ${error.message}`);
+  }
+
+  try {
+    parseMaxDownloads(metadata.maxDownloads, metadata.burnAfterReading);
+  } catch (error: any) {
+    throw new Error(`Invalid Upload-Metadata: ${error.message}`);
+  }
+
+  if (metadata.folderId && !(await getUserFolder(userId, metadata.folderId))) {
+    throw new Error("Upload-Metadata folderId is not one of your folders");
+  }
+
+  // Checked again when the upload completes, as usage may change meanwhile
+  const policy = await getUploadPolicy(userId);
+  const validation = validateFile(
+    uploadLength,
+    metadata.filetype,
+    metadata.filename,
+    metadata.encrypted === "true",
+    policy,
+  );
+  if (!validation.isValid) {
+    throw new Error(validation.error || "File validation failed");
+  }
+  resolveExpiry(
+    policy,
+    metadata.expiresIn ? parseInt(metadata.expiresIn) : undefined,
+  );
+  await checkQuota(userId, policy, uploadLength, 1);
+
+  const id = uuidv4();
+  const tempPath = path.join(RESUMABLE_UPLOAD_DIR, id);
+  await fs.promises.mkdir(RESUMABLE_UPLOAD_DIR, { recursive: true });
+  await fs.promises.writeFile(tempPath, Buffer.alloc(0));
+
+  await database.createUploadSession({
+    id,
+    user_id: userId,
+    upload_length: uploadLength,
+    metadata: JSON.stringify(metadata),
+    temp_path: tempPath,
+    expires_at: nextExpiry(),
+  });
+
+  const upload = (await database.getUploadSession(id))!;
+
+  // Empty files are complete as soon as they are created
+  if (uploadLength === 0) {
+    return { upload, result: await completeResumableUpload(upload) };
+  }
+
+  return { upload };
+}
+
+// Append a chunk at the given offset. Whatever arrives before the client
+// disconnects is kept, so the next HEAD reports where to resume from.
+export async function writeUploadChunk(
+  upload: UploadSession,
+  offset: number,
+  body: ReadableStream<Uint8Array> | null,
+): Promise<ChunkResult> {
+  if (upload.file_id) {
+    throw new Error("Upload is already complete");
+  }
+  if (offset !== upload.upload_offset) {
+    throw new Error("Upload-Offset does not match the current upload offset");
+  }
+  if (activeUploads.has(upload.id)) {
+    throw new Error("Upload is locked by another request");
+  }
+
+  activeUploads.add(upload.id);
+  let received = 0;
+  let exceeded = false;
+
+  try {
+    const handle = await fs.promises.open(upload.temp_path, "r+");
+    try {
+      const reader = body?.getReader();
+      while (reader) {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch {
+          break; // connection dropped; keep what was written
+        }
+        if (chunk.done) break;
+
+        const data = Buffer.from(chunk.value);
+        if (offset + received + data.length > upload.upload_length) {
+          exceeded = true;
+          await reader.cancel().catch(() => {});
+          break;
+        }
+
+        await handle.write(data, 0, data.length, offset + received);
+        received += data.length;
+      }
+    } finally {
+      await handle.close();
+    }
+
+    // A client sending more than it declared can't be trusted to resume
+    if (exceeded) {
+      await fs.promises.rm(upload.temp_path, { force: true });
+      await database.deleteUploadSession(upload.id);
+      throw new Error("Chunk exceeds the declared Upload-Length");
+    }
+
+    const newOffset = offset + received;
+    const expiresAt = nextExpiry();
+    await database.updateUploadSessionOffset(upload.id, newOffset, expiresAt);
+
+    if (newOffset === upload.upload_length) {
+      const result = await completeResumableUpload({
+        ...upload,
+        upload_offset: newOffset,
+      });
+      return { offset: newOffset, expiresAt, result };
+    }
+
+    return { offset: newOffset, expiresAt };
+  } finally {
+    activeUploads.delete(upload.id);
+  }
+}
+
+// Hand the assembled file to the regular upload pipeline. A file that fails
+// validation there can never succeed, so the upload is discarded.
+async function completeResumableUpload(
+  upload: UploadSession,
+): Promise<FileUploadResult> {
+  const metadata = getUploadMetadata(upload);
+
+  try {
+    const result = await uploadFile({
+      userId: upload.user_id,
+      originalName: metadata.filename,
+      filePath: upload.temp_path,
+      mimeType: metadata.filetype,
+      description: metadata.description,
+      isPublic: metadata.isPublic === "true",
+      expiresIn: metadata.expiresIn ? parseInt(metadata.expiresIn) : undefined,
+      maxDownloads: parseMaxDownloads(
+        metadata.maxDownloads,
+        metadata.burnAfterReading,
+      ),
+      // The folder may have been deleted while the upload was in progress
+      folderId:
+        metadata.folderId && (await database.getFolderById(metadata.folderId))
+          ? metadata.folderId
+          : undefined,
+      tags: normalizeTags(metadata.tags || ""),
+      clientEncrypted: metadata.encrypted === "true",
+      keepMetadata: metadata.keepMetadata === "true",
+    });
+    await database.completeUploadSession(upload.id, result.id);
+    return result;
+  } catch (error) {
+    await database.deleteUploadSession(upload.id);
+    throw error;
+  } finally {
+    await fs.promises.rm(upload.temp_path, { force: true });
+  }
+}
+
+// Where the finished file can be fetched, for uploads that have completed
+export async function getCompletedUploadUrl(
+  upload: UploadSession,
+): Promise<string | null> {
+  if (!upload.file_id) return null;
+  const file = await database.getFileById(upload.file_id);
+  return file ? `/api/files/${file.access_token}` : null;
+}
+
+export async function terminateResumableUpload(
+  upload: UploadSession,
+): Promise<void> {
+  if (activeUploads.has(upload.id)) {
+    throw new Error("Upload is locked by another request");
+  }
+  await fs.promises.rm(upload.temp_path, { force: true });
+  await database.deleteUploadSession(upload.id);
+}
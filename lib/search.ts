@@ -0,0 +1,178 @@
+import { database, File, FileSearchFilters, FileSearchRow } from "./database";
+import { openContentStream } from "./encryption";
+
+const MAX_TAGS_PER_FILE = 20;
+const MAX_TAG_LENGTH = 32;
+const MAX_QUERY_TERMS = 16;
+const MAX_INDEXED_BODY = 1024 * 1024; // only the first 1MB of text is indexed
+const INDEXED_BODY_TYPES = ["text/plain", "text/markdown", "text/csv"];
+
+// Highlight delimiters used in SQL (char(2) and char(3))
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+export interface SearchHighlights {
+  name: string; // HTML-escaped, with matches wrapped in <mark>
+  snippet: string | null;
+}
+
+export interface SearchResult {
+  file: File;
+  highlights: SearchHighlights | null; // null when there was no text query
+  score: number | null; // lower is a better match
+}
+
+// Normalize user-entered tags: trimmed, lower case, inner whitespace
+// collapsed. Duplicates are dropped.
+export function normalizeTags(tags: unknown): string[] {
+  if (typeof tags === "string") {
+    tags = tags.split(",");
+  }
+  if (!Array.isArray(tags)) {
+    throw new Error("Tags must be a list of strings");
+  }
+
+  const normalized = new Set<string>();
+  for (const tag of tags) {
+    if (typeof tag !== "string") {
+      throw new Error("Tags must be a list of strings");
+    }
+    const value = tag.trim().replace(/\s+/g, " ").toLowerCase();
+    if (value === "") continue;
+    if (value.length > MAX_TAG_LENGTH) {
+      throw new Error(`Tags must be at most ${MAX_TAG_LENGTH} characters`);
+    }
+    if (!/^[\p{L}\p{N}][\p{L}\p{N} _.-]*$/u.test(value)) {
+      throw new Error(`Tag "${value}" contains invalid characters`);
+    }
+    normalized.add(value);
+  }
+
+  if (normalized.size > MAX_TAGS_PER_FILE) {
+    throw new Error(`A file can have at most ${MAX_TAGS_PER_FILE} tags`);
+  }
+  return Array.from(normalized);
+}
+
+async function readIndexableBody(file: File): Promise<string> {
+  if (!INDEXED_BODY_TYPES.includes(file.mime_type) || file.size === 0) {
+    return "";
+  }
+
+  const stream = await openContentStream(file, {
+    start: 0,
+    end: Math.min(file.size, MAX_INDEXED_BODY) - 1,
+  });
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// (Re)build a file's entry in the search index from its current name,
+// description, tags and contents
+export async function indexFile(file: File): Promise<void> {
+  const tags = await database.getFileTags(file.id);
+  await database.indexFileForSearch(file.id, {
+    name: file.original_name,
+    description: file.description || "",
+    tags: tags.join(" "),
+    body: await readIndexableBody(file),
+  });
+}
+
+// Indexing is best effort: a file that fails is picked up again by
+// indexMissingFiles before the next search
+export async function tryIndexFile(file: File): Promise<void> {
+  try {
+    await indexFile(file);
+  } catch (error) {
+    console.error(`Failed to index file ${file.id} for search:`, error);
+  }
+}
+
+async function indexMissingFiles(userId: string): Promise<void> {
+  for (const file of await database.getUnindexedFiles(userId)) {
+    await tryIndexFile(file);
+  }
+}
+
+export async function setFileTags(
+  file: File,
+  tags: unknown,
+): Promise<string[]> {
+  const normalized = normalizeTags(tags);
+  await database.setFileTags(file.id, normalized);
+  await tryIndexFile(file);
+  return normalized;
+}
+
+/**
+ * Turn free text into an FTS5 match expression. Every word must match, as
+ * a prefix, so "quar rep" finds "quarterly report". Operators and quotes in
+ * the input are treated as plain text. Returns null when there are no words.
+ */
+export function toMatchExpression(query: string): string | null {
+  const terms = (query.match(/[\p{L}\p{N}_]+/gu) || []).slice(
+    0,
+    MAX_QUERY_TERMS,
+  );
+  if (terms.length === 0) {
+    return null;
+  }
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Escape indexed text for HTML, then mark up the highlighted matches
+function toHighlightHtml(text: string): string {
+  return escapeHtml(text)
+    .split(HIGHLIGHT_START)
+    .join("<mark>")
+    .split(HIGHLIGHT_END)
+    .join("</mark>");
+}
+
+export async function searchFiles(
+  userId: string,
+  query: string,
+  filters: Omit<FileSearchFilters, "match">,
+  limit = 50,
+  offset = 0,
+): Promise<SearchResult[]> {
+  const match = toMatchExpression(query);
+  if (match) {
+    await indexMissingFiles(userId);
+  }
+
+  const rows = await database.searchFiles(
+    userId,
+    { ...filters, match: match || undefined },
+    limit,
+    offset,
+  );
+
+  return rows.map((row: FileSearchRow) => {
+    const { name_highlight, snippet, rank, ...file } = row;
+    return {
+      file,
+      highlights: match
+        ? {
+            name: toHighlightHtml(name_highlight || file.original_name),
+            snippet: snippet ? toHighlightHtml(snippet) : null,
+          }
+        : null,
+      score: match && rank !== undefined ? rank : null,
+    };
+  });
+}
@@ -0,0 +1,50 @@
+import type { SigningKeyPurpose } from "./database";
+
+// Secrets the signing keys start from, before they are first rotated. Kept
+// apart from the keyring so the startup check needs no database.
+const ENV_SECRETS: Record<SigningKeyPurpose, string> = {
+  session: "JWT_SECRET",
+  signed_url: "SIGNED_URL_SECRET",
+};
+
+// Fallbacks used in development, and values copied from .env.example, that
+// must never sign anything in production
+const DEFAULT_SECRETS: Record<SigningKeyPurpose, string[]> = {
+  session: [
+    "snapvault-dev-secret-change-in-production",
+    "your-super-secret-jwt-key-change-this-in-production",
+  ],
+  signed_url: [
+    "snapvault-signed-url-secret-change-in-production",
+    "your-signed-url-secret-change-this-in-production",
+  ],
+};
+
+export function getEnvSecret(purpose: SigningKeyPurpose): string {
+  return process.env[ENV_SECRETS[purpose]] || DEFAULT_SECRETS[purpose][0];
+}
+
+// Names of the environment secrets that are unset or still at a default
+export function findDefaultSecrets(): string[] {
+  return (Object.keys(ENV_SECRETS) as SigningKeyPurpose[])
+    .filter((purpose) => {
+      const secret = process.env[ENV_SECRETS[purpose]];
+      return !secret || DEFAULT_SECRETS[purpose].includes(secret);
+    })
+    .map((purpose) => ENV_SECRETS[purpose]);
+}
+
+// Called at server startup, see instrumentation.ts
+export function assertProductionSecrets(): void {
+  if (process.env.NODE_ENV !== "production") {
+    return;
+  }
+
+  const defaults = findDefaultSecrets();
+  if (defaults.length > 0) {
+    throw new Error(
+      `Refusing to start in production with default signing secrets: ` +
+        `set ${defaults.join(" and ")}`,
+    );
+  }
+}
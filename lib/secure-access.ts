@@ -1,11 +1,29 @@
 import crypto from "crypto";
-import jwt from "jsonwebtoken";
-import { database } from "./database";
-import { verifySession } from "./auth";
+import {
+  database,
+  IssuedSignedUrl,
+  SignedUrlToken,
+  SigningKeyAlgorithm
+} from "./database";
+import { hashPassword, verifyPassword, verifySession } from "./auth";
+import { signWithKeyring, verifyWithKeyring } from "./keyring";
+import { checkSignedUrlClaims, hashClaim } from "./signed-url-verifier";
+import { ImageTransform, serializeImageTransform } from "./image-derivatives";
+import type { ArchiveSelection } from "./archives";
+import {
+  AccessLevel,
+  getFileAccessLevel,
+  getRequiredAccess,
+  hasAccess
+} from "./sharing";
 
-const SIGNED_URL_SECRET = process.env.SIGNED_URL_SECRET || "snapvault-signed-url-secret-change-in-production";
 const DEFAULT_URL_EXPIRY = 15 * 60; // 15 minutes in seconds
 const MAX_URL_EXPIRY = 24 * 60 * 60; // 24 hours in seconds
+// EdDSA or ES256 to sign every URL so other servers can verify them
+const DEFAULT_URL_ALGORITHM = (process.env.SIGNED_URL_ALGORITHM || 'HS256') as SigningKeyAlgorithm;
+const UNLOCKED_LINK_EXPIRY = 5 * 60; // 5 minutes in seconds
+const MIN_LINK_PASSWORD_LENGTH = 6;
+const MAX_LINK_PASSWORD_LENGTH = 128;
 
 export interface SignedUrlOptions {
   fileId: string;
@@ -14,6 +32,18 @@ export interface SignedUrlOptions {
   action?: 'download' | 'view' | 'info';
   ipAddress?: string;
   userAgent?: string;
+  maxUses?: number; // unlimited until it expires when unset
+  jti?: string; // token id; a random one is used when unset
+  algorithm?: SigningKeyAlgorithm; // asymmetric URLs can be verified without the server
+  transform?: ImageTransform; // makes a URL for this rendition of an image
+}
+
+export interface SignedArchiveUrlOptions {
+  selection: ArchiveSelection; // signed into the URL, resolved on download
+  userId: string;
+  expiresIn?: number; // seconds
+  ipAddress?: string;
+  userAgent?: string;
 }
 
 export interface FileAccessLog {
@@ -25,6 +55,9 @@ export interface FileAccessLog {
   action: string;
   success: boolean;
   error_message?: string;
+  share_link_id?: string;
+  token_id?: string;
+  details?: string; // JSON
   created_at: string;
 }
 
@@ -33,21 +66,44 @@ export interface SecureFileAccess {
   reason?: string;
   requiresAuth?: boolean;
   isOwner?: boolean;
+  access?: AccessLevel; // unset for public files opened by anyone
   accessLog?: FileAccessLog;
 }
 
+export interface SignedUrlInfo {
+  id: string;
+  fileId: string | null; // null for archive URLs
+  fileName: string | null;
+  action: string | null;
+  issuedBy: { id: string | null; username: string | null };
+  createdAt: string;
+  expiresAt: string;
+  maxUses: number | null;
+  useCount: number;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  status: 'active' | 'used' | 'expired' | 'revoked';
+}
+
 /**
- * Generate a signed URL for secure file access
+ * Generate a signed URL for secure file access, signed with the active
+ * signed URL key. With a transform, the URL is for that rendition of an
+ * image (/api/files/secure/{fileId}/image) and its view action.
  */
-export function generateSignedUrl(options: SignedUrlOptions): string {
+export async function generateSignedUrl(options: SignedUrlOptions): Promise<string> {
   const {
     fileId,
     userId,
     expiresIn = DEFAULT_URL_EXPIRY,
     action = 'download',
     ipAddress,
-    userAgent
+    userAgent,
+    maxUses,
+    jti = crypto.randomUUID(),
+    algorithm = DEFAULT_URL_ALGORITHM,
+    transform
   } = options;
+  const tf = transform && serializeImageTransform(transform);
 
   // Limit expiry time
   const actualExpiry = Math.min(expiresIn, MAX_URL_EXPIRY);
@@ -57,59 +113,193 @@ export function generateSignedUrl(options: SignedUrlOptions): string {
     fileId,
     userId,
     action,
+    jti,
+    ...(maxUses && { maxUses }),
     exp: expiresAt,
     iat: Math.floor(Date.now() / 1000),
-    ...(ipAddress && { ip: crypto.createHash('sha256').update(ipAddress).digest('hex') }),
-    ...(userAgent && { ua: crypto.createHash('sha256').update(userAgent).digest('hex') })
+    ...(ipAddress && { ip: hashClaim(ipAddress) }),
+    ...(userAgent && { ua: hashClaim(userAgent) }),
+    ...(tf && { tf })
   };
 
-  const token = jwt.sign(payload, SIGNED_URL_SECRET, { algorithm: 'HS256' });
+  const token = await signWithKeyring('signed_url', payload, {}, algorithm);
 
+  if (tf) {
+    return `/api/files/secure/${fileId}/image?token=${token}&${tf}`;
+  }
   return `/api/files/secure/${fileId}?token=${token}&action=${action}`;
 }
 
 /**
- * Verify a signed URL and return access information
+ * Verify a signed URL and return access information. URLs that are used up
+ * or have been revoked are rejected here, but a use is only counted, by
+ * claimSignedUrl, once the response is going to serve the file. `transform`
+ * is the canonical image transform requested, for URLs of image renditions.
  */
 export async function verifySignedUrl(
   fileId: string,
   token: string,
   action: string,
   ipAddress?: string,
-  userAgent?: string
+  userAgent?: string,
+  transform?: string
 ): Promise<{
   valid: boolean;
   payload?: any;
   error?: string;
 }> {
   try {
-    // Verify JWT
-    const decoded = jwt.verify(token, SIGNED_URL_SECRET) as any;
+    // Verify JWT with the key named by its kid header
+    const decoded = await verifyWithKeyring('signed_url', token);
 
-    // Check if file ID matches
-    if (decoded.fileId !== fileId) {
-      return { valid: false, error: 'File ID mismatch' };
+    // Check the file, action, transform, IP address and user agent it was
+    // issued for, as other servers verifying the URL do
+    const mismatch = checkSignedUrlClaims(decoded, {
+      fileId,
+      action,
+      ipAddress,
+      userAgent,
+      transform
+    });
+    if (mismatch) {
+      return { valid: false, error: mismatch };
     }
 
-    // Check action
-    if (decoded.action !== action) {
-      return { valid: false, error: 'Action mismatch' };
+    // Tokens issued before URLs carried an id can't be tracked
+    if (decoded.jti) {
+      const refusal = getSignedUrlRefusal(
+        await database.getSignedUrlToken(decoded.jti)
+      );
+      if (refusal) {
+        return { valid: false, error: refusal };
+      }
     }
 
-    // Verify IP address if it was included in the token
-    if (decoded.ip && ipAddress) {
-      const currentIpHash = crypto.createHash('sha256').update(ipAddress).digest('hex');
-      if (decoded.ip !== currentIpHash) {
-        return { valid: false, error: 'IP address mismatch' };
-      }
+    return { valid: true, payload: decoded };
+  } catch (error: any) {
+    if (error.name === 'TokenExpiredError') {
+      return { valid: false, error: 'Signed URL has expired' };
+    }
+    if (error.name === 'JsonWebTokenError') {
+      return { valid: false, error: 'Invalid signed URL' };
     }
+    return { valid: false, error: 'URL verification failed' };
+  }
+}
 
-    // Verify user agent if it was included in the token
-    if (decoded.ua && userAgent) {
-      const currentUaHash = crypto.createHash('sha256').update(userAgent).digest('hex');
-      if (decoded.ua !== currentUaHash) {
-        return { valid: false, error: 'User agent mismatch' };
-      }
+/**
+ * Count a use of a URL verifySignedUrl accepted, once the response is going
+ * to serve the file, so refused and not-modified requests don't use it up.
+ * Returns why the URL can't be used when another request used it up or it
+ * was revoked in the meantime, or null.
+ */
+export async function claimSignedUrl(payload: any): Promise<string | null> {
+  if (!payload.jti) {
+    return null;
+  }
+
+  const claimed = await database.claimSignedUrlUse({
+    jti: payload.jti,
+    file_id: payload.fileId,
+    max_uses: payload.maxUses,
+    expires_at: new Date(payload.exp * 1000).toISOString()
+  });
+  if (claimed) {
+    return null;
+  }
+  return (
+    getSignedUrlRefusal(await database.getSignedUrlToken(payload.jti)) ||
+    'Signed URL has already been used'
+  );
+}
+
+function getSignedUrlRefusal(token: SignedUrlToken | null): string | null {
+  if (token?.revoked_at) {
+    return 'Signed URL has been revoked';
+  }
+  if (token?.max_uses && token.use_count >= token.max_uses) {
+    return 'Signed URL has already been used';
+  }
+  return null;
+}
+
+/**
+ * Generate a signed URL for a ZIP archive of files or a folder
+ * (/api/files/archive). The selection is resolved again, with the signer's
+ * access, each time the URL is used. Archive URLs can't open single files.
+ * They're recorded like file URLs, so they're listed with the signer's URLs
+ * and can be revoked before they expire.
+ */
+export async function generateSignedArchiveUrl(
+  options: SignedArchiveUrlOptions
+): Promise<{ url: string; id: string; expiresIn: number }> {
+  const {
+    selection,
+    userId,
+    expiresIn = DEFAULT_URL_EXPIRY,
+    ipAddress,
+    userAgent
+  } = options;
+
+  const actualExpiry = Math.min(expiresIn, MAX_URL_EXPIRY);
+  const jti = crypto.randomUUID();
+  const payload = {
+    ...selection,
+    userId,
+    action: 'archive',
+    jti,
+    exp: Math.floor(Date.now() / 1000) + actualExpiry,
+    iat: Math.floor(Date.now() / 1000),
+    ...(ipAddress && { ip: hashClaim(ipAddress) }),
+    ...(userAgent && { ua: hashClaim(userAgent) })
+  };
+
+  const token = await signWithKeyring('signed_url', payload, {}, DEFAULT_URL_ALGORITHM);
+  await database.createSignedUrlToken({
+    jti,
+    user_id: userId,
+    action: 'archive',
+    expires_at: new Date(payload.exp * 1000).toISOString()
+  });
+
+  return {
+    url: `/api/files/archive?token=${token}`,
+    id: jti,
+    expiresIn: actualExpiry
+  };
+}
+
+/**
+ * Verify a signed archive URL, checking the client it was issued to and
+ * that it hasn't been revoked. Uses are counted by claimSignedUrl.
+ */
+export async function verifySignedArchiveUrl(
+  token: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<{
+  valid: boolean;
+  payload?: any;
+  error?: string;
+}> {
+  try {
+    const decoded = await verifyWithKeyring('signed_url', token);
+
+    if (decoded.action !== 'archive') {
+      return { valid: false, error: 'Action mismatch' };
+    }
+    if (decoded.ip && ipAddress && decoded.ip !== hashClaim(ipAddress)) {
+      return { valid: false, error: 'IP address mismatch' };
+    }
+    if (decoded.ua && userAgent && decoded.ua !== hashClaim(userAgent)) {
+      return { valid: false, error: 'User agent mismatch' };
+    }
+
+    const refusal = getSignedUrlRefusal(
+      await database.getSignedUrlToken(decoded.jti)
+    );
+    if (refusal) {
+      return { valid: false, error: refusal };
     }
 
     return { valid: true, payload: decoded };
@@ -125,13 +315,15 @@ export async function verifySignedUrl(
 }
 
 /**
- * Check if a user can access a file
+ * Check if a user can access a file, as its owner or through a share
+ * granting at least the required permission
  */
 export async function checkFileAccess(
   fileId: string,
   sessionToken?: string,
   ipAddress?: string,
-  userAgent?: string
+  userAgent?: string,
+  requiredAccess: AccessLevel = 'view'
 ): Promise<SecureFileAccess> {
   try {
     // Get file information
@@ -198,9 +390,9 @@ export async function checkFileAccess(
       };
     }
 
-    // Check if user is the file owner
-    const isOwner = file.user_id === user.id;
-    if (!isOwner) {
+    // Check if user owns the file or it has been shared with them
+    const access = await getFileAccessLevel(file, user.id);
+    if (!hasAccess(access, requiredAccess)) {
       await logFileAccess({
         file_id: fileId,
         user_id: user.id,
@@ -208,12 +400,17 @@ export async function checkFileAccess(
         user_agent: userAgent,
         action: 'access_check',
         success: false,
-        error_message: 'Access denied - not file owner'
+        error_message: access
+          ? `Access denied - ${requiredAccess} permission required`
+          : 'Access denied - not file owner'
       });
 
       return {
         canAccess: false,
-        reason: 'Access denied - you are not the owner of this file'
+        reason: access
+          ? `Access denied - ${requiredAccess} permission required`
+          : 'Access denied - you are not the owner of this file',
+        access: access || undefined
       };
     }
 
@@ -229,7 +426,8 @@ export async function checkFileAccess(
 
     return {
       canAccess: true,
-      isOwner: true
+      isOwner: access === 'owner',
+      access: access!
     };
 
   } catch (error: any) {
@@ -262,19 +460,25 @@ export async function generateSecureDownloadUrl(
     action?: 'download' | 'view' | 'info';
     ipAddress?: string;
     userAgent?: string;
+    maxUses?: number;
+    algorithm?: SigningKeyAlgorithm;
+    transform?: ImageTransform;
   } = {}
 ): Promise<{
   success: boolean;
   url?: string;
+  id?: string;
+  algorithm?: SigningKeyAlgorithm;
   error?: string;
 }> {
   try {
-    // Verify user can access the file
+    // Verify user can access the file for the requested action
     const accessCheck = await checkFileAccess(
       fileId,
       sessionToken,
       options.ipAddress,
-      options.userAgent
+      options.userAgent,
+      getRequiredAccess(options.action || 'download')
     );
 
     if (!accessCheck.canAccess) {
@@ -293,14 +497,28 @@ export async function generateSecureDownloadUrl(
       };
     }
 
-    // Generate signed URL
-    const signedUrl = generateSignedUrl({
+    // Generate signed URL, recorded so its uses can be counted and it can
+    // be revoked before it expires
+    const jti = crypto.randomUUID();
+    const expiresIn = Math.min(options.expiresIn ?? DEFAULT_URL_EXPIRY, MAX_URL_EXPIRY);
+    const signedUrl = await generateSignedUrl({
       fileId,
       userId: user.id,
-      expiresIn: options.expiresIn,
+      expiresIn,
       action: options.action,
       ipAddress: options.ipAddress,
-      userAgent: options.userAgent
+      userAgent: options.userAgent,
+      maxUses: options.maxUses,
+      jti,
+      algorithm: options.algorithm,
+      transform: options.transform
+    });
+    await database.createSignedUrlToken({
+      jti,
+      file_id: fileId,
+      action: options.action || 'download',
+      max_uses: options.maxUses,
+      expires_at: new Date(Date.now() + expiresIn * 1000).toISOString()
     });
 
     // Log URL generation
@@ -310,12 +528,15 @@ export async function generateSecureDownloadUrl(
       ip_address: options.ipAddress,
       user_agent: options.userAgent,
       action: `generate_${options.action || 'download'}_url`,
-      success: true
+      success: true,
+      token_id: jti
     });
 
     return {
       success: true,
-      url: signedUrl
+      url: signedUrl,
+      id: jti,
+      algorithm: options.algorithm || DEFAULT_URL_ALGORITHM
     };
 
   } catch (error: any) {
@@ -383,6 +604,249 @@ export async function revokeFileAccess(
   }
 }
 
+function toSignedUrlInfo(url: IssuedSignedUrl): SignedUrlInfo {
+  let status: SignedUrlInfo['status'] = 'active';
+  if (url.revoked_at) {
+    status = 'revoked';
+  } else if (url.max_uses && url.use_count >= url.max_uses) {
+    status = 'used';
+  } else if (new Date(url.expires_at) < new Date()) {
+    status = 'expired';
+  }
+
+  return {
+    id: url.jti,
+    fileId: url.file_id || null,
+    fileName: url.file_name || null,
+    action: url.action || null,
+    issuedBy: {
+      id: url.issued_by || null,
+      username: url.issued_by_username || null
+    },
+    createdAt: url.issued_at,
+    expiresAt: url.expires_at,
+    maxUses: url.max_uses ?? null,
+    useCount: url.use_count,
+    lastUsedAt: url.last_used_at || null,
+    revokedAt: url.revoked_at || null,
+    status
+  };
+}
+
+/**
+ * List the signed URLs issued for a file the user manages, or for every
+ * file they own along with the archive URLs they signed
+ */
+export async function listSignedUrls(
+  userId: string,
+  fileId?: string
+): Promise<{
+  success: boolean;
+  urls?: SignedUrlInfo[];
+  error?: string;
+}> {
+  if (!fileId) {
+    const urls = [
+      ...(await database.getIssuedSignedUrls({ ownerId: userId })),
+      ...(await database.getIssuedArchiveUrls(userId))
+    ].sort((a, b) => b.issued_at.localeCompare(a.issued_at));
+    return { success: true, urls: urls.map(toSignedUrlInfo) };
+  }
+
+  const file = await database.getFileById(fileId);
+  const access = file ? await getFileAccessLevel(file, userId) : null;
+  if (!access) {
+    return { success: false, error: 'File not found' };
+  }
+  if (!hasAccess(access, 'manage')) {
+    return {
+      success: false,
+      error: 'Access denied - manage permission required'
+    };
+  }
+
+  const urls = await database.getIssuedSignedUrls({ fileId });
+  return { success: true, urls: urls.map(toSignedUrlInfo) };
+}
+
+/**
+ * Revoke a single outstanding signed URL before it expires. Other URLs for
+ * the same file keep working. Archive URLs can only be revoked by the user
+ * who signed them.
+ */
+export async function revokeSignedUrl(
+  userId: string,
+  jti: string,
+  options: {
+    ipAddress?: string;
+    userAgent?: string;
+  } = {}
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const token = await database.getSignedUrlToken(jti);
+  if (token && !token.file_id) {
+    if (token.user_id !== userId) {
+      return { success: false, error: 'Signed URL not found' };
+    }
+    await database.revokeSignedUrlToken(jti);
+    return { success: true };
+  }
+
+  const file = token ? await database.getFileById(token.file_id!) : null;
+  const access = file ? await getFileAccessLevel(file, userId) : null;
+  if (!token || !access) {
+    return { success: false, error: 'Signed URL not found' };
+  }
+  if (!hasAccess(access, 'manage')) {
+    return {
+      success: false,
+      error: 'Access denied - manage permission required'
+    };
+  }
+
+  await database.revokeSignedUrlToken(jti);
+
+  await logFileAccess({
+    file_id: token.file_id!,
+    user_id: userId,
+    ip_address: options.ipAddress,
+    user_agent: options.userAgent,
+    action: 'revoke_signed_url',
+    success: true,
+    token_id: jti
+  });
+
+  return { success: true };
+}
+
+/**
+ * Set or remove (with null) the password guarding a file's access token link
+ */
+export async function setLinkPassword(
+  fileId: string,
+  userId: string,
+  password: string | null
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const file = await database.getFileById(fileId);
+    if (!file || file.user_id !== userId) {
+      return {
+        success: false,
+        error: 'File not found'
+      };
+    }
+
+    if (
+      password !== null &&
+      (password.length < MIN_LINK_PASSWORD_LENGTH ||
+        password.length > MAX_LINK_PASSWORD_LENGTH)
+    ) {
+      return {
+        success: false,
+        error: `Invalid password: must be ${MIN_LINK_PASSWORD_LENGTH}-${MAX_LINK_PASSWORD_LENGTH} characters`
+      };
+    }
+
+    await database.updateFileLinkPassword(
+      fileId,
+      password === null ? null : await hashPassword(password)
+    );
+
+    await logFileAccess({
+      file_id: fileId,
+      user_id: userId,
+      action: password === null ? 'link_password_removed' : 'link_password_set',
+      success: true
+    });
+
+    return { success: true };
+
+  } catch (error: any) {
+    console.error('Link password update error:', error);
+    return {
+      success: false,
+      error: 'Failed to update link password'
+    };
+  }
+}
+
+/**
+ * Exchange the password of a protected access token link for a short-lived
+ * signed URL, bound to the visitor's IP address
+ */
+export async function unlockFileLink(
+  accessToken: string,
+  password: string,
+  options: {
+    action?: 'download' | 'view';
+    ipAddress?: string;
+    userAgent?: string;
+  } = {}
+): Promise<{
+  success: boolean;
+  url?: string;
+  expiresIn?: number;
+  error?: string;
+}> {
+  const file = await database.getFileByAccessToken(accessToken);
+  if (!file || !file.link_password_hash) {
+    return {
+      success: false,
+      error: 'File not found'
+    };
+  }
+
+  if (file.expires_at && new Date(file.expires_at) < new Date()) {
+    return {
+      success: false,
+      error: 'File has expired'
+    };
+  }
+
+  const valid = await verifyPassword(password, file.link_password_hash);
+  if (!valid) {
+    await logFileAccess({
+      file_id: file.id,
+      ip_address: options.ipAddress,
+      user_agent: options.userAgent,
+      action: 'link_unlock',
+      success: false,
+      error_message: 'Incorrect link password'
+    });
+
+    return {
+      success: false,
+      error: 'Incorrect password'
+    };
+  }
+
+  await logFileAccess({
+    file_id: file.id,
+    ip_address: options.ipAddress,
+    user_agent: options.userAgent,
+    action: 'link_unlock',
+    success: true
+  });
+
+  // Signed on the owner's behalf, as the owner made the link
+  return {
+    success: true,
+    url: await generateSignedUrl({
+      fileId: file.id,
+      userId: file.user_id,
+      expiresIn: UNLOCKED_LINK_EXPIRY,
+      action: options.action || 'download',
+      ipAddress: options.ipAddress
+    }),
+    expiresIn: UNLOCKED_LINK_EXPIRY
+  };
+}
+
 /**
  * Log file access attempts
  */
@@ -0,0 +1,448 @@
+import crypto from "crypto";
+import net from "net";
+import { v4 as uuidv4 } from "uuid";
+import { database, File, ShareLink, ShareLinkAction } from "./database";
+import { AuditContext, logAuditEvent } from "./audit";
+import { isDownloadLimitReached } from "./file-utils";
+import { getFileAccessLevel, hasAccess } from "./sharing";
+import { logFileAccess } from "./secure-access";
+
+export const SHARE_LINK_ACTIONS: ShareLinkAction[] = [
+  "download",
+  "view",
+  "info",
+];
+const MAX_LABEL_LENGTH = 100;
+const MAX_LINK_HOURS = 24 * 365;
+const MAX_ALLOWLIST_ENTRIES = 50;
+
+export interface ShareLinkInfo {
+  id: string;
+  fileId: string;
+  url: string;
+  token: string;
+  label: string | null;
+  expiresAt: string | null;
+  isExpired: boolean;
+  maxDownloads: number | null;
+  downloadCount: number;
+  allowedActions: ShareLinkAction[];
+  ipAllowlist: string[];
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt?: string;
+  lastAccessedAt: string | null;
+  revokedAt: string | null;
+  isActive: boolean;
+}
+
+// Settings for a new link, or the ones to change on an existing link.
+// null clears an optional setting.
+export interface ShareLinkRequest {
+  label?: unknown;
+  expiresIn?: unknown; // hours
+  maxDownloads?: unknown;
+  burnAfterReading?: unknown; // shorthand for a maxDownloads of 1
+  allowedActions?: unknown;
+  ipAllowlist?: unknown;
+}
+
+// Where a visitor opening a link comes from
+export interface LinkVisitor {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(",").filter(Boolean) : [];
+}
+
+function isLinkExpired(link: ShareLink): boolean {
+  return !!link.expires_at && new Date(link.expires_at) < new Date();
+}
+
+function isLimitReached(link: ShareLink): boolean {
+  return (
+    link.max_downloads !== null &&
+    link.max_downloads !== undefined &&
+    link.download_count >= link.max_downloads
+  );
+}
+
+export function toShareLinkInfo(link: ShareLink): ShareLinkInfo {
+  const isExpired = isLinkExpired(link);
+  return {
+    id: link.id,
+    fileId: link.file_id,
+    url: `/api/links/${link.token}`,
+    token: link.token,
+    label: link.label || null,
+    expiresAt: link.expires_at || null,
+    isExpired,
+    maxDownloads: link.max_downloads ?? null,
+    downloadCount: link.download_count,
+    allowedActions: splitList(link.allowed_actions) as ShareLinkAction[],
+    ipAllowlist: splitList(link.ip_allowlist),
+    createdBy: link.created_by || null,
+    createdAt: link.created_at,
+    updatedAt: link.updated_at,
+    lastAccessedAt: link.last_accessed_at || null,
+    revokedAt: link.revoked_at || null,
+    isActive: !link.revoked_at && !isExpired && !isLimitReached(link),
+  };
+}
+
+function validateLabel(label: unknown): string | undefined {
+  if (label === undefined || label === null || label === "") {
+    return undefined;
+  }
+  if (typeof label !== "string" || label.trim().length > MAX_LABEL_LENGTH) {
+    throw new Error(
+      `Invalid label: must be at most ${MAX_LABEL_LENGTH} characters`,
+    );
+  }
+  return label.trim() || undefined;
+}
+
+function toExpiryDate(expiresIn: unknown): string | undefined {
+  if (expiresIn === undefined || expiresIn === null || expiresIn === "") {
+    return undefined;
+  }
+  const hours = Number(expiresIn);
+  if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_LINK_HOURS) {
+    throw new Error(
+      `Invalid expiresIn: must be between 0 and ${MAX_LINK_HOURS} hours`,
+    );
+  }
+  return new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+}
+
+function validateMaxDownloads(maxDownloads: unknown): number | undefined {
+  if (maxDownloads === undefined || maxDownloads === null) {
+    return undefined;
+  }
+  if (
+    typeof maxDownloads !== "number" ||
+    !Number.isInteger(maxDownloads) ||
+    maxDownloads < 1
+  ) {
+    throw new Error("Invalid maxDownloads: must be a positive whole number");
+  }
+  return maxDownloads;
+}
+
+function getMaxDownloads(request: ShareLinkRequest): number | undefined {
+  return request.burnAfterReading === true
+    ? 1
+    : validateMaxDownloads(request.maxDownloads);
+}
+
+function validateAllowedActions(actions: unknown): string {
+  if (
+    !Array.isArray(actions) ||
+    actions.length === 0 ||
+    actions.some(
+      (action) => !SHARE_LINK_ACTIONS.includes(action as ShareLinkAction),
+    )
+  ) {
+    throw new Error(
+      `Invalid allowedActions: must list one or more of ${SHARE_LINK_ACTIONS.join(", ")}`,
+    );
+  }
+  // Stored in a fixed order so equal settings compare equal
+  return SHARE_LINK_ACTIONS.filter((action) => actions.includes(action)).join(
+    ",",
+  );
+}
+
+// A single address or a CIDR range, such as 203.0.113.7 or 10.0.0.0/8
+export function isValidAllowlistEntry(entry: string): boolean {
+  const [address, prefix, ...rest] = entry.split("/");
+  const family = net.isIP(address);
+  if (!family || rest.length > 0) return false;
+  if (prefix === undefined) return true;
+  if (!/^\d{1,3}$/.test(prefix)) return false;
+  return parseInt(prefix) <= (family === 4 ? 32 : 128);
+}
+
+function validateIpAllowlist(allowlist: unknown): string | undefined {
+  if (allowlist === undefined || allowlist === null) {
+    return undefined;
+  }
+  if (
+    !Array.isArray(allowlist) ||
+    allowlist.length > MAX_ALLOWLIST_ENTRIES ||
+    allowlist.some(
+      (entry) => typeof entry !== "string" || !isValidAllowlistEntry(entry),
+    )
+  ) {
+    throw new Error(
+      "Invalid ipAllowlist: must be a list of IP addresses or CIDR ranges",
+    );
+  }
+  return allowlist.length > 0 ? allowlist.join(",") : undefined;
+}
+
+export function isAddressAllowed(
+  allowlist: string[],
+  ipAddress: string | undefined,
+): boolean {
+  if (allowlist.length === 0) return true;
+  const family = ipAddress ? net.isIP(ipAddress) : 0;
+  if (!family) return false;
+
+  const blockList = new net.BlockList();
+  for (const entry of allowlist) {
+    const [address, prefix] = entry.split("/");
+    const type = net.isIP(address) === 4 ? "ipv4" : "ipv6";
+    if (prefix === undefined) {
+      blockList.addAddress(address, type);
+    } else {
+      blockList.addSubnet(address, parseInt(prefix), type);
+    }
+  }
+  return blockList.check(ipAddress!, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Load a file the user may manage links for. Files the user can't see at
+// all are reported as not found.
+async function getManagedFile(userId: string, fileId: string): Promise<File> {
+  const file = await database.getFileById(fileId);
+  const level = file ? await getFileAccessLevel(file, userId) : null;
+  if (!file || !level) {
+    throw new Error("File not found");
+  }
+  if (!hasAccess(level, "manage")) {
+    throw new Error("Access denied - manage permission required");
+  }
+  return file;
+}
+
+async function getManagedLink(
+  userId: string,
+  linkId: string,
+): Promise<{ link: ShareLink; file: File }> {
+  const link = await database.getShareLinkById(linkId);
+  if (!link) {
+    throw new Error("Link not found");
+  }
+  try {
+    return { link, file: await getManagedFile(userId, link.file_id) };
+  } catch (error: any) {
+    throw new Error(
+      error.message.includes("not found") ? "Link not found" : error.message,
+    );
+  }
+}
+
+// Create another public link to a file. All actions are allowed unless
+// the request narrows them down.
+export async function createShareLink(
+  context: AuditContext,
+  fileId: string,
+  request: ShareLinkRequest,
+): Promise<ShareLinkInfo> {
+  const label = validateLabel(request.label);
+  const expiresAt = toExpiryDate(request.expiresIn);
+  const maxDownloads = getMaxDownloads(request);
+  const allowedActions = validateAllowedActions(
+    request.allowedActions ?? SHARE_LINK_ACTIONS,
+  );
+  const ipAllowlist = validateIpAllowlist(request.ipAllowlist);
+  const file = await getManagedFile(context.userId, fileId);
+
+  const id = uuidv4();
+  await database.createShareLink({
+    id,
+    file_id: file.id,
+    token: crypto.randomBytes(32).toString("hex"),
+    label,
+    expires_at: expiresAt,
+    max_downloads: maxDownloads,
+    allowed_actions: allowedActions,
+    ip_allowlist: ipAllowlist,
+    created_by: context.userId,
+  });
+
+  await logAuditEvent(context, {
+    action: "share_link_created",
+    targetType: "file",
+    targetId: file.id,
+    ownerId: file.user_id,
+    details: {
+      linkId: id,
+      label: label || null,
+      expiresAt: expiresAt || null,
+      maxDownloads: maxDownloads ?? null,
+      allowedActions: splitList(allowedActions),
+    },
+  });
+
+  return toShareLinkInfo((await database.getShareLinkById(id))!);
+}
+
+// Links on one file the user manages, or on every file they own
+export async function listShareLinks(
+  userId: string,
+  fileId?: string,
+): Promise<ShareLinkInfo[]> {
+  if (!fileId) {
+    return (await database.getShareLinksByOwner(userId)).map(toShareLinkInfo);
+  }
+  const file = await getManagedFile(userId, fileId);
+  return (await database.getShareLinksForFile(file.id)).map(toShareLinkInfo);
+}
+
+export async function getShareLink(
+  userId: string,
+  linkId: string,
+): Promise<ShareLinkInfo> {
+  const { link } = await getManagedLink(userId, linkId);
+  return toShareLinkInfo(link);
+}
+
+// Change the settings of a link. Settings missing from the request stay
+// as they are; expiresIn restarts the clock from now.
+export async function updateShareLink(
+  context: AuditContext,
+  linkId: string,
+  request: ShareLinkRequest,
+): Promise<ShareLinkInfo> {
+  const { link, file } = await getManagedLink(context.userId, linkId);
+  if (link.revoked_at) {
+    throw new Error("Invalid update: the link has been revoked");
+  }
+
+  const changes = {
+    label:
+      request.label !== undefined ? validateLabel(request.label) : link.label,
+    expires_at:
+      request.expiresIn !== undefined
+        ? toExpiryDate(request.expiresIn)
+        : link.expires_at,
+    max_downloads:
+      request.maxDownloads !== undefined ||
+      request.burnAfterReading !== undefined
+        ? getMaxDownloads(request)
+        : link.max_downloads,
+    allowed_actions:
+      request.allowedActions !== undefined
+        ? validateAllowedActions(request.allowedActions)
+        : link.allowed_actions,
+    ip_allowlist:
+      request.ipAllowlist !== undefined
+        ? validateIpAllowlist(request.ipAllowlist)
+        : link.ip_allowlist,
+  };
+  await database.updateShareLink(link.id, changes);
+
+  await logAuditEvent(context, {
+    action: "share_link_updated",
+    targetType: "file",
+    targetId: file.id,
+    ownerId: file.user_id,
+    details: {
+      linkId: link.id,
+      changed: Object.keys(request).filter(
+        (key) => request[key as keyof ShareLinkRequest] !== undefined,
+      ),
+    },
+  });
+
+  return toShareLinkInfo((await database.getShareLinkById(link.id))!);
+}
+
+// Revoke a single link. The other links to the file keep working.
+export async function revokeShareLink(
+  context: AuditContext,
+  linkId: string,
+): Promise<ShareLinkInfo> {
+  const { link, file } = await getManagedLink(context.userId, linkId);
+  if (!link.revoked_at) {
+    await database.revokeShareLink(link.id);
+    await logAuditEvent(context, {
+      action: "share_link_revoked",
+      targetType: "file",
+      targetId: file.id,
+      ownerId: file.user_id,
+      details: { linkId: link.id, label: link.label || null },
+    });
+  }
+
+  return toShareLinkInfo((await database.getShareLinkById(link.id))!);
+}
+
+function logLinkAccess(
+  link: ShareLink,
+  action: string,
+  visitor: LinkVisitor,
+  errorMessage?: string,
+): Promise<void> {
+  return logFileAccess({
+    file_id: link.file_id,
+    ip_address: visitor.ipAddress,
+    user_agent: visitor.userAgent,
+    action: `link_${action}`,
+    success: !errorMessage,
+    error_message: errorMessage,
+    share_link_id: link.id,
+  });
+}
+
+// Check a visitor may use a link for an action, logging the attempt
+// against the link either way. Throws when the link can't be used.
+export async function openShareLink(
+  token: string,
+  action: ShareLinkAction,
+  visitor: LinkVisitor,
+): Promise<{ link: ShareLink; file: File }> {
+  const link = await database.getShareLinkByToken(token);
+  if (!link) {
+    throw new Error("Link not found");
+  }
+
+  const file = await database.getFileById(link.file_id);
+  let error: string | null = null;
+  if (link.revoked_at) {
+    error = "Link has been revoked";
+  } else if (isLinkExpired(link)) {
+    error = "Link has expired";
+  } else if (!file) {
+    error = "File not found";
+  } else if (file.expires_at && new Date(file.expires_at) < new Date()) {
+    error = "File has expired";
+  } else if (!splitList(link.allowed_actions).includes(action)) {
+    error = `Access denied - link does not allow ${action}`;
+  } else if (
+    !isAddressAllowed(splitList(link.ip_allowlist), visitor.ipAddress)
+  ) {
+    error = "Access denied - address not allowed";
+  } else if (
+    action !== "info" &&
+    (isLimitReached(link) || isDownloadLimitReached(file))
+  ) {
+    error = "Download limit reached";
+  }
+
+  await logLinkAccess(link, action, visitor, error || undefined);
+  if (error) {
+    throw new Error(error);
+  }
+
+  await database.touchShareLink(link.id);
+  return { link, file: file! };
+}
+
+// Count a transfer of the file against the link's download limit. When
+// another request used up the limit first, the refusal is logged too.
+export async function claimShareLinkDownload(
+  link: ShareLink,
+  action: ShareLinkAction,
+  visitor: LinkVisitor,
+): Promise<boolean> {
+  const claimed = await database.claimShareLinkDownload(link.id);
+  if (!claimed) {
+    await logLinkAccess(link, action, visitor, "Download limit reached");
+  }
+  return claimed;
+}
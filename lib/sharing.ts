@@ -0,0 +1,598 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  database,
+  File,
+  Folder,
+  GroupMember,
+  SharePermission,
+  ShareDetails,
+  User,
+  UserGroup,
+} from "./database";
+import { AuditContext, logAuditEvent } from "./audit";
+
+export const SHARE_PERMISSIONS: SharePermission[] = [
+  "view",
+  "download",
+  "manage",
+];
+const MAX_GROUP_NAME_LENGTH = 64;
+const MAX_SHARE_HOURS = 24 * 365;
+
+// What a user may do with a file or folder. Each level includes the ones
+// before it: view (see details and preview), download, manage (share it
+// with others), owner (everything, including delete).
+export type AccessLevel = SharePermission | "owner";
+
+const ACCESS_RANKS: Record<AccessLevel, number> = {
+  view: 1,
+  download: 2,
+  manage: 3,
+  owner: 4,
+};
+
+export interface ShareInfo {
+  id: string;
+  resourceType: "file" | "folder";
+  resourceId: string;
+  resourceName: string | null;
+  grantee: { type: "user" | "group"; id: string; name: string | null };
+  permission: SharePermission;
+  expiresAt: string | null;
+  isExpired: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface GroupInfo {
+  id: string;
+  name: string;
+  ownerId: string;
+  isOwner: boolean;
+  members: Array<{ id: string; username: string }>;
+  createdAt: string;
+}
+
+// Who to share with: a registered user by id, username or email, or a group
+export interface ShareGrantee {
+  userId?: string;
+  username?: string;
+  email?: string;
+  groupId?: string;
+}
+
+export interface ShareRequest extends ShareGrantee {
+  fileId?: string;
+  folderId?: string;
+  permission: unknown;
+  expiresIn?: unknown; // hours
+}
+
+export function hasAccess(
+  level: AccessLevel | null,
+  required: AccessLevel,
+): boolean {
+  return level !== null && ACCESS_RANKS[level] >= ACCESS_RANKS[required];
+}
+
+// The permission a signed URL action needs
+export function getRequiredAccess(action: string): SharePermission {
+  return action === "download" ? "download" : "view";
+}
+
+function highestPermission(
+  permissions: SharePermission[],
+): SharePermission | null {
+  return permissions.reduce<SharePermission | null>(
+    (best, permission) =>
+      best === null || ACCESS_RANKS[permission] > ACCESS_RANKS[best]
+        ? permission
+        : best,
+    null,
+  );
+}
+
+// The user's access to a file: as its owner, or through unexpired shares
+// of the file or any folder it sits in
+export async function getFileAccessLevel(
+  file: File,
+  userId: string,
+): Promise<AccessLevel | null> {
+  if (file.user_id === userId) {
+    return "owner";
+  }
+  return highestPermission(
+    await database.getGrantedPermissions("file", file.id, userId),
+  );
+}
+
+export async function getFolderAccessLevel(
+  folder: Folder,
+  userId: string,
+): Promise<AccessLevel | null> {
+  if (folder.user_id === userId) {
+    return "owner";
+  }
+  return highestPermission(
+    await database.getGrantedPermissions("folder", folder.id, userId),
+  );
+}
+
+export function validatePermission(permission: unknown): SharePermission {
+  if (!SHARE_PERMISSIONS.includes(permission as SharePermission)) {
+    throw new Error(
+      `Invalid permission: must be one of ${SHARE_PERMISSIONS.join(", ")}`,
+    );
+  }
+  return permission as SharePermission;
+}
+
+function toExpiryDate(expiresIn: unknown): string | undefined {
+  if (expiresIn === undefined || expiresIn === null || expiresIn === "") {
+    return undefined;
+  }
+  const hours = Number(expiresIn);
+  if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_SHARE_HOURS) {
+    throw new Error(
+      `Invalid expiresIn: must be between 0 and ${MAX_SHARE_HOURS} hours`,
+    );
+  }
+  return new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+}
+
+export function toShareInfo(share: ShareDetails): ShareInfo {
+  return {
+    id: share.id,
+    resourceType: share.file_id ? "file" : "folder",
+    resourceId: (share.file_id || share.folder_id)!,
+    resourceName: share.file_name || share.folder_name || null,
+    grantee: share.user_id
+      ? { type: "user", id: share.user_id, name: share.username || null }
+      : { type: "group", id: share.group_id!, name: share.group_name || null },
+    permission: share.permission,
+    expiresAt: share.expires_at || null,
+    isExpired: share.expires_at
+      ? new Date(share.expires_at) < new Date()
+      : false,
+    createdBy: share.created_by || null,
+    createdAt: share.created_at,
+    updatedAt: share.updated_at,
+  };
+}
+
+interface ShareTarget {
+  type: "file" | "folder";
+  id: string;
+  name: string;
+  ownerId: string;
+}
+
+// Resolve the file or folder being shared and check the user may manage
+// it. Anything the user can't see at all is reported as not found.
+async function resolveShareTarget(
+  userId: string,
+  fileId: string | undefined,
+  folderId: string | undefined,
+): Promise<ShareTarget> {
+  if (!fileId === !folderId) {
+    throw new Error("Either fileId or folderId is required");
+  }
+
+  let target: ShareTarget | null = null;
+  let level: AccessLevel | null = null;
+  if (fileId) {
+    const file = await database.getFileById(fileId);
+    if (file) {
+      level = await getFileAccessLevel(file, userId);
+      target = {
+        type: "file",
+        id: file.id,
+        name: file.original_name,
+        ownerId: file.user_id,
+      };
+    }
+  } else {
+    const folder = await database.getFolderById(folderId!);
+    if (folder) {
+      level = await getFolderAccessLevel(folder, userId);
+      target = {
+        type: "folder",
+        id: folder.id,
+        name: folder.name,
+        ownerId: folder.user_id,
+      };
+    }
+  }
+
+  if (!target || !level) {
+    throw new Error(fileId ? "File not found" : "Folder not found");
+  }
+  if (!hasAccess(level, "manage")) {
+    throw new Error("Access denied - manage permission required");
+  }
+  return target;
+}
+
+async function findUser(grantee: ShareGrantee): Promise<User> {
+  let user: User | null = null;
+  if (grantee.userId) {
+    user = await database.getUserById(grantee.userId);
+  } else if (grantee.username) {
+    user = await database.getUserByUsername(grantee.username);
+  } else if (grantee.email) {
+    user = await database.getUserByEmail(grantee.email);
+  } else {
+    throw new Error("A userId, username, email or groupId is required");
+  }
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+  return user;
+}
+
+// Grant a user or group access to a file or folder. Sharing again with the
+// same grantee replaces the permission and expiry.
+export async function shareResource(
+  context: AuditContext,
+  request: ShareRequest,
+): Promise<ShareInfo> {
+  const permission = validatePermission(request.permission);
+  const expiresAt = toExpiryDate(request.expiresIn);
+  const target = await resolveShareTarget(
+    context.userId,
+    request.fileId,
+    request.folderId,
+  );
+
+  let grantee: { type: "user" | "group"; id: string; name: string };
+  if (request.groupId) {
+    const group = await getGroupForUser(context.userId, request.groupId);
+    if (!group) {
+      throw new Error("Group not found");
+    }
+    grantee = { type: "group", id: group.id, name: group.name };
+  } else {
+    const user = await findUser(request);
+    if (user.id === target.ownerId) {
+      throw new Error(
+        `Invalid share: the ${target.type} already belongs to this user`,
+      );
+    }
+    grantee = { type: "user", id: user.id, name: user.username };
+  }
+
+  const share = await database.upsertShare({
+    id: uuidv4(),
+    file_id: target.type === "file" ? target.id : undefined,
+    folder_id: target.type === "folder" ? target.id : undefined,
+    user_id: grantee.type === "user" ? grantee.id : undefined,
+    group_id: grantee.type === "group" ? grantee.id : undefined,
+    permission,
+    created_by: context.userId,
+    expires_at: expiresAt,
+  });
+
+  await logAuditEvent(context, {
+    action: share.updated_at ? "share_updated" : "share_granted",
+    targetType: target.type,
+    targetId: target.id,
+    ownerId: target.ownerId,
+    details: {
+      shareId: share.id,
+      grantee,
+      permission,
+      expiresAt: expiresAt || null,
+    },
+  });
+
+  return toShareInfo((await database.getShareById(share.id))!);
+}
+
+// Shares on one file or folder the user manages, or on everything they own
+export async function listShares(
+  userId: string,
+  resource: { fileId?: string; folderId?: string } = {},
+): Promise<ShareInfo[]> {
+  if (!resource.fileId && !resource.folderId) {
+    return (await database.getSharesByOwner(userId)).map(toShareInfo);
+  }
+
+  const target = await resolveShareTarget(
+    userId,
+    resource.fileId,
+    resource.folderId,
+  );
+  return (await database.getSharesForResource(target.type, target.id)).map(
+    toShareInfo,
+  );
+}
+
+// Remove a share. Anyone who manages the resource can, and so can the user
+// it was shared with, to leave it.
+export async function revokeShare(
+  context: AuditContext,
+  shareId: string,
+): Promise<ShareInfo> {
+  const share = await database.getShareById(shareId);
+  if (!share) {
+    throw new Error("Share not found");
+  }
+
+  if (share.user_id !== context.userId) {
+    try {
+      await resolveShareTarget(
+        context.userId,
+        share.file_id,
+        share.folder_id,
+      );
+    } catch (error: any) {
+      throw new Error(
+        error.message.includes("not found") ? "Share not found" : error.message,
+      );
+    }
+  }
+
+  await database.deleteShare(share.id);
+
+  const info = toShareInfo(share);
+  await logAuditEvent(context, {
+    action: "share_revoked",
+    targetType: info.resourceType,
+    targetId: info.resourceId,
+    ownerId: share.owner_id,
+    details: {
+      shareId: share.id,
+      grantee: info.grantee,
+      permission: share.permission,
+    },
+  });
+
+  return info;
+}
+
+// Files and folders shared with the user, directly or through a group,
+// each with the highest permission granted on it
+export async function getSharedWithUser(userId: string): Promise<{
+  files: Array<{ file: File; permission: SharePermission; share: ShareInfo }>;
+  folders: Array<{
+    folder: Folder;
+    permission: SharePermission;
+    share: ShareInfo;
+  }>;
+}> {
+  const files = new Map<
+    string,
+    { file: File; permission: SharePermission; share: ShareInfo }
+  >();
+  const folders = new Map<
+    string,
+    { folder: Folder; permission: SharePermission; share: ShareInfo }
+  >();
+
+  for (const share of await database.getSharesWithUser(userId)) {
+    const info = toShareInfo(share);
+    if (share.file_id) {
+      const existing = files.get(share.file_id);
+      if (existing && !hasAccess(share.permission, existing.permission)) {
+        continue;
+      }
+      const file =
+        existing?.file || (await database.getFileById(share.file_id));
+      if (file && file.user_id !== userId) {
+        files.set(file.id, { file, permission: share.permission, share: info });
+      }
+    } else {
+      const existing = folders.get(share.folder_id!);
+      if (existing && !hasAccess(share.permission, existing.permission)) {
+        continue;
+      }
+      const folder =
+        existing?.folder || (await database.getFolderById(share.folder_id!));
+      if (folder && folder.user_id !== userId) {
+        folders.set(folder.id, {
+          folder,
+          permission: share.permission,
+          share: info,
+        });
+      }
+    }
+  }
+
+  return {
+    files: Array.from(files.values()),
+    folders: Array.from(folders.values()),
+  };
+}
+
+// The contents of a folder shared with the user
+export async function getSharedFolderContents(
+  userId: string,
+  folderId: string,
+): Promise<{
+  folder: Folder;
+  access: AccessLevel;
+  folders: Folder[];
+  files: File[];
+} | null> {
+  const folder = await database.getFolderById(folderId);
+  if (!folder) {
+    return null;
+  }
+  const access = await getFolderAccessLevel(folder, userId);
+  if (!access) {
+    return null;
+  }
+
+  return {
+    folder,
+    access,
+    folders: await database.getChildFolders(folder.user_id, folder.id),
+    files: await database.getFilesInFolder(folder.user_id, folder.id, 1000),
+  };
+}
+
+// Group methods
+
+export function toGroupInfo(
+  group: UserGroup,
+  members: GroupMember[],
+  userId: string,
+): GroupInfo {
+  return {
+    id: group.id,
+    name: group.name,
+    ownerId: group.owner_id,
+    isOwner: group.owner_id === userId,
+    members: members.map((member) => ({
+      id: member.user_id,
+      username: member.username,
+    })),
+    createdAt: group.created_at,
+  };
+}
+
+function validateGroupName(name: unknown): string {
+  if (typeof name !== "string" || name.trim() === "") {
+    throw new Error("Group name is required");
+  }
+  const trimmed = name.trim();
+  if (trimmed.length > MAX_GROUP_NAME_LENGTH) {
+    throw new Error(
+      `Group name must be at most ${MAX_GROUP_NAME_LENGTH} characters`,
+    );
+  }
+  return trimmed;
+}
+
+// A group, if the user owns it or belongs to it
+export async function getGroupForUser(
+  userId: string,
+  groupId: string,
+): Promise<UserGroup | null> {
+  const group = await database.getGroupById(groupId);
+  if (!group) {
+    return null;
+  }
+  if (
+    group.owner_id !== userId &&
+    !(await database.isGroupMember(group.id, userId))
+  ) {
+    return null;
+  }
+  return group;
+}
+
+async function getOwnedGroup(
+  userId: string,
+  groupId: string,
+): Promise<UserGroup> {
+  const group = await getGroupForUser(userId, groupId);
+  if (!group) {
+    throw new Error("Group not found");
+  }
+  if (group.owner_id !== userId) {
+    throw new Error("Access denied - only the group owner can do this");
+  }
+  return group;
+}
+
+export async function createGroup(
+  context: AuditContext,
+  name: unknown,
+  members: ShareGrantee[] = [],
+): Promise<UserGroup> {
+  const groupName = validateGroupName(name);
+  if (await database.getGroupByName(context.userId, groupName)) {
+    throw new Error(`A group named "${groupName}" already exists`);
+  }
+
+  const users = [];
+  for (const member of members) {
+    users.push(await findUser(member));
+  }
+
+  const group: Omit<UserGroup, "created_at"> = {
+    id: uuidv4(),
+    owner_id: context.userId,
+    name: groupName,
+  };
+  await database.createGroup(group);
+  for (const user of users) {
+    await database.addGroupMember(group.id, user.id);
+  }
+
+  await logAuditEvent(context, {
+    action: "group_created",
+    targetType: "group",
+    targetId: group.id,
+    ownerId: context.userId,
+    details: { name: groupName, members: users.map((user) => user.username) },
+  });
+
+  return (await database.getGroupById(group.id))!;
+}
+
+export async function addGroupMember(
+  context: AuditContext,
+  groupId: string,
+  member: ShareGrantee,
+): Promise<GroupMember[]> {
+  const group = await getOwnedGroup(context.userId, groupId);
+  const user = await findUser(member);
+  await database.addGroupMember(group.id, user.id);
+
+  await logAuditEvent(context, {
+    action: "group_member_added",
+    targetType: "group",
+    targetId: group.id,
+    ownerId: group.owner_id,
+    details: { userId: user.id, username: user.username },
+  });
+
+  return database.getGroupMembers(group.id);
+}
+
+// The owner can remove anyone; members can remove themselves
+export async function removeGroupMember(
+  context: AuditContext,
+  groupId: string,
+  userId: string,
+): Promise<GroupMember[]> {
+  const group =
+    userId === context.userId
+      ? await getGroupForUser(context.userId, groupId)
+      : await getOwnedGroup(context.userId, groupId);
+  if (!group) {
+    throw new Error("Group not found");
+  }
+
+  await database.removeGroupMember(group.id, userId);
+
+  await logAuditEvent(context, {
+    action: "group_member_removed",
+    targetType: "group",
+    targetId: group.id,
+    ownerId: group.owner_id,
+    details: { userId },
+  });
+
+  return database.getGroupMembers(group.id);
+}
+
+export async function deleteGroup(
+  context: AuditContext,
+  groupId: string,
+): Promise<void> {
+  const group = await getOwnedGroup(context.userId, groupId);
+  await database.deleteGroup(group.id);
+
+  await logAuditEvent(context, {
+    action: "group_deleted",
+    targetType: "group",
+    targetId: group.id,
+    ownerId: group.owner_id,
+    details: { name: group.name },
+  });
+}
@@ -0,0 +1,246 @@
+import crypto from "crypto";
+
+// Verifies signed URLs (/api/files/secure/{fileId}?token=...) without the
+// app server or its database, so a static file server or CDN in front of
+// the files can check them against the public keys published at
+// /.well-known/jwks.json. This module only depends on Node's crypto.
+//
+// Only URLs signed with an asymmetric key (EdDSA or ES256) can be verified
+// this way; HS256 URLs need the server's secret. Use limits and revocations
+// are recorded by the app server, so only it enforces them.
+
+export type AsymmetricAlgorithm = "EdDSA" | "ES256";
+
+export const ASYMMETRIC_ALGORITHMS: AsymmetricAlgorithm[] = ["EdDSA", "ES256"];
+
+// Claims of a signed URL token
+export interface SignedUrlClaims {
+  fileId: string;
+  userId: string;
+  action: string;
+  jti?: string;
+  maxUses?: number;
+  exp: number;
+  iat: number;
+  ip?: string; // SHA-256 of the address the URL is restricted to
+  ua?: string; // SHA-256 of the user agent the URL is restricted to
+  tf?: string; // image transform the URL renders, in its canonical form
+}
+
+// The request a signed URL is presented with
+export interface SignedUrlRequest {
+  fileId: string;
+  action: string;
+  ipAddress?: string;
+  userAgent?: string;
+  transform?: string; // canonical query of an image transform request
+}
+
+export interface SignedUrlVerification {
+  valid: boolean;
+  payload?: SignedUrlClaims;
+  error?: string;
+}
+
+export interface DecodedToken {
+  header: { alg: string; kid?: string; typ?: string };
+  payload: any;
+  signingInput: string;
+  signature: Buffer;
+}
+
+// Finds the public key for a token's kid, or null if it isn't known
+export type KeyResolver = (kid?: string) => Promise<crypto.KeyObject | null>;
+
+export function hashClaim(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+export function decodeToken(token: string): DecodedToken | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const header = JSON.parse(Buffer.from(parts[0], "base64url").toString());
+    const payload = JSON.parse(Buffer.from(parts[1], "base64url").toString());
+    if (!header || typeof header.alg !== "string" || !payload) {
+      return null;
+    }
+    return {
+      header,
+      payload,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], "base64url"),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// JWS signatures: Ed25519 signs the input itself, and ES256 signatures are
+// the raw r || s pair rather than DER
+function signatureOptions(algorithm: AsymmetricAlgorithm) {
+  return algorithm === "ES256"
+    ? { digest: "sha256", dsaEncoding: "ieee-p1363" as const }
+    : { digest: null, dsaEncoding: undefined };
+}
+
+export function signAsymmetric(
+  algorithm: AsymmetricAlgorithm,
+  signingInput: string,
+  privateKey: crypto.KeyObject | string,
+): Buffer {
+  const { digest, dsaEncoding } = signatureOptions(algorithm);
+  const key =
+    typeof privateKey === "string"
+      ? crypto.createPrivateKey(privateKey)
+      : privateKey;
+  return crypto.sign(digest, Buffer.from(signingInput), { key, dsaEncoding });
+}
+
+export function verifyTokenSignature(
+  token: DecodedToken,
+  publicKey: crypto.KeyObject,
+): boolean {
+  const algorithm = token.header.alg as AsymmetricAlgorithm;
+  if (!ASYMMETRIC_ALGORITHMS.includes(algorithm)) {
+    return false;
+  }
+
+  // The key type has to match the algorithm the token claims
+  const matchesAlgorithm =
+    algorithm === "ES256"
+      ? publicKey.asymmetricKeyDetails?.namedCurve === "prime256v1"
+      : publicKey.asymmetricKeyType === "ed25519";
+  if (!matchesAlgorithm) {
+    return false;
+  }
+
+  const { digest, dsaEncoding } = signatureOptions(algorithm);
+  try {
+    return crypto.verify(
+      digest,
+      Buffer.from(token.signingInput),
+      { key: publicKey, dsaEncoding },
+      token.signature,
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Checks the claims binding a URL to its file, action, image transform, and
+// optionally the client it was issued to. Returns why they don't match, or
+// null.
+export function checkSignedUrlClaims(
+  claims: SignedUrlClaims,
+  request: SignedUrlRequest,
+): string | null {
+  if (claims.fileId !== request.fileId) {
+    return "File ID mismatch";
+  }
+
+  if (claims.action !== request.action) {
+    return "Action mismatch";
+  }
+
+  // A transform URL only renders its own transform, and can't be used to
+  // fetch the original
+  if ((claims.tf ?? null) !== (request.transform ?? null)) {
+    return "Transform mismatch";
+  }
+
+  if (claims.ip && request.ipAddress) {
+    if (claims.ip !== hashClaim(request.ipAddress)) {
+      return "IP address mismatch";
+    }
+  }
+
+  if (claims.ua && request.userAgent) {
+    if (claims.ua !== hashClaim(request.userAgent)) {
+      return "User agent mismatch";
+    }
+  }
+
+  return null;
+}
+
+// Fetches the keys from a JWKS URL and keeps them for cacheSeconds. A kid
+// not in the cache refetches, at most every few seconds, so keys made by a
+// rotation are picked up straight away.
+export function createJwksKeyResolver(
+  jwksUrl: string,
+  cacheSeconds = 300,
+): KeyResolver {
+  const minRefetchMs = 5000;
+  let keys = new Map<string, crypto.KeyObject>();
+  let fetchedAt = 0;
+
+  async function refresh() {
+    const response = await fetch(jwksUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${jwksUrl}: ${response.status}`);
+    }
+
+    const jwks = await response.json();
+    const fetched = new Map<string, crypto.KeyObject>();
+    for (const jwk of jwks.keys || []) {
+      if (!jwk.kid) continue;
+      try {
+        const key = crypto.createPublicKey({ key: jwk, format: "jwk" });
+        fetched.set(jwk.kid, key);
+      } catch {
+        // Skip keys of types this verifier doesn't know
+      }
+    }
+    keys = fetched;
+    fetchedAt = Date.now();
+  }
+
+  return async (kid) => {
+    if (!kid) {
+      return null;
+    }
+
+    const age = Date.now() - fetchedAt;
+    if (age > cacheSeconds * 1000 || (!keys.has(kid) && age > minRefetchMs)) {
+      await refresh();
+    }
+    return keys.get(kid) ?? null;
+  };
+}
+
+// Verify a signed URL token against the keys resolveKey finds. Errors are
+// the ones the app server reports for the same URL.
+export async function verifySignedUrlToken(
+  token: string,
+  request: SignedUrlRequest,
+  resolveKey: KeyResolver,
+): Promise<SignedUrlVerification> {
+  const decoded = decodeToken(token);
+  if (
+    !decoded ||
+    !ASYMMETRIC_ALGORITHMS.includes(decoded.header.alg as AsymmetricAlgorithm)
+  ) {
+    return { valid: false, error: "Invalid signed URL" };
+  }
+
+  const publicKey = await resolveKey(decoded.header.kid);
+  if (!publicKey || !verifyTokenSignature(decoded, publicKey)) {
+    return { valid: false, error: "Invalid signed URL" };
+  }
+
+  const claims = decoded.payload as SignedUrlClaims;
+  if (typeof claims.exp !== "number" || claims.exp <= Date.now() / 1000) {
+    return { valid: false, error: "Signed URL has expired" };
+  }
+
+  const mismatch = checkSignedUrlClaims(claims, request);
+  if (mismatch) {
+    return { valid: false, error: mismatch };
+  }
+
+  return { valid: true, payload: claims };
+}
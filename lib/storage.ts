@@ -0,0 +1,317 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+const UPLOAD_DIR = path.join(process.cwd(), "uploads");
+
+export type StorageBackend = "local" | "s3";
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageObjectStat {
+  size: number;
+  lastModified: Date;
+}
+
+// Common interface implemented by every place file bytes can live. Keys are
+// backend-relative (e.g. "1718000000000_ab12cd34_photo.png").
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  put(key: string, data: Buffer): Promise<void>;
+  putStream(key: string, source: Readable, size: number): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  stat(key: string): Promise<StorageObjectStat | null>;
+}
+
+// Local filesystem storage
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly backend = "local" as const;
+
+  constructor(private readonly rootDir: string = UPLOAD_DIR) {
+    if (!fs.existsSync(rootDir)) {
+      fs.mkdirSync(rootDir, { recursive: true });
+    }
+  }
+
+  // Rows written before storage adapters existed store an absolute path, so
+  // those are used as-is. Relative keys must stay inside the root directory.
+  private resolve(key: string): string {
+    if (path.isAbsolute(key)) {
+      return key;
+    }
+
+    const resolved = path.resolve(this.rootDir, key);
+    if (!resolved.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async putStream(key: string, source: Readable, size: number): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await pipeline(source, fs.createWriteStream(filePath));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await fs.promises.readFile(this.resolve(key));
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(this.resolve(key), range);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return { size: stats.size, lastModified: stats.mtime };
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO
+  forcePathStyle?: boolean;
+}
+
+// S3-compatible object storage (AWS S3, MinIO, R2, ...) using SigV4-signed
+// requests over fetch.
+export class S3StorageAdapter implements StorageAdapter {
+  readonly backend = "s3" as const;
+
+  constructor(private readonly options: S3StorageOptions) {}
+
+  private objectUrl(key: string): URL {
+    const { bucket, region, endpoint, forcePathStyle } = this.options;
+    const encodedKey = key.split("/").map(encodeRfc3986).join("/");
+
+    if (endpoint) {
+      const base = endpoint.replace(/\/+$/, "");
+      if (forcePathStyle !== false) {
+        return new URL(`${base}/${bucket}/${encodedKey}`);
+      }
+      const url = new URL(base);
+      url.hostname = `${bucket}.${url.hostname}`;
+      url.pathname = `/${encodedKey}`;
+      return url;
+    }
+
+    return new URL(`https://${bucket}.s3.${region}.amazonaws.com/${encodedKey}`);
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    body?: Buffer | Readable,
+    size?: number,
+    extraHeaders: Record<string, string> = {},
+  ): Promise<Response> {
+    const url = this.objectUrl(key);
+    // Streamed bodies can't be hashed up front, so they are sent unsigned
+    const payloadHash =
+      body instanceof Readable
+        ? "UNSIGNED-PAYLOAD"
+        : sha256Hex(body || Buffer.alloc(0));
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.substring(0, 8);
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      signedHeaderNames.map((name) => `${name}:${headers[name]}\n`).join(""),
+      signedHeaderNames.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(Buffer.from(canonicalRequest)),
+    ].join("\n");
+
+    let signingKey = hmac(`AWS4${this.options.secretAccessKey}`, dateStamp);
+    signingKey = hmac(signingKey, this.options.region);
+    signingKey = hmac(signingKey, "s3");
+    signingKey = hmac(signingKey, "aws4_request");
+    const signature = hmac(signingKey, stringToSign).toString("hex");
+
+    const { host, ...requestHeaders } = headers;
+    if (size !== undefined) {
+      // S3 rejects chunked uploads without a declared length
+      requestHeaders["content-length"] = size.toString();
+    }
+
+    return await fetch(url, {
+      method,
+      headers: {
+        ...extraHeaders,
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(";")}, Signature=${signature}`,
+      },
+      body: body instanceof Readable ? (Readable.toWeb(body) as any) : body,
+      ...(body instanceof Readable && { duplex: "half" }),
+    } as RequestInit);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const response = await this.request("PUT", key, data);
+    if (!response.ok) {
+      throw new Error(`S3 put failed for ${key}: ${response.status}`);
+    }
+  }
+
+  async putStream(key: string, source: Readable, size: number): Promise<void> {
+    const response = await this.request("PUT", key, source, size);
+    if (!response.ok) {
+      throw new Error(`S3 put failed for ${key}: ${response.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request("GET", key);
+    if (!response.ok) {
+      throw new Error(`S3 get failed for ${key}: ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.request(
+      "GET",
+      key,
+      undefined,
+      undefined,
+      range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+    );
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 get failed for ${key}: ${response.status}`);
+    }
+    return Readable.fromWeb(response.body as any);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request("DELETE", key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed for ${key}: ${response.status}`);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    const response = await this.request("HEAD", key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 head failed for ${key}: ${response.status}`);
+    }
+
+    const lastModified = response.headers.get("last-modified");
+    return {
+      size: parseInt(response.headers.get("content-length") || "0"),
+      lastModified: lastModified ? new Date(lastModified) : new Date(),
+    };
+  }
+}
+
+function sha256Hex(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+// Adapter registry
+const adapters = new Map<StorageBackend, StorageAdapter>();
+
+export function getDefaultStorageBackend(): StorageBackend {
+  return process.env.STORAGE_PROVIDER === "s3" ? "s3" : "local";
+}
+
+export function getStorageAdapter(
+  backend: StorageBackend = getDefaultStorageBackend(),
+): StorageAdapter {
+  const existing = adapters.get(backend);
+  if (existing) {
+    return existing;
+  }
+
+  let adapter: StorageAdapter;
+  if (backend === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set to use the s3 storage backend");
+    }
+    adapter = new S3StorageAdapter({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.AWS_REGION || "us-east-1",
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || "",
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== "false",
+    });
+  } else {
+    adapter = new LocalStorageAdapter();
+  }
+
+  adapters.set(backend, adapter);
+  return adapter;
+}
@@ -0,0 +1,122 @@
+import { database, PolicyLimits } from "./database";
+
+// Upload policies: what a user may upload and how much they may store. Each
+// user is on a plan stored in the database (the "default" plan unless
+// assigned another with `npm run plans`), and may have limits of their own
+// on top of it. Unset limits fall back to the plan's, then to the built-in
+// defaults below: MAX_FILE_SIZE, every supported type, and no quota, file
+// count or expiry limit.
+
+export const MAX_FILE_SIZE =
+  parseInt(process.env.MAX_FILE_SIZE || "") || 50 * 1024 * 1024; // 50MB
+
+export const DEFAULT_PLAN_ID = "default";
+
+// Types the app can sniff and serve safely; plans may allow fewer
+export const SUPPORTED_MIME_TYPES = [
+  // Images
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/gif",
+  "image/svg+xml",
+  // Documents
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+];
+
+export interface UploadPolicy {
+  plan: { id: string; name: string };
+  maxFileSize: number; // bytes
+  storageQuota: number | null; // bytes; null for no limit
+  maxFileCount: number | null;
+  allowedMimeTypes: string[];
+  maxExpiryHours: number | null; // files may not outlive this
+}
+
+export interface UploadUsage {
+  storageUsed: number;
+  fileCount: number;
+}
+
+export const DEFAULT_UPLOAD_POLICY: UploadPolicy = {
+  plan: { id: DEFAULT_PLAN_ID, name: "Default" },
+  maxFileSize: MAX_FILE_SIZE,
+  storageQuota: null,
+  maxFileCount: null,
+  allowedMimeTypes: SUPPORTED_MIME_TYPES,
+  maxExpiryHours: null,
+};
+
+function parseMimeTypes(value: string | undefined): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const types = JSON.parse(value);
+  return Array.isArray(types)
+    ? types.filter((type) => SUPPORTED_MIME_TYPES.includes(type))
+    : undefined;
+}
+
+// The first limit set, from the user's own limits, then their plan's
+function inherit<K extends keyof PolicyLimits>(
+  key: K,
+  ...sources: (PolicyLimits | null)[]
+): PolicyLimits[K] | undefined {
+  for (const source of sources) {
+    if (source?.[key] !== null && source?.[key] !== undefined) {
+      return source[key];
+    }
+  }
+  return undefined;
+}
+
+export async function getUploadPolicy(userId: string): Promise<UploadPolicy> {
+  const user = await database.getUserById(userId);
+  const plan =
+    (user?.plan_id && (await database.getPlan(user.plan_id))) ||
+    (await database.getPlan(DEFAULT_PLAN_ID));
+  const override = await database.getUserPolicyOverride(userId);
+  const defaults = DEFAULT_UPLOAD_POLICY;
+
+  return {
+    plan: plan ? { id: plan.id, name: plan.name } : defaults.plan,
+    maxFileSize:
+      inherit("max_file_size", override, plan) ?? defaults.maxFileSize,
+    storageQuota:
+      inherit("storage_quota", override, plan) ?? defaults.storageQuota,
+    maxFileCount:
+      inherit("max_file_count", override, plan) ?? defaults.maxFileCount,
+    allowedMimeTypes:
+      parseMimeTypes(inherit("allowed_mime_types", override, plan)) ??
+      defaults.allowedMimeTypes,
+    maxExpiryHours:
+      inherit("max_expiry_hours", override, plan) ?? defaults.maxExpiryHours,
+  };
+}
+
+export async function getUploadUsage(userId: string): Promise<UploadUsage> {
+  return {
+    storageUsed: await database.getUserStorageUsed(userId),
+    fileCount: await database.getUserFileCount(userId),
+  };
+}
+
+// Hours until a new file expires. Files can't be kept longer than the
+// policy allows, and expire at its limit when no expiry is asked for.
+export function resolveExpiry(
+  policy: UploadPolicy,
+  expiresIn?: number,
+): number | undefined {
+  const hours = expiresIn && expiresIn > 0 ? expiresIn : undefined;
+  if (policy.maxExpiryHours === null) {
+    return hours;
+  }
+  if (hours !== undefined && hours > policy.maxExpiryHours) {
+    throw new Error(
+      `Expiry of ${hours} hours exceeds the maximum of ${policy.maxExpiryHours} hours for your plan`,
+    );
+  }
+  return hours ?? policy.maxExpiryHours;
+}
@@ -0,0 +1,253 @@
+// Streaming ZIP archives (the classic PKWARE format). Entries are deflated as
+// they are read and their CRCs and sizes follow the data in descriptors, so
+// neither the entries nor the archive are ever held in memory. There is no
+// zip64 support: entries and archives must stay under 4GB, with at most
+// 65535 entries.
+
+import zlib from "zlib";
+import { Readable } from "stream";
+
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_NAME = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION_NEEDED = 20; // 2.0: deflate and directories
+const VERSION_MADE_BY = (3 << 8) | VERSION_NEEDED; // Unix, so modes apply
+
+export interface ZipEntry {
+  // "/"-separated path inside the archive; directories end with "/"
+  name: string;
+  modifiedAt?: Date;
+  // Opens the entry's contents; not used for directories
+  open?: () => Promise<Readable>;
+  // Already-compressed data (images, mostly) isn't worth deflating again
+  compress?: boolean;
+}
+
+interface CentralRecord {
+  name: Buffer;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  isDirectory: boolean;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, data: Buffer): number {
+  let c = ~crc;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+// MS-DOS timestamps have two-second resolution and start in 1980
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const date = value.getFullYear() < 1980 ? new Date(1980, 0, 1) : value;
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+function localFileHeader(record: CentralRecord): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(VERSION_NEEDED, 4);
+  header.writeUInt16LE(record.flags, 6);
+  header.writeUInt16LE(record.method, 8);
+  header.writeUInt16LE(record.time, 10);
+  header.writeUInt16LE(record.date, 12);
+  // CRC and sizes (14-25) are zero and given in the data descriptor
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, record.name]);
+}
+
+function dataDescriptor(record: CentralRecord): Buffer {
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(record.crc, 4);
+  descriptor.writeUInt32LE(record.compressedSize, 8);
+  descriptor.writeUInt32LE(record.size, 12);
+  return descriptor;
+}
+
+function centralDirectoryHeader(record: CentralRecord): Buffer {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(VERSION_MADE_BY, 4);
+  header.writeUInt16LE(VERSION_NEEDED, 6);
+  header.writeUInt16LE(record.flags, 8);
+  header.writeUInt16LE(record.method, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(record.compressedSize, 20);
+  header.writeUInt32LE(record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  // Extra field and comment lengths, disk number and internal attributes
+  // (30-37) are zero
+  const mode = record.isDirectory ? 0o40755 : 0o100644;
+  const dosAttributes = record.isDirectory ? 0x10 : 0;
+  header.writeUInt32LE(((mode << 16) | dosAttributes) >>> 0, 38);
+  header.writeUInt32LE(record.offset, 42);
+  return Buffer.concat([header, record.name]);
+}
+
+function endOfCentralDirectory(
+  count: number,
+  size: number,
+  offset: number,
+): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(0x06054b50, 0);
+  // Disk numbers (4-7) are zero
+  record.writeUInt16LE(count, 8);
+  record.writeUInt16LE(count, 10);
+  record.writeUInt32LE(size, 12);
+  record.writeUInt32LE(offset, 16);
+  record.writeUInt16LE(0, 20);
+  return record;
+}
+
+async function* generateZip(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>,
+): AsyncGenerator<Buffer> {
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    if (records.length === MAX_ENTRIES) {
+      throw new Error("Too many entries for a ZIP archive");
+    }
+
+    const isDirectory = entry.name.endsWith("/");
+    const { time, date } = toDosDateTime(entry.modifiedAt || new Date());
+    const record: CentralRecord = {
+      name: Buffer.from(entry.name, "utf8"),
+      flags: FLAG_UTF8_NAME | (isDirectory ? 0 : FLAG_DATA_DESCRIPTOR),
+      method: isDirectory ? METHOD_STORE : METHOD_DEFLATE,
+      time,
+      date,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset,
+      isDirectory,
+    };
+
+    const header = localFileHeader(record);
+    yield header;
+    offset += header.length;
+
+    if (!isDirectory && entry.open) {
+      const source = await entry.open();
+      const deflate = zlib.createDeflateRaw({
+        level: entry.compress === false ? 0 : 6,
+      });
+
+      // The CRC covers the uncompressed bytes, so it is taken on the way in
+      source.on("data", (chunk: Buffer) => {
+        record.crc = updateCrc32(record.crc, chunk);
+        record.size += chunk.length;
+      });
+      source.on("error", (error) => deflate.destroy(error));
+      source.pipe(deflate);
+
+      try {
+        for await (const chunk of deflate) {
+          record.compressedSize += chunk.length;
+          yield chunk;
+        }
+      } finally {
+        source.destroy();
+      }
+
+      offset += record.compressedSize;
+      const descriptor = dataDescriptor(record);
+      yield descriptor;
+      offset += descriptor.length;
+    }
+
+    if (offset > MAX_OFFSET) {
+      throw new Error("Archive is too large for the ZIP format");
+    }
+    records.push(record);
+  }
+
+  const centralDirectoryOffset = offset;
+  for (const record of records) {
+    const header = centralDirectoryHeader(record);
+    yield header;
+    offset += header.length;
+  }
+
+  yield endOfCentralDirectory(
+    records.length,
+    offset - centralDirectoryOffset,
+    centralDirectoryOffset,
+  );
+}
+
+/**
+ * Stream a ZIP archive of the given entries. Entries are opened one at a
+ * time as the archive is read; an error while reading one ends the stream.
+ */
+export function createZipStream(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>,
+): Readable {
+  return Readable.from(generateZip(entries));
+}
+
+// One path segment, with characters that would change the archive layout or
+// confuse extractors replaced
+export function toZipPathSegment(name: string): string {
+  const segment = name.replace(/[\/\\\x00-\x1f]/g, "_").trim();
+  return segment === "" || segment === "." || segment === ".."
+    ? "_"
+    : segment;
+}
+
+// Give a name that is already used in the same directory a numbered suffix
+// ("report (1).txt"). Names are compared ignoring case, as on most desktops.
+export function dedupeZipEntryName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  const slash = name.lastIndexOf("/");
+  const dot = name.lastIndexOf(".");
+  const hasExtension = dot > slash + 1;
+  const base = hasExtension ? name.substring(0, dot) : name;
+  const extension = hasExtension ? name.substring(dot) : "";
+
+  for (let n = 1; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
@@ -6,6 +6,7 @@ const nextConfig = {
   },
   experimental: {
     serverComponentsExternalPackages: ["sqlite3", "bcryptjs"],
+    instrumentationHook: true,
   },
   webpack: (config, { isServer }) => {
     if (!isServer) {
@@ -20,6 +20,9 @@ export default defineConfig({
     url: "http://localhost:3000",
     reuseExistingServer: !process.env.CI,
     stdout: "pipe",
+    // Tests stand in for the proxy, so each can use a client address of its
+    // own (see tests/playwright/helpers.ts)
+    env: { TRUSTED_PROXIES: "127.0.0.1,::1" },
   },
   projects: [
     {
@@ -79,20 +79,28 @@ function setupEnvironment() {
       // Copy .env.example to .env.local
       const envExample = fs.readFileSync(envExamplePath, 'utf8');
 
-      // Generate a random JWT secret
+      // Generate random JWT and signed URL secrets
       const jwtSecret = require('crypto').randomBytes(64).toString('hex');
-      const envContent = envExample.replace(
-        'JWT_SECRET=your-super-secret-jwt-key-change-this-in-production',
-        `JWT_SECRET=${jwtSecret}`
-      );
+      const signedUrlSecret = require('crypto').randomBytes(64).toString('hex');
+      const envContent = envExample
+        .replace(
+          'JWT_SECRET=your-super-secret-jwt-key-change-this-in-production',
+          `JWT_SECRET=${jwtSecret}`
+        )
+        .replace(
+          'SIGNED_URL_SECRET=your-signed-url-secret-change-this-in-production',
+          `SIGNED_URL_SECRET=${signedUrlSecret}`
+        );
 
       fs.writeFileSync(envPath, envContent);
-      logSuccess('Created .env.local with generated JWT secret');
+      logSuccess('Created .env.local with generated secrets');
     } else {
       // Create basic .env.local
       const jwtSecret = require('crypto').randomBytes(64).toString('hex');
+      const signedUrlSecret = require('crypto').randomBytes(64).toString('hex');
       const basicEnv = `# SnapVault Environment Configuration
 JWT_SECRET=${jwtSecret}
+SIGNED_URL_SECRET=${signedUrlSecret}
 NODE_ENV=development
 PORT=3000
 MAX_FILE_SIZE=52428800
@@ -0,0 +1,332 @@
+#!/usr/bin/env node
+
+// Manage upload plans and per-user limits.
+//
+//   npm run plans -- list
+//   npm run plans -- set <planId> [--name <name>] [limits]
+//   npm run plans -- assign <username> <planId>
+//   npm run plans -- limit <username> [limits]
+//
+// Limits:
+//   --max-file-size <size>   largest file, e.g. 10MB
+//   --quota <size>           total storage, previous versions included
+//   --max-files <count>      number of files
+//   --types <type,...>       allowed MIME types
+//   --max-expiry <hours>     how long files may be kept
+//
+// A limit set to "default" is cleared: a plan then uses the built-in limit
+// (MAX_FILE_SIZE, every supported type, otherwise no limit), and a user's
+// own limit falls back to their plan's. Users without a plan are on the
+// "default" plan. The server picks changes up on the next upload.
+
+const path = require('path');
+const sqlite3 = require('sqlite3');
+
+const DB_PATH = path.join(process.cwd(), 'data', 'snapvault.db');
+const DEFAULT_PLAN_ID = 'default';
+
+// Same list as lib/upload-policies.ts
+const SUPPORTED_MIME_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/gif',
+  'image/svg+xml',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+];
+
+const LIMIT_OPTIONS = {
+  '--max-file-size': { column: 'max_file_size', parse: parseSize },
+  '--quota': { column: 'storage_quota', parse: parseSize },
+  '--max-files': { column: 'max_file_count', parse: parseCount },
+  '--types': { column: 'allowed_mime_types', parse: parseTypes },
+  '--max-expiry': { column: 'max_expiry_hours', parse: parseCount },
+};
+
+const UNITS = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3, TB: 1024 ** 4 };
+
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+function fail(message) {
+  log(`❌ ${message}`, 'red');
+  process.exit(1);
+}
+
+function usage() {
+  console.log(`Usage:
+  npm run plans -- list
+  npm run plans -- set <planId> [--name <name>] [limits]
+  npm run plans -- assign <username> <planId>
+  npm run plans -- limit <username> [limits]
+
+Limits (use "default" to clear one):
+  --max-file-size <size>  --quota <size>  --max-files <count>
+  --types <type,...>      --max-expiry <hours>`);
+  process.exit(1);
+}
+
+function parseSize(value) {
+  const match = value.toUpperCase().match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB|TB)?$/);
+  if (!match) {
+    fail(`Invalid size "${value}": use bytes or a number with KB, MB, GB or TB`);
+  }
+  return Math.round(parseFloat(match[1]) * UNITS[match[2] || 'B']);
+}
+
+function parseCount(value) {
+  if (!/^\d+$/.test(value)) {
+    fail(`Invalid number "${value}"`);
+  }
+  return parseInt(value);
+}
+
+function parseTypes(value) {
+  const types = value.split(',').map((type) => type.trim()).filter(Boolean);
+  const unsupported = types.filter(
+    (type) => !SUPPORTED_MIME_TYPES.includes(type)
+  );
+  if (types.length === 0 || unsupported.length > 0) {
+    fail(
+      `Unsupported types: ${unsupported.join(', ') || '(none given)'}. ` +
+        `Choose from ${SUPPORTED_MIME_TYPES.join(', ')}`
+    );
+  }
+  return JSON.stringify(types);
+}
+
+// Limit columns and values from the options; null clears a limit
+function parseLimits(args) {
+  const limits = {};
+  for (let i = 0; i < args.length; i += 2) {
+    const option = LIMIT_OPTIONS[args[i]];
+    const value = args[i + 1];
+    if (!option || value === undefined) {
+      usage();
+    }
+    limits[option.column] = value === 'default' ? null : option.parse(value);
+  }
+  return limits;
+}
+
+function open() {
+  const db = new sqlite3.Database(DB_PATH);
+  const run = (sql, params = []) =>
+    new Promise((resolve, reject) =>
+      db.run(sql, params, (err) => (err ? reject(err) : resolve()))
+    );
+  const get = (sql, params = []) =>
+    new Promise((resolve, reject) =>
+      db.get(sql, params, (err, row) => (err ? reject(err) : resolve(row)))
+    );
+  const all = (sql, params = []) =>
+    new Promise((resolve, reject) =>
+      db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows)))
+    );
+  const close = () => new Promise((resolve) => db.close(resolve));
+  return { run, get, all, close };
+}
+
+// Same tables as lib/database.ts creates, so plans can be set up before the
+// server has first run
+async function ensureTables(db) {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS plans (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      max_file_size INTEGER,
+      storage_quota INTEGER,
+      max_file_count INTEGER,
+      allowed_mime_types TEXT,
+      max_expiry_hours INTEGER,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  await db.run(
+    "INSERT OR IGNORE INTO plans (id, name) VALUES ('default', 'Default')"
+  );
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS user_policy_overrides (
+      user_id TEXT PRIMARY KEY,
+      max_file_size INTEGER,
+      storage_quota INTEGER,
+      max_file_count INTEGER,
+      allowed_mime_types TEXT,
+      max_expiry_hours INTEGER,
+      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    )
+  `);
+
+  const columns = (await db.all('PRAGMA table_info(users)')).map(
+    (column) => column.name
+  );
+  if (columns.length > 0 && !columns.includes('plan_id')) {
+    await db.run(
+      'ALTER TABLE users ADD COLUMN plan_id TEXT REFERENCES plans (id) ON DELETE SET NULL'
+    );
+  }
+}
+
+async function getUser(db, username) {
+  const user = await db.get('SELECT id FROM users WHERE username = ?', [
+    username,
+  ]);
+  if (!user) {
+    fail(`No user ${username}`);
+  }
+  return user;
+}
+
+function describeLimits(row) {
+  const limits = Object.entries(LIMIT_OPTIONS)
+    .filter(([, { column }]) => row[column] !== null)
+    .map(([option, { column }]) => {
+      const value =
+        column === 'allowed_mime_types'
+          ? JSON.parse(row[column]).join(',')
+          : row[column];
+      return `${option.substring(2)}=${value}`;
+    });
+  return limits.length > 0 ? limits.join('  ') : 'built-in limits';
+}
+
+async function list(db) {
+  const plans = await db.all(
+    `SELECT p.*, COUNT(u.id) AS user_count FROM plans p
+     LEFT JOIN users u
+       ON COALESCE(u.plan_id, ?) = p.id
+     GROUP BY p.id ORDER BY p.created_at, p.id`,
+    [DEFAULT_PLAN_ID]
+  );
+  log('Plans:', 'yellow');
+  plans.forEach((plan) => {
+    console.log(
+      `  ${plan.id} (${plan.name}, ${plan.user_count} users)  ${describeLimits(plan)}`
+    );
+  });
+
+  const overrides = await db.all(
+    `SELECT o.*, u.username FROM user_policy_overrides o
+     INNER JOIN users u ON u.id = o.user_id ORDER BY u.username`
+  );
+  if (overrides.length > 0) {
+    log('Users with their own limits:', 'yellow');
+    overrides.forEach((override) => {
+      console.log(`  ${override.username}  ${describeLimits(override)}`);
+    });
+  }
+}
+
+async function setPlan(db, planId, args) {
+  const nameIndex = args.indexOf('--name');
+  const name = nameIndex >= 0 ? args[nameIndex + 1] : null;
+  if (nameIndex >= 0 && !name) {
+    usage();
+  }
+  if (nameIndex >= 0) {
+    args.splice(nameIndex, 2);
+  }
+  const limits = parseLimits(args);
+
+  const existing = await db.get('SELECT id FROM plans WHERE id = ?', [planId]);
+  if (!existing) {
+    await db.run('INSERT INTO plans (id, name) VALUES (?, ?)', [
+      planId,
+      name || planId,
+    ]);
+  } else if (name) {
+    await db.run('UPDATE plans SET name = ? WHERE id = ?', [name, planId]);
+  }
+
+  const columns = Object.keys(limits);
+  if (columns.length > 0) {
+    await db.run(
+      `UPDATE plans SET ${columns.map((column) => `${column} = ?`).join(', ')}
+       WHERE id = ?`,
+      [...Object.values(limits), planId]
+    );
+  }
+  log(`✅ ${existing ? 'Updated' : 'Created'} plan ${planId}`, 'green');
+}
+
+async function assign(db, username, planId) {
+  const user = await getUser(db, username);
+  const plan = await db.get('SELECT id FROM plans WHERE id = ?', [planId]);
+  if (!plan) {
+    fail(`No plan ${planId}; create it with "set" first`);
+  }
+  await db.run('UPDATE users SET plan_id = ? WHERE id = ?', [
+    planId === DEFAULT_PLAN_ID ? null : planId,
+    user.id,
+  ]);
+  log(`✅ ${username} is on the ${planId} plan`, 'green');
+}
+
+async function limit(db, username, args) {
+  const user = await getUser(db, username);
+  const limits = parseLimits(args);
+  const columns = Object.keys(limits);
+  if (columns.length === 0) {
+    usage();
+  }
+
+  await db.run(
+    'INSERT OR IGNORE INTO user_policy_overrides (user_id) VALUES (?)',
+    [user.id]
+  );
+  await db.run(
+    `UPDATE user_policy_overrides
+     SET ${columns.map((column) => `${column} = ?`).join(', ')},
+       updated_at = ?
+     WHERE user_id = ?`,
+    [...Object.values(limits), new Date().toISOString(), user.id]
+  );
+
+  // Nothing left to override
+  await db.run(
+    `DELETE FROM user_policy_overrides WHERE user_id = ?
+       AND max_file_size IS NULL AND storage_quota IS NULL
+       AND max_file_count IS NULL AND allowed_mime_types IS NULL
+       AND max_expiry_hours IS NULL`,
+    [user.id]
+  );
+  log(`✅ Updated the limits of ${username}`, 'green');
+}
+
+async function main() {
+  const [command, arg, ...rest] = process.argv.slice(2);
+  const db = open();
+
+  try {
+    await ensureTables(db);
+
+    if (command === 'list') {
+      await list(db);
+    } else if (command === 'set' && arg) {
+      await setPlan(db, arg, rest);
+    } else if (command === 'assign' && arg && rest.length === 1) {
+      await assign(db, arg, rest[0]);
+    } else if (command === 'limit' && arg) {
+      await limit(db, arg, rest);
+    } else {
+      usage();
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch((error) => {
+  fail(error.message);
+});
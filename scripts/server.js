@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+
+// Serve the app, like `next dev` or `next start`.
+//
+//   npm run dev     # node scripts/server.js --dev
+//   npm start       # node scripts/server.js
+//
+// Route handlers can't see the connection a request came in on, only the
+// X-Forwarded-For header, which clients can send themselves. This server
+// puts the connection's address in PEER_ADDRESS_HEADER, replacing whatever
+// the client sent under that name, and lib/client-ip.ts reads it from
+// there. Listens on PORT, 3000 by default.
+
+const http = require('http');
+
+const PEER_ADDRESS_HEADER = 'x-peer-address';
+
+const dev = process.argv.includes('--dev');
+if (!dev) {
+  process.env.NODE_ENV = 'production';
+}
+// Tells lib/client-ip.ts the header can be believed
+process.env.PEER_ADDRESS_HEADER = PEER_ADDRESS_HEADER;
+
+const next = require('next');
+
+const port = parseInt(process.env.PORT || '3000', 10);
+const app = next({ dev, hostname: 'localhost', port });
+const handle = app.getRequestHandler();
+
+app
+  .prepare()
+  .then(() => {
+    http
+      .createServer((req, res) => {
+        req.headers[PEER_ADDRESS_HEADER] = req.socket.remoteAddress || '';
+        handle(req, res);
+      })
+      .listen(port, () => {
+        console.log(`Ready on http://localhost:${port}`);
+      });
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,270 @@
+#!/usr/bin/env node
+
+// Manage the keys that sign session tokens and signed URLs.
+//
+//   npm run keys -- list
+//   npm run keys -- rotate <session|signed_url|all> [--grace <hours>]
+//   npm run keys -- rotate signed_url --alg <EdDSA|ES256> [--grace <hours>]
+//   npm run keys -- retire <kid>
+//
+// Rotating makes a new key the signing key. The previous one keeps
+// verifying the tokens it signed until its grace period ends, which by
+// default outlasts the longest-lived token it could have signed. Retiring a
+// key stops it verifying anything straight away, e.g. once it has leaked.
+// The server picks changes up on its next request. Signed URLs keep one
+// signing key per algorithm; asymmetric keys are published at
+// /.well-known/jwks.json until their grace period ends.
+
+const crypto = require('crypto');
+const path = require('path');
+const sqlite3 = require('sqlite3');
+
+const DB_PATH = path.join(process.cwd(), 'data', 'snapvault.db');
+const ENV_KEY_ID = 'env';
+const ALGORITHMS = ['HS256', 'EdDSA', 'ES256'];
+
+// Hours a retired key keeps verifying: a session lasts 7 days, and signed
+// URLs last at most 24 hours
+const DEFAULT_GRACE_HOURS = {
+  session: 7 * 24,
+  signed_url: 24,
+};
+
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+function logWarning(message) {
+  log(`⚠️  ${message}`, 'yellow');
+}
+
+function fail(message) {
+  log(`❌ ${message}`, 'red');
+  process.exit(1);
+}
+
+function usage() {
+  console.log(`Usage:
+  npm run keys -- list
+  npm run keys -- rotate <session|signed_url|all> [--grace <hours>]
+  npm run keys -- rotate signed_url --alg <EdDSA|ES256> [--grace <hours>]
+  npm run keys -- retire <kid>`);
+  process.exit(1);
+}
+
+function open() {
+  const db = new sqlite3.Database(DB_PATH);
+  const run = (sql, params = []) =>
+    new Promise((resolve, reject) =>
+      db.run(sql, params, (err) => (err ? reject(err) : resolve()))
+    );
+  const get = (sql, params = []) =>
+    new Promise((resolve, reject) =>
+      db.get(sql, params, (err, row) => (err ? reject(err) : resolve(row)))
+    );
+  const all = (sql, params = []) =>
+    new Promise((resolve, reject) =>
+      db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows)))
+    );
+  const close = () => new Promise((resolve) => db.close(resolve));
+  return { run, get, all, close };
+}
+
+// Same table as lib/database.ts creates, so keys can be rotated before the
+// server has first run
+async function ensureTable(db) {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS signing_keys (
+      kid TEXT NOT NULL,
+      purpose TEXT NOT NULL CHECK (purpose IN ('session', 'signed_url')),
+      secret TEXT,
+      created_at TEXT NOT NULL,
+      retired_at TEXT,
+      verify_until TEXT,
+      PRIMARY KEY (purpose, kid)
+    )
+  `);
+
+  const columns = (await db.all('PRAGMA table_info(signing_keys)')).map(
+    (column) => column.name
+  );
+  if (!columns.includes('algorithm')) {
+    await db.run(
+      "ALTER TABLE signing_keys ADD COLUMN algorithm TEXT NOT NULL DEFAULT 'HS256'"
+    );
+  }
+  if (!columns.includes('public_key')) {
+    await db.run('ALTER TABLE signing_keys ADD COLUMN public_key TEXT');
+  }
+}
+
+// A random HMAC secret, or a key pair with the public half as a JWK
+function generateKey(algorithm) {
+  if (algorithm === 'HS256') {
+    return { secret: crypto.randomBytes(64).toString('hex'), publicKey: null };
+  }
+
+  const { privateKey, publicKey } =
+    algorithm === 'ES256'
+      ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : crypto.generateKeyPairSync('ed25519');
+  return {
+    secret: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    publicKey: JSON.stringify(publicKey.export({ format: 'jwk' })),
+  };
+}
+
+function keyStatus(key, now) {
+  if (!key.retired_at) return 'active';
+  if (key.verify_until <= now) return 'retired';
+  return `verifying until ${key.verify_until}`;
+}
+
+async function list(db) {
+  const now = new Date().toISOString();
+  const keys = await db.all(
+    'SELECT * FROM signing_keys ORDER BY purpose, created_at DESC, rowid DESC'
+  );
+
+  for (const purpose of Object.keys(DEFAULT_GRACE_HOURS)) {
+    log(`${purpose}:`, 'yellow');
+    const purposeKeys = keys.filter((key) => key.purpose === purpose);
+    if (!purposeKeys.some((key) => key.algorithm === 'HS256')) {
+      console.log(`  ${ENV_KEY_ID}  HS256  active (from the environment)`);
+    }
+    purposeKeys.forEach((key) => {
+      console.log(`  ${key.kid}  ${key.algorithm}  ${keyStatus(key, now)}`);
+    });
+  }
+}
+
+async function rotate(db, purpose, algorithm, graceHours) {
+  const now = new Date();
+  const verifyUntil = new Date(
+    now.getTime() + graceHours * 60 * 60 * 1000
+  ).toISOString();
+
+  await db.run('BEGIN IMMEDIATE');
+  try {
+    // The first rotation retires the environment key, recorded without
+    // its secret
+    const hasKeys = await db.get(
+      'SELECT 1 FROM signing_keys WHERE purpose = ? AND algorithm = ?',
+      [purpose, algorithm]
+    );
+    if (!hasKeys && algorithm === 'HS256') {
+      await db.run(
+        'INSERT INTO signing_keys (kid, purpose, created_at) VALUES (?, ?, ?)',
+        [ENV_KEY_ID, purpose, now.toISOString()]
+      );
+    }
+
+    await db.run(
+      `UPDATE signing_keys SET retired_at = ?, verify_until = ?
+       WHERE purpose = ? AND algorithm = ? AND retired_at IS NULL`,
+      [now.toISOString(), verifyUntil, purpose, algorithm]
+    );
+
+    const kid = crypto.randomBytes(8).toString('hex');
+    const { secret, publicKey } = generateKey(algorithm);
+    await db.run(
+      `INSERT INTO signing_keys (kid, purpose, algorithm, secret, public_key,
+         created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [kid, purpose, algorithm, secret, publicKey, now.toISOString()]
+    );
+    await db.run('COMMIT');
+
+    log(`✅ New ${purpose} ${algorithm} signing key ${kid}`, 'green');
+    log(`   Previous keys verify until ${verifyUntil}`);
+  } catch (error) {
+    await db.run('ROLLBACK');
+    throw error;
+  }
+}
+
+async function retire(db, kid) {
+  const keys = await db.all('SELECT * FROM signing_keys WHERE kid = ?', [kid]);
+  if (keys.length === 0) {
+    fail(
+      kid === ENV_KEY_ID
+        ? `Rotate the keys before retiring their ${ENV_KEY_ID} key`
+        : `No signing key ${kid}`
+    );
+  }
+
+  const now = new Date().toISOString();
+  await db.run(
+    `UPDATE signing_keys SET retired_at = COALESCE(retired_at, ?),
+       verify_until = ? WHERE kid = ?`,
+    [now, now, kid]
+  );
+  keys
+    .filter((key) => !key.retired_at)
+    .forEach((key) => {
+      logWarning(
+        `${kid} was the active ${key.purpose} key; rotate to sign new tokens`
+      );
+    });
+  log(`✅ Retired ${kid}`, 'green');
+}
+
+async function main() {
+  const [command, arg, ...rest] = process.argv.slice(2);
+  const db = open();
+
+  try {
+    await ensureTable(db);
+
+    if (command === 'list') {
+      await list(db);
+    } else if (command === 'rotate') {
+      const purposes =
+        arg === 'all' ? Object.keys(DEFAULT_GRACE_HOURS) : [arg];
+      if (!purposes.every((purpose) => purpose in DEFAULT_GRACE_HOURS)) {
+        usage();
+      }
+
+      const algIndex = rest.indexOf('--alg');
+      const algorithm = algIndex >= 0 ? rest[algIndex + 1] : 'HS256';
+      if (
+        !ALGORITHMS.includes(algorithm) ||
+        (algorithm !== 'HS256' && arg !== 'signed_url')
+      ) {
+        fail('--alg must be EdDSA or ES256, for signed_url keys only');
+      }
+
+      const graceIndex = rest.indexOf('--grace');
+      const grace = graceIndex >= 0 ? Number(rest[graceIndex + 1]) : null;
+      if (grace !== null && !(grace >= 0)) {
+        fail('--grace must be a number of hours');
+      }
+
+      for (const purpose of purposes) {
+        await rotate(
+          db,
+          purpose,
+          algorithm,
+          grace ?? DEFAULT_GRACE_HOURS[purpose]
+        );
+      }
+    } else if (command === 'retire' && arg) {
+      await retire(db, arg);
+    } else {
+      usage();
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch((error) => {
+  fail(error.message);
+});
@@ -0,0 +1,182 @@
+import { APIRequestContext } from "@playwright/test";
+import {
+  createJwksKeyResolver,
+  verifySignedUrlToken,
+} from "../../lib/signed-url-verifier";
+import {
+  test,
+  expect,
+  sql,
+  visitorIP,
+  baseURL,
+  registerUser,
+  uploadFile,
+} from "./helpers";
+
+function urlToken(url: string): string {
+  return new URL(url, baseURL).searchParams.get("token")!;
+}
+
+test.describe("Asymmetric Signed URLs", () => {
+  let fileId: string;
+
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "asym");
+    fileId = (
+      await uploadFile(request, {
+        name: "edge.txt",
+        content: "served at the edge",
+      })
+    ).id;
+  });
+
+  async function generate(request: APIRequestContext, data: any, headers = {}) {
+    const response = await request.post(`${baseURL}/api/files/generate-url`, {
+      data: { fileId, ...data },
+      headers,
+    });
+    expect(response.status()).toBe(200);
+    return await response.json();
+  }
+
+  for (const algorithm of ["EdDSA", "ES256"]) {
+    test(`should verify ${algorithm} URLs with the published keys`, async ({
+      request,
+    }) => {
+      const signed = await generate(request, { algorithm });
+      expect(signed.algorithm).toBe(algorithm);
+
+      const token = urlToken(signed.url);
+      const header = JSON.parse(
+        Buffer.from(token.split(".")[0], "base64url").toString(),
+      );
+      expect(header.alg).toBe(algorithm);
+
+      const jwks = await (
+        await request.get(`${baseURL}/.well-known/jwks.json`)
+      ).json();
+      expect(jwks.keys.map((key: any) => key.kid)).toContain(header.kid);
+
+      // Verified without the app server
+      const resolveKey = createJwksKeyResolver(
+        `${baseURL}/.well-known/jwks.json`,
+      );
+      const verified = await verifySignedUrlToken(
+        token,
+        { fileId, action: "download" },
+        resolveKey,
+      );
+      expect(verified).toMatchObject({ valid: true, payload: { fileId } });
+      expect(
+        await verifySignedUrlToken(
+          token,
+          { fileId: "another-file", action: "download" },
+          resolveKey,
+        ),
+      ).toEqual({ valid: false, error: "File ID mismatch" });
+      expect(
+        await verifySignedUrlToken(
+          token,
+          { fileId, action: "view" },
+          resolveKey,
+        ),
+      ).toEqual({ valid: false, error: "Action mismatch" });
+
+      // ...and by the app server
+      const download = await request.get(`${baseURL}${signed.url}`);
+      expect(download.status()).toBe(200);
+      expect(await download.text()).toBe("served at the edge");
+    });
+  }
+
+  test("should make one key when its first uses race", async ({ request }) => {
+    // Retired keys without a grace period keep verifying earlier URLs
+    await sql(
+      `UPDATE signing_keys SET retired_at = ?
+       WHERE purpose = 'signed_url' AND algorithm = 'ES256'
+         AND retired_at IS NULL`,
+      [new Date().toISOString()],
+    );
+
+    const signed = await Promise.all(
+      Array.from({ length: 4 }, () => generate(request, { algorithm: "ES256" })),
+    );
+    const kids = signed.map(
+      (url) =>
+        JSON.parse(
+          Buffer.from(urlToken(url.url).split(".")[0], "base64url").toString(),
+        ).kid,
+    );
+    expect(new Set(kids).size).toBe(1);
+  });
+
+  test("should check IP restrictions like the app server", async ({
+    request,
+  }) => {
+    const ipAddress = visitorIP();
+    const signed = await generate(
+      request,
+      { algorithm: "EdDSA", restrictToIP: true },
+      { "X-Forwarded-For": ipAddress },
+    );
+    const resolveKey = createJwksKeyResolver(
+      `${baseURL}/.well-known/jwks.json`,
+    );
+    const check = (ipAddress: string) =>
+      verifySignedUrlToken(
+        urlToken(signed.url),
+        { fileId, action: "download", ipAddress },
+        resolveKey,
+      );
+
+    expect((await check(ipAddress)).valid).toBe(true);
+    expect(await check("203.0.113.9")).toEqual({
+      valid: false,
+      error: "IP address mismatch",
+    });
+  });
+
+  test("should reject tampered tokens", async ({ request }) => {
+    const signed = await generate(request, { algorithm: "ES256" });
+    const [header, payload, signature] = urlToken(signed.url).split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    claims.exp += 3600;
+    const tampered = [
+      header,
+      Buffer.from(JSON.stringify(claims)).toString("base64url"),
+      signature,
+    ].join(".");
+
+    const resolveKey = createJwksKeyResolver(
+      `${baseURL}/.well-known/jwks.json`,
+    );
+    expect(
+      await verifySignedUrlToken(
+        tampered,
+        { fileId, action: "download" },
+        resolveKey,
+      ),
+    ).toEqual({ valid: false, error: "Invalid signed URL" });
+
+    const refused = await request.get(
+      `${baseURL}/api/files/secure/${fileId}?token=${tampered}&action=download`,
+    );
+    expect(refused.status()).toBe(403);
+    expect((await refused.json()).error).toBe("Invalid signed URL");
+
+    // HMAC URLs can only be checked by the app server
+    const hmac = await generate(request, {});
+    expect(
+      await verifySignedUrlToken(
+        urlToken(hmac.url),
+        { fileId, action: "download" },
+        resolveKey,
+      ),
+    ).toEqual({ valid: false, error: "Invalid signed URL" });
+
+    const invalid = await request.post(`${baseURL}/api/files/generate-url`, {
+      data: { fileId, algorithm: "none" },
+    });
+    expect(invalid.status()).toBe(400);
+  });
+});
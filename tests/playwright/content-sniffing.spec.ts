@@ -0,0 +1,197 @@
+import { APIRequestContext } from "@playwright/test";
+import sharp from "sharp";
+import {
+  isContentOfType,
+  sanitizeSvg,
+  sniffMimeType,
+} from "../../lib/content-sniffing";
+import { test, expect, baseURL, registerUser, postUpload } from "./helpers";
+
+const svg = (body: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">${body}</svg>`;
+
+test.describe("Content Sniffing", () => {
+  test("should detect types from leading bytes", async () => {
+    const png = await sharp({
+      create: { width: 2, height: 2, channels: 3, background: "red" },
+    })
+      .png()
+      .toBuffer();
+    const jpeg = await sharp(png).jpeg().toBuffer();
+    const gif = Buffer.from("GIF89a\x01\x00\x01\x00", "latin1");
+
+    expect(sniffMimeType(png)).toBe("image/png");
+    expect(sniffMimeType(jpeg)).toBe("image/jpeg");
+    expect(sniffMimeType(gif)).toBe("image/gif");
+    expect(sniffMimeType(Buffer.from(svg("")))).toBe("image/svg+xml");
+    expect(
+      sniffMimeType(
+        Buffer.from(`﻿<?xml version="1.0"?>\n<!-- logo -->\n${svg("")}`),
+      ),
+    ).toBe("image/svg+xml");
+    expect(sniffMimeType(Buffer.from("<!DOCTYPE html><p>hi"))).toBe(
+      "text/html",
+    );
+    expect(sniffMimeType(Buffer.from("  <script>alert(1)</script>"))).toBe(
+      "text/html",
+    );
+    expect(sniffMimeType(Buffer.from("name,age\nJohn,30\nZoë,31"))).toBe(
+      "text/plain",
+    );
+    expect(sniffMimeType(Buffer.from([0x00, 0x01, 0x02, 0x03]))).toBe(
+      "application/octet-stream",
+    );
+
+    // A multi-byte character cut off by the sniffed length is still text
+    const text = Buffer.from("é".repeat(3000)).subarray(0, 4096 + 1);
+    expect(sniffMimeType(text.subarray(0, 4096))).toBe("text/plain");
+
+    expect(isContentOfType("image/jpg", "image/jpeg")).toBe(true);
+    expect(isContentOfType("text/csv", "text/plain")).toBe(true);
+    expect(isContentOfType("text/markdown", "text/html")).toBe(true);
+    expect(isContentOfType("image/png", "text/html")).toBe(false);
+    expect(isContentOfType("text/plain", "text/html")).toBe(false);
+  });
+
+  test("should strip scripts and external references from SVGs", () => {
+    const sanitized = sanitizeSvg(
+      `<?xml version="1.0"?>
+<!DOCTYPE svg [<!ENTITY x "boom">]>
+<?xml-stylesheet href="https://evil.example/a.css"?>
+${svg(`<script>alert(1)</script><script href="https://evil.example/x.js"/>
+<foreignObject><iframe src="https://evil.example"></iframe></foreignObject>
+<style>@import url(https://evil.example/b.css); rect { fill: url(#g) }</style>
+<rect onload="alert(1)" ONCLICK='alert(2)' style="background: url(https://evil.example/t.png)" fill="url(#g)"/>
+<a href="javascript:alert(3)"><text>link</text></a>
+<a xlink:href="#local"><text>local</text></a>
+<use href="https://evil.example/sprite.svg#icon"/>
+<image href="data:image/png;base64,iVBORw0KGgo="/>
+<set attributeName="onmouseover" to="alert(4)"/>
+<animate attributeName="xlink:href" to="javascript:alert(5)"/>
+<animate attributeName="opacity" from="0" to="1"/>
+<s:script xmlns:s="http://www.w3.org/2000/svg">alert(6)</s:script>
+<s:foreignObject xmlns:s="http://www.w3.org/2000/svg"/>
+<s:style xmlns:s="http://www.w3.org/2000/svg">@import url(https://evil.example/c.css);</s:style>`)}`,
+    );
+
+    for (const unsafe of [
+      "<script",
+      "foreignObject",
+      "iframe",
+      "ENTITY",
+      "xml-stylesheet",
+      "@import",
+      "evil.example",
+      "onload",
+      "ONCLICK",
+      "javascript:",
+      'attributeName="onmouseover"',
+      "s:script",
+      "alert(6)",
+      "s:foreignObject",
+    ]) {
+      expect(sanitized).not.toContain(unsafe);
+    }
+
+    expect(sanitized).toContain('<?xml version="1.0"?>');
+    expect(sanitized).toContain('fill="url(#g)"');
+    expect(sanitized).toContain("rect { fill: url(#g) }");
+    expect(sanitized).toContain('<a xlink:href="#local">');
+    expect(sanitized).toContain('<image href="data:image/png;base64,');
+    expect(sanitized).toContain('<animate attributeName="opacity"');
+    expect(sanitized).toContain("<text>link</text>");
+  });
+
+  test.describe("uploads", () => {
+    test.beforeEach(async ({ request }) => {
+      await registerUser(request, "sniff");
+    });
+
+    function upload(
+      request: APIRequestContext,
+      name: string,
+      mimeType: string,
+      content: Buffer,
+    ) {
+      return postUpload(request, { name, mimeType, content });
+    }
+
+    test("should reject content that isn't its declared type", async ({
+      request,
+    }) => {
+      const response = await upload(
+        request,
+        "photo.png",
+        "image/png",
+        Buffer.from("<html><script>alert(1)</script></html>"),
+      );
+      expect(response.status()).toBe(400);
+      const data = await response.json();
+      expect(data.details[0].error).toBe(
+        "File content doesn't match its type image/png (detected text/html)",
+      );
+
+      const disguised = await upload(
+        request,
+        "notes.txt",
+        "text/plain",
+        await sharp({
+          create: { width: 2, height: 2, channels: 3, background: "blue" },
+        })
+          .gif()
+          .toBuffer(),
+      );
+      expect(disguised.status()).toBe(400);
+    });
+
+    test("should store the detected type", async ({ request }) => {
+      const png = await sharp({
+        create: { width: 4, height: 4, channels: 4, background: "green" },
+      })
+        .png()
+        .toBuffer();
+      const response = await upload(request, "dot.png", "image/png", png);
+      expect(response.status()).toBe(201);
+      const file = (await response.json()).files[0];
+      expect(file.detectedMimeType).toBe("image/png");
+
+      const csv = await upload(
+        request,
+        "data.csv",
+        "text/csv",
+        Buffer.from("a,b\n1,2"),
+      );
+      expect((await csv.json()).files[0].detectedMimeType).toBe("text/plain");
+
+      const token = file.url.split("/").pop();
+      const info = await request.get(`${baseURL}/api/files/${token}?info=true`);
+      expect((await info.json()).file.detectedMimeType).toBe("image/png");
+    });
+
+    test("should sanitize SVGs and serve them with a strict CSP", async ({
+      request,
+    }) => {
+      const response = await upload(
+        request,
+        "logo.svg",
+        "image/svg+xml",
+        Buffer.from(
+          svg('<script>alert(1)</script><circle r="5" onclick="alert(2)"/>'),
+        ),
+      );
+      expect(response.status()).toBe(201);
+      const file = (await response.json()).files[0];
+
+      const download = await request.get(`${baseURL}${file.url}`);
+      expect(download.status()).toBe(200);
+      expect(download.headers()["content-security-policy"]).toContain(
+        "default-src 'none'",
+      );
+      expect(download.headers()["content-security-policy"]).toContain(
+        "sandbox",
+      );
+      const body = (await download.body()).toString();
+      expect(body).toBe(svg('<circle r="5"/>'));
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { APIRequestContext } from "@playwright/test";
+import {
+  test,
+  expect,
+  baseURL,
+  registerUser,
+  postUpload,
+  uploadFile,
+} from "./helpers";
+
+test.describe("Download Limits", () => {
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "lim");
+  });
+
+  function upload(
+    request: APIRequestContext,
+    fields: Record<string, string> = {},
+  ) {
+    const content = `read me ${Date.now()} ${Math.random()}`;
+    return uploadFile(request, { name: "limited.txt", content }, fields);
+  }
+
+  test("should burn a file after one download", async ({ request }) => {
+    const file = await upload(request, { burnAfterReading: "true" });
+    expect(file.maxDownloads).toBe(1);
+
+    const first = await request.get(`${baseURL}${file.url}`);
+    expect(first.status()).toBe(200);
+    expect(await first.text()).toContain("read me");
+
+    const second = await request.get(`${baseURL}${file.url}`);
+    expect(second.status()).toBe(410);
+    expect((await second.json()).error).toBe("Download limit reached");
+
+    const listing = await (await request.get(`${baseURL}/api/files/my`)).json();
+    expect(listing.files[0]).toMatchObject({
+      downloadCount: 1,
+      maxDownloads: 1,
+      downloadLimitReached: true,
+    });
+
+    // Signed URLs are refused with the same reason
+    const signed = await request.post(`${baseURL}/api/files/generate-url`, {
+      data: { fileId: file.id, action: "download" },
+    });
+    expect(signed.status()).toBe(200);
+    const secure = await request.get(`${baseURL}${(await signed.json()).url}`);
+    expect(secure.status()).toBe(410);
+    expect((await secure.json()).error).toBe("Download limit reached");
+  });
+
+  test("should not exceed the limit under concurrent downloads", async ({
+    request,
+  }) => {
+    const file = await upload(request, { maxDownloads: "3" });
+
+    const responses = await Promise.all(
+      Array.from({ length: 6 }, () => request.get(`${baseURL}${file.url}`)),
+    );
+    const statuses = responses.map((response) => response.status()).sort();
+    expect(statuses).toEqual([200, 200, 200, 410, 410, 410]);
+  });
+
+  test("should count range requests", async ({ request }) => {
+    const file = await upload(request, { maxDownloads: "1" });
+
+    const tail = await request.get(`${baseURL}${file.url}`, {
+      headers: { Range: "bytes=1-" },
+    });
+    expect(tail.status()).toBe(206);
+
+    const again = await request.get(`${baseURL}${file.url}`, {
+      headers: { Range: "bytes=1-" },
+    });
+    expect(again.status()).toBe(410);
+  });
+
+  test("should not count resumed downloads of unlimited files", async ({
+    request,
+  }) => {
+    const file = await upload(request);
+
+    const tail = await request.get(`${baseURL}${file.url}`, {
+      headers: { Range: "bytes=3-" },
+    });
+    expect(tail.status()).toBe(206);
+
+    const listing = await (await request.get(`${baseURL}/api/files/my`)).json();
+    expect(listing.files[0].downloadCount).toBe(0);
+  });
+
+  test("should count ranges that include the first byte", async ({
+    request,
+  }) => {
+    const file = await upload(request, { maxDownloads: "1" });
+
+    // Overlapping ranges are merged, so this is the whole file in one part
+    const whole = await request.get(`${baseURL}${file.url}`, {
+      headers: { Range: "bytes=1-,0-0" },
+    });
+    expect(whole.status()).toBe(206);
+    expect(whole.headers()["content-range"]).toBe(
+      `bytes 0-${file.size - 1}/${file.size}`,
+    );
+    expect(await whole.text()).toContain("read me");
+
+    const again = await request.get(`${baseURL}${file.url}`);
+    expect(again.status()).toBe(410);
+  });
+
+  test("should validate the limit", async ({ request }) => {
+    const response = await postUpload(
+      request,
+      { name: "limited.txt", content: "x" },
+      { maxDownloads: "0" },
+    );
+    expect(response.status()).toBe(400);
+  });
+
+  test("should burn share links after reading", async ({ request }) => {
+    const file = await upload(request);
+
+    const created = await request.post(`${baseURL}/api/share-links`, {
+      data: { fileId: file.id, burnAfterReading: true },
+    });
+    expect(created.status()).toBe(201);
+    const { link } = await created.json();
+    expect(link.maxDownloads).toBe(1);
+
+    expect((await request.get(`${baseURL}${link.url}`)).status()).toBe(200);
+    const again = await request.get(`${baseURL}${link.url}`);
+    expect(again.status()).toBe(410);
+    expect((await again.json()).error).toBe("Download limit reached");
+
+    // The file itself has no limit
+    expect((await request.get(`${baseURL}${file.url}`)).status()).toBe(200);
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  decryptFile,
+  encryptFile,
+  generateLinkKey,
+  getDecryptUrl,
+  getKeySource,
+  getLinkKey,
+  E2E_MAX_OVERHEAD,
+  ENCRYPTED_MIME_TYPE,
+} from "../../lib/e2e-encryption";
+import { validateFile } from "../../lib/file-utils";
+import { MAX_FILE_SIZE } from "../../lib/upload-policies";
+import {
+  test,
+  expect,
+  baseURL,
+  registerUser,
+  postUpload,
+  uploadFile,
+} from "./helpers";
+
+async function encrypt(content: string, type: string, key: string) {
+  const payload = await encryptFile(new Blob([content]), type, { key });
+  return Buffer.from(await payload.arrayBuffer());
+}
+
+test.describe("End-to-end Encryption", () => {
+  test("should round-trip files with a link key or a passphrase", async () => {
+    const content = `top secret ${Date.now()}`;
+
+    const key = generateLinkKey();
+    const payload = await encrypt(content, "text/plain", key);
+    expect(getKeySource(payload)).toBe("link");
+    expect(payload.includes(Buffer.from(content))).toBe(false);
+    const opened = await decryptFile(payload, { key });
+    expect(opened.type).toBe("text/plain");
+    expect(await opened.data.text()).toBe(content);
+
+    const url = getDecryptUrl("abc", key);
+    expect(url).toBe(`/decrypt/abc#key=${key}`);
+    expect(getLinkKey(url.split("#")[1])).toBe(key);
+
+    const locked = new Uint8Array(
+      await (
+        await encryptFile(new Blob([content]), "text/markdown", {
+          passphrase: "correct horse battery",
+        })
+      ).arrayBuffer(),
+    );
+    expect(getKeySource(locked)).toBe("passphrase");
+    const unlocked = await decryptFile(locked, {
+      passphrase: "correct horse battery",
+    });
+    expect(unlocked.type).toBe("text/markdown");
+    expect(await unlocked.data.text()).toBe(content);
+
+    await expect(
+      decryptFile(locked, { passphrase: "wrong horse battery" }),
+    ).rejects.toThrow("Wrong key or passphrase");
+    await expect(
+      decryptFile(payload, { key: generateLinkKey() }),
+    ).rejects.toThrow("Wrong key or passphrase");
+
+    // The header is authenticated too
+    const tampered = Buffer.from(payload);
+    tampered[30] ^= 1;
+    await expect(decryptFile(tampered, { key })).rejects.toThrow(
+      "Wrong key or passphrase",
+    );
+    await expect(
+      decryptFile(Buffer.from("plain text"), { key }),
+    ).rejects.toThrow("Not an encrypted vault file");
+  });
+
+  test("should still enforce the size limit on encrypted payloads", () => {
+    const over = MAX_FILE_SIZE + 1;
+    expect(validateFile(over, "text/plain", "big.txt").isValid).toBe(false);
+    expect(validateFile(over, ENCRYPTED_MIME_TYPE, "big.txt", true)).toEqual({
+      isValid: true,
+    });
+    expect(
+      validateFile(
+        MAX_FILE_SIZE + E2E_MAX_OVERHEAD + 1,
+        ENCRYPTED_MIME_TYPE,
+        "big.txt",
+        true,
+      ).isValid,
+    ).toBe(false);
+    expect(validateFile(10, ENCRYPTED_MIME_TYPE, "tiny.txt", true)).toEqual({
+      isValid: false,
+      error: "Encrypted payload is too small",
+    });
+  });
+
+  test.describe("uploads", () => {
+    test.beforeEach(async ({ request }) => {
+      await registerUser(request, "e2e");
+    });
+
+    test("should store encrypted uploads as opaque ciphertext", async ({
+      request,
+    }) => {
+      const key = generateLinkKey();
+      const payload = await encrypt("<svg></svg>", "image/svg+xml", key);
+
+      const file = await uploadFile(
+        request,
+        {
+          name: "diagram.svg",
+          mimeType: ENCRYPTED_MIME_TYPE,
+          content: payload,
+        },
+        { encrypted: "true" },
+      );
+      expect(file.clientEncrypted).toBe(true);
+      expect(file.mimeType).toBe(ENCRYPTED_MIME_TYPE);
+
+      // Served back byte for byte, for the browser to decrypt
+      const download = await request.get(`${baseURL}${file.url}`);
+      expect(download.status()).toBe(200);
+      expect(download.headers()["content-type"]).toContain(
+        ENCRYPTED_MIME_TYPE,
+      );
+      const body = await download.body();
+      expect(body).toEqual(payload);
+      expect(await (await decryptFile(body, { key })).data.text()).toBe(
+        "<svg></svg>",
+      );
+
+      const token = file.url.split("/").pop();
+      const info = await request.get(`${baseURL}/api/files/${token}?info=true`);
+      expect((await info.json()).file.clientEncrypted).toBe(true);
+
+      const list = await request.get(`${baseURL}/api/files/my`);
+      const listed = (await list.json()).files.find(
+        (item: any) => item.id === file.id,
+      );
+      expect(listed.clientEncrypted).toBe(true);
+    });
+
+    test("should reject payloads not in the vault format", async ({
+      request,
+    }) => {
+      const response = await postUpload(
+        request,
+        { name: "notes.txt", content: "x".repeat(200) },
+        { encrypted: "true" },
+      );
+      expect(response.status()).toBe(400);
+      expect(JSON.stringify(await response.json())).toContain(
+        "Encrypted payload is not in the vault format",
+      );
+    });
+  });
+});
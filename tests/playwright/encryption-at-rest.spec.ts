@@ -0,0 +1,193 @@
+import { APIRequestContext } from "@playwright/test";
+import { execFileSync } from "child_process";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { database } from "../../lib/database";
+import {
+  createDecryptStream,
+  createEncryptStream,
+  encryptBuffer,
+  getEncryptedRange,
+  getEncryptedSize,
+  getMasterKeyId,
+  DataKey,
+  SEGMENT_SIZE,
+} from "../../lib/encryption";
+import {
+  test,
+  expect,
+  sql,
+  baseURL,
+  registerUser,
+  uploadFile,
+} from "./helpers";
+
+// Runs the encryption CLI against the server's database and key file
+function encryption(...args: string[]) {
+  execFileSync("node", ["scripts/encryption.js", ...args], { stdio: "pipe" });
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function decryptRange(
+  dataKey: DataKey,
+  encrypted: Buffer,
+  size: number,
+  range?: { start: number; end: number },
+): Promise<Buffer> {
+  const stored = getEncryptedRange(size, range);
+  return readAll(
+    Readable.from([encrypted.subarray(stored.start, stored.end + 1)]).pipe(
+      createDecryptStream(dataKey, size, range),
+    ),
+  );
+}
+
+test.describe("Encryption at Rest", () => {
+  test("should decrypt any range of segmented content", async () => {
+    const dataKey = {
+      key: crypto.randomBytes(32),
+      nonce: crypto.randomBytes(12),
+    };
+    const data = crypto.randomBytes(3 * SEGMENT_SIZE + 1000);
+    const encrypted = encryptBuffer(dataKey, data);
+    expect(encrypted.length).toBe(getEncryptedSize(data.length));
+
+    // Streamed encryption matches, however the input is chunked
+    const chunks = [data.subarray(0, 1000), data.subarray(1000)];
+    expect(
+      await readAll(Readable.from(chunks).pipe(createEncryptStream(dataKey))),
+    ).toEqual(encrypted);
+
+    expect(await decryptRange(dataKey, encrypted, data.length)).toEqual(data);
+    for (const [start, end] of [
+      [0, 0],
+      [SEGMENT_SIZE - 5, SEGMENT_SIZE + 5],
+      [100, data.length - 1],
+      [2 * SEGMENT_SIZE, 2 * SEGMENT_SIZE],
+      [data.length - 1, data.length - 1],
+    ]) {
+      expect(
+        await decryptRange(dataKey, encrypted, data.length, { start, end }),
+      ).toEqual(data.subarray(start, end + 1));
+    }
+
+    // Tampered or truncated content fails rather than decrypting
+    const tampered = Buffer.from(encrypted);
+    tampered[SEGMENT_SIZE + 100] ^= 1;
+    await expect(
+      decryptRange(dataKey, tampered, data.length),
+    ).rejects.toThrow("Stored content failed to decrypt");
+
+    const truncated = encrypted.subarray(0, 3 * (SEGMENT_SIZE + 16));
+    await expect(
+      readAll(
+        Readable.from([truncated]).pipe(
+          createDecryptStream(dataKey, data.length),
+        ),
+      ),
+    ).rejects.toThrow("Stored content failed to decrypt");
+  });
+
+  test.describe("stored files", () => {
+    test.beforeEach(async ({ request }) => {
+      await registerUser(request, "enc");
+    });
+
+    async function upload(request: APIRequestContext, content: Buffer) {
+      const file = await uploadFile(request, { name: "secret.txt", content });
+      return { ...file, row: (await database.getFileById(file.id))! };
+    }
+
+    test("should store uploads encrypted and serve them decrypted", async ({
+      request,
+    }) => {
+      const lines = Array.from(
+        { length: 12000 },
+        (_, i) => `line ${i} ${Date.now()}`,
+      );
+      const content = Buffer.from(lines.join("\n"));
+      expect(content.length).toBeGreaterThan(2 * SEGMENT_SIZE);
+      const file = await upload(request, content);
+
+      expect(file.row.encryption_key).toBeTruthy();
+      expect(file.row.encryption_nonce).toBeTruthy();
+      const stored = fs.readFileSync(
+        path.join(process.cwd(), "uploads", file.row.upload_path),
+      );
+      expect(stored.length).toBe(getEncryptedSize(content.length));
+      expect(stored.includes(Buffer.from(lines[5000]))).toBe(false);
+
+      const download = await request.get(`${baseURL}${file.url}`);
+      expect(download.status()).toBe(200);
+      expect(await download.body()).toEqual(content);
+
+      // Ranges across segment boundaries
+      const start = SEGMENT_SIZE - 10;
+      const end = 2 * SEGMENT_SIZE + 10;
+      const partial = await request.get(`${baseURL}${file.url}`, {
+        headers: { Range: `bytes=${start}-${end}` },
+      });
+      expect(partial.status()).toBe(206);
+      expect(await partial.body()).toEqual(content.subarray(start, end + 1));
+    });
+
+    test("should encrypt existing files and rotate the master key", async ({
+      request,
+    }) => {
+      const content = Buffer.from(`stored before encryption ${Date.now()}`);
+      const file = await upload(request, content);
+
+      // Put the content back as it was stored before encryption at rest
+      const plaintextKey = `${file.row.upload_path}.plain`;
+      fs.writeFileSync(
+        path.join(process.cwd(), "uploads", plaintextKey),
+        content,
+      );
+      await sql(
+        `UPDATE blobs SET storage_key = ?, encryption_key = NULL,
+           encryption_nonce = NULL WHERE hash = ?`,
+        [plaintextKey, file.row.blob_hash],
+      );
+      await sql(
+        `UPDATE files SET upload_path = ?, encryption_key = NULL,
+           encryption_nonce = NULL WHERE blob_hash = ?`,
+        [plaintextKey, file.row.blob_hash],
+      );
+      expect(await (await request.get(`${baseURL}${file.url}`)).body())
+        .toEqual(content);
+
+      encryption("migrate");
+
+      const migrated = (await database.getFileById(file.id))!;
+      expect(migrated.encryption_key).toBeTruthy();
+      expect(migrated.upload_path).not.toBe(plaintextKey);
+      expect(
+        fs.existsSync(path.join(process.cwd(), "uploads", plaintextKey)),
+      ).toBe(false);
+      expect(await (await request.get(`${baseURL}${file.url}`)).body())
+        .toEqual(content);
+
+      encryption("rotate-master-key");
+
+      const rotated = (await database.getFileById(file.id))!;
+      const oldMasterKey = getMasterKeyId(migrated.encryption_key!);
+      expect(getMasterKeyId(rotated.encryption_key!)).not.toBe(oldMasterKey);
+      expect(rotated.encryption_nonce).toBe(migrated.encryption_nonce);
+
+      // Only the data keys are rewrapped; the stored bytes stay the same
+      expect(rotated.upload_path).toBe(migrated.upload_path);
+      encryption("prune-master-keys");
+      expect(await (await request.get(`${baseURL}${file.url}`)).body())
+        .toEqual(content);
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { APIRequestContext } from "@playwright/test";
+import zlib from "zlib";
+import { database } from "../../lib/database";
+import {
+  test,
+  expect,
+  visitorIP,
+  baseURL,
+  newUserContext,
+  uploadFile,
+} from "./helpers";
+
+// Read entry names and contents back from a ZIP via its central directory
+function readZip(archive: Buffer): Map<string, string> {
+  const entries = new Map<string, string>();
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    const method = archive.readUInt16LE(position + 10);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const extraLength = archive.readUInt16LE(position + 30);
+    const commentLength = archive.readUInt16LE(position + 32);
+    const localOffset = archive.readUInt32LE(position + 42);
+    const name = archive
+      .subarray(position + 46, position + 46 + nameLength)
+      .toString("utf8");
+
+    const dataStart =
+      localOffset +
+      30 +
+      archive.readUInt16LE(localOffset + 26) +
+      archive.readUInt16LE(localOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    entries.set(
+      name,
+      (method === 8 ? zlib.inflateRawSync(data) : data).toString("utf8"),
+    );
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+test.describe("File Archives", () => {
+  let owner: APIRequestContext;
+  let friend: APIRequestContext;
+  let ownerName: string;
+  let friendName: string;
+
+  test.beforeEach(async ({ playwright }) => {
+    ({ context: owner, username: ownerName } = await newUserContext(
+      playwright.request,
+      "arco",
+    ));
+    ({ context: friend, username: friendName } = await newUserContext(
+      playwright.request,
+      "arcf",
+    ));
+  });
+
+  test.afterEach(async () => {
+    await Promise.all([owner, friend].map((c) => c.dispose()));
+  });
+
+  function upload(
+    name: string,
+    content: string,
+    fields: Record<string, string> = {},
+  ) {
+    return uploadFile(owner, { name, content }, fields);
+  }
+
+  async function archive(context: APIRequestContext, data: any) {
+    return context.post(`${baseURL}/api/files/archive`, { data });
+  }
+
+  async function accessLogs(username: string, fileId: string) {
+    const user = (await database.getUserByUsername(username))!;
+    return await database.getFileAccessLogs(user.id, fileId);
+  }
+
+  test("should stream picked files with clashing names numbered", async () => {
+    const first = await upload("notes.txt", "first notes");
+    const second = await upload("Notes.txt", "second notes");
+    const other = await upload("todo.txt", "buy milk");
+
+    const response = await archive(owner, {
+      fileIds: [first.id, second.id, other.id, first.id],
+    });
+    expect(response.status()).toBe(200);
+    expect(response.headers()["content-type"]).toBe("application/zip");
+    expect(response.headers()["content-disposition"]).toContain("files.zip");
+    expect(response.headers()["x-archive-files"]).toBe("3");
+
+    const entries = readZip(await response.body());
+    expect(Array.from(entries)).toEqual([
+      ["notes.txt", "first notes"],
+      ["Notes (1).txt", "second notes"],
+      ["todo.txt", "buy milk"],
+    ]);
+
+    // Each file logs its own download
+    const [log] = (await accessLogs(ownerName, second.id)).filter(
+      (log) => log.action === "download_access",
+    );
+    expect(log.success).toBeTruthy();
+    expect(JSON.parse(log.details!)).toEqual({ archive: "files.zip" });
+  });
+
+  test("should check access to every file", async () => {
+    const shared = await upload("shared.txt", "for friends");
+    const viewOnly = await upload("view.txt", "look only");
+    const share = (fileId: string, permission: string) =>
+      owner.post(`${baseURL}/api/shares`, {
+        data: { fileId, username: friendName, permission },
+      });
+    expect((await share(shared.id, "download")).status()).toBe(201);
+    expect((await share(viewOnly.id, "view")).status()).toBe(201);
+
+    const allowed = await archive(friend, { fileIds: [shared.id] });
+    expect(allowed.status()).toBe(200);
+    expect(readZip(await allowed.body()).get("shared.txt")).toBe(
+      "for friends",
+    );
+
+    // One file without download access refuses the whole archive
+    const refused = await archive(friend, {
+      fileIds: [shared.id, viewOnly.id],
+    });
+    expect(refused.status()).toBe(403);
+    expect(await refused.json()).toEqual({
+      error: "Access denied",
+      fileId: viewOnly.id,
+    });
+    const [log] = (await accessLogs(ownerName, viewOnly.id)).filter(
+      (log) => log.action === "download_access",
+    );
+    expect(log.success).toBeFalsy();
+
+    const missing = await archive(friend, { fileIds: ["no-such-file"] });
+    expect(missing.status()).toBe(404);
+
+    // Download-limited files would get round their limit
+    const limited = await upload("once.txt", "burn", { maxDownloads: "1" });
+    const burn = await archive(owner, { fileIds: [limited.id] });
+    expect(burn.status()).toBe(409);
+    expect((await burn.json()).fileId).toBe(limited.id);
+  });
+
+  test("should archive a folder the user can download", async () => {
+    const folder = await (
+      await owner.post(`${baseURL}/api/folders`, { data: { name: "Docs" } })
+    ).json();
+    await upload("readme.txt", "read me", { folderId: folder.folder.id });
+    const selection = { folderId: folder.folder.id };
+
+    const own = await archive(owner, selection);
+    expect(own.status()).toBe(200);
+    expect(own.headers()["content-disposition"]).toContain("Docs.zip");
+    expect(readZip(await own.body()).get("Docs/readme.txt")).toBe("read me");
+
+    expect((await archive(friend, selection)).status()).toBe(404);
+    const shared = await owner.post(`${baseURL}/api/shares`, {
+      data: {
+        folderId: folder.folder.id,
+        username: friendName,
+        permission: "download",
+      },
+    });
+    expect(shared.status()).toBe(201);
+    expect((await archive(friend, selection)).status()).toBe(200);
+  });
+
+  test("should reject invalid selections", async ({ request }) => {
+    const file = await upload("a.txt", "a");
+    for (const data of [
+      {},
+      { fileIds: [] },
+      { fileIds: "a" },
+      { fileIds: [file.id], folderId: "folder" },
+      { fileIds: Array.from({ length: 101 }, (_, i) => `id-${i}`) },
+    ]) {
+      const response = await archive(owner, data);
+      expect(response.status()).toBe(400);
+      expect((await response.json()).error).toMatch(/^Invalid/);
+    }
+
+    const anonymous = await request.post(`${baseURL}/api/files/archive`, {
+      data: { fileIds: [file.id] },
+    });
+    expect(anonymous.status()).toBe(401);
+  });
+
+  test("should share archives through signed URLs", async ({
+    playwright,
+  }) => {
+    const first = await upload("one.txt", "1");
+    const second = await upload("two.txt", "2");
+
+    const generated = await archive(owner, {
+      fileIds: [first.id, second.id],
+      signed: true,
+      expiresIn: 600,
+    });
+    expect(generated.status()).toBe(200);
+    const body = await generated.json();
+    expect(body).toMatchObject({ success: true, files: 2, expiresIn: 600 });
+    expect(body.url).toMatch(/^\/api\/files\/archive\?token=/);
+
+    // Anyone with the link can download it, without a session
+    const visitor = await playwright.request.newContext();
+    const download = await visitor.get(`${baseURL}${body.url}`);
+    expect(download.status()).toBe(200);
+    expect(Array.from(readZip(await download.body()).keys())).toEqual([
+      "one.txt",
+      "two.txt",
+    ]);
+    const logs = await accessLogs(ownerName, first.id);
+    expect(
+      logs.filter((log) => log.action === "download_access" && log.token_id),
+    ).toHaveLength(1);
+
+    // The token can't be tampered with or used for a single file
+    const token = new URL(body.url, baseURL).searchParams.get("token")!;
+    const tampered = await visitor.get(
+      `${baseURL}/api/files/archive?token=${token.slice(0, -2)}xx`,
+    );
+    expect(tampered.status()).toBe(403);
+    const asFile = await visitor.get(
+      `${baseURL}/api/files/secure/${first.id}?token=${token}&action=download`,
+    );
+    expect(asFile.status()).toBe(403);
+
+    // Nor can a file's signed URL stand in for an archive
+    const fileUrl = await (
+      await owner.post(`${baseURL}/api/files/generate-url`, {
+        data: { fileId: first.id, action: "download" },
+      })
+    ).json();
+    const fileToken = new URL(fileUrl.url, baseURL).searchParams.get("token");
+    const asArchive = await visitor.get(
+      `${baseURL}/api/files/archive?token=${fileToken}`,
+    );
+    expect(asArchive.status()).toBe(403);
+    expect((await asArchive.json()).error).toBe("Action mismatch");
+
+    // The selection is checked again when the link is used
+    await owner.delete(`${baseURL}/api/files/delete`, {
+      data: { fileId: second.id },
+    });
+    const afterDelete = await visitor.get(`${baseURL}${body.url}`);
+    expect(afterDelete.status()).toBe(404);
+    expect((await afterDelete.json()).fileId).toBe(second.id);
+
+    await visitor.dispose();
+  });
+
+  test("should list and revoke signed archive URLs", async ({ playwright }) => {
+    const file = await upload("listed.txt", "listed");
+    const { url, id } = await (
+      await archive(owner, { fileIds: [file.id], signed: true })
+    ).json();
+
+    const visitor = await playwright.request.newContext();
+    expect((await visitor.get(`${baseURL}${url}`)).status()).toBe(200);
+
+    const listing = await (
+      await owner.get(`${baseURL}/api/files/signed-urls`)
+    ).json();
+    const listed = listing.urls.find((signedUrl: any) => signedUrl.id === id);
+    expect(listed).toMatchObject({
+      fileId: null,
+      fileName: null,
+      action: "archive",
+      issuedBy: { username: ownerName },
+      useCount: 1,
+      status: "active",
+    });
+    const logs = await accessLogs(ownerName, file.id);
+    expect(
+      logs.find((log) => log.action === "generate_archive_url")?.token_id,
+    ).toBe(id);
+
+    // Only the user who signed it can revoke it
+    const byFriend = await friend.delete(
+      `${baseURL}/api/files/signed-urls/${id}`,
+    );
+    expect(byFriend.status()).toBe(404);
+    const revoked = await owner.delete(`${baseURL}/api/files/signed-urls/${id}`);
+    expect(revoked.status()).toBe(200);
+
+    const refused = await visitor.get(`${baseURL}${url}`);
+    expect(refused.status()).toBe(403);
+    expect((await refused.json()).error).toBe("Signed URL has been revoked");
+    await visitor.dispose();
+  });
+
+  test("should restrict signed archive URLs to the requesting IP", async ({
+    playwright,
+  }) => {
+    const file = await upload("ip.txt", "ip");
+    const { url } = await (
+      await archive(owner, {
+        fileIds: [file.id],
+        signed: true,
+        restrictToIP: true,
+      })
+    ).json();
+
+    const elsewhere = await playwright.request.newContext({
+      extraHTTPHeaders: { "X-Forwarded-For": visitorIP() },
+    });
+    const response = await elsewhere.get(`${baseURL}${url}`);
+    expect(response.status()).toBe(403);
+    expect((await response.json()).error).toBe("IP address mismatch");
+    await elsewhere.dispose();
+
+    expect((await owner.get(`${baseURL}${url}`)).status()).toBe(200);
+  });
+});
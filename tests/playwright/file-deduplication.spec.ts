@@ -0,0 +1,109 @@
+import { APIRequestContext } from "@playwright/test";
+import crypto from "crypto";
+import { database } from "../../lib/database";
+import { cleanupExpiredFiles, storeBlob } from "../../lib/file-utils";
+import { getStorageAdapter } from "../../lib/storage";
+import {
+  test,
+  expect,
+  sql,
+  baseURL,
+  registerUser,
+  uploadFile,
+} from "./helpers";
+
+test.describe("Content-addressed Deduplication", () => {
+  const content = `dedup probe ${Date.now()} ${Math.random()}`;
+  const expectedHash = crypto.createHash("sha256").update(content).digest("hex");
+
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "dedup");
+  });
+
+  function uploadCopy(
+    request: APIRequestContext,
+    name: string,
+    body = content,
+  ) {
+    return uploadFile(request, { name, content: body });
+  }
+
+  test("should expose the SHA-256 content hash", async ({ request }) => {
+    const file = await uploadCopy(request, "hashed.txt");
+    expect(file.contentHash).toBe(expectedHash);
+
+    const info = await request.get(`${baseURL}${file.url}?info=true`);
+    expect((await info.json()).file.contentHash).toBe(expectedHash);
+
+    const list = await request.get(`${baseURL}/api/files/my`);
+    const listed = (await list.json()).files.find(
+      (f: any) => f.id === file.id,
+    );
+    expect(listed.contentHash).toBe(expectedHash);
+  });
+
+  test("should keep shared content until the last copy is deleted", async ({
+    request,
+  }) => {
+    const first = await uploadCopy(request, "first.txt");
+    const second = await uploadCopy(request, "second.txt");
+    expect(first.id).not.toBe(second.id);
+    expect(first.contentHash).toBe(second.contentHash);
+
+    // Quota is charged per file, not per stored blob
+    const me = await request.get(`${baseURL}/api/auth/me`);
+    expect((await me.json()).user.stats.storageUsed).toBe(content.length * 2);
+
+    const deleted = await request.delete(`${baseURL}/api/files/delete`, {
+      data: { fileId: first.id },
+    });
+    expect(deleted.status()).toBe(200);
+
+    const download = await request.get(`${baseURL}${second.url}`);
+    expect(download.status()).toBe(200);
+    expect(await download.text()).toBe(content);
+
+    const deletedLast = await request.delete(`${baseURL}/api/files/delete`, {
+      data: { fileId: second.id },
+    });
+    expect(deletedLast.status()).toBe(200);
+
+    const gone = await request.get(`${baseURL}${second.url}`);
+    expect(gone.status()).toBe(404);
+  });
+
+  test("should keep claimed blobs when their last file goes", async ({
+    request,
+  }) => {
+    const body = `claimed ${content}`;
+    const file = await uploadCopy(request, "claimed.txt", body);
+
+    // An upload of the same bytes reuses the blob, but hasn't inserted its
+    // file row yet when the only file referencing it is deleted
+    const blob = await storeBlob(
+      file.contentHash,
+      Buffer.from(body),
+      body.length,
+    );
+    expect(blob.ref_count).toBe(1);
+    const deleted = await request.delete(`${baseURL}/api/files/delete`, {
+      data: { fileId: file.id },
+    });
+    expect(deleted.status()).toBe(200);
+
+    const kept = (await database.getBlob(file.contentHash))!;
+    expect(kept.ref_count).toBe(0);
+    const storage = getStorageAdapter(kept.storage_backend);
+    expect(await storage.exists(kept.storage_key)).toBe(true);
+
+    // Cleanup removes it once the upload's claim is over an hour old
+    await sql(
+      `UPDATE blobs SET claimed_at = datetime('now', '-2 hours')
+       WHERE hash = ?`,
+      [file.contentHash],
+    );
+    await cleanupExpiredFiles();
+    expect(await database.getBlob(file.contentHash)).toBeNull();
+    expect(await storage.exists(kept.storage_key)).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { test, expect, baseURL, registerUser, uploadFile } from "./helpers";
+
+test.describe("File Download Range and Conditional Requests", () => {
+  const content = "0123456789abcdefghijklmnopqrstuvwxyz";
+  let downloadUrl: string;
+
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "range");
+
+    // The session cookie from registration is reused by the request context
+    const file = await uploadFile(request, { name: "alphabet.txt", content });
+    downloadUrl = `${baseURL}${file.url}`;
+  });
+
+  test("should serve the full file with validators", async ({ request }) => {
+    const response = await request.get(downloadUrl);
+
+    expect(response.status()).toBe(200);
+    expect(await response.text()).toBe(content);
+    expect(response.headers()["accept-ranges"]).toBe("bytes");
+    expect(response.headers()["etag"]).toMatch(/^"[0-9a-f]{64}"$/);
+    expect(response.headers()["last-modified"]).toBeTruthy();
+  });
+
+  test("should serve a single byte range", async ({ request }) => {
+    const response = await request.get(downloadUrl, {
+      headers: { Range: "bytes=10-15" },
+    });
+
+    expect(response.status()).toBe(206);
+    expect(await response.text()).toBe("abcdef");
+    expect(response.headers()["content-range"]).toBe(
+      `bytes 10-15/${content.length}`,
+    );
+  });
+
+  test("should serve suffix and open-ended ranges", async ({ request }) => {
+    const suffix = await request.get(downloadUrl, {
+      headers: { Range: "bytes=-4" },
+    });
+    expect(suffix.status()).toBe(206);
+    expect(await suffix.text()).toBe("wxyz");
+
+    const openEnded = await request.get(downloadUrl, {
+      headers: { Range: "bytes=32-" },
+    });
+    expect(openEnded.status()).toBe(206);
+    expect(await openEnded.text()).toBe("wxyz");
+  });
+
+  test("should serve multiple ranges as multipart/byteranges", async ({
+    request,
+  }) => {
+    const response = await request.get(downloadUrl, {
+      headers: { Range: "bytes=0-1,34-35" },
+    });
+
+    expect(response.status()).toBe(206);
+    expect(response.headers()["content-type"]).toMatch(
+      /^multipart\/byteranges; boundary=/,
+    );
+    const body = await response.text();
+    expect(body).toContain(`Content-Range: bytes 0-1/${content.length}`);
+    expect(body).toContain(`Content-Range: bytes 34-35/${content.length}`);
+    expect(body).toContain("\r\n\r\n01\r\n");
+    expect(body).toContain("\r\n\r\nyz\r\n");
+  });
+
+  test("should reject unsatisfiable ranges", async ({ request }) => {
+    const response = await request.get(downloadUrl, {
+      headers: { Range: "bytes=1000-2000" },
+    });
+
+    expect(response.status()).toBe(416);
+    expect(response.headers()["content-range"]).toBe(
+      `bytes */${content.length}`,
+    );
+  });
+
+  test("should return 304 for matching validators", async ({ request }) => {
+    const first = await request.get(downloadUrl);
+    const etag = first.headers()["etag"];
+    const lastModified = first.headers()["last-modified"];
+
+    const byEtag = await request.get(downloadUrl, {
+      headers: { "If-None-Match": etag },
+    });
+    expect(byEtag.status()).toBe(304);
+
+    const byDate = await request.get(downloadUrl, {
+      headers: { "If-Modified-Since": lastModified },
+    });
+    expect(byDate.status()).toBe(304);
+  });
+
+  test("should ignore Range when If-Range does not match", async ({
+    request,
+  }) => {
+    const response = await request.get(downloadUrl, {
+      headers: { Range: "bytes=0-3", "If-Range": '"stale-etag"' },
+    });
+
+    expect(response.status()).toBe(200);
+    expect(await response.text()).toBe(content);
+  });
+});
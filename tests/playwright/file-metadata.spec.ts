@@ -0,0 +1,266 @@
+import { APIRequestContext } from "@playwright/test";
+import sharp from "sharp";
+import {
+  test,
+  expect,
+  baseURL,
+  registerUser,
+  uploadFile,
+  UploadedFile,
+} from "./helpers";
+
+function png(width: number, height: number) {
+  return sharp({
+    create: {
+      width,
+      height,
+      channels: 3,
+      background: { r: 255, g: 0, b: 0 },
+    },
+  })
+    .png()
+    .toBuffer();
+}
+
+const CSV = [
+  "\uFEFFname,notes,amount",
+  'Alice,"likes ""quotes""",10',
+  "",
+  'Bob,"spans',
+  'two lines, with a comma",20',
+  "Carol,,30",
+].join("\r\n");
+
+const MARKDOWN = [
+  "Quarterly Report",
+  "================",
+  "",
+  "Revenue grew by <b>ten</b> percent, " +
+    "see [the figures](https://example.com/a/b/c).",
+  "",
+  "```js",
+  "const ignored = 'code is not prose';",
+  "```",
+  "",
+  "## Next steps",
+  "Don't stop.",
+].join("\n");
+
+test.describe("File Metadata", () => {
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "fmeta");
+  });
+
+  function upload(
+    request: APIRequestContext,
+    name: string,
+    mimeType: string,
+    content: Buffer,
+    fields: Record<string, string> = {},
+  ) {
+    return uploadFile(request, { name, mimeType, content }, fields);
+  }
+
+  async function info(request: APIRequestContext, file: UploadedFile) {
+    const response = await request.get(`${baseURL}${file.url}?info=true`);
+    expect(response.status()).toBe(200);
+    return (await response.json()).file;
+  }
+
+  test("should extract image dimensions and dominant color", async ({
+    request,
+  }) => {
+    const file = await upload(
+      request,
+      "red.png",
+      "image/png",
+      await png(320, 200),
+    );
+    expect((await info(request, file)).metadata).toEqual({
+      width: 320,
+      height: 200,
+      format: "png",
+      channels: 3,
+      hasAlpha: false,
+      dominantColor: "#f80808",
+    });
+
+    // Sideways photos are measured as they're displayed, kept metadata or not
+    const sideways = await sharp(await png(300, 100))
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+    for (const keepMetadata of ["false", "true"]) {
+      const photo = await upload(
+        request,
+        "photo.jpg",
+        "image/jpeg",
+        sideways,
+        { keepMetadata },
+      );
+      expect((await info(request, photo)).metadata).toMatchObject({
+        width: 100,
+        height: 300,
+      });
+    }
+  });
+
+  test("should extract CSV shape and markdown title and word count", async ({
+    request,
+  }) => {
+    const csv = await upload(
+      request,
+      "data.csv",
+      "text/csv",
+      Buffer.from(CSV),
+    );
+    expect((await info(request, csv)).metadata).toEqual({
+      rows: 3,
+      columns: 3,
+      header: ["name", "notes", "amount"],
+    });
+
+    const markdown = await upload(
+      request,
+      "report.md",
+      "text/markdown",
+      Buffer.from(MARKDOWN),
+    );
+    // Code, link targets and tags aren't counted
+    expect((await info(request, markdown)).metadata).toEqual({
+      title: "Quarterly Report",
+      wordCount: 14,
+    });
+
+    const text = await upload(
+      request,
+      "notes.txt",
+      "text/plain",
+      Buffer.from("just text"),
+    );
+    expect((await info(request, text)).metadata).toBeNull();
+  });
+
+  test("should return metadata on the secure info action", async ({
+    request,
+  }) => {
+    const file = await upload(
+      request,
+      "wide.png",
+      "image/png",
+      await png(64, 32),
+    );
+    const generated = await request.post(`${baseURL}/api/files/generate-url`, {
+      data: { fileId: file.id, action: "info" },
+    });
+    expect(generated.status()).toBe(200);
+    const { url } = await generated.json();
+
+    const response = await request.get(`${baseURL}${url}`);
+    expect(response.status()).toBe(200);
+    expect((await response.json()).file.metadata).toMatchObject({
+      width: 64,
+      height: 32,
+    });
+  });
+
+  test("should filter listings by metadata", async ({ request }) => {
+    const wide = await upload(
+      request,
+      "wide.png",
+      "image/png",
+      await png(400, 100),
+    );
+    const tall = await upload(
+      request,
+      "tall.png",
+      "image/png",
+      await png(100, 400),
+    );
+    const square = await upload(
+      request,
+      "square.png",
+      "image/png",
+      await png(150, 150),
+    );
+    const csv = await upload(
+      request,
+      "data.csv",
+      "text/csv",
+      Buffer.from(CSV),
+    );
+
+    const search = async (query: string) => {
+      const response = await request.get(
+        `${baseURL}/api/files/search?${query}`,
+      );
+      expect(response.status()).toBe(200);
+      return (await response.json()).files.map((file: any) => file.id).sort();
+    };
+
+    expect(await search("orientation=landscape")).toEqual([wide.id]);
+    expect(await search("orientation=portrait")).toEqual([tall.id]);
+    expect(await search("orientation=square")).toEqual([square.id]);
+    expect(await search("minWidth=150")).toEqual([square.id, wide.id].sort());
+    expect(await search("minWidth=100&maxHeight=150")).toEqual(
+      [square.id, wide.id].sort(),
+    );
+    expect(await search("minRows=3&maxColumns=3")).toEqual([csv.id]);
+    expect(await search("minRows=4")).toEqual([]);
+
+    // Listings carry the metadata too
+    const listing = await request.get(`${baseURL}/api/files/my`);
+    const listed = (await listing.json()).files.find(
+      (file: any) => file.id === csv.id,
+    );
+    expect(listed.metadata).toMatchObject({ rows: 3, columns: 3 });
+
+    const invalid = await request.get(
+      `${baseURL}/api/files/search?minWidth=wide`,
+    );
+    expect(invalid.status()).toBe(400);
+    expect((await invalid.json()).error).toBe(
+      "Invalid minWidth: must be a non-negative whole number",
+    );
+    const orientation = await request.get(
+      `${baseURL}/api/files/search?orientation=round`,
+    );
+    expect(orientation.status()).toBe(400);
+  });
+
+  test("should replace metadata with a new version", async ({ request }) => {
+    const file = await upload(
+      request,
+      "photo.png",
+      "image/png",
+      await png(100, 50),
+    );
+    const version = await request.post(
+      `${baseURL}/api/files/versions/${file.id}`,
+      {
+        multipart: {
+          file: {
+            name: "photo.png",
+            mimeType: "image/png",
+            buffer: await png(50, 200),
+          },
+        },
+      },
+    );
+    expect(version.status()).toBe(201);
+    expect((await info(request, file)).metadata).toMatchObject({
+      width: 50,
+      height: 200,
+    });
+
+    // Restoring the first version brings its metadata back
+    const restored = await request.post(
+      `${baseURL}/api/files/versions/${file.id}/1/restore`,
+    );
+    expect(restored.status()).toBe(200);
+    expect((await info(request, file)).metadata).toMatchObject({
+      width: 100,
+      height: 50,
+    });
+  });
+});
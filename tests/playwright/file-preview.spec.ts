@@ -0,0 +1,294 @@
+import { APIRequestContext } from "@playwright/test";
+import sharp from "sharp";
+import { encryptFile, generateLinkKey } from "../../lib/e2e-encryption";
+import { renderMarkdown } from "../../lib/markdown";
+import { test, expect, baseURL, registerUser, uploadFile } from "./helpers";
+
+const CSV = [
+  "name,city,amount",
+  "Carol,Oslo,30",
+  "alice,,5",
+  "Bob,Lima,100",
+  'Dave,"Rio, Brazil",9',
+  "Erin,Nice",
+].join("\n");
+
+test.describe("File Preview", () => {
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "prev");
+  });
+
+  function upload(
+    request: APIRequestContext,
+    name: string,
+    mimeType: string,
+    content: Buffer,
+    fields: Record<string, string> = {},
+  ) {
+    return uploadFile(request, { name, mimeType, content }, fields);
+  }
+
+  async function signToken(
+    request: APIRequestContext,
+    fileId: string,
+    data = {},
+  ) {
+    const response = await request.post(`${baseURL}/api/files/generate-url`, {
+      data: { fileId, action: "view", ...data },
+    });
+    expect(response.status()).toBe(200);
+    const { url } = await response.json();
+    return new URL(url, baseURL).searchParams.get("token")!;
+  }
+
+  async function preview(
+    request: APIRequestContext,
+    fileId: string,
+    query = "",
+  ) {
+    const token = await signToken(request, fileId);
+    return await request.get(
+      `${baseURL}/api/files/secure/${fileId}/preview?token=${token}${query}`,
+    );
+  }
+
+  test("should render markdown to sanitized HTML", async ({ request }) => {
+    const file = await upload(
+      request,
+      "notes.md",
+      "text/markdown",
+      Buffer.from(
+        [
+          "# Notes <script>alert(1)</script>",
+          "",
+          "See [docs](https://example.com/docs) and " +
+            "[this](javascript:alert(1)).",
+        ].join("\n"),
+      ),
+    );
+
+    const response = await preview(request, file.id);
+    expect(response.status()).toBe(200);
+    expect(response.headers()["cache-control"]).toBe("private, no-cache");
+    const body = await response.json();
+    expect(body.file).toEqual({ name: "notes.md", mimeType: "text/markdown" });
+    expect(body.preview).toEqual({
+      type: "markdown",
+      html:
+        "<h1>Notes &lt;script&gt;alert(1)&lt;/script&gt;</h1>\n" +
+        '<p>See <a href="https://example.com/docs" ' +
+        'rel="noopener noreferrer nofollow" target="_blank">docs</a> ' +
+        "and this.</p>",
+    });
+  });
+
+  test("should page and sort CSV files with a header", async ({ request }) => {
+    const file = await upload(
+      request,
+      "people.csv",
+      "text/csv",
+      Buffer.from(CSV),
+    );
+
+    const first = await preview(request, file.id, "&pageSize=2");
+    expect(first.status()).toBe(200);
+    expect((await first.json()).preview).toEqual({
+      type: "csv",
+      header: ["name", "city", "amount"],
+      rows: [
+        ["Carol", "Oslo", "30"],
+        ["alice", "", "5"],
+      ],
+      columns: 3,
+      totalRows: 5,
+      page: 1,
+      pageSize: 2,
+      pageCount: 3,
+      sort: null,
+    });
+
+    const last = await preview(request, file.id, "&pageSize=2&page=3");
+    expect((await last.json()).preview.rows).toEqual([["Erin", "Nice", ""]]);
+
+    // Numbers sort by value, and empty cells stay last either way
+    const byAmount = await preview(request, file.id, "&sort=2&order=desc");
+    expect(
+      (await byAmount.json()).preview.rows.map((row: string[]) => row[0]),
+    ).toEqual(["Bob", "Carol", "Dave", "alice", "Erin"]);
+    const byCity = await preview(request, file.id, "&sort=1");
+    expect(
+      (await byCity.json()).preview.rows.map((row: string[]) => row[1]),
+    ).toEqual(["Lima", "Nice", "Oslo", "Rio, Brazil", ""]);
+
+    // A first row of numbers is data
+    const numbers = await upload(
+      request,
+      "numbers.csv",
+      "text/csv",
+      Buffer.from("1,2\n3,4\n"),
+    );
+    const headless = (await (await preview(request, numbers.id)).json())
+      .preview;
+    expect(headless.header).toBeNull();
+    expect(headless.totalRows).toBe(2);
+  });
+
+  test("should reject invalid CSV options without using a download", async ({
+    request,
+  }) => {
+    const file = await upload(
+      request,
+      "people.csv",
+      "text/csv",
+      Buffer.from(CSV),
+      { maxDownloads: "1" },
+    );
+
+    for (const [query, error] of [
+      ["&page=0", "Invalid page: must be a whole number from 1 to"],
+      ["&pageSize=501", "Invalid pageSize: must be a whole number from 1"],
+      ["&sort=1&order=up", "Invalid order: must be asc or desc"],
+      ["&sort=3", "Invalid sort: the file has 3 columns"],
+    ]) {
+      const response = await preview(request, file.id, query);
+      expect(response.status()).toBe(400);
+      expect((await response.json()).error).toContain(error);
+    }
+
+    // Previews count against the download limit
+    expect((await preview(request, file.id)).status()).toBe(200);
+    expect((await preview(request, file.id)).status()).toBe(410);
+  });
+
+  test("should point image previews at the view URL", async ({ request }) => {
+    const buffer = await sharp({
+      create: {
+        width: 120,
+        height: 80,
+        channels: 3,
+        background: { r: 0, g: 128, b: 0 },
+      },
+    })
+      .png()
+      .toBuffer();
+    const file = await upload(request, "green.png", "image/png", buffer, {
+      maxDownloads: "1",
+    });
+
+    const response = await preview(request, file.id);
+    expect(response.status()).toBe(200);
+    const { preview: image } = await response.json();
+    expect(image).toMatchObject({ type: "image", width: 120, height: 80 });
+    expect(image.url).toMatch(
+      new RegExp(`^/api/files/secure/${file.id}\\?token=.+&action=view$`),
+    );
+
+    // Describing the image doesn't use the download; fetching it does
+    const view = await request.get(`${baseURL}${image.url}`);
+    expect(view.status()).toBe(200);
+    expect(Buffer.from(await view.body())).toEqual(buffer);
+    expect((await preview(request, file.id)).status()).toBe(410);
+  });
+
+  test("should refuse files that can't be previewed", async ({ request }) => {
+    const key = generateLinkKey();
+    const payload = await encryptFile(new Blob(["# secret"]), "text/markdown", {
+      key,
+    });
+    const encrypted = await upload(
+      request,
+      "secret.md",
+      "application/octet-stream",
+      Buffer.from(await payload.arrayBuffer()),
+      { encrypted: "true" },
+    );
+    const response = await preview(request, encrypted.id);
+    expect(response.status()).toBe(415);
+    expect((await response.json()).error).toBe(
+      "Previews are available for markdown, CSV, text and image files",
+    );
+
+    // URLs signed for an image transform only serve that transform
+    const buffer = await sharp({
+      create: { width: 10, height: 10, channels: 3, background: "#fff" },
+    })
+      .png()
+      .toBuffer();
+    const image = await upload(request, "dot.png", "image/png", buffer);
+    const token = await signToken(request, image.id, {
+      transform: { w: 5 },
+    });
+    const transformed = await request.get(
+      `${baseURL}/api/files/secure/${image.id}/preview?token=${token}`,
+    );
+    expect(transformed.status()).toBe(403);
+
+    const missing = await request.get(
+      `${baseURL}/api/files/secure/${image.id}/preview`,
+    );
+    expect(missing.status()).toBe(400);
+  });
+
+  test("should render markdown blocks and refuse unsafe markup", () => {
+    expect(
+      renderMarkdown(
+        [
+          "Title",
+          "-----",
+          "",
+          "- one",
+          "- **two** and `<b>`",
+          "1. first",
+          "",
+          "> quoted",
+          "",
+          "| a | b |",
+          "|:--|--:|",
+          "| 1 | 2 |",
+          "",
+          "```js",
+          "if (a < b) {}",
+          "```",
+        ].join("\n"),
+      ),
+    ).toBe(
+      [
+        "<h2>Title</h2>",
+        "<ul><li>one</li>" +
+          "<li><strong>two</strong> and <code>&lt;b&gt;</code></li></ul>",
+        "<ol><li>first</li></ol>",
+        "<blockquote><p>quoted</p></blockquote>",
+        "<table><thead><tr>" +
+          '<th style="text-align:left">a</th>' +
+          '<th style="text-align:right">b</th>' +
+          "</tr></thead><tbody><tr>" +
+          '<td style="text-align:left">1</td>' +
+          '<td style="text-align:right">2</td>' +
+          "</tr></tbody></table>",
+        '<pre><code class="language-js">if (a &lt; b) {}</code></pre>',
+      ].join("\n"),
+    );
+
+    // Balanced parentheses stay in link URLs
+    expect(renderMarkdown("[x](https://example.com/a_(b))")).toContain(
+      'href="https://example.com/a_(b)"',
+    );
+
+    const unsafe = renderMarkdown(
+      "[x](JavaScript:alert(1)) ![y](data:image/png;base64,AA) " +
+        '<img src=x onerror="alert(1)">',
+    );
+    expect(unsafe).not.toMatch(/<img|<a |javascript:|data:/i);
+    expect(unsafe).toContain("&lt;img src=x onerror=&quot;alert(1)&quot;&gt;");
+
+    // Markup set aside while rendering doesn't reach link attributes
+    expect(
+      renderMarkdown('[x](http://a "<https://x/onmouseover=alert(1)//>")'),
+    ).toBe(
+      '<p><a href="http://a" ' +
+        'title="&lt;https://x/onmouseover=alert(1)//&gt;" ' +
+        'rel="noopener noreferrer nofollow" target="_blank">x</a></p>',
+    );
+    expect(renderMarkdown("[x](javascript\\:alert(1))")).toBe("<p>x</p>");
+  });
+});
@@ -0,0 +1,169 @@
+import { APIRequestContext } from "@playwright/test";
+import { test, expect, baseURL, registerUser, uploadFile } from "./helpers";
+
+test.describe("Tags and Search", () => {
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "find");
+  });
+
+  function upload(
+    request: APIRequestContext,
+    name: string,
+    content: string,
+    fields: Record<string, string> = {},
+    mimeType = "text/plain",
+  ) {
+    return uploadFile(request, { name, mimeType, content }, fields);
+  }
+
+  async function search(request: APIRequestContext, params: string) {
+    const response = await request.get(`${baseURL}/api/files/search?${params}`);
+    expect(response.status()).toBe(200);
+    return (await response.json()).files;
+  }
+
+  test("should tag files", async ({ request }) => {
+    const file = await upload(request, "invoice.txt", "amount due", {
+      tags: "Finance, 2024 ,finance",
+    });
+    expect(file.tags).toEqual(["finance", "2024"]);
+
+    const updated = await request.put(`${baseURL}/api/files/tags/${file.id}`, {
+      data: { tags: ["finance", "Paid"] },
+    });
+    expect(updated.status()).toBe(200);
+    expect((await updated.json()).tags).toEqual(["finance", "paid"]);
+
+    const invalid = await request.put(`${baseURL}/api/files/tags/${file.id}`, {
+      data: { tags: ["<script>"] },
+    });
+    expect(invalid.status()).toBe(400);
+
+    const list = await (await request.get(`${baseURL}/api/files/my`)).json();
+    expect(list.files[0].tags).toEqual(["finance", "paid"]);
+
+    const tags = await (await request.get(`${baseURL}/api/files/tags`)).json();
+    expect(tags.tags).toEqual([
+      { tag: "finance", count: 1 },
+      { tag: "paid", count: 1 },
+    ]);
+  });
+
+  test("should find files by name, description, tags and contents", async ({
+    request,
+  }) => {
+    const report = await upload(
+      request,
+      "quarterly-report.md",
+      "# Results\n\nRevenue grew in the <b>northern</b> region this quarter.",
+      { description: "Board pack" },
+      "text/markdown",
+    );
+    await upload(request, "groceries.txt", "milk, eggs, bread", {
+      tags: "home",
+    });
+
+    const byContent = await search(request, "q=northern");
+    expect(byContent.map((f: any) => f.id)).toEqual([report.id]);
+    // Matches are marked up and the file's own markup is escaped
+    expect(byContent[0].highlights.snippet).toContain(
+      "&lt;b&gt;<mark>northern</mark>&lt;/b&gt;",
+    );
+
+    const byNamePrefix = await search(request, "q=quarter");
+    expect(byNamePrefix[0].id).toBe(report.id);
+    expect(byNamePrefix[0].highlights.name).toContain("<mark>quarterly</mark>");
+
+    const byDescription = await search(request, "q=board");
+    expect(byDescription.map((f: any) => f.id)).toEqual([report.id]);
+
+    const byTag = await search(request, "q=home");
+    expect(byTag.map((f: any) => f.originalName)).toEqual(["groceries.txt"]);
+
+    // Operators are treated as text rather than breaking the query
+    const odd = await request.get(
+      `${baseURL}/api/files/search?q=${encodeURIComponent('"milk" OR (')}`,
+    );
+    expect(odd.status()).toBe(200);
+  });
+
+  test("should filter results", async ({ request }) => {
+    await upload(request, "small.txt", "filter probe", { isPublic: "true" });
+    await upload(request, "large.csv", `filter,probe\n${"x".repeat(2000)}`, {
+      expiresIn: "1",
+      tags: "data",
+    }, "text/csv");
+
+    const names = (files: any[]) =>
+      files.map((f: any) => f.originalName).sort();
+
+    expect(names(await search(request, "q=probe"))).toEqual([
+      "large.csv",
+      "small.txt",
+    ]);
+    expect(names(await search(request, "q=probe&mimeType=text/csv"))).toEqual([
+      "large.csv",
+    ]);
+    expect(names(await search(request, "q=probe&mimeType=text/*"))).toHaveLength(
+      2,
+    );
+    expect(names(await search(request, "q=probe&minSize=1000"))).toEqual([
+      "large.csv",
+    ]);
+    expect(names(await search(request, "q=probe&maxSize=1000"))).toEqual([
+      "small.txt",
+    ]);
+    expect(names(await search(request, "q=probe&isPublic=true"))).toEqual([
+      "small.txt",
+    ]);
+    expect(names(await search(request, "q=probe&expiry=active"))).toEqual([
+      "large.csv",
+    ]);
+    expect(names(await search(request, "q=probe&expiry=none"))).toEqual([
+      "small.txt",
+    ]);
+    expect(names(await search(request, "tag=data"))).toEqual(["large.csv"]);
+
+    const tomorrow = new Date(Date.now() + 86400000).toISOString();
+    expect(
+      await search(request, `q=probe&createdAfter=${tomorrow}`),
+    ).toHaveLength(0);
+    expect(
+      await search(request, `q=probe&createdBefore=${tomorrow}`),
+    ).toHaveLength(2);
+
+    const invalid = await request.get(
+      `${baseURL}/api/files/search?minSize=lots`,
+    );
+    expect(invalid.status()).toBe(400);
+  });
+
+  test("should reindex new versions", async ({ request }) => {
+    const file = await upload(request, "draft.txt", "original wording");
+
+    const version = await request.post(
+      `${baseURL}/api/files/versions/${file.id}`,
+      {
+        multipart: {
+          file: {
+            name: "draft.txt",
+            mimeType: "text/plain",
+            buffer: Buffer.from("revised phrasing"),
+          },
+        },
+      },
+    );
+    expect(version.status()).toBe(201);
+
+    expect(await search(request, "q=original")).toHaveLength(0);
+    expect(await search(request, "q=revised")).toHaveLength(1);
+  });
+
+  test("should only search the user's own files", async ({ request }) => {
+    await upload(request, "secret.txt", "confidential zebra");
+
+    await registerUser(request, "find2");
+
+    expect(await search(request, "q=zebra")).toHaveLength(0);
+  });
+});
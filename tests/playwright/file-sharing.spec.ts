@@ -0,0 +1,239 @@
+import { APIRequestContext } from "@playwright/test";
+import { test, expect, baseURL, newUserContext, uploadFile } from "./helpers";
+
+test.describe("File Sharing", () => {
+  let owner: APIRequestContext;
+  let friend: APIRequestContext;
+  let stranger: APIRequestContext;
+  let friendName: string;
+
+  test.beforeEach(async ({ playwright }) => {
+    owner = (await newUserContext(playwright.request, "own")).context;
+    ({ context: friend, username: friendName } = await newUserContext(
+      playwright.request,
+      "frnd",
+    ));
+    stranger = (await newUserContext(playwright.request, "strg")).context;
+  });
+
+  test.afterEach(async () => {
+    await Promise.all([owner, friend, stranger].map((c) => c.dispose()));
+  });
+
+  function upload(name: string, content: string, folderId?: string) {
+    return uploadFile(owner, { name, content }, folderId ? { folderId } : {});
+  }
+
+  async function share(context: APIRequestContext, data: any) {
+    return context.post(`${baseURL}/api/shares`, { data });
+  }
+
+  async function signedUrl(
+    context: APIRequestContext,
+    fileId: string,
+    action: string,
+  ) {
+    return context.post(`${baseURL}/api/files/generate-url`, {
+      data: { fileId, action },
+    });
+  }
+
+  test("should share a file with a user and enforce the permission", async () => {
+    const file = await upload("plan.txt", "the plan");
+
+    // Before sharing the file is off limits
+    expect((await signedUrl(friend, file.id, "view")).status()).toBe(403);
+
+    const viewShare = await share(owner, {
+      fileId: file.id,
+      username: friendName,
+      permission: "view",
+    });
+    expect(viewShare.status()).toBe(201);
+    const { share: created } = await viewShare.json();
+    expect(created.grantee).toMatchObject({ type: "user", name: friendName });
+
+    const shared = await (
+      await friend.get(`${baseURL}/api/shares/with-me`)
+    ).json();
+    expect(shared.files.map((f: any) => f.originalName)).toEqual(["plan.txt"]);
+    expect(shared.files[0].permission).toBe("view");
+    expect(shared.files[0].accessToken).toBeUndefined();
+
+    const view = await signedUrl(friend, file.id, "view");
+    expect(view.status()).toBe(200);
+    const viewUrl = (await view.json()).url;
+    expect((await friend.get(`${baseURL}${viewUrl}`)).status()).toBe(200);
+
+    // Viewing doesn't allow downloading
+    expect((await signedUrl(friend, file.id, "download")).status()).toBe(403);
+
+    // Sharing again upgrades the existing share
+    const upgrade = await share(owner, {
+      fileId: file.id,
+      username: friendName,
+      permission: "download",
+    });
+    expect(upgrade.status()).toBe(200);
+    expect((await upgrade.json()).share.id).toBe(created.id);
+
+    const download = await signedUrl(friend, file.id, "download");
+    expect(download.status()).toBe(200);
+    const downloadUrl = (await download.json()).url;
+    const content = await friend.get(`${baseURL}${downloadUrl}`);
+    expect(content.status()).toBe(200);
+    expect(await content.text()).toBe("the plan");
+
+    // Revoking also stops URLs that were already handed out
+    const revoke = await owner.delete(`${baseURL}/api/shares/${created.id}`);
+    expect(revoke.status()).toBe(200);
+    expect((await friend.get(`${baseURL}${downloadUrl}`)).status()).toBe(403);
+    const after = await (
+      await friend.get(`${baseURL}/api/shares/with-me`)
+    ).json();
+    expect(after.files).toHaveLength(0);
+  });
+
+  test("should share folders with groups", async () => {
+    const folder = await (
+      await owner.post(`${baseURL}/api/folders`, { data: { name: "Team" } })
+    ).json();
+    const inner = await (
+      await owner.post(`${baseURL}/api/folders`, {
+        data: { name: "Specs", parentId: folder.folder.id },
+      })
+    ).json();
+    const file = await upload("spec.txt", "nested spec", inner.folder.id);
+
+    const group = await owner.post(`${baseURL}/api/groups`, {
+      data: { name: "Engineers", members: [friendName] },
+    });
+    expect(group.status()).toBe(201);
+    const { group: created } = await group.json();
+    expect(created.members.map((m: any) => m.username)).toEqual([friendName]);
+
+    expect(
+      (
+        await share(owner, {
+          folderId: folder.folder.id,
+          groupId: created.id,
+          permission: "download",
+        })
+      ).status(),
+    ).toBe(201);
+
+    // Folder shares reach files in subfolders
+    const browse = await (
+      await friend.get(
+        `${baseURL}/api/shares/with-me?folderId=${inner.folder.id}`,
+      )
+    ).json();
+    expect(browse.permission).toBe("download");
+    expect(browse.files.map((f: any) => f.id)).toEqual([file.id]);
+    expect((await signedUrl(friend, file.id, "download")).status()).toBe(200);
+
+    // Other users can't share with someone else's group
+    expect(
+      (
+        await share(stranger, {
+          folderId: folder.folder.id,
+          groupId: created.id,
+          permission: "view",
+        })
+      ).status(),
+    ).toBe(404);
+
+    const friendId = created.members[0].id;
+    const removed = await owner.delete(
+      `${baseURL}/api/groups/${created.id}/members/${friendId}`,
+    );
+    expect(removed.status()).toBe(200);
+    expect((await signedUrl(friend, file.id, "download")).status()).toBe(403);
+  });
+
+  test("should let managers reshare but not viewers", async () => {
+    const file = await upload("shared.txt", "x");
+    const strangerUser = await (
+      await stranger.get(`${baseURL}/api/auth/me`)
+    ).json();
+
+    await share(owner, {
+      fileId: file.id,
+      username: friendName,
+      permission: "view",
+    });
+    const denied = await share(friend, {
+      fileId: file.id,
+      userId: strangerUser.user.id,
+      permission: "view",
+    });
+    expect(denied.status()).toBe(403);
+
+    await share(owner, {
+      fileId: file.id,
+      username: friendName,
+      permission: "manage",
+    });
+    const reshared = await share(friend, {
+      fileId: file.id,
+      userId: strangerUser.user.id,
+      permission: "view",
+    });
+    expect(reshared.status()).toBe(201);
+
+    const shares = await (
+      await friend.get(`${baseURL}/api/shares?fileId=${file.id}`)
+    ).json();
+    expect(shares.shares).toHaveLength(2);
+
+    // Without manage permission the shares can't be listed
+    expect(
+      (await stranger.get(`${baseURL}/api/shares?fileId=${file.id}`)).status(),
+    ).toBe(403);
+
+    const invalid = await share(owner, {
+      fileId: file.id,
+      username: friendName,
+      permission: "edit",
+    });
+    expect(invalid.status()).toBe(400);
+  });
+
+  test("should expire shares", async () => {
+    const file = await upload("brief.txt", "short lived");
+
+    const response = await share(owner, {
+      fileId: file.id,
+      username: friendName,
+      permission: "view",
+      expiresIn: 1 / 3600, // one second, in hours
+    });
+    expect(response.status()).toBe(201);
+    expect((await response.json()).share.expiresAt).not.toBeNull();
+
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect((await signedUrl(friend, file.id, "view")).status()).toBe(403);
+  });
+
+  test("should audit sharing changes", async () => {
+    const file = await upload("audited.txt", "x");
+    const created = await (
+      await share(owner, {
+        fileId: file.id,
+        username: friendName,
+        permission: "view",
+      })
+    ).json();
+    await owner.delete(`${baseURL}/api/shares/${created.share.id}`);
+
+    const audit = await (
+      await owner.get(`${baseURL}/api/shares/audit`)
+    ).json();
+    expect(audit.logs.map((log: any) => log.action)).toEqual([
+      "share_revoked",
+      "share_granted",
+    ]);
+    expect(audit.logs[1].targetId).toBe(file.id);
+    expect(audit.logs[1].details.grantee.name).toBe(friendName);
+  });
+});
@@ -0,0 +1,145 @@
+import { APIRequestContext } from "@playwright/test";
+import { test, expect, baseURL, registerUser, uploadFile } from "./helpers";
+
+test.describe("File Versioning", () => {
+  const original = "title\nfirst draft\nfooter\n";
+  const revised = "title\nsecond draft\nfooter\n";
+  let fileId: string;
+  let fileUrl: string;
+
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "ver");
+
+    const file = await uploadFile(request, {
+      name: "notes.md",
+      mimeType: "text/markdown",
+      content: original,
+    });
+    fileId = file.id;
+    fileUrl = `${baseURL}${file.url}`;
+  });
+
+  async function uploadVersion(request: APIRequestContext, content: string) {
+    return await request.post(`${baseURL}/api/files/versions/${fileId}`, {
+      multipart: {
+        file: {
+          name: "notes.md",
+          mimeType: "text/markdown",
+          buffer: Buffer.from(content),
+        },
+      },
+    });
+  }
+
+  test("should keep the file id and access token across versions", async ({
+    request,
+  }) => {
+    const response = await uploadVersion(request, revised);
+    expect(response.status()).toBe(201);
+    const data = await response.json();
+    expect(data.file.id).toBe(fileId);
+    expect(data.file.version).toBe(2);
+    expect(`${baseURL}${data.file.url}`).toBe(fileUrl);
+
+    const download = await request.get(fileUrl);
+    expect(await download.text()).toBe(revised);
+
+    const info = await request.get(`${fileUrl}?info=true`);
+    expect((await info.json()).file.version).toBe(2);
+  });
+
+  test("should list and download previous versions", async ({ request }) => {
+    await uploadVersion(request, revised);
+
+    const list = await request.get(`${baseURL}/api/files/versions/${fileId}`);
+    expect(list.status()).toBe(200);
+    const data = await list.json();
+    expect(data.currentVersion).toBe(2);
+    expect(data.versions.map((v: any) => v.version)).toEqual([2, 1]);
+    expect(data.versions[0].isCurrent).toBe(true);
+
+    const first = await request.get(
+      `${baseURL}/api/files/versions/${fileId}/1`,
+    );
+    expect(first.status()).toBe(200);
+    expect(await first.text()).toBe(original);
+
+    const missing = await request.get(
+      `${baseURL}/api/files/versions/${fileId}/9`,
+    );
+    expect(missing.status()).toBe(404);
+  });
+
+  test("should not count version downloads against the limit", async ({
+    request,
+  }) => {
+    const limited = await uploadFile(
+      request,
+      { name: "limited.md", mimeType: "text/markdown", content: original },
+      { maxDownloads: "1" },
+    );
+
+    for (let i = 0; i < 2; i++) {
+      const download = await request.get(
+        `${baseURL}/api/files/versions/${limited.id}/1`,
+      );
+      expect(download.status()).toBe(200);
+      expect(await download.text()).toBe(original);
+    }
+
+    // The one allowed download is still there for the link
+    const shared = await request.get(`${baseURL}${limited.url}`);
+    expect(shared.status()).toBe(200);
+    expect(await shared.text()).toBe(original);
+  });
+
+  test("should diff text versions", async ({ request }) => {
+    await uploadVersion(request, revised);
+
+    const response = await request.get(
+      `${baseURL}/api/files/versions/${fileId}/diff?from=1&to=2`,
+    );
+    expect(response.status()).toBe(200);
+    expect(response.headers()["content-type"]).toContain("text/x-diff");
+    const diff = await response.text();
+    expect(diff).toContain("@@ -1,3 +1,3 @@");
+    expect(diff).toContain("-first draft\n+second draft\n");
+  });
+
+  test("should restore a previous version as a new version", async ({
+    request,
+  }) => {
+    await uploadVersion(request, revised);
+
+    const response = await request.post(
+      `${baseURL}/api/files/versions/${fileId}/1/restore`,
+    );
+    expect(response.status()).toBe(200);
+    const data = await response.json();
+    expect(data.file.version).toBe(3);
+    expect(data.file.restoredFrom).toBe(1);
+
+    const download = await request.get(fileUrl);
+    expect(await download.text()).toBe(original);
+  });
+
+  test("should prune old versions", async ({ request }) => {
+    await uploadVersion(request, revised);
+    await uploadVersion(request, "third\n");
+
+    const current = await request.delete(
+      `${baseURL}/api/files/versions/${fileId}/3`,
+    );
+    expect(current.status()).toBe(409);
+
+    const pruned = await request.delete(
+      `${baseURL}/api/files/versions/${fileId}?keep=1`,
+    );
+    expect(pruned.status()).toBe(200);
+    expect((await pruned.json()).pruned).toBe(1);
+
+    const list = await request.get(`${baseURL}/api/files/versions/${fileId}`);
+    const data = await list.json();
+    expect(data.versions.map((v: any) => v.version)).toEqual([3, 2]);
+  });
+});
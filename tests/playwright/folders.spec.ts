@@ -0,0 +1,232 @@
+import { APIRequestContext } from "@playwright/test";
+import zlib from "zlib";
+import {
+  test,
+  expect,
+  baseURL,
+  registerUser,
+  postUpload,
+  uploadFile,
+} from "./helpers";
+
+// Read entry names and contents back from a ZIP via its central directory
+function readZip(archive: Buffer): Map<string, string> {
+  const entries = new Map<string, string>();
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    const method = archive.readUInt16LE(position + 10);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const extraLength = archive.readUInt16LE(position + 30);
+    const commentLength = archive.readUInt16LE(position + 32);
+    const localOffset = archive.readUInt32LE(position + 42);
+    const name = archive
+      .subarray(position + 46, position + 46 + nameLength)
+      .toString("utf8");
+
+    const dataStart =
+      localOffset +
+      30 +
+      archive.readUInt16LE(localOffset + 26) +
+      archive.readUInt16LE(localOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    entries.set(
+      name,
+      (method === 8 ? zlib.inflateRawSync(data) : data).toString("utf8"),
+    );
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+test.describe("Folders", () => {
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "fold");
+  });
+
+  async function createFolder(
+    request: APIRequestContext,
+    name: string,
+    parentId?: string,
+  ) {
+    const response = await request.post(`${baseURL}/api/folders`, {
+      data: { name, parentId },
+    });
+    expect(response.status()).toBe(201);
+    return (await response.json()).folder;
+  }
+
+  function upload(
+    request: APIRequestContext,
+    name: string,
+    content: string,
+    folderId?: string,
+  ) {
+    return uploadFile(request, { name, content }, folderId ? { folderId } : {});
+  }
+
+  test("should nest folders and list them with breadcrumbs", async ({
+    request,
+  }) => {
+    const projects = await createFolder(request, "Projects");
+    const alpha = await createFolder(request, "Alpha", projects.id);
+    await upload(request, "notes.txt", "alpha notes", alpha.id);
+    await upload(request, "loose.txt", "top level");
+
+    const duplicate = await request.post(`${baseURL}/api/folders`, {
+      data: { name: "alpha", parentId: projects.id },
+    });
+    expect(duplicate.status()).toBe(409);
+
+    const invalid = await request.post(`${baseURL}/api/folders`, {
+      data: { name: "a/b" },
+    });
+    expect(invalid.status()).toBe(400);
+
+    const tree = await (await request.get(`${baseURL}/api/folders`)).json();
+    expect(tree.folders).toHaveLength(1);
+    expect(tree.folders[0].name).toBe("Projects");
+    expect(tree.folders[0].children[0].name).toBe("Alpha");
+    expect(tree.folders[0].children[0].fileCount).toBe(1);
+
+    const inAlpha = await (
+      await request.get(`${baseURL}/api/files/my?folderId=${alpha.id}`)
+    ).json();
+    expect(inAlpha.breadcrumbs.map((f: any) => f.name)).toEqual([
+      "Projects",
+      "Alpha",
+    ]);
+    expect(inAlpha.files.map((f: any) => f.originalName)).toEqual([
+      "notes.txt",
+    ]);
+
+    const root = await (
+      await request.get(`${baseURL}/api/files/my?folderId=root`)
+    ).json();
+    expect(root.folder).toBeNull();
+    expect(root.folders.map((f: any) => f.name)).toEqual(["Projects"]);
+    expect(root.files.map((f: any) => f.originalName)).toEqual(["loose.txt"]);
+
+    // Without a folder every file is listed, as before
+    const all = await (await request.get(`${baseURL}/api/files/my`)).json();
+    expect(all.files).toHaveLength(2);
+  });
+
+  test("should rename and move folders but not into themselves", async ({
+    request,
+  }) => {
+    const parent = await createFolder(request, "Parent");
+    const child = await createFolder(request, "Child", parent.id);
+    const other = await createFolder(request, "Other");
+
+    const cycle = await request.patch(`${baseURL}/api/folders/${parent.id}`, {
+      data: { parentId: child.id },
+    });
+    expect(cycle.status()).toBe(400);
+
+    const moved = await request.patch(`${baseURL}/api/folders/${child.id}`, {
+      data: { name: "Renamed", parentId: other.id },
+    });
+    expect(moved.status()).toBe(200);
+    const data = await moved.json();
+    expect(data.breadcrumbs.map((f: any) => f.name)).toEqual([
+      "Other",
+      "Renamed",
+    ]);
+
+    const toRoot = await request.patch(`${baseURL}/api/folders/${child.id}`, {
+      data: { parentId: null },
+    });
+    expect((await toRoot.json()).folder.parentId).toBeNull();
+  });
+
+  test("should move files in a batch", async ({ request }) => {
+    const target = await createFolder(request, "Target");
+    const first = await upload(request, "one.txt", "1");
+    const second = await upload(request, "two.txt", "2");
+
+    const response = await request.post(`${baseURL}/api/folders/move`, {
+      data: {
+        fileIds: [first.id, second.id, "missing"],
+        targetFolderId: target.id,
+      },
+    });
+    expect(response.status()).toBe(200);
+    const data = await response.json();
+    expect(data.summary).toEqual({ total: 3, successful: 2, failed: 1 });
+
+    const listing = await (
+      await request.get(`${baseURL}/api/files/my?folderId=${target.id}`)
+    ).json();
+    expect(listing.files).toHaveLength(2);
+    expect(listing.files[0].folderId).toBe(target.id);
+  });
+
+  test("should download a folder as a zip", async ({ request }) => {
+    const docs = await createFolder(request, "Docs");
+    const drafts = await createFolder(request, "Drafts", docs.id);
+    await createFolder(request, "Empty", docs.id);
+    await upload(request, "readme.txt", "read me", docs.id);
+    await upload(request, "draft.txt", "first draft", drafts.id);
+    await upload(request, "draft.txt", "second draft", drafts.id);
+
+    const response = await request.get(
+      `${baseURL}/api/folders/${docs.id}/zip`,
+    );
+    expect(response.status()).toBe(200);
+    expect(response.headers()["content-type"]).toBe("application/zip");
+    expect(response.headers()["content-disposition"]).toContain("Docs.zip");
+
+    const entries = readZip(await response.body());
+    expect(entries.get("Docs/readme.txt")).toBe("read me");
+    expect(entries.has("Docs/Empty/")).toBe(true);
+    const contents = [
+      entries.get("Docs/Drafts/draft.txt"),
+      entries.get("Docs/Drafts/draft (1).txt"),
+    ];
+    expect(contents.sort()).toEqual(["first draft", "second draft"]);
+  });
+
+  test("should delete a folder recursively", async ({ request }) => {
+    const outer = await createFolder(request, "Outer");
+    const inner = await createFolder(request, "Inner", outer.id);
+    const file = await upload(request, "deep.txt", "deep", inner.id);
+    const kept = await upload(request, "kept.txt", "kept");
+
+    const response = await request.delete(`${baseURL}/api/folders/${outer.id}`);
+    expect(response.status()).toBe(200);
+    const data = await response.json();
+    expect(data.deletedFolders).toBe(2);
+    expect(data.deletedFiles).toBe(1);
+
+    expect((await request.get(`${baseURL}${file.url}`)).status()).toBe(404);
+    expect((await request.get(`${baseURL}${kept.url}`)).status()).toBe(200);
+    expect(
+      (await request.get(`${baseURL}/api/folders/${inner.id}`)).status(),
+    ).toBe(404);
+  });
+
+  test("should not expose other users' folders", async ({ request }) => {
+    const folder = await createFolder(request, "Private");
+
+    await registerUser(request, "fold2");
+
+    expect(
+      (await request.get(`${baseURL}/api/folders/${folder.id}`)).status(),
+    ).toBe(404);
+    expect(
+      (await request.get(`${baseURL}/api/folders/${folder.id}/zip`)).status(),
+    ).toBe(404);
+    const upload = await postUpload(
+      request,
+      { name: "x.txt", content: "x" },
+      { folderId: folder.id },
+    );
+    expect(upload.status()).toBe(404);
+  });
+});
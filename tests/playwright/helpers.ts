@@ -0,0 +1,122 @@
+import {
+  APIRequest,
+  APIRequestContext,
+  APIResponse,
+  expect,
+  test as base,
+} from "@playwright/test";
+import path from "path";
+import sqlite3 from "sqlite3";
+
+// Shared by the specs
+
+export { expect };
+
+export const baseURL =
+  process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+export const PASSWORD = "testpassword123";
+
+export interface TestFile {
+  name: string;
+  mimeType?: string; // text/plain when unset
+  content: Buffer | string;
+}
+
+// As listed in the upload response
+export interface UploadedFile {
+  id: string;
+  url: string;
+  [field: string]: any;
+}
+
+// A made-up client address, for tests of requests from different addresses.
+// Send it as X-Forwarded-For: the test server trusts connections from this
+// machine as its proxy.
+export function visitorIP(): string {
+  const n = Math.floor(Math.random() * 250) + 1;
+  return `10.${Date.now() % 250}.${Math.floor(Math.random() * 250)}.${n}`;
+}
+
+// Each test's requests come from an address of its own, so the per-address
+// rate limits one test runs into don't hold up the next
+export const test = base.extend({
+  extraHTTPHeaders: async ({ extraHTTPHeaders }, use) => {
+    await use({ ...extraHTTPHeaders, "X-Forwarded-For": visitorIP() });
+  },
+});
+
+// Writes to the server's database, to set up rows a test can't get to
+// through the API, like content stored before encryption at rest
+export function sql(query: string, params: unknown[]): Promise<void> {
+  const db = new sqlite3.Database(
+    path.join(process.cwd(), "data", "snapvault.db"),
+  );
+  return new Promise((resolve, reject) =>
+    db.run(query, params, (error) => {
+      db.close();
+      error ? reject(error) : resolve();
+    }),
+  );
+}
+
+// Register the user `prefix` plus a timestamp, with the email
+// {username}@example.com, which signs the context in as them. Returns the
+// username.
+export async function registerUser(
+  request: APIRequestContext,
+  prefix: string,
+): Promise<string> {
+  const username = `${prefix}${Date.now()}`;
+  const response = await request.post(`${baseURL}/api/auth/register`, {
+    data: { username, email: `${username}@example.com`, password: PASSWORD },
+  });
+  expect(response.status()).toBe(201);
+  return username;
+}
+
+// A request context of its own, signed in as a new user, so the sessions of
+// several users in one test don't mix. Dispose of it when done.
+export async function newUserContext(
+  api: APIRequest,
+  prefix: string,
+): Promise<{ context: APIRequestContext; username: string }> {
+  const context = await api.newContext();
+  return { context, username: await registerUser(context, prefix) };
+}
+
+// Sign the context in again as a user registered by registerUser
+export function login(
+  request: APIRequestContext,
+  username: string,
+): Promise<APIResponse> {
+  return request.post(`${baseURL}/api/auth/login`, {
+    data: { email: `${username}@example.com`, password: PASSWORD },
+  });
+}
+
+// Post one file to /api/files/upload, with any other form fields
+export function postUpload(
+  request: APIRequestContext,
+  file: TestFile,
+  fields: Record<string, string> = {},
+): Promise<APIResponse> {
+  const { name, mimeType = "text/plain", content } = file;
+  return request.post(`${baseURL}/api/files/upload`, {
+    multipart: {
+      file: { name, mimeType, buffer: Buffer.from(content) },
+      ...fields,
+    },
+  });
+}
+
+// Upload one file, failing the test unless it's stored
+export async function uploadFile(
+  request: APIRequestContext,
+  file: TestFile,
+  fields: Record<string, string> = {},
+): Promise<UploadedFile> {
+  const response = await postUpload(request, file, fields);
+  expect(response.status()).toBe(201);
+  return (await response.json()).files[0];
+}
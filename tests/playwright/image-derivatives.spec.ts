@@ -0,0 +1,310 @@
+import { APIRequestContext } from "@playwright/test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { database } from "../../lib/database";
+import { uploadFile as storeUpload } from "../../lib/file-utils";
+import {
+  getImageDerivative,
+  parseImageTransform,
+} from "../../lib/image-derivatives";
+import { test, expect, baseURL, registerUser, uploadFile } from "./helpers";
+
+const CACHE_DIR = path.join(process.cwd(), "data", "image-cache");
+
+function png(width: number, height: number, seed = Date.now()) {
+  return sharp({
+    create: {
+      width,
+      height,
+      channels: 3,
+      background: { r: seed % 256, g: 64, b: 128 },
+    },
+  })
+    .png()
+    .toBuffer();
+}
+
+test.describe("Image Derivatives", () => {
+  let username: string;
+
+  test.beforeEach(async ({ request }) => {
+    username = await registerUser(request, "img");
+  });
+
+  function upload(
+    request: APIRequestContext,
+    name: string,
+    mimeType: string,
+    content: Buffer,
+    fields: Record<string, string> = {},
+  ) {
+    return uploadFile(request, { name, mimeType, content }, fields);
+  }
+
+  function generate(request: APIRequestContext, data: any) {
+    return request.post(`${baseURL}/api/files/generate-url`, { data });
+  }
+
+  test("should render, cache and revalidate a signed transform", async ({
+    request,
+  }) => {
+    const file = await upload(
+      request,
+      "photo.png",
+      "image/png",
+      await png(800, 600),
+    );
+    const response = await generate(request, {
+      fileId: file.id,
+      transform: { w: 200, h: 200, fit: "cover", format: "webp", q: 70 },
+    });
+    expect(response.status()).toBe(200);
+    const signed = await response.json();
+    expect(signed.action).toBe("view");
+    expect(signed.url).toMatch(
+      new RegExp(
+        `^/api/files/secure/${file.id}/image\\?token=[^&]+&w=200&h=200&fit=cover&format=webp&q=70$`,
+      ),
+    );
+
+    const first = await request.get(`${baseURL}${signed.url}`);
+    expect(first.status()).toBe(200);
+    expect(first.headers()["content-type"]).toBe("image/webp");
+    expect(first.headers()["x-image-cache"]).toBe("MISS");
+    const metadata = await sharp(await first.body()).metadata();
+    expect(metadata).toMatchObject({
+      format: "webp",
+      width: 200,
+      height: 200,
+    });
+
+    const second = await request.get(`${baseURL}${signed.url}`);
+    expect(second.headers()["x-image-cache"]).toBe("HIT");
+    expect(await second.body()).toEqual(await first.body());
+
+    const etag = second.headers()["etag"];
+    const revalidated = await request.get(`${baseURL}${signed.url}`, {
+      headers: { "If-None-Match": etag },
+    });
+    expect(revalidated.status()).toBe(304);
+
+    // Files encrypted at rest keep their derivatives encrypted too
+    const [cached] = fs.readdirSync(path.join(CACHE_DIR, file.id));
+    const stored = fs.readFileSync(path.join(CACHE_DIR, file.id, cached));
+    expect(stored.includes(Buffer.from("WEBP"))).toBe(false);
+
+    const logs = await database.getFileAccessLogs(
+      (await database.getUserByUsername(username))!.id,
+      file.id,
+    );
+    expect(
+      logs.filter((log) => log.action === "transform_access" && log.success),
+    ).toHaveLength(3);
+  });
+
+  test("should only render the transform the URL was signed for", async ({
+    request,
+  }) => {
+    const file = await upload(
+      request,
+      "photo.png",
+      "image/png",
+      await png(400, 300),
+    );
+    const signed = await (
+      await generate(request, {
+        fileId: file.id,
+        transform: { w: 100, format: "png" },
+      })
+    ).json();
+
+    const tampered = await request.get(
+      `${baseURL}${signed.url.replace("w=100", "w=400")}`,
+    );
+    expect(tampered.status()).toBe(403);
+    expect((await tampered.json()).error).toBe("Transform mismatch");
+
+    // Nor can it fetch the original
+    const token = new URL(signed.url, baseURL).searchParams.get("token");
+    const original = await request.get(
+      `${baseURL}/api/files/secure/${file.id}?token=${token}&action=view`,
+    );
+    expect(original.status()).toBe(403);
+
+    // And URLs without a transform can't render one
+    const view = await (
+      await generate(request, { fileId: file.id, action: "view" })
+    ).json();
+    const viewToken = new URL(view.url, baseURL).searchParams.get("token");
+    const untransformed = await request.get(
+      `${baseURL}/api/files/secure/${file.id}/image?token=${viewToken}&w=100&fit=cover&format=png&q=80`,
+    );
+    expect(untransformed.status()).toBe(403);
+
+    const rendered = await request.get(`${baseURL}${signed.url}`);
+    expect(rendered.status()).toBe(200);
+    expect(await sharp(await rendered.body()).metadata()).toMatchObject({
+      format: "png",
+      width: 100,
+      height: 75,
+    });
+  });
+
+  test("should reject invalid transforms and files that aren't images", async ({
+    request,
+  }) => {
+    const image = await upload(
+      request,
+      "photo.png",
+      "image/png",
+      await png(50, 50),
+    );
+
+    const invalid = await generate(request, {
+      fileId: image.id,
+      transform: { w: 10000 },
+    });
+    expect(invalid.status()).toBe(400);
+    expect((await invalid.json()).error).toBe(
+      "Invalid transform: w must be a whole number from 1 to 4096",
+    );
+
+    const format = await generate(request, {
+      fileId: image.id,
+      transform: { format: "bmp" },
+    });
+    expect(format.status()).toBe(400);
+
+    const download = await generate(request, {
+      fileId: image.id,
+      action: "download",
+      transform: { w: 10 },
+    });
+    expect(download.status()).toBe(400);
+
+    const text = await upload(
+      request,
+      "notes.txt",
+      "text/plain",
+      Buffer.from("hi"),
+    );
+    const unsupported = await generate(request, {
+      fileId: text.id,
+      transform: { w: 10 },
+    });
+    expect(unsupported.status()).toBe(415);
+  });
+
+  test("should not use up a download when rendering fails", async ({
+    request,
+  }) => {
+    // A PNG signature with nothing readable after it
+    const bytes = Buffer.concat([
+      (await png(10, 10)).subarray(0, 8),
+      Buffer.from("not really a png"),
+    ]);
+    const broken = await upload(request, "broken.png", "image/png", bytes, {
+      maxDownloads: "1",
+    });
+    const { url } = await (
+      await generate(request, { fileId: broken.id, transform: { w: 10 } })
+    ).json();
+
+    const rendition = await request.get(`${baseURL}${url}`);
+    expect(rendition.status()).toBe(500);
+
+    const download = await request.get(`${baseURL}${broken.url}`);
+    expect(download.status()).toBe(200);
+    expect(Buffer.from(await download.body())).toEqual(bytes);
+  });
+
+  test("should drop derivatives when a file is versioned or deleted", async ({
+    request,
+  }) => {
+    const file = await upload(
+      request,
+      "photo.png",
+      "image/png",
+      await png(300, 300),
+    );
+    const signed = await (
+      await generate(request, {
+        fileId: file.id,
+        transform: { w: 150, format: "jpeg" },
+      })
+    ).json();
+    expect((await request.get(`${baseURL}${signed.url}`)).status()).toBe(200);
+    expect(fs.readdirSync(path.join(CACHE_DIR, file.id))).toHaveLength(1);
+
+    const version = await request.post(
+      `${baseURL}/api/files/versions/${file.id}`,
+      {
+        multipart: {
+          file: {
+            name: "photo.png",
+            mimeType: "image/png",
+            buffer: await png(600, 300),
+          },
+        },
+      },
+    );
+    expect(version.status()).toBe(201);
+    expect(fs.existsSync(path.join(CACHE_DIR, file.id))).toBe(false);
+
+    const rerendered = await request.get(`${baseURL}${signed.url}`);
+    expect(rerendered.headers()["x-image-cache"]).toBe("MISS");
+    expect(await sharp(await rerendered.body()).metadata()).toMatchObject({
+      width: 150,
+      height: 75,
+    });
+
+    const deleted = await request.delete(`${baseURL}/api/files/delete`, {
+      data: { fileId: file.id },
+    });
+    expect(deleted.status()).toBe(200);
+    expect(fs.existsSync(path.join(CACHE_DIR, file.id))).toBe(false);
+  });
+
+  test("should evict the least recently used derivatives", async () => {
+    const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "image-cache-"));
+    process.env.IMAGE_CACHE_DIR = cacheDir;
+
+    try {
+      const userId = (await database.getUserByUsername(username))!.id;
+      const result = await storeUpload({
+        userId,
+        originalName: "photo.png",
+        buffer: await png(400, 400),
+        mimeType: "image/png",
+      });
+      const file = (await database.getFileById(result.id))!;
+      const render = (w: number) =>
+        getImageDerivative(file, parseImageTransform({ w, format: "png" }));
+
+      for (const w of [10, 11, 12]) {
+        expect((await render(w)).cached).toBe(false);
+      }
+      // Room for two and a half of these similar sized derivatives
+      const largest = Math.max(
+        ...fs
+          .readdirSync(path.join(cacheDir, file.id))
+          .map((name) => fs.statSync(path.join(cacheDir, file.id, name)).size),
+      );
+      process.env.IMAGE_CACHE_MAX_SIZE = String(Math.floor(largest * 2.5));
+
+      // 10 becomes the most recently used, so 11 and 12 make room for 13
+      expect((await render(10)).cached).toBe(true);
+      await render(13);
+      expect(fs.readdirSync(path.join(cacheDir, file.id))).toHaveLength(2);
+      expect((await render(10)).cached).toBe(true);
+      expect((await render(13)).cached).toBe(true);
+      expect((await render(11)).cached).toBe(false);
+    } finally {
+      delete process.env.IMAGE_CACHE_DIR;
+      delete process.env.IMAGE_CACHE_MAX_SIZE;
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    }
+  });
+});
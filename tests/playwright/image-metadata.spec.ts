@@ -0,0 +1,134 @@
+import sharp from "sharp";
+import { database } from "../../lib/database";
+import { readContent } from "../../lib/encryption";
+import { listExifFields } from "../../lib/image-metadata";
+import { test, expect, registerUser, uploadFile } from "./helpers";
+
+// A 400x200 photo, stored sideways with orientation 6 (rotate 90° clockwise)
+// and carrying camera and location details
+function photo() {
+  return sharp({
+    create: {
+      width: 400,
+      height: 200,
+      channels: 3,
+      background: { r: 200, g: 120, b: 40 },
+    },
+  })
+    .jpeg()
+    .withMetadata({ orientation: 6 })
+    .withExif({
+      IFD0: { Make: "Snapcam", Model: "X1" },
+      IFD2: { BodySerialNumber: "SN-0042" },
+      IFD3: { GPSLatitudeRef: "N", GPSLatitude: "51/1 30/1 0/1" },
+    })
+    .toBuffer();
+}
+
+test.describe("Image Metadata", () => {
+  let username: string;
+
+  test.beforeEach(async ({ request }) => {
+    username = await registerUser(request, "meta");
+  });
+
+  async function storedMetadata(fileId: string) {
+    const file = (await database.getFileById(fileId))!;
+    return await sharp(await readContent(file)).metadata();
+  }
+
+  async function accessLogs(fileId: string) {
+    const user = (await database.getUserByUsername(username))!;
+    return await database.getFileAccessLogs(user.id, fileId);
+  }
+
+  test("should strip metadata and rotate photos upright", async ({
+    request,
+  }) => {
+    const file = await uploadFile(request, {
+      name: "photo.jpg",
+      mimeType: "image/jpeg",
+      content: await photo(),
+    });
+    expect(file.imageMetadata).toEqual({
+      stripped: true,
+      kinds: ["exif", "gps"],
+      fields: [
+        "Make",
+        "Model",
+        "Orientation",
+        "BodySerialNumber",
+        "GPSLatitudeRef",
+        "GPSLatitude",
+      ],
+      orientation: 6,
+    });
+
+    const stored = await storedMetadata(file.id);
+    expect(stored.exif).toBeUndefined();
+    expect(stored.orientation).toBeUndefined();
+    expect(stored).toMatchObject({ format: "jpeg", width: 200, height: 400 });
+
+    const [log] = (await accessLogs(file.id)).filter(
+      (log) => log.action === "metadata_stripped",
+    );
+    expect(log.success).toBeTruthy();
+    expect(JSON.parse(log.details!)).toEqual({
+      kinds: file.imageMetadata.kinds,
+      fields: file.imageMetadata.fields,
+      orientation: 6,
+    });
+  });
+
+  test("should keep metadata when the uploader asks to", async ({
+    request,
+  }) => {
+    const file = await uploadFile(
+      request,
+      { name: "photo.jpg", mimeType: "image/jpeg", content: await photo() },
+      { keepMetadata: "true" },
+    );
+    expect(file.imageMetadata).toMatchObject({
+      stripped: false,
+      kinds: ["exif", "gps"],
+    });
+
+    const stored = await storedMetadata(file.id);
+    expect(listExifFields(stored.exif!)).toContain("GPSLatitude");
+    expect(stored).toMatchObject({ orientation: 6, width: 400, height: 200 });
+
+    const logs = await accessLogs(file.id);
+    expect(logs.some((log) => log.action === "metadata_stripped")).toBe(false);
+  });
+
+  test("should leave images without metadata alone", async ({ request }) => {
+    const buffer = await sharp({
+      create: {
+        width: 64,
+        height: 64,
+        channels: 3,
+        background: { r: 0, g: 0, b: 255 },
+      },
+    })
+      .png()
+      .toBuffer();
+    const file = await uploadFile(request, {
+      name: "plain.png",
+      mimeType: "image/png",
+      content: buffer,
+    });
+    expect(file.imageMetadata).toBeUndefined();
+    expect(file.size).toBe(buffer.length);
+
+    const logs = await accessLogs(file.id);
+    expect(logs.some((log) => log.action === "metadata_stripped")).toBe(false);
+  });
+
+  test("should list EXIF fields, tolerating malformed blocks", async () => {
+    const { exif } = await sharp(await photo()).metadata();
+    expect(listExifFields(exif!)).toContain("BodySerialNumber");
+    expect(listExifFields(exif!.subarray(6))).toContain("GPSLatitude");
+    expect(listExifFields(Buffer.from("Exif\0\0junk"))).toEqual([]);
+    expect(listExifFields(exif!.subarray(0, 40))).toEqual(expect.any(Array));
+  });
+});
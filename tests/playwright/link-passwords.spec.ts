@@ -0,0 +1,142 @@
+import { APIRequestContext } from "@playwright/test";
+import {
+  test,
+  expect,
+  visitorIP,
+  baseURL,
+  registerUser,
+  uploadFile,
+} from "./helpers";
+
+test.describe("Password-protected Links", () => {
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "lock");
+  });
+
+  async function uploadWithPassword(
+    request: APIRequestContext,
+    password: string,
+  ) {
+    const file = await uploadFile(request, {
+      name: "locked.txt",
+      content: "behind a password",
+    });
+
+    const response = await request.put(
+      `${baseURL}/api/files/link-password/${file.id}`,
+      { data: { password } },
+    );
+    expect(response.status()).toBe(200);
+    return file;
+  }
+
+  test("should require the password to open the link", async ({
+    request,
+  }) => {
+    const file = await uploadWithPassword(request, "open sesame");
+
+    const listing = await (await request.get(`${baseURL}/api/files/my`)).json();
+    expect(listing.files[0].passwordProtected).toBe(true);
+
+    const api = await request.get(`${baseURL}${file.url}`);
+    expect(api.status()).toBe(401);
+    const body = await api.json();
+    expect(body.unlockUrl).toBe(`/unlock/${file.accessToken}`);
+
+    const info = await request.get(`${baseURL}${file.url}?info=true`);
+    expect(info.status()).toBe(401);
+
+    // Browsers are sent to the unlock page
+    const browser = await request.get(`${baseURL}${file.url}`, {
+      headers: { Accept: "text/html" },
+      maxRedirects: 0,
+    });
+    expect(browser.status()).toBe(303);
+    expect(browser.headers()["location"]).toContain(body.unlockUrl);
+
+    const page = await request.get(`${baseURL}${body.unlockUrl}`);
+    expect(page.status()).toBe(200);
+  });
+
+  test("should unlock with the right password", async ({ request }) => {
+    const file = await uploadWithPassword(request, "open sesame");
+
+    const wrong = await request.post(
+      `${baseURL}/api/files/unlock/${file.accessToken}`,
+      { data: { password: "guess" } },
+    );
+    expect(wrong.status()).toBe(401);
+
+    const right = await request.post(
+      `${baseURL}/api/files/unlock/${file.accessToken}`,
+      { data: { password: "open sesame" } },
+    );
+    expect(right.status()).toBe(200);
+    const { url } = await right.json();
+    expect(url).toContain(`/api/files/secure/${file.id}`);
+
+    const download = await request.get(`${baseURL}${url}`);
+    expect(download.status()).toBe(200);
+    expect(await download.text()).toBe("behind a password");
+
+    const logs = await (
+      await request.get(`${baseURL}/api/files/access-logs?fileId=${file.id}`)
+    ).json();
+    const unlocks = logs.logs.filter((log: any) => log.action === "link_unlock");
+    expect(unlocks.map((log: any) => !!log.success).sort()).toEqual([
+      false,
+      true,
+    ]);
+  });
+
+  test("should rate limit unlock attempts", async ({ request }) => {
+    const file = await uploadWithPassword(request, "open sesame");
+    const unlock = (password: string, headers = {}) =>
+      request.post(`${baseURL}/api/files/unlock/${file.accessToken}`, {
+        data: { password },
+        headers,
+      });
+
+    for (let i = 0; i < 5; i++) {
+      expect((await unlock(`guess${i}`)).status()).toBe(401);
+    }
+    expect((await unlock("open sesame")).status()).toBe(429);
+
+    // Guesses spread over many addresses are limited per link too
+    for (let i = 0; i < 3; i++) {
+      const visitor = { "X-Forwarded-For": visitorIP() };
+      for (let j = 0; j < 5; j++) {
+        expect((await unlock("guess", visitor)).status()).toBe(401);
+      }
+    }
+    const another = await unlock("guess", {
+      "X-Forwarded-For": visitorIP(),
+    });
+    expect(another.status()).toBe(429);
+    expect(another.headers()["x-ratelimit-limit"]).toBe("20");
+  });
+
+  test("should validate and remove link passwords", async ({ request }) => {
+    const file = await uploadWithPassword(request, "open sesame");
+
+    const short = await request.put(
+      `${baseURL}/api/files/link-password/${file.id}`,
+      { data: { password: "abc" } },
+    );
+    expect(short.status()).toBe(400);
+
+    const removed = await request.delete(
+      `${baseURL}/api/files/link-password/${file.id}`,
+    );
+    expect(removed.status()).toBe(200);
+    expect((await request.get(`${baseURL}${file.url}`)).status()).toBe(200);
+
+    // Only the owner can set a password
+    await registerUser(request, "lock2");
+    const other = await request.put(
+      `${baseURL}/api/files/link-password/${file.id}`,
+      { data: { password: "taken over" } },
+    );
+    expect(other.status()).toBe(404);
+  });
+});
@@ -0,0 +1,265 @@
+import net from "net";
+import { Readable } from "stream";
+import { database } from "../../lib/database";
+import { uploadFile } from "../../lib/file-utils";
+import {
+  getScanBlock,
+  queueScan,
+  ClamAVScanner,
+  QUARANTINE_PREFIX,
+} from "../../lib/malware-scanning";
+import { test, expect, baseURL, registerUser } from "./helpers";
+
+const EICAR =
+  "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+
+// Replies wait for this, so tests can look at files while they're pending
+let held: Promise<void> = Promise.resolve();
+
+// A stand-in for clamd that speaks enough of its protocol to answer
+// zINSTREAM: chunks prefixed with their length, ended by an empty one
+function startFakeClamd(): Promise<net.Server> {
+  const server = net.createServer((socket) => {
+    let received = Buffer.alloc(0);
+    socket.on("data", (chunk) => {
+      received = Buffer.concat([received, chunk]);
+      const command = "zINSTREAM\0";
+      if (received.length < command.length) {
+        return;
+      }
+      if (received.subarray(0, command.length).toString() !== command) {
+        socket.end("UNKNOWN COMMAND\0");
+        return;
+      }
+
+      const parts: Buffer[] = [];
+      let offset = command.length;
+      while (offset + 4 <= received.length) {
+        const length = received.readUInt32BE(offset);
+        if (length === 0) {
+          const content = Buffer.concat(parts).toString("latin1");
+          held.then(() =>
+            socket.end(
+              content.includes(EICAR)
+                ? "stream: Eicar-Test-Signature FOUND\0"
+                : "stream: OK\0",
+            ),
+          );
+          return;
+        }
+        if (offset + 4 + length > received.length) {
+          return;
+        }
+        parts.push(received.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+      }
+    });
+    socket.on("error", () => {});
+  });
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server)),
+  );
+}
+
+test.describe("Malware Scanning", () => {
+  let clamd: net.Server;
+  let port: number;
+
+  test.beforeAll(async () => {
+    clamd = await startFakeClamd();
+    port = (clamd.address() as net.AddressInfo).port;
+  });
+
+  test.afterAll(async () => {
+    await new Promise((resolve) => clamd.close(resolve));
+    delete process.env.MALWARE_SCANNER;
+  });
+
+  test.beforeEach(() => {
+    process.env.MALWARE_SCANNER = "clamav";
+    process.env.CLAMAV_HOST = "127.0.0.1";
+    process.env.CLAMAV_PORT = String(port);
+  });
+
+  test("should talk to clamd over INSTREAM", async () => {
+    const scanner = new ClamAVScanner({ host: "127.0.0.1", port });
+
+    // Spans several chunks
+    const clean = Buffer.alloc(200 * 1024, "a");
+    expect(await scanner.scan(Readable.from([clean]))).toEqual({
+      infected: false,
+    });
+    expect(
+      await scanner.scan(Readable.from([clean, Buffer.from(EICAR)])),
+    ).toEqual({ infected: true, signature: "Eicar-Test-Signature" });
+
+    const unreachable = new ClamAVScanner({ host: "127.0.0.1", port: 1 });
+    await expect(
+      unreachable.scan(Readable.from([Buffer.from("x")])),
+    ).rejects.toThrow();
+  });
+
+  test.describe("uploads", () => {
+    let userId: string;
+
+    test.beforeEach(async ({ request }) => {
+      const username = await registerUser(request, "scan");
+      userId = (await database.getUserByUsername(username))!.id;
+    });
+
+    function upload(name: string, content: string) {
+      return uploadFile({
+        userId,
+        originalName: name,
+        buffer: Buffer.from(content),
+        mimeType: "text/plain",
+      });
+    }
+
+    test("should quarantine uploads until they're scanned clean", async ({
+      request,
+    }) => {
+      let release = () => {};
+      held = new Promise((resolve) => (release = resolve));
+      const content = `clean notes ${Date.now()}`;
+      const result = await upload("notes.txt", content);
+      expect(result.scanStatus).toBe("pending");
+
+      const blob = (await database.getBlob(result.contentHash))!;
+      expect(blob.storage_key.startsWith(QUARANTINE_PREFIX)).toBe(true);
+
+      const pending = await request.get(`${baseURL}${result.url}`);
+      expect(pending.status()).toBe(423);
+      expect((await pending.json()).scanStatus).toBe("pending");
+
+      release();
+      await queueScan(result.contentHash);
+
+      const scanned = (await database.getBlob(result.contentHash))!;
+      expect(scanned.scan_status).toBe("clean");
+      expect(scanned.storage_key).toBe(
+        blob.storage_key.substring(QUARANTINE_PREFIX.length),
+      );
+      const file = (await database.getFileById(result.id))!;
+      expect(file.scan_status).toBe("clean");
+      expect(file.upload_path).toBe(scanned.storage_key);
+
+      const download = await request.get(`${baseURL}${result.url}`);
+      expect(download.status()).toBe(200);
+      expect((await download.body()).toString()).toContain("clean notes");
+
+      const list = await request.get(`${baseURL}/api/files/my`);
+      const listed = (await list.json()).files.find(
+        (item: any) => item.id === result.id,
+      );
+      expect(listed.scanStatus).toBe("clean");
+
+      // The same bytes uploaded again don't give away that they're known
+      const again = await upload("copy.txt", content);
+      expect(again.scanStatus).toBe("pending");
+      await queueScan(again.contentHash);
+      expect((await database.getFileById(again.id))!.scan_status).toBe(
+        "clean",
+      );
+    });
+
+    test("should keep infected files quarantined and tell their owner", async ({
+      request,
+    }) => {
+      const result = await upload("eicar.txt", `${EICAR} ${Date.now()}`);
+      await queueScan(result.contentHash);
+
+      const blob = (await database.getBlob(result.contentHash))!;
+      expect(blob.scan_status).toBe("infected");
+      expect(blob.scan_signature).toBe("Eicar-Test-Signature");
+      expect(blob.storage_key.startsWith(QUARANTINE_PREFIX)).toBe(true);
+
+      const file = (await database.getFileById(result.id))!;
+      expect(file.scan_status).toBe("infected");
+      expect(getScanBlock(file)?.status).toBe(403);
+
+      const download = await request.get(`${baseURL}${result.url}`);
+      expect(download.status()).toBe(403);
+      expect((await download.json()).error).toBe(
+        "File is quarantined: malware was found",
+      );
+
+      const signed = await request.post(`${baseURL}/api/files/generate-url`, {
+        data: { fileId: result.id, action: "download" },
+      });
+      expect(signed.status()).toBe(200);
+      const secure = await request.get(`${baseURL}${(await signed.json()).url}`);
+      expect(secure.status()).toBe(403);
+
+      const logs = await database.getAuditLogs(userId);
+      const entry = logs.find(
+        (log) => log.action === "file_infected" && log.target_id === result.id,
+      );
+      expect(entry).toBeTruthy();
+      expect(entry!.user_id).toBeFalsy();
+      expect(JSON.parse(entry!.details!).signature).toBe(
+        "Eicar-Test-Signature",
+      );
+
+      const notifications = await request.get(
+        `${baseURL}/api/notifications?unread=true`,
+      );
+      expect(notifications.status()).toBe(200);
+      const [notification] = (await notifications.json()).notifications;
+      expect(notification.type).toBe("file_infected");
+      expect(notification.fileId).toBe(result.id);
+      expect(notification.message).toContain("eicar.txt");
+
+      const read = await request.post(`${baseURL}/api/notifications`, {
+        data: { ids: [notification.id] },
+      });
+      expect((await read.json()).updated).toBe(1);
+      const unread = await request.get(
+        `${baseURL}/api/notifications?unread=true`,
+      );
+      expect((await unread.json()).notifications).toEqual([]);
+    });
+
+    test("should notify every owner of shared infected content", async () => {
+      const content = `${EICAR} shared ${Date.now()}`;
+      const first = await upload("first.txt", content);
+      await queueScan(first.contentHash);
+
+      // Same bytes uploaded again are already known to be infected
+      const second = await upload("second.txt", content);
+      expect(second.scanStatus).toBe("pending");
+      await queueScan(second.contentHash);
+
+      expect((await database.getFileById(second.id))!.scan_status).toBe(
+        "infected",
+      );
+      const notifications = await database.getNotifications(userId);
+      expect(
+        notifications.filter((n) => n.type === "file_infected").map(
+          (n) => n.file_id,
+        ),
+      ).toEqual(expect.arrayContaining([first.id, second.id]));
+    });
+
+    test("should hold files back when the scanner can't be reached", async ({
+      request,
+    }) => {
+      process.env.CLAMAV_PORT = "1";
+      const result = await upload("later.txt", `unscanned ${Date.now()}`);
+      await queueScan(result.contentHash);
+
+      expect((await database.getBlob(result.contentHash))!.scan_status).toBe(
+        "error",
+      );
+      const download = await request.get(`${baseURL}${result.url}`);
+      expect(download.status()).toBe(423);
+
+      // Retried once the scanner is back
+      process.env.CLAMAV_PORT = String(port);
+      await queueScan(result.contentHash);
+      expect((await database.getFileById(result.id))!.scan_status).toBe(
+        "clean",
+      );
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { APIRequestContext } from "@playwright/test";
+import { test, expect, baseURL, registerUser } from "./helpers";
+
+const tusHeaders = { "Tus-Resumable": "1.0.0" };
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${Buffer.from(value).toString("base64")}`)
+    .join(",");
+}
+
+test.describe("Resumable Uploads (tus)", () => {
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "tus");
+  });
+
+  async function createUpload(
+    request: APIRequestContext,
+    length: number,
+    metadata: Record<string, string>,
+  ) {
+    return await request.post(`${baseURL}/api/files/uploads`, {
+      headers: {
+        ...tusHeaders,
+        "Upload-Length": length.toString(),
+        "Upload-Metadata": encodeMetadata(metadata),
+      },
+    });
+  }
+
+  async function patchChunk(
+    request: APIRequestContext,
+    location: string,
+    offset: number,
+    data: string,
+  ) {
+    return await request.patch(`${baseURL}${location}`, {
+      headers: {
+        ...tusHeaders,
+        "Upload-Offset": offset.toString(),
+        "Content-Type": "application/offset+octet-stream",
+      },
+      data: Buffer.from(data),
+    });
+  }
+
+  test("should advertise tus capabilities", async ({ request }) => {
+    const response = await request.fetch(`${baseURL}/api/files/uploads`, {
+      method: "OPTIONS",
+    });
+
+    expect(response.status()).toBe(204);
+    expect(response.headers()["tus-version"]).toBe("1.0.0");
+    expect(response.headers()["tus-extension"]).toContain("creation");
+    expect(response.headers()["tus-extension"]).toContain("termination");
+    expect(parseInt(response.headers()["tus-max-size"])).toBeGreaterThan(0);
+  });
+
+  test("should upload a file in chunks and resume from HEAD", async ({
+    request,
+  }) => {
+    const content = "first chunk|second chunk";
+    const created = await createUpload(request, content.length, {
+      filename: "chunked.txt",
+      filetype: "text/plain",
+      description: "Uploaded in pieces",
+    });
+    expect(created.status()).toBe(201);
+    const location = created.headers()["location"];
+    expect(location).toMatch(/^\/api\/files\/uploads\/[0-9a-f-]+$/);
+    expect(created.headers()["upload-expires"]).toBeTruthy();
+
+    const first = await patchChunk(request, location, 0, "first chunk|");
+    expect(first.status()).toBe(204);
+    expect(first.headers()["upload-offset"]).toBe("12");
+    expect(first.headers()["upload-file-url"]).toBeUndefined();
+
+    // A client that lost track of its position asks the server
+    const head = await request.head(`${baseURL}${location}`, {
+      headers: tusHeaders,
+    });
+    expect(head.status()).toBe(200);
+    expect(head.headers()["upload-offset"]).toBe("12");
+    expect(head.headers()["upload-length"]).toBe(content.length.toString());
+
+    const last = await patchChunk(request, location, 12, "second chunk");
+    expect(last.status()).toBe(204);
+    expect(last.headers()["upload-offset"]).toBe(content.length.toString());
+    const fileUrl = last.headers()["upload-file-url"];
+    expect(fileUrl).toMatch(/^\/api\/files\//);
+
+    const download = await request.get(`${baseURL}${fileUrl}`);
+    expect(download.status()).toBe(200);
+    expect(await download.text()).toBe(content);
+
+    const info = await request.get(`${baseURL}${fileUrl}?info=true`);
+    const data = await info.json();
+    expect(data.file.originalName).toBe("chunked.txt");
+    expect(data.file.description).toBe("Uploaded in pieces");
+  });
+
+  test("should reject chunks at the wrong offset", async ({ request }) => {
+    const created = await createUpload(request, 10, {
+      filename: "offset.txt",
+      filetype: "text/plain",
+    });
+    const location = created.headers()["location"];
+
+    const response = await patchChunk(request, location, 5, "12345");
+    expect(response.status()).toBe(409);
+  });
+
+  test("should validate uploads before accepting data", async ({
+    request,
+  }) => {
+    const badType = await createUpload(request, 10, {
+      filename: "program.exe",
+      filetype: "application/x-msdownload",
+    });
+    expect(badType.status()).toBe(415);
+
+    const tooLarge = await createUpload(request, 1024 * 1024 * 1024, {
+      filename: "huge.txt",
+      filetype: "text/plain",
+    });
+    expect(tooLarge.status()).toBe(413);
+
+    const noName = await createUpload(request, 10, { filetype: "text/plain" });
+    expect(noName.status()).toBe(400);
+  });
+
+  test("should require the Tus-Resumable header", async ({ request }) => {
+    const response = await request.post(`${baseURL}/api/files/uploads`, {
+      headers: { "Upload-Length": "10" },
+    });
+
+    expect(response.status()).toBe(412);
+    expect(response.headers()["tus-version"]).toBe("1.0.0");
+  });
+
+  test("should terminate an upload", async ({ request }) => {
+    const created = await createUpload(request, 10, {
+      filename: "abandoned.txt",
+      filetype: "text/plain",
+    });
+    const location = created.headers()["location"];
+
+    const terminated = await request.delete(`${baseURL}${location}`, {
+      headers: tusHeaders,
+    });
+    expect(terminated.status()).toBe(204);
+
+    const head = await request.head(`${baseURL}${location}`, {
+      headers: tusHeaders,
+    });
+    expect(head.status()).toBe(404);
+  });
+});
@@ -0,0 +1,247 @@
+import { APIRequestContext } from "@playwright/test";
+import { NextRequest } from "next/server";
+import { getClientIP } from "../../lib/client-ip";
+import {
+  test,
+  expect,
+  baseURL,
+  registerUser,
+  newUserContext,
+  uploadFile,
+} from "./helpers";
+
+test.describe("Share Links", () => {
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "link");
+  });
+
+  function upload(request: APIRequestContext) {
+    return uploadFile(request, {
+      name: "linked.txt",
+      content: "shared by link",
+    });
+  }
+
+  async function createLink(request: APIRequestContext, data: any) {
+    const response = await request.post(`${baseURL}/api/share-links`, {
+      data,
+    });
+    expect(response.status()).toBe(201);
+    return (await response.json()).link;
+  }
+
+  test("should give a file several independently revocable links", async ({
+    request,
+  }) => {
+    const file = await upload(request);
+
+    const first = await createLink(request, {
+      fileId: file.id,
+      label: "For the client",
+    });
+    const second = await createLink(request, {
+      fileId: file.id,
+      label: "For the team",
+    });
+    expect(first.url).not.toBe(second.url);
+    expect(first.allowedActions).toEqual(["download", "view", "info"]);
+
+    const listing = await (
+      await request.get(`${baseURL}/api/share-links?fileId=${file.id}`)
+    ).json();
+    expect(listing.links.map((link: any) => link.label).sort()).toEqual([
+      "For the client",
+      "For the team",
+    ]);
+
+    const download = await request.get(`${baseURL}${first.url}`);
+    expect(download.status()).toBe(200);
+    expect(await download.text()).toBe("shared by link");
+
+    const revoke = await request.delete(
+      `${baseURL}/api/share-links/${first.id}`,
+    );
+    expect(revoke.status()).toBe(200);
+    expect((await revoke.json()).link.revokedAt).not.toBeNull();
+
+    expect((await request.get(`${baseURL}${first.url}`)).status()).toBe(410);
+    expect((await request.get(`${baseURL}${second.url}`)).status()).toBe(200);
+
+    // The file's own access token link is unaffected
+    expect((await request.get(`${baseURL}${file.url}`)).status()).toBe(200);
+  });
+
+  test("should enforce download limits and allowed actions", async ({
+    request,
+  }) => {
+    const file = await upload(request);
+
+    const link = await createLink(request, {
+      fileId: file.id,
+      maxDownloads: 2,
+      allowedActions: ["download", "info"],
+    });
+
+    const view = await request.get(`${baseURL}${link.url}?action=view`);
+    expect(view.status()).toBe(403);
+
+    const info = await request.get(`${baseURL}${link.url}?action=info`);
+    expect(info.status()).toBe(200);
+    expect((await info.json()).link.downloadsRemaining).toBe(2);
+
+    for (let i = 0; i < 2; i++) {
+      const download = await request.get(`${baseURL}${link.url}`);
+      expect(download.status()).toBe(200);
+    }
+    const exhausted = await request.get(`${baseURL}${link.url}`);
+    expect(exhausted.status()).toBe(410);
+    expect((await exhausted.json()).error).toBe("Download limit reached");
+
+    // Raising the limit brings the link back
+    const updated = await request.patch(
+      `${baseURL}/api/share-links/${link.id}`,
+      { data: { maxDownloads: 3 } },
+    );
+    expect(updated.status()).toBe(200);
+    expect((await updated.json()).link.isActive).toBe(true);
+    expect((await request.get(`${baseURL}${link.url}`)).status()).toBe(200);
+  });
+
+  test("should restrict links to allowed addresses", async ({ request }) => {
+    const file = await upload(request);
+    const link = await createLink(request, {
+      fileId: file.id,
+      ipAllowlist: ["192.0.2.0/24", "2001:db8::1"],
+    });
+    expect(link.ipAllowlist).toEqual(["192.0.2.0/24", "2001:db8::1"]);
+
+    const inside = await request.get(`${baseURL}${link.url}`, {
+      headers: { "X-Forwarded-For": "192.0.2.55" },
+    });
+    expect(inside.status()).toBe(200);
+
+    const outside = await request.get(`${baseURL}${link.url}`, {
+      headers: { "X-Forwarded-For": "198.51.100.7" },
+    });
+    expect(outside.status()).toBe(403);
+
+    // Only the address the proxy appended counts, not those sent before it
+    const spoofed = await request.get(`${baseURL}${link.url}`, {
+      headers: { "X-Forwarded-For": "192.0.2.55, 198.51.100.7" },
+    });
+    expect(spoofed.status()).toBe(403);
+
+    const invalid = await request.post(`${baseURL}/api/share-links`, {
+      data: { fileId: file.id, ipAllowlist: ["10.0.0.0/33"] },
+    });
+    expect(invalid.status()).toBe(400);
+  });
+
+  test("should attribute access logs to the link used", async ({
+    request,
+  }) => {
+    const file = await upload(request);
+
+    const link = await createLink(request, {
+      fileId: file.id,
+      expiresIn: 1 / 3600, // one second, in hours
+    });
+    expect(
+      (await request.get(`${baseURL}${link.url}?action=view`)).status(),
+    ).toBe(200);
+
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect((await request.get(`${baseURL}${link.url}`)).status()).toBe(410);
+
+    const logs = await (
+      await request.get(`${baseURL}/api/files/access-logs?fileId=${file.id}`)
+    ).json();
+    const linkLogs = logs.logs.filter(
+      (log: any) => log.share_link_id === link.id,
+    );
+    expect(
+      linkLogs.map((log: any) => [log.action, !!log.success]).sort(),
+    ).toEqual([
+      ["link_download", false],
+      ["link_view", true],
+    ]);
+  });
+
+  test("should only let file managers manage links", async ({
+    request,
+    playwright,
+  }) => {
+    const file = await upload(request);
+    const link = await createLink(request, { fileId: file.id });
+
+    const { context: other } = await newUserContext(
+      playwright.request,
+      "link2",
+    );
+
+    expect(
+      (
+        await other.post(`${baseURL}/api/share-links`, {
+          data: { fileId: file.id },
+        })
+      ).status(),
+    ).toBe(404);
+    expect(
+      (await other.delete(`${baseURL}/api/share-links/${link.id}`)).status(),
+    ).toBe(404);
+    await other.dispose();
+
+    const invalid = await request.post(`${baseURL}/api/share-links`, {
+      data: { fileId: file.id, allowedActions: ["edit"] },
+    });
+    expect(invalid.status()).toBe(400);
+  });
+
+  test("should find the client address past trusted proxies", () => {
+    const clientIP = (peer: string | null, forwardedFor?: string) =>
+      getClientIP(
+        new NextRequest(`${baseURL}/api/links/token`, {
+          headers: {
+            ...(peer !== null && { "X-Peer-Address": peer }),
+            ...(forwardedFor && { "X-Forwarded-For": forwardedFor }),
+          },
+        }),
+      );
+
+    const previous = {
+      PEER_ADDRESS_HEADER: process.env.PEER_ADDRESS_HEADER,
+      TRUSTED_PROXIES: process.env.TRUSTED_PROXIES,
+    };
+    try {
+      // Without the server to set it, the peer header can't be believed
+      delete process.env.PEER_ADDRESS_HEADER;
+      delete process.env.TRUSTED_PROXIES;
+      expect(clientIP("192.0.2.55")).toBe("unknown");
+
+      process.env.PEER_ADDRESS_HEADER = "x-peer-address";
+      expect(clientIP("::ffff:192.0.2.55")).toBe("192.0.2.55");
+      expect(clientIP(null)).toBe("unknown");
+      // X-Forwarded-For is the client's own say without trusted proxies
+      expect(clientIP("192.0.2.55", "203.0.113.9")).toBe("192.0.2.55");
+
+      process.env.TRUSTED_PROXIES = "198.51.100.0/24, 2001:db8::1, bad";
+      expect(clientIP("192.0.2.55", "203.0.113.9")).toBe("192.0.2.55");
+      expect(
+        clientIP("198.51.100.7", "192.0.2.55, 203.0.113.9, 198.51.100.8"),
+      ).toBe("203.0.113.9");
+      expect(clientIP("2001:db8::1", "203.0.113.9, 198.51.100.8")).toBe(
+        "203.0.113.9",
+      );
+      // Requests from the proxies themselves come from them
+      expect(clientIP("198.51.100.7")).toBe("198.51.100.7");
+    } finally {
+      for (const [name, value] of Object.entries(previous)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+    }
+  });
+});
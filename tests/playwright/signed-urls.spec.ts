@@ -0,0 +1,151 @@
+import { APIRequestContext } from "@playwright/test";
+import {
+  test,
+  expect,
+  baseURL,
+  registerUser,
+  newUserContext,
+  uploadFile,
+} from "./helpers";
+
+test.describe("Signed URL Uses", () => {
+  test.beforeEach(async ({ request }) => {
+    await registerUser(request, "surl");
+  });
+
+  function upload(request: APIRequestContext) {
+    return uploadFile(request, {
+      name: "signed.txt",
+      content: "signed content",
+    });
+  }
+
+  async function generate(request: APIRequestContext, data: any) {
+    const response = await request.post(`${baseURL}/api/files/generate-url`, {
+      data,
+    });
+    expect(response.status()).toBe(200);
+    return await response.json();
+  }
+
+  test("should only allow a single-use URL once", async ({ request }) => {
+    const file = await upload(request);
+    const signed = await generate(request, {
+      fileId: file.id,
+      singleUse: true,
+    });
+    expect(signed.maxUses).toBe(1);
+
+    const first = await request.get(`${baseURL}${signed.url}`);
+    expect(first.status()).toBe(200);
+    expect(await first.text()).toBe("signed content");
+
+    const replay = await request.get(`${baseURL}${signed.url}`);
+    expect(replay.status()).toBe(403);
+    expect((await replay.json()).error).toBe(
+      "Signed URL has already been used",
+    );
+  });
+
+  test("should only count uses that serve the file", async ({ request }) => {
+    const file = await upload(request);
+    const signed = await generate(request, {
+      fileId: file.id,
+      singleUse: true,
+    });
+
+    // Neither a current cached copy nor an unsatisfiable range uses it up
+    const cached = await request.get(`${baseURL}${signed.url}`, {
+      headers: { "If-None-Match": `"${file.contentHash}"` },
+    });
+    expect(cached.status()).toBe(304);
+    const unsatisfiable = await request.get(`${baseURL}${signed.url}`, {
+      headers: { Range: "bytes=1000-" },
+    });
+    expect(unsatisfiable.status()).toBe(416);
+
+    const first = await request.get(`${baseURL}${signed.url}`);
+    expect(first.status()).toBe(200);
+    expect((await request.get(`${baseURL}${signed.url}`)).status()).toBe(403);
+  });
+
+  test("should not exceed maxUses under concurrent requests", async ({
+    request,
+  }) => {
+    const file = await upload(request);
+    const signed = await generate(request, { fileId: file.id, maxUses: 2 });
+
+    const responses = await Promise.all(
+      Array.from({ length: 4 }, () => request.get(`${baseURL}${signed.url}`)),
+    );
+    const statuses = responses.map((response) => response.status()).sort();
+    expect(statuses).toEqual([200, 200, 403, 403]);
+  });
+
+  test("should list and revoke outstanding URLs", async ({
+    request,
+    playwright,
+  }) => {
+    const file = await upload(request);
+    const kept = await generate(request, { fileId: file.id });
+    const revoked = await generate(request, { fileId: file.id });
+
+    expect((await request.get(`${baseURL}${kept.url}`)).status()).toBe(200);
+
+    const listing = await (
+      await request.get(`${baseURL}/api/files/signed-urls?fileId=${file.id}`)
+    ).json();
+    expect(listing.urls.map((url: any) => url.id)).toEqual([
+      revoked.id,
+      kept.id,
+    ]);
+    expect(listing.urls[1]).toMatchObject({
+      action: "download",
+      useCount: 1,
+      maxUses: null,
+      status: "active",
+    });
+
+    // Other users can't see or revoke the URLs
+    const { context: other } = await newUserContext(
+      playwright.request,
+      "surl2",
+    );
+    expect(
+      (
+        await other.get(`${baseURL}/api/files/signed-urls?fileId=${file.id}`)
+      ).status(),
+    ).toBe(404);
+    expect(
+      (
+        await other.delete(`${baseURL}/api/files/signed-urls/${revoked.id}`)
+      ).status(),
+    ).toBe(404);
+    await other.dispose();
+
+    const revoke = await request.delete(
+      `${baseURL}/api/files/signed-urls/${revoked.id}`,
+    );
+    expect(revoke.status()).toBe(200);
+
+    const refused = await request.get(`${baseURL}${revoked.url}`);
+    expect(refused.status()).toBe(403);
+    expect((await refused.json()).error).toBe("Signed URL has been revoked");
+    expect((await request.get(`${baseURL}${kept.url}`)).status()).toBe(200);
+
+    const active = await (
+      await request.get(
+        `${baseURL}/api/files/signed-urls?fileId=${file.id}&status=active`,
+      )
+    ).json();
+    expect(active.urls.map((url: any) => url.id)).toEqual([kept.id]);
+  });
+
+  test("should validate maxUses", async ({ request }) => {
+    const file = await upload(request);
+    const response = await request.post(`${baseURL}/api/files/generate-url`, {
+      data: { fileId: file.id, maxUses: 0 },
+    });
+    expect(response.status()).toBe(400);
+  });
+});
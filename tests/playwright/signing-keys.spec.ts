@@ -0,0 +1,95 @@
+import { APIRequestContext } from "@playwright/test";
+import { execFileSync } from "child_process";
+import {
+  test,
+  expect,
+  baseURL,
+  registerUser,
+  login,
+  uploadFile,
+} from "./helpers";
+
+// Runs the key management CLI against the server's database
+function keys(...args: string[]) {
+  execFileSync("node", ["scripts/signing-keys.js", ...args], {
+    stdio: "pipe",
+  });
+}
+
+function keyId(token: string): string {
+  const header = Buffer.from(token.split(".")[0], "base64url").toString();
+  return JSON.parse(header).kid;
+}
+
+async function sessionToken(context: APIRequestContext): Promise<string> {
+  const { cookies } = await context.storageState();
+  return cookies.find((cookie) => cookie.name === "snapvault_session")!.value;
+}
+
+function urlToken(url: string): string {
+  return new URL(url, baseURL).searchParams.get("token")!;
+}
+
+test.describe("Signing Keys", () => {
+  let username: string;
+
+  test.beforeEach(async ({ request }) => {
+    username = await registerUser(request, "keys");
+  });
+
+  async function signedUrl(request: APIRequestContext) {
+    const file = await uploadFile(request, {
+      name: "keyed.txt",
+      content: "keyed content",
+    });
+
+    const response = await request.post(`${baseURL}/api/files/generate-url`, {
+      data: { fileId: file.id },
+    });
+    expect(response.status()).toBe(200);
+    return (await response.json()).url;
+  }
+
+  test("should name the signing key in every token", async ({ request }) => {
+    expect(keyId(await sessionToken(request))).toBeTruthy();
+    expect(keyId(urlToken(await signedUrl(request)))).toBeTruthy();
+  });
+
+  test("should verify tokens from retired keys until their grace ends", async ({
+    request,
+    playwright,
+  }) => {
+    keys("rotate", "all");
+
+    // Sign in again so the session is signed with the key just made
+    const before = await playwright.request.newContext();
+    expect((await login(before, username)).status()).toBe(200);
+    const oldSessionKey = keyId(await sessionToken(before));
+    const oldUrl = await signedUrl(before);
+    const oldUrlKey = keyId(urlToken(oldUrl));
+
+    keys("rotate", "all");
+
+    // Tokens signed before the rotation keep working
+    expect((await before.get(`${baseURL}/api/auth/me`)).status()).toBe(200);
+    expect((await request.get(`${baseURL}${oldUrl}`)).status()).toBe(200);
+
+    const after = await playwright.request.newContext();
+    await login(after, username);
+    expect(keyId(await sessionToken(after))).not.toBe(oldSessionKey);
+    expect(keyId(urlToken(await signedUrl(after)))).not.toBe(oldUrlKey);
+
+    // Retiring the old keys refuses their tokens straight away
+    keys("retire", oldSessionKey);
+    keys("retire", oldUrlKey);
+
+    expect((await before.get(`${baseURL}/api/auth/me`)).status()).toBe(401);
+    const refused = await request.get(`${baseURL}${oldUrl}`);
+    expect(refused.status()).toBe(403);
+    expect((await refused.json()).error).toBe("Invalid signed URL");
+    expect((await after.get(`${baseURL}/api/auth/me`)).status()).toBe(200);
+
+    await before.dispose();
+    await after.dispose();
+  });
+});
@@ -0,0 +1,133 @@
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { LocalStorageAdapter, S3StorageAdapter, StorageAdapter } from "../../lib/storage";
+import { test, expect } from "./helpers";
+
+// Minimal in-memory stand-in for an S3-compatible server (MinIO style, path-style URLs)
+function startFakeS3(): Promise<{ server: http.Server; endpoint: string; objects: Map<string, Buffer> }> {
+  const objects = new Map<string, Buffer>();
+
+  const server = http.createServer((req, res) => {
+    const auth = req.headers["authorization"] || "";
+    if (!auth.startsWith("AWS4-HMAC-SHA256 Credential=test-key/")) {
+      res.writeHead(403).end();
+      return;
+    }
+
+    const key = decodeURIComponent(req.url || "");
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      const object = objects.get(key);
+      switch (req.method) {
+        case "PUT":
+          objects.set(key, Buffer.concat(chunks));
+          res.writeHead(200).end();
+          break;
+        case "GET":
+        case "HEAD":
+          if (!object) {
+            res.writeHead(404).end();
+            break;
+          }
+          res.writeHead(200, {
+            "Content-Length": object.length,
+            "Last-Modified": new Date().toUTCString(),
+          });
+          res.end(req.method === "GET" ? object : undefined);
+          break;
+        case "DELETE":
+          objects.delete(key);
+          res.writeHead(204).end();
+          break;
+        default:
+          res.writeHead(405).end();
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}`, objects });
+    });
+  });
+}
+
+async function exerciseAdapter(adapter: StorageAdapter) {
+  const key = "1700000000000_abcd1234_note.txt";
+  const content = Buffer.from("hello from snapvault");
+
+  expect(await adapter.exists(key)).toBe(false);
+  expect(await adapter.stat(key)).toBeNull();
+
+  await adapter.put(key, content);
+  expect(await adapter.exists(key)).toBe(true);
+  expect((await adapter.stat(key))?.size).toBe(content.length);
+  expect((await adapter.get(key)).toString()).toBe(content.toString());
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of await adapter.stream(key)) {
+    chunks.push(Buffer.from(chunk));
+  }
+  expect(Buffer.concat(chunks).toString()).toBe(content.toString());
+
+  await adapter.delete(key);
+  expect(await adapter.exists(key)).toBe(false);
+
+  // Streamed writes
+  const streamedParts = [Buffer.from("streamed "), Buffer.from("upload")];
+  await adapter.putStream(key, Readable.from(streamedParts), 15);
+  expect((await adapter.get(key)).toString()).toBe("streamed upload");
+  await adapter.delete(key);
+
+  // Deleting a missing object is not an error
+  await adapter.delete(key);
+}
+
+test.describe("Storage adapters", () => {
+  test("local adapter stores, reads and deletes files", async () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "snapvault-storage-"));
+    try {
+      await exerciseAdapter(new LocalStorageAdapter(rootDir));
+    } finally {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    }
+  });
+
+  test("local adapter rejects keys outside its root", async () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "snapvault-storage-"));
+    try {
+      const adapter = new LocalStorageAdapter(rootDir);
+      await expect(adapter.put("../escape.txt", Buffer.from("x"))).rejects.toThrow("Invalid storage key");
+    } finally {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    }
+  });
+
+  test("s3 adapter works against an S3-compatible server", async () => {
+    const { server, endpoint, objects } = await startFakeS3();
+    try {
+      const adapter = new S3StorageAdapter({
+        bucket: "snapvault",
+        region: "us-east-1",
+        accessKeyId: "test-key",
+        secretAccessKey: "test-secret",
+        endpoint,
+        forcePathStyle: true,
+      });
+
+      await adapter.put("probe.txt", Buffer.from("probe"));
+      expect(objects.has("/snapvault/probe.txt")).toBe(true);
+      await adapter.delete("probe.txt");
+
+      await exerciseAdapter(adapter);
+    } finally {
+      server.close();
+    }
+  });
+});
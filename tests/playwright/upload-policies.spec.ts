@@ -0,0 +1,208 @@
+import { APIRequestContext } from "@playwright/test";
+import { execFileSync } from "child_process";
+import sharp from "sharp";
+import { test, expect, baseURL, registerUser, postUpload } from "./helpers";
+
+// Runs the plans CLI against the server's database
+function plans(...args: string[]) {
+  execFileSync("node", ["scripts/plans.js", ...args], { stdio: "pipe" });
+}
+
+test.describe("Upload Policies", () => {
+  let username: string;
+  let planId: string;
+
+  test.beforeEach(async ({ request }) => {
+    username = await registerUser(request, "quota");
+    planId = `plan${Date.now()}`;
+  });
+
+  function upload(
+    request: APIRequestContext,
+    name: string,
+    mimeType: string,
+    content: Buffer,
+    fields: Record<string, string> = {},
+  ) {
+    return postUpload(request, { name, mimeType, content }, fields);
+  }
+
+  test("should expose usage against the plan's limits", async ({
+    request,
+  }) => {
+    const initial = await (await request.get(`${baseURL}/api/auth/me`)).json();
+    expect(initial.user.plan).toEqual({ id: "default", name: "Default" });
+    expect(initial.user.limits.allowedMimeTypes).toContain("image/png");
+    expect(initial.user.stats).toEqual({ fileCount: 0, storageUsed: 0 });
+
+    plans("set", planId, "--name", "Starter", "--quota", "1MB", "--max-files", "10");
+    plans("assign", username, planId);
+    expect(
+      (await upload(request, "a.txt", "text/plain", Buffer.from("hello")))
+        .status(),
+    ).toBe(201);
+
+    const me = await (await request.get(`${baseURL}/api/auth/me`)).json();
+    expect(me.user.plan).toEqual({ id: planId, name: "Starter" });
+    expect(me.user.limits).toMatchObject({
+      storageQuota: 1024 * 1024,
+      maxFileCount: 10,
+      maxExpiryHours: null,
+    });
+    expect(me.user.stats).toEqual({ fileCount: 1, storageUsed: 5 });
+  });
+
+  test("should reject files too large or of types the plan doesn't allow", async ({
+    request,
+  }) => {
+    plans("set", planId, "--max-file-size", "1KB", "--types", "text/plain");
+    plans("assign", username, planId);
+
+    const png = await sharp({
+      create: { width: 2, height: 2, channels: 3, background: "red" },
+    })
+      .png()
+      .toBuffer();
+    const unsupported = await upload(request, "dot.png", "image/png", png);
+    expect(unsupported.status()).toBe(415);
+    expect((await unsupported.json()).error).toBe(
+      "File type image/png is not allowed",
+    );
+
+    const large = await upload(
+      request,
+      "big.txt",
+      "text/plain",
+      Buffer.alloc(2048, "a"),
+    );
+    expect(large.status()).toBe(413);
+    expect((await large.json()).error).toContain("1 KB");
+
+    // Resumable uploads are checked when they're created
+    const resumable = await request.post(`${baseURL}/api/files/uploads`, {
+      headers: {
+        "Tus-Resumable": "1.0.0",
+        "Upload-Length": "2048",
+        "Upload-Metadata": `filename ${Buffer.from("big.txt").toString("base64")},filetype ${Buffer.from("text/plain").toString("base64")}`,
+      },
+    });
+    expect(resumable.status()).toBe(413);
+
+    expect(
+      (await upload(request, "small.txt", "text/plain", Buffer.from("ok")))
+        .status(),
+    ).toBe(201);
+
+    // A user's own limits win over their plan's
+    plans("limit", username, "--max-file-size", "4KB");
+    expect(
+      (await upload(request, "big.txt", "text/plain", Buffer.alloc(2048, "a")))
+        .status(),
+    ).toBe(201);
+    plans("limit", username, "--max-file-size", "default");
+    expect(
+      (await upload(request, "big.txt", "text/plain", Buffer.alloc(2048, "a")))
+        .status(),
+    ).toBe(413);
+  });
+
+  test("should enforce storage and file count quotas", async ({ request }) => {
+    plans("set", planId, "--quota", "100", "--max-files", "2");
+    plans("assign", username, planId);
+
+    const first = await upload(
+      request,
+      "first.txt",
+      "text/plain",
+      Buffer.alloc(60, "a"),
+    );
+    expect(first.status()).toBe(201);
+    const file = (await first.json()).files[0];
+
+    const full = await upload(
+      request,
+      "second.txt",
+      "text/plain",
+      Buffer.alloc(50, "b"),
+    );
+    expect(full.status()).toBe(507);
+    expect((await full.json()).error).toContain("Storage quota exceeded");
+
+    // New versions count too, as the old content is kept
+    const version = await request.post(
+      `${baseURL}/api/files/versions/${file.id}`,
+      {
+        multipart: {
+          file: {
+            name: "first.txt",
+            mimeType: "text/plain",
+            buffer: Buffer.alloc(50, "c"),
+          },
+        },
+      },
+    );
+    expect(version.status()).toBe(507);
+
+    expect(
+      (await upload(request, "b.txt", "text/plain", Buffer.from("b"))).status(),
+    ).toBe(201);
+    const tooMany = await upload(request, "c.txt", "text/plain", Buffer.from("c"));
+    expect(tooMany.status()).toBe(507);
+    expect((await tooMany.json()).error).toBe(
+      "File quota exceeded: your plan allows 2 files",
+    );
+
+    const resumable = await request.post(`${baseURL}/api/files/uploads`, {
+      headers: {
+        "Tus-Resumable": "1.0.0",
+        "Upload-Length": "1",
+        "Upload-Metadata": `filename ${Buffer.from("d.txt").toString("base64")},filetype ${Buffer.from("text/plain").toString("base64")}`,
+      },
+    });
+    expect(resumable.status()).toBe(507);
+  });
+
+  test("should not let concurrent uploads exceed a quota", async ({
+    request,
+  }) => {
+    plans("set", planId, "--quota", "100");
+    plans("assign", username, planId);
+
+    // Each upload passes the early check against an empty account
+    const responses = await Promise.all(
+      [..."abcde"].map((char) =>
+        upload(request, `${char}.txt`, "text/plain", Buffer.alloc(40, char)),
+      ),
+    );
+    const statuses = responses.map((response) => response.status()).sort();
+    expect(statuses).toEqual([201, 201, 507, 507, 507]);
+
+    const me = await (await request.get(`${baseURL}/api/auth/me`)).json();
+    expect(me.user.stats).toEqual({ fileCount: 2, storageUsed: 80 });
+  });
+
+  test("should cap how long files are kept", async ({ request }) => {
+    plans("set", planId, "--max-expiry", "24");
+    plans("assign", username, planId);
+
+    const tooLong = await upload(
+      request,
+      "a.txt",
+      "text/plain",
+      Buffer.from("a"),
+      { expiresIn: "168" },
+    );
+    expect(tooLong.status()).toBe(400);
+    expect((await tooLong.json()).error).toBe(
+      "Expiry of 168 hours exceeds the maximum of 24 hours for your plan",
+    );
+
+    // Files without an expiry get the plan's maximum
+    const response = await upload(request, "b.txt", "text/plain", Buffer.from("b"));
+    expect(response.status()).toBe(201);
+    const expiresAt = new Date((await response.json()).files[0].expiresAt);
+    const hours = (expiresAt.getTime() - Date.now()) / (60 * 60 * 1000);
+    expect(hours).toBeGreaterThan(23.9);
+    expect(hours).toBeLessThanOrEqual(24);
+  });
+});